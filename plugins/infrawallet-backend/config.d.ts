@@ -7,6 +7,60 @@ export interface Config {
         enabled?: boolean;
         schedule?: string;
         initialDelayMinutes?: number;
+        /**
+         * Minimal ratio between the number of cost items fetched for a period and the number of cost items already
+         * saved for it. Below it, the fetch is considered incomplete and the saved cost items are kept.
+         * @default 0.5
+         */
+        minReplacementRatio?: number;
+      };
+      /**
+       * Configuration for the forecasts of the monthly costs, they are made from the cost items saved by autoload.
+       */
+      forecast?: {
+        /**
+         * Whether to add the forecasts to the monthly cost reports.
+         * @default true
+         */
+        enabled?: boolean;
+        /**
+         * Number of months forecasted, starting from the current month.
+         * @default 12
+         */
+        months?: number;
+      };
+      /**
+       * Configuration for the cost anomaly detection, it runs after each autoload of the cost items.
+       */
+      anomalyDetection?: {
+        enabled?: boolean;
+        /**
+         * Detection method.
+         * - 'zscore': distance from the mean in standard deviations
+         * - 'mad': distance from the median in median absolute deviations, more robust to earlier spikes
+         * @default 'mad'
+         */
+        method?: 'zscore' | 'mad';
+        /**
+         * Number of previous days used as the baseline.
+         * @default 30
+         */
+        windowDays?: number;
+        /**
+         * Minimal score of an anomaly.
+         * @default 3.5
+         */
+        threshold?: number;
+        /**
+         * Number of recent days checked in each run.
+         * @default 7
+         */
+        lookbackDays?: number;
+        /**
+         * Minimal difference between the actual and the expected daily cost of an anomaly.
+         * @default 10
+         */
+        minCostDelta?: number;
       };
       /**
        * Configuration for category mappings datasource.
@@ -28,9 +82,83 @@ export interface Config {
          */
         target?: string;
       };
+      /**
+       * Configuration for the scheduled task that sends alerts when a budget is at risk.
+       */
+      budgetAlerts?: {
+        enabled?: boolean;
+        schedule?: string;
+        initialDelayMinutes?: number;
+        notifiers?: {
+          webhook?: {
+            name: string;
+            url: string;
+            /**
+             * @visibility secret
+             */
+            headers?: { [name: string]: string };
+          }[];
+          email?: {
+            name: string;
+            host: string;
+            port?: number;
+            secure?: boolean;
+            username?: string;
+            /**
+             * @visibility secret
+             */
+            password?: string;
+            from: string;
+            to: string[];
+          }[];
+          backstage?: {
+            name: string;
+            /**
+             * Entity refs of the users or groups to notify, the notification is broadcast if not set.
+             */
+            recipients?: string[];
+          }[];
+        };
+      };
+      /**
+       * Configuration for the costs of the catalog entities served by the /entities/costs route.
+       */
+      entityCosts?: {
+        /**
+         * Scheduled task refreshing the cached costs of all the annotated entities of the catalog.
+         */
+        precompute?: {
+          enabled?: boolean;
+          schedule?: string;
+          initialDelayMinutes?: number;
+          /**
+           * Number of months refreshed, including the current month. The entity card shows 3 months.
+           * @default 3
+           */
+          months?: number;
+        };
+      };
+      /**
+       * Configuration for the exchange rates used to convert costs into the wallet currency.
+       */
+      currencyRates?: {
+        /**
+         * Type of datasource.
+         * - 'database': the `currency_rates` table, managed with the `/currency-rates` API
+         * - 'file': load from a local JSON file such as {"base": "USD", "rates": {"EUR": 0.92}}
+         * @default 'database'
+         */
+        type?: 'database' | 'file';
+        /**
+         * Path of the rates file when type is 'file'.
+         */
+        target?: string;
+      };
       integrations: {
         azure?: {
           name: string;
+          wallet?: string;
+          currency?: string;
           subscriptionId: string;
           clientId: string;
           tenantId: string;
@@ -38,10 +166,20 @@ export interface Config {
            * @visibility secret
            */
           clientSecret: string;
+          /**
+           * Cost metric of the reports, the ActualCost or the AmortizedCost of Cost Management.
+           * @default actual
+           */
+          costMetric?: 'actual' | 'amortized';
+          /**
+           * Tags added to the cost reports as 'key:value', and tag keys without a value whose costs are stored split by tag value when autoload is enabled.
+           */
           tags?: string[];
         }[];
         aws?: {
           name: string;
+          wallet?: string;
+          currency?: string;
           accountId: string;
           assumedRoleName?: string;
           /**
@@ -56,6 +194,14 @@ export interface Config {
            * @visibility secret
            */
           accessKeySecret?: string; // Deprecated Use 'secretAccessKey' instead.
+          /**
+           * Cost metric of the reports, the amortized metrics spread the Savings Plans and Reserved Instances over the covered usage.
+           * @default unblended
+           */
+          costMetric?: 'unblended' | 'blended' | 'amortized' | 'net_amortized';
+          /**
+           * Tags added to the cost reports as 'key:value', and tag keys without a value whose costs are stored split by tag value when autoload is enabled.
+           */
           tags?: string[];
           filters?: [
             {
@@ -67,6 +213,8 @@ export interface Config {
         }[];
         gcp?: {
           name: string;
+          wallet?: string;
+          currency?: string;
           /**
            * @visibility secret
            */
@@ -74,10 +222,20 @@ export interface Config {
           projectId: string;
           datasetId: string;
           tableId: string;
+          /**
+           * Cost metric of the reports, net of the credits or gross without them.
+           * @default net
+           */
+          costMetric?: 'net' | 'gross';
+          /**
+           * Tags added to the cost reports as 'key:value', and tag keys without a value whose costs are stored split by tag value when autoload is enabled.
+           */
           tags?: string[];
         }[];
         confluent?: {
           name: string;
+          wallet?: string;
+          currency?: string;
           /**
            * @visibility secret
            */
@@ -90,6 +248,8 @@ export interface Config {
         }[];
         mongoatlas?: {
           name: string;
+          wallet?: string;
+          currency?: string;
           orgId: string;
           /**
            * @visibility secret
@@ -103,6 +263,8 @@ export interface Config {
         }[];
         datadog?: {
           name: string;
+          wallet?: string;
+          currency?: string;
           /**
            * @visibility secret
            */
@@ -122,6 +284,8 @@ export interface Config {
         }[];
         elasticcloud?: {
           name: string;
+          wallet?: string;
+          currency?: string;
           organizationId: string;
           /**
            * @visibility secret
@@ -138,6 +302,8 @@ export interface Config {
         }[];
         github?: {
           name: string;
+          wallet?: string;
+          currency?: string;
           organization: string;
           /**
            * @visibility secret
@@ -146,6 +312,8 @@ export interface Config {
         }[];
         kubecost?: {
           name: string;
+          wallet?: string;
+          currency?: string;
           baseUrl: string;
           /**
            * API version to use for the Kubecost endpoint.
@@ -177,8 +345,72 @@ export interface Config {
             },
           ];
         }[];
+        file?: {
+          name: string;
+          wallet?: string;
+          /**
+           * The currency of the costs when the files do not have a currency column.
+           */
+          currency?: string;
+          /**
+           * Format of the files.
+           * - 'focus': FinOps FOCUS columns, they can be overridden with `columns`
+           * - 'csv': any CSV file, `columns` is required
+           * @default 'focus'
+           */
+          format?: 'focus' | 'csv';
+          /**
+           * Where the .csv and .csv.gz files are read from.
+           * - 'local': all the files of a local directory
+           * - 's3': all the files under a prefix of an S3 bucket, `endpoint` and `forcePathStyle` allow S3-compatible storages such as MinIO
+           */
+          source: {
+            type: 'local' | 's3';
+            path?: string;
+            bucket?: string;
+            prefix?: string;
+            region?: string;
+            endpoint?: string;
+            forcePathStyle?: boolean;
+            accessKeyId?: string;
+            /**
+             * @visibility secret
+             */
+            secretAccessKey?: string;
+          };
+          /**
+           * Names of the columns to read.
+           */
+          columns?: {
+            date?: string;
+            cost?: string;
+            account?: string;
+            service?: string;
+            category?: string;
+            currency?: string;
+            vendor?: string;
+          };
+          /**
+           * Moment.js format of the date column, ISO 8601 if not set.
+           */
+          dateFormat?: string;
+          delimiter?: string;
+          /**
+           * Tags kept in the reports, keys of the FOCUS `Tags` column or names of CSV columns.
+           */
+          tags?: string[];
+          filters?: [
+            {
+              type: string;
+              attribute: string;
+              pattern: string;
+            },
+          ];
+        }[];
         mock?: {
           name: string;
+          wallet?: string;
+          currency?: string;
         }[];
       };
       metricProviders?: {
@@ -203,6 +435,26 @@ export interface Config {
            */
           token: string;
         }[];
+        prometheus?: {
+          name: string;
+          /**
+           * base URL of the Prometheus HTTP API, e.g., https://thanos-query.example.com
+           */
+          url: string;
+          /**
+           * username of the basic authentication, ignored if a token is set
+           */
+          username?: string;
+          /**
+           * @visibility secret
+           */
+          password?: string;
+          /**
+           * bearer token
+           * @visibility secret
+           */
+          token?: string;
+        }[];
         mock?: {
           name: string;
         }[];
@@ -0,0 +1,24 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('currency_rates', table => {
+    table.comment('Exchange rates used to convert costs into the currency of a wallet');
+    table.uuid('id').defaultTo(knex.fn.uuid()).primary().notNullable().comment('Auto-generated ID of a rate');
+    table.string('currency').notNullable().unique().comment('The ISO 4217 code of the currency, such as EUR');
+    table
+      .decimal('rate', 20, 10)
+      .notNullable()
+      .comment('How many units of this currency equal one unit of the base currency (USD)');
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).comment('When the rate was last updated');
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('currency_rates');
+};
@@ -0,0 +1,24 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('budget_alerts', table => {
+    table.comment('Budget alerts that have been sent, used to avoid sending the same alert twice');
+    table.uuid('id').defaultTo(knex.fn.uuid()).primary().notNullable().comment('Auto-generated ID of an alert');
+    table.uuid('budget_id').notNullable().comment('The ID of the budget that triggered this alert');
+    table.string('period').notNullable().comment('The budget year of the alert, format YYYY');
+    table.string('status').notNullable().comment('The health status of the budget, either warning or critical');
+    table.decimal('utilization', 12).notNullable().comment('The budget utilization in percent when the alert was sent');
+    table.timestamp('notified_at').defaultTo(knex.fn.now()).comment('When the alert was sent');
+    table.unique(['budget_id', 'period', 'status']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('budget_alerts');
+};
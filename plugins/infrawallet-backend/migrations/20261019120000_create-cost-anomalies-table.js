@@ -0,0 +1,31 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('cost_anomalies', table => {
+    table.comment('Daily costs that deviate from the rolling baseline of their account and service');
+    table.uuid('id').defaultTo(knex.fn.uuid()).primary().notNullable().comment('Auto-generated ID of an anomaly');
+    table.uuid('wallet_id').notNullable().comment('The ID of the wallet that the cost items belong to');
+    table.string('provider').notNullable().comment('Cloud provider name, such as AWS, Azure, etc.');
+    table.string('account').notNullable().comment('The account of the cost items');
+    table.string('service').notNullable().comment('The service of the cost items');
+    table.integer('usage_date').notNullable().comment('The day of the anomaly, format YYYYMMDD');
+    table.decimal('cost', 12).notNullable().comment('The actual cost of the day');
+    table.decimal('expected_cost', 12).notNullable().comment('The baseline cost of the day');
+    table.decimal('score', 12).notNullable().comment('The deviation from the baseline, z-score or MAD score');
+    table.string('method').notNullable().comment('The detection method, either zscore or mad');
+    table.string('currency').comment('The currency of the costs as reported by the provider');
+    table.timestamp('detected_at').defaultTo(knex.fn.now()).comment('When the anomaly was detected');
+    table.unique(['wallet_id', 'provider', 'account', 'service', 'usage_date']);
+    table.index(['wallet_id', 'usage_date']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('cost_anomalies');
+};
@@ -0,0 +1,34 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('audit_events', table => {
+    table.comment('History of the changes made through the InfraWallet API');
+    table.uuid('id').defaultTo(knex.fn.uuid()).primary().notNullable().comment('Auto-generated ID of an event');
+    table
+      .string('actor')
+      .notNullable()
+      .comment('The entity ref of the user or the subject of the service who made the change');
+    table.string('action').notNullable().comment('The action, such as create, update, delete or fetch');
+    table
+      .string('entity_type')
+      .notNullable()
+      .comment('The type of the changed entity, such as budget, custom_cost or wallet');
+    table.string('entity_id').comment('The ID or the name of the changed entity, can be blank');
+    table.string('wallet_name').comment('The name of the wallet that the entity belongs to, can be blank');
+    table.json('before').comment('The entity before the change in json format, blank if it is created');
+    table.json('after').comment('The entity after the change in json format, blank if it is deleted');
+    table.timestamp('created_at').defaultTo(knex.fn.now()).comment('When the change was made');
+    table.index(['created_at']);
+    table.index(['entity_type', 'created_at']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('audit_events');
+};
@@ -0,0 +1,32 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('ingestion_runs', table => {
+    table.comment('History of the autoload runs, one run per wallet, integration and granularity');
+    table.uuid('id').defaultTo(knex.fn.uuid()).primary().notNullable().comment('Auto-generated ID of a run');
+    table.uuid('wallet_id').notNullable().comment('The ID of the wallet that the cost items are saved in');
+    table.string('provider').notNullable().comment('Cloud provider name, such as AWS, Azure, etc.');
+    table.string('integration').notNullable().comment('The name of the integration in the configuration');
+    table.string('granularity').notNullable().comment('The granularity of the saved cost items, daily or monthly');
+    table.timestamp('started_at').notNullable().comment('When the run started');
+    table.timestamp('finished_at').notNullable().comment('When the run finished');
+    table.string('status').notNullable().comment('The result of the run, either succeeded or failed');
+    table.integer('rows_written').notNullable().defaultTo(0).comment('The number of cost item rows saved by the run');
+    table
+      .json('summary')
+      .comment('The transformation summary counters in json format, blank if the costs were read from the cache');
+    table.text('error').comment('The error messages of the run, blank if it succeeded');
+    table.index(['wallet_id', 'finished_at']);
+    table.index(['wallet_id', 'provider', 'integration', 'granularity', 'status']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('ingestion_runs');
+};
@@ -0,0 +1,30 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('backfill_jobs', table => {
+    table.comment('On-demand backfills of the cost items of a provider in a period');
+    table.uuid('id').defaultTo(knex.fn.uuid()).primary().notNullable().comment('Auto-generated ID of a job');
+    table.uuid('wallet_id').notNullable().comment('The ID of the wallet that the cost items are saved in');
+    table.string('provider').notNullable().comment('Cloud provider name, such as AWS, Azure, etc.');
+    table.string('integration').comment('The name of the integration re-fetched from the provider, blank for all');
+    table.string('granularity').notNullable().comment('The granularity of the saved cost items, daily or monthly');
+    table.timestamp('start_time').notNullable().comment('The start of the backfilled period');
+    table.timestamp('end_time').notNullable().comment('The end of the backfilled period');
+    table.string('status').notNullable().comment('The status of the job, either running, succeeded or failed');
+    table.string('requested_by').comment('The user entity ref or the service subject that requested the job');
+    table.text('error').comment('The error messages of the job, blank if it succeeded');
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable().comment('When the job was requested');
+    table.timestamp('finished_at').comment('When the job finished, blank while it is running');
+    table.index(['wallet_id', 'created_at']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('backfill_jobs');
+};
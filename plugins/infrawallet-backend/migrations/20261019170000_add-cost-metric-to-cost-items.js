@@ -0,0 +1,33 @@
+const COST_ITEM_TABLES = [
+  'cost_items_daily',
+  'cost_items_monthly',
+  'cost_items_by_tag_daily',
+  'cost_items_by_tag_monthly',
+];
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function up(knex) {
+  for (const tableName of COST_ITEM_TABLES) {
+    await knex.schema.alterTable(tableName, table => {
+      table
+        .string('cost_metric')
+        .nullable()
+        .comment('The cost metric of the integration, such as unblended or amortized, empty for the older records');
+    });
+  }
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function down(knex) {
+  for (const tableName of COST_ITEM_TABLES) {
+    await knex.schema.alterTable(tableName, table => {
+      table.dropColumn('cost_metric');
+    });
+  }
+};
@@ -0,0 +1,32 @@
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.up = async function up(knex) {
+  await knex.schema.createTable('allocation_rules', table => {
+    table.comment('Rules splitting the shared costs of a wallet across the teams or the products using them');
+    table.uuid('id').defaultTo(knex.fn.uuid()).primary().notNullable().comment('Auto-generated ID of a rule');
+    table.uuid('wallet_id').notNullable().comment('The ID of the wallet that the rule is applied to');
+    table.string('name').notNullable().comment('The name of the rule, it is the service of the allocated costs');
+    table
+      .text('source_filters')
+      .notNullable()
+      .comment('The filters selecting the shared costs, in the syntax of the filters of the reports');
+    table
+      .string('method')
+      .notNullable()
+      .comment('The split method, either fixed, proportional_cost or proportional_metric');
+    table.json('targets').notNullable().comment('The targets of the split and their percentages, filters or metrics');
+    table.timestamp('created_at').defaultTo(knex.fn.now()).notNullable().comment('When the rule was created');
+    table.timestamp('updated_at').defaultTo(knex.fn.now()).notNullable().comment('When the rule was last updated');
+    table.unique(['wallet_id', 'name']);
+  });
+};
+
+/**
+ * @param { import("knex").Knex } knex
+ * @returns { Promise<void> }
+ */
+exports.down = async function down(knex) {
+  await knex.schema.dropTableIfExists('allocation_rules');
+};
@@ -1,12 +1,5 @@
 import { DatabaseService } from '@backstage/backend-plugin-api';
-import { MetricSetting, Wallet } from '../service/types';
-
-export async function getWallet(database: DatabaseService, walletName: string): Promise<Wallet | undefined> {
-  const client = await database.getClient();
-  const result = await client<Wallet>('wallets').where('name', walletName).first();
-
-  return result;
-}
+import { MetricSetting } from '../service/types';
 
 export async function getWalletMetricSettings(database: DatabaseService, walletName: string): Promise<MetricSetting[]> {
   const client = await database.getClient();
@@ -39,7 +32,9 @@ export async function deleteWalletMetricSetting(
   walletSetting: MetricSetting,
 ): Promise<boolean> {
   const client = await database.getClient();
-  const result: number = await client('business_metrics').where('id', walletSetting.id).del();
+  const result: number = await client('business_metrics')
+    .where({ id: walletSetting.id, wallet_id: walletSetting.wallet_id })
+    .del();
 
   if (result > 0) {
     return true;
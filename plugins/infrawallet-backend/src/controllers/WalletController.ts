@@ -0,0 +1,73 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+import { Wallet } from '../service/types';
+
+export async function getWallet(database: DatabaseService, walletName: string): Promise<Wallet | undefined> {
+  const client = await database.getClient();
+  const result = await client<Wallet>('wallets').where('name', walletName).first();
+
+  return result;
+}
+
+export async function getWallets(database: DatabaseService): Promise<Wallet[]> {
+  const client = await database.getClient();
+  const wallets = await client<Wallet>('wallets').select('*').orderBy('name');
+
+  return wallets;
+}
+
+export async function createWallet(database: DatabaseService, wallet: Omit<Wallet, 'id'>): Promise<Wallet | undefined> {
+  const client = await database.getClient();
+  await client('wallets').insert({
+    name: wallet.name,
+    currency: wallet.currency,
+    description: wallet.description,
+  });
+
+  return await getWallet(database, wallet.name);
+}
+
+export async function updateWallet(
+  database: DatabaseService,
+  walletName: string,
+  wallet: Partial<Omit<Wallet, 'id' | 'name'>>,
+): Promise<boolean> {
+  const client = await database.getClient();
+  const result: number = await client('wallets').where('name', walletName).update({
+    currency: wallet.currency,
+    description: wallet.description,
+  });
+
+  return result > 0;
+}
+
+// Delete a wallet together with everything that references it
+export async function deleteWallet(database: DatabaseService, walletName: string): Promise<boolean> {
+  const client = await database.getClient();
+
+  return await client.transaction(async trx => {
+    const wallet = await trx<Wallet>('wallets').where('name', walletName).first();
+    if (wallet === undefined) {
+      return false;
+    }
+
+    // the alerts reference the budgets of the wallet
+    await trx('budget_alerts').whereIn('budget_id', trx('budgets').select('id').where('wallet_id', wallet.id)).del();
+    for (const table of [
+      'budgets',
+      'business_metrics',
+      'cost_items_daily',
+      'cost_items_monthly',
+      'cost_anomalies',
+      'cost_items_by_tag_daily',
+      'cost_items_by_tag_monthly',
+      'ingestion_runs',
+      'backfill_jobs',
+      'allocation_rules',
+    ]) {
+      await trx(table).where('wallet_id', wallet.id).del();
+    }
+    await trx('wallets').where('id', wallet.id).del();
+
+    return true;
+  });
+}
@@ -4,10 +4,16 @@ import {
   Expression,
   GetCostAndUsageCommand,
   GetCostAndUsageCommandInput,
+  GetCostForecastCommand,
+  GetCostForecastCommandInput,
+  GetDimensionValuesCommand,
+  GetDimensionValuesCommandInput,
   GetTagsCommand,
   GetTagsCommandInput,
   Granularity,
+  GroupDefinition,
   GroupDefinitionType,
+  Metric,
 } from '@aws-sdk/client-cost-explorer';
 import { AssumeRoleCommand, STSClient } from '@aws-sdk/client-sts';
 import { CacheService, DatabaseService, LoggerService } from '@backstage/backend-plugin-api';
@@ -15,13 +21,21 @@ import { Config } from '@backstage/config';
 import { reduce } from 'lodash';
 import moment from 'moment';
 import { CategoryMappingService } from '../service/CategoryMappingService';
-import { CLOUD_PROVIDER, PROVIDER_TYPE } from '../service/consts';
-import { getBillingPeriod, parseCost, parseTags } from '../service/functions';
-import { CostQuery, Report, TagsQuery } from '../service/types';
+import { CLOUD_PROVIDER, COST_METRIC, PROVIDER_TYPE } from '../service/consts';
+import { getBillingPeriod, parseCost, parseGroups, parseTags } from '../service/functions';
+import { CostQuery, Report, ReportGroup, TagsQuery } from '../service/types';
 import { InfraWalletClient } from './InfraWalletClient';
 import { AWSGetCostAndUsageResponseSchema, AWSGetTagsResponseSchema } from '../schemas/AWSBilling';
 import { ZodError } from 'zod';
 
+// metrics of the cost forecasts by the names of the cost metrics
+const FORECAST_METRICS: Record<string, Metric> = {
+  UnblendedCost: Metric.UNBLENDED_COST,
+  BlendedCost: Metric.BLENDED_COST,
+  AmortizedCost: Metric.AMORTIZED_COST,
+  NetAmortizedCost: Metric.NET_AMORTIZED_COST,
+};
+
 export class AwsClient extends InfraWalletClient {
   private readonly accounts: Map<string, string> = new Map();
 
@@ -29,6 +43,10 @@ export class AwsClient extends InfraWalletClient {
     return new AwsClient(CLOUD_PROVIDER.AWS, config, database, cache, logger);
   }
 
+  protected supportsTagGroups(): boolean {
+    return true;
+  }
+
   protected convertServiceName(serviceName: string): string {
     let convertedName = serviceName;
 
@@ -151,7 +169,7 @@ export class AwsClient extends InfraWalletClient {
       } catch (error) {
         if (error instanceof ZodError) {
           this.logger.warn(`AWS tags response validation failed: ${error.message}`);
-          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.errors.slice(0, 3))}`);
+          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.issues.slice(0, 3))}`);
         } else {
           this.logger.warn(`Unexpected validation error: ${(error as Error).message}`);
         }
@@ -174,7 +192,7 @@ export class AwsClient extends InfraWalletClient {
     _integrationConfig: Config,
     client: any,
     query: TagsQuery,
-  ): Promise<{ tagKeys: string[]; provider: CLOUD_PROVIDER }> {
+  ): Promise<{ tagKeys: string[]; provider: string }> {
     const tagKeys = await this._fetchTags(client, query);
     return { tagKeys: tagKeys, provider: this.provider };
   }
@@ -184,16 +202,82 @@ export class AwsClient extends InfraWalletClient {
     client: any,
     query: TagsQuery,
     tagKey: string,
-  ): Promise<{ tagValues: string[]; provider: CLOUD_PROVIDER }> {
+  ): Promise<{ tagValues: string[]; provider: string }> {
     const tagValues = await this._fetchTags(client, query, tagKey);
     return { tagValues: tagValues, provider: this.provider };
   }
 
-  protected async fetchCosts(_integrationConfig: Config, client: any, query: CostQuery): Promise<any> {
-    // query this aws account's cost and usage using @aws-sdk/client-cost-explorer
-    let costAndUsageResults: any[] = [];
+  // Get the IDs of the linked accounts passing the integration filters
+  private async _fetchFilteredAccountIds(integrationConfig: Config, client: any, query: CostQuery): Promise<string[]> {
+    const accountIds: string[] = [];
     let nextPageToken = undefined;
-    let filterExpression: Expression = { Dimensions: { Key: Dimension.RECORD_TYPE, Values: ['Usage'] } };
+
+    do {
+      const input: GetDimensionValuesCommandInput = {
+        TimePeriod: {
+          Start: moment(parseInt(query.startTime, 10)).format('YYYY-MM-DD'),
+          End: moment(parseInt(query.endTime, 10)).format('YYYY-MM-DD'),
+        },
+        Dimension: Dimension.LINKED_ACCOUNT,
+        Context: 'COST_AND_USAGE',
+        NextPageToken: nextPageToken,
+      };
+      const response = await client.send(new GetDimensionValuesCommand(input));
+
+      for (const dimensionValue of response.DimensionValues ?? []) {
+        const accountId = dimensionValue.Value;
+        const accountName = dimensionValue.Attributes?.description || accountId;
+        this.accounts.set(accountId, accountName);
+        if (this.evaluateIntegrationFilters(accountName, integrationConfig)) {
+          accountIds.push(accountId);
+        }
+      }
+
+      nextPageToken = response.NextPageToken;
+    } while (nextPageToken);
+
+    return accountIds;
+  }
+
+  private getGroupDefinition(group: ReportGroup): GroupDefinition {
+    switch (group.type) {
+      case 'region':
+        return { Type: GroupDefinitionType.DIMENSION, Key: Dimension.REGION };
+      case 'usage_type':
+        return { Type: GroupDefinitionType.DIMENSION, Key: Dimension.USAGE_TYPE };
+      default:
+        return { Type: GroupDefinitionType.TAG, Key: group.key };
+    }
+  }
+
+  // Get the name of the Cost Explorer metric, such as UnblendedCost, see COST_METRIC
+  private getMetricName(query: CostQuery): string {
+    switch (query.costMetric) {
+      case COST_METRIC.BLENDED:
+        return 'BlendedCost';
+      case COST_METRIC.AMORTIZED:
+        return 'AmortizedCost';
+      case COST_METRIC.NET_AMORTIZED:
+        return 'NetAmortizedCost';
+      default:
+        return 'UnblendedCost';
+    }
+  }
+
+  // Get the record types of the cost metric, the credits, refunds and taxes are never included
+  private getRecordTypes(query: CostQuery): string[] {
+    if (query.costMetric === COST_METRIC.AMORTIZED || query.costMetric === COST_METRIC.NET_AMORTIZED) {
+      // the amortized costs of the commitments are reported on the covered usage, the unused part on the fees
+      return ['Usage', 'DiscountedUsage', 'SavingsPlanCoveredUsage', 'RIFee', 'SavingsPlanRecurringFee'];
+    }
+    return ['Usage'];
+  }
+
+  // Get the filter of the usage records with the tags of the query
+  private getFilterExpression(query: CostQuery): Expression {
+    const filterExpression: Expression = {
+      Dimensions: { Key: Dimension.RECORD_TYPE, Values: this.getRecordTypes(query) },
+    };
     const tags = parseTags(query.tags);
     if (tags.length) {
       let tagsExpression: Expression = {};
@@ -212,7 +296,70 @@ export class AwsClient extends InfraWalletClient {
         tagsExpression = { Or: tagList };
       }
 
-      filterExpression = { And: [filterExpression, tagsExpression] };
+      return { And: [filterExpression, tagsExpression] };
+    }
+
+    return filterExpression;
+  }
+
+  protected supportsForecast(): boolean {
+    return true;
+  }
+
+  protected async fetchForecast(integrationConfig: Config, client: any, query: CostQuery): Promise<number | null> {
+    let filterExpression = this.getFilterExpression(query);
+    // the linked accounts are not part of the forecast, so the integration filters are applied in the query
+    if (integrationConfig.getOptionalConfigArray('filters')?.length) {
+      const accountIds = await this._fetchFilteredAccountIds(integrationConfig, client, query);
+      if (accountIds.length === 0) {
+        return null;
+      }
+      filterExpression = {
+        And: [filterExpression, { Dimensions: { Key: Dimension.LINKED_ACCOUNT, Values: accountIds } }],
+      };
+    }
+
+    // a forecast cannot start in the past, the costs until yesterday are already in the reports
+    const input: GetCostForecastCommandInput = {
+      TimePeriod: {
+        Start: moment().format('YYYY-MM-DD'),
+        End: moment().add(1, 'month').startOf('month').format('YYYY-MM-DD'),
+      },
+      Granularity: Granularity.MONTHLY,
+      Metric: FORECAST_METRICS[this.getMetricName(query)],
+      Filter: filterExpression,
+    };
+    const response = await client.send(new GetCostForecastCommand(input));
+    const amount = response.Total?.Amount;
+
+    return amount === undefined ? null : parseCost(amount);
+  }
+
+  protected async fetchCosts(integrationConfig: Config, client: any, query: CostQuery): Promise<any> {
+    // query this aws account's cost and usage using @aws-sdk/client-cost-explorer
+    let costAndUsageResults: any[] = [];
+    let nextPageToken = undefined;
+    let filterExpression = this.getFilterExpression(query);
+
+    // Cost Explorer accepts at most two GroupBy keys, when the costs are split by another dimension
+    // the linked account is replaced by it and the integration filters are applied in the query
+    const group = parseGroups(query.groups);
+    let groupBy: GroupDefinition[] = [
+      { Type: GroupDefinitionType.DIMENSION, Key: Dimension.LINKED_ACCOUNT },
+      { Type: GroupDefinitionType.DIMENSION, Key: Dimension.SERVICE },
+    ];
+    if (group) {
+      groupBy = [{ Type: GroupDefinitionType.DIMENSION, Key: Dimension.SERVICE }, this.getGroupDefinition(group)];
+
+      if (integrationConfig.getOptionalConfigArray('filters')?.length) {
+        const accountIds = await this._fetchFilteredAccountIds(integrationConfig, client, query);
+        if (accountIds.length === 0) {
+          return [];
+        }
+        filterExpression = {
+          And: [filterExpression, { Dimensions: { Key: Dimension.LINKED_ACCOUNT, Values: accountIds } }],
+        };
+      }
     }
 
     do {
@@ -223,11 +370,8 @@ export class AwsClient extends InfraWalletClient {
         },
         Granularity: query.granularity.toUpperCase() as Granularity,
         Filter: filterExpression,
-        GroupBy: [
-          { Type: GroupDefinitionType.DIMENSION, Key: Dimension.LINKED_ACCOUNT },
-          { Type: GroupDefinitionType.DIMENSION, Key: Dimension.SERVICE },
-        ],
-        Metrics: ['UnblendedCost'],
+        GroupBy: groupBy,
+        Metrics: [this.getMetricName(query)],
         NextPageToken: nextPageToken,
       };
 
@@ -240,14 +384,14 @@ export class AwsClient extends InfraWalletClient {
       } catch (error) {
         if (error instanceof ZodError) {
           this.logger.warn(`AWS cost and usage response validation failed: ${error.message}`);
-          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.errors.slice(0, 3))}`);
+          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.issues.slice(0, 3))}`);
         } else {
           this.logger.warn(`Unexpected validation error: ${(error as Error).message}`);
         }
       }
 
       // get AWS account names
-      for (const accountAttributes of costAndUsageResponse.DimensionValueAttributes) {
+      for (const accountAttributes of costAndUsageResponse.DimensionValueAttributes ?? []) {
         const accountId = accountAttributes.Value;
         const accountName = accountAttributes.Attributes.description;
         this.accounts.set(accountId, accountName);
@@ -266,11 +410,17 @@ export class AwsClient extends InfraWalletClient {
     costResponse: any,
   ): Promise<Report[]> {
     const categoryMappingService = CategoryMappingService.getInstance();
+    const integrationName = integrationConfig.getString('name');
+    const metricName = this.getMetricName(query);
+    const group = parseGroups(query.groups);
     const tags = integrationConfig.getOptionalStringArray('tags');
     const tagKeyValues: { [key: string]: string } = {};
     tags?.forEach(tag => {
       const [k, v] = tag.split(':');
-      tagKeyValues[k.trim()] = v.trim();
+      // tags without a value are tag keys stored with the cost items
+      if (k && v) {
+        tagKeyValues[k.trim()] = v.trim();
+      }
     });
 
     // Initialize tracking variables
@@ -297,19 +447,29 @@ export class AwsClient extends InfraWalletClient {
         period = getBillingPeriod(query.granularity, rowTime, 'YYYY-MM-DD');
 
         if (row.Groups) {
-          row.Groups.forEach((group: any) => {
-            const accountId = group.Keys ? group.Keys[0] : '';
-            const accountName = this.accounts.get(accountId) || accountId;
-            const serviceName = group.Keys ? group.Keys[1] : '';
-            const groupMetrics = group.Metrics;
+          row.Groups.forEach((costGroup: any) => {
+            const keys: string[] = costGroup.Keys ?? [];
+            const groupMetrics = costGroup.Metrics;
+            let accountId = keys[0] ?? '';
+            let accountName = this.accounts.get(accountId) || accountId;
+            let serviceName = keys[1] ?? '';
+            let groupValue = '';
+            if (group) {
+              // the linked account is not part of the keys, the costs are reported under the integration
+              accountId = integrationConfig.getString('accountId');
+              accountName = integrationName;
+              serviceName = keys[0] ?? '';
+              // tag keys are returned as "key$value", the value is empty if the resource does not have the tag
+              groupValue = group.type === 'tag' ? (keys[1] ?? '').split('$').slice(1).join('$') : keys[1] ?? '';
+            }
 
             // Check for missing fields
-            if (!accountId || !serviceName || !groupMetrics?.UnblendedCost?.Amount) {
+            if (!accountId || !serviceName || !groupMetrics?.[metricName]?.Amount) {
               filteredOutMissingFields++;
               return;
             }
 
-            const amount = parseCost(groupMetrics.UnblendedCost.Amount);
+            const amount = parseCost(groupMetrics[metricName].Amount);
 
             // Check for zero amount
             if (amount === 0) {
@@ -317,11 +477,12 @@ export class AwsClient extends InfraWalletClient {
               return;
             }
 
-            if (!this.evaluateIntegrationFilters(accountName, integrationConfig)) {
+            // the integration filters are already part of the query when the costs are split
+            if (!group && !this.evaluateIntegrationFilters(accountName, integrationConfig)) {
               return;
             }
 
-            const keyName = `${accountId}_${serviceName}`;
+            const keyName = group ? `${accountId}_${serviceName}_${groupValue}` : `${accountId}_${serviceName}`;
 
             if (!accumulator[keyName]) {
               uniqueKeys.add(keyName);
@@ -333,7 +494,9 @@ export class AwsClient extends InfraWalletClient {
                 provider: this.provider,
                 providerType: PROVIDER_TYPE.INTEGRATION,
                 reports: {},
+                currency: groupMetrics[metricName].Unit,
                 ...tagKeyValues,
+                ...(group ? { [group.column]: groupValue } : {}),
               };
             }
 
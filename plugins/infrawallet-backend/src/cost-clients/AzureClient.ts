@@ -6,9 +6,9 @@ import { Config } from '@backstage/config';
 import { reduce } from 'lodash';
 import moment from 'moment';
 import { CategoryMappingService } from '../service/CategoryMappingService';
-import { CLOUD_PROVIDER, GRANULARITY, PROVIDER_TYPE } from '../service/consts';
-import { getBillingPeriod, parseCost, parseTags } from '../service/functions';
-import { CostQuery, Report, TagsQuery } from '../service/types';
+import { CLOUD_PROVIDER, COST_METRIC, GRANULARITY, PROVIDER_TYPE } from '../service/consts';
+import { getBillingPeriod, parseCost, parseGroups, parseTags } from '../service/functions';
+import { CostQuery, Report, ReportGroup, TagsQuery } from '../service/types';
 import { InfraWalletClient } from './InfraWalletClient';
 import { AzureBillingResponseSchema } from '../schemas/AzureBilling';
 import { ZodError } from 'zod';
@@ -18,6 +18,10 @@ export class AzureClient extends InfraWalletClient {
     return new AzureClient(CLOUD_PROVIDER.AZURE, config, database, cache, logger);
   }
 
+  protected supportsTagGroups(): boolean {
+    return true;
+  }
+
   protected convertServiceName(serviceName: string): string {
     let convertedName = serviceName;
 
@@ -55,7 +59,7 @@ export class AzureClient extends InfraWalletClient {
         } catch (error) {
           if (error instanceof ZodError) {
             this.logger.warn(`Azure billing response validation failed: ${error.message}`);
-            this.logger.debug(`Sample validation errors: ${JSON.stringify(error.errors.slice(0, 3))}`);
+            this.logger.debug(`Sample validation errors: ${JSON.stringify(error.issues.slice(0, 3))}`);
           } else {
             this.logger.warn(`Unexpected validation error: ${(error as Error).message}`);
           }
@@ -134,7 +138,7 @@ export class AzureClient extends InfraWalletClient {
     subAccountConfig: Config,
     client: any,
     query: TagsQuery,
-  ): Promise<{ tagKeys: string[]; provider: CLOUD_PROVIDER }> {
+  ): Promise<{ tagKeys: string[]; provider: string }> {
     const tagKeys = await this._fetchTags(subAccountConfig, client, query, '');
     return { tagKeys: tagKeys, provider: this.provider };
   }
@@ -144,17 +148,30 @@ export class AzureClient extends InfraWalletClient {
     client: any,
     query: TagsQuery,
     tagKey: string,
-  ): Promise<{ tagValues: string[]; provider: CLOUD_PROVIDER }> {
+  ): Promise<{ tagValues: string[]; provider: string }> {
     const tagValues = await this._fetchTags(subAccountConfig, client, query, tagKey);
     return { tagValues: tagValues, provider: this.provider };
   }
 
-  protected async fetchCosts(subAccountConfig: Config, client: any, query: CostQuery): Promise<any> {
-    // Azure SDK doesn't support pagination, so sending HTTP request directly
-    const subscriptionId = subAccountConfig.getString('subscriptionId');
-    const url = `https://management.azure.com/subscriptions/${subscriptionId}/providers/Microsoft.CostManagement/query?api-version=2023-11-01`;
-
+  private getGroupPairs(group?: ReportGroup): { type: string; name: string }[] {
     const groupPairs = [{ type: 'Dimension', name: 'ServiceName' }];
+    if (group?.type === 'region') {
+      groupPairs.push({ type: 'Dimension', name: 'ResourceLocation' });
+    } else if (group?.type === 'usage_type') {
+      groupPairs.push({ type: 'Dimension', name: 'Meter' });
+    } else if (group?.type === 'tag') {
+      groupPairs.push({ type: 'TagKey', name: group.key as string });
+    }
+    return groupPairs;
+  }
+
+  // Get the type of the Cost Management query of the cost metric, see COST_METRIC
+  private getQueryType(query: CostQuery): 'ActualCost' | 'AmortizedCost' {
+    return query.costMetric === COST_METRIC.AMORTIZED ? 'AmortizedCost' : 'ActualCost';
+  }
+
+  // Get the filter of the tags of the query, undefined if no tag is given
+  private getTagsFilter(query: CostQuery): QueryFilter | undefined {
     let filter: QueryFilter | undefined = undefined;
     const tags = parseTags(query.tags);
     if (tags.length) {
@@ -174,14 +191,66 @@ export class AzureClient extends InfraWalletClient {
         filter = { or: tagList };
       }
     }
+    return filter;
+  }
+
+  protected supportsForecast(): boolean {
+    return true;
+  }
+
+  protected async fetchForecast(subAccountConfig: Config, client: any, query: CostQuery): Promise<number | null> {
+    const subscriptionId = subAccountConfig.getString('subscriptionId');
+    const url = `https://management.azure.com/subscriptions/${subscriptionId}/providers/Microsoft.CostManagement/forecast?api-version=2023-03-01`;
+
+    // the costs until yesterday are already in the reports, so the actual costs are not included
+    const forecastDefinition = {
+      type: this.getQueryType(query),
+      dataset: {
+        granularity: 'Daily',
+        aggregation: { totalCostUSD: { name: 'CostUSD', function: 'Sum' } },
+        filter: this.getTagsFilter(query),
+      },
+      timeframe: 'Custom',
+      timePeriod: {
+        from: moment().startOf('day').toDate(),
+        to: moment().endOf('month').toDate(),
+      },
+      includeActualCost: false,
+      includeFreshPartialCost: false,
+    };
+
+    /*
+      Daily forecast sample:
+        [
+          12.3456,
+          20240407,  // UsageDate
+          "Forecast",
+          "USD"
+        ]
+    */
+    const result = await this.fetchDataWithRetry(client, url, forecastDefinition);
+    const rows: any[][] = result.properties?.rows ?? [];
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return parseCost(rows.reduce((sum, row) => sum + (row[0] ?? 0), 0));
+  }
+
+  protected async fetchCosts(subAccountConfig: Config, client: any, query: CostQuery): Promise<any> {
+    // Azure SDK doesn't support pagination, so sending HTTP request directly
+    const subscriptionId = subAccountConfig.getString('subscriptionId');
+    const url = `https://management.azure.com/subscriptions/${subscriptionId}/providers/Microsoft.CostManagement/query?api-version=2023-11-01`;
+
+    const groupPairs = this.getGroupPairs(parseGroups(query.groups));
 
     const queryDefinition: QueryDefinition = {
-      type: 'ActualCost',
+      type: this.getQueryType(query),
       dataset: {
         granularity: query.granularity,
         aggregation: { totalCostUSD: { name: 'CostUSD', function: 'Sum' } },
         grouping: groupPairs,
-        filter: filter,
+        filter: this.getTagsFilter(query),
       },
       timeframe: 'Custom',
       timePeriod: {
@@ -218,16 +287,24 @@ export class AzureClient extends InfraWalletClient {
           "Azure App Service",
           "EUR"
         ]
+
+      Grouping by a tag key adds two columns after the service name, the tag key and the tag value,
+      grouping by a dimension adds one column.
     */
     const categoryMappingService = CategoryMappingService.getInstance();
     const accountName = subAccountConfig.getString('name');
     const subscriptionId = subAccountConfig.getString('subscriptionId');
-    const groupPairs = [{ type: 'Dimension', name: 'ServiceName' }];
+    const group = parseGroups(query.groups);
+    // number of columns between the date and the currency
+    const groupColumns = this.getGroupPairs(group).reduce((count, pair) => count + (pair.type === 'TagKey' ? 2 : 1), 0);
     const tags = subAccountConfig.getOptionalStringArray('tags');
     const tagKeyValues: { [key: string]: string } = {};
     tags?.forEach(tag => {
       const [k, v] = tag.split(':');
-      tagKeyValues[k.trim()] = v.trim();
+      // tags without a value are tag keys stored with the cost items
+      if (k && v) {
+        tagKeyValues[k.trim()] = v.trim();
+      }
     });
     // Initialize tracking variables
     let processedRecords = 0;
@@ -244,6 +321,7 @@ export class AzureClient extends InfraWalletClient {
         const cost = row[0];
         let date = row[1];
         const serviceName = row[2];
+        const groupValue = group ? row[groupColumns + 1] ?? '' : '';
 
         // Check for missing fields
         if (cost === undefined || cost === null || !date || !serviceName) {
@@ -264,10 +342,7 @@ export class AzureClient extends InfraWalletClient {
           date = getBillingPeriod(query.granularity, date.toString(), 'YYYYMMDD');
         }
 
-        let keyName = accountName;
-        for (let i = 0; i < groupPairs.length; i++) {
-          keyName += `->${row[i + 2]}`;
-        }
+        const keyName = group ? `${accountName}->${serviceName}->${groupValue}` : `${accountName}->${serviceName}`;
 
         if (!accumulator[keyName]) {
           uniqueKeys.add(keyName);
@@ -279,7 +354,9 @@ export class AzureClient extends InfraWalletClient {
             provider: this.provider,
             providerType: PROVIDER_TYPE.INTEGRATION,
             reports: {},
+            currency: row[groupColumns + 2],
             ...tagKeyValues,
+            ...(group ? { [group.column]: groupValue } : {}),
           };
         }
 
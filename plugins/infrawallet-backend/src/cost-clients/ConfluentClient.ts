@@ -139,7 +139,7 @@ export class ConfluentClient extends InfraWalletClient {
       } catch (error) {
         if (error instanceof ZodError) {
           this.logger.warn(`Confluent billing response validation failed: ${error.message}`);
-          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.errors.slice(0, 3))}`);
+          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.issues.slice(0, 3))}`);
         } else {
           this.logger.warn(`Unexpected validation error: ${(error as Error).message}`);
         }
@@ -3,13 +3,15 @@ import { Config } from '@backstage/config';
 import { reduce } from 'lodash';
 import moment from 'moment';
 import { getCustomCostsByDateRange } from '../models/CustomCost';
-import { CACHE_CATEGORY, CLOUD_PROVIDER, PROVIDER_TYPE, GRANULARITY } from '../service/consts';
 import {
-  getDailyPeriodStringsForOneMonth,
-  getDefaultCacheTTL,
-  getReportsFromCache,
-  setReportsToCache,
-} from '../service/functions';
+  CACHE_CATEGORY,
+  CLOUD_PROVIDER,
+  DEFAULT_CURRENCY,
+  DEFAULT_WALLET_NAME,
+  PROVIDER_TYPE,
+  GRANULARITY,
+} from '../service/consts';
+import { getDailyPeriodStringsForOneMonth, getReportsFromCache, setReportsToCache } from '../service/functions';
 import { ClientResponse, CloudProviderError, CostQuery, Report } from '../service/types';
 import { InfraWalletClient } from './InfraWalletClient';
 import { CustomCostRecordSchema } from '../schemas/CustomProviderBilling';
@@ -45,7 +47,7 @@ export class CustomProviderClient extends InfraWalletClient {
       } catch (error) {
         if (error instanceof ZodError) {
           this.logger.warn(`Custom cost records validation failed: ${error.message}`);
-          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.errors.slice(0, 3))}`);
+          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.issues.slice(0, 3))}`);
         } else {
           this.logger.warn(`Unexpected validation error: ${(error as Error).message}`);
         }
@@ -91,7 +93,12 @@ export class CustomProviderClient extends InfraWalletClient {
           periodFormat = 'YYYY-MM-DD';
         }
 
-        const keyName = `${record.provider}-${record.account}-${record.service}`;
+        const currency = (record.currency ?? DEFAULT_CURRENCY).toUpperCase();
+        // costs in different currencies cannot be summed up before being converted
+        const keyName =
+          currency === DEFAULT_CURRENCY
+            ? `${record.provider}-${record.account}-${record.service}`
+            : `${record.provider}-${record.account}-${record.service}-${currency}`;
 
         // make it compatible with SQLite database
         if (typeof record.tags === 'string') {
@@ -113,6 +120,7 @@ export class CustomProviderClient extends InfraWalletClient {
             provider: record.provider,
             providerType: PROVIDER_TYPE.CUSTOM,
             reports: {},
+            currency: currency,
           };
         }
 
@@ -163,10 +171,15 @@ export class CustomProviderClient extends InfraWalletClient {
   }
 
   // override this method so that we do not read from the config file
-  async getCostReports(query: CostQuery): Promise<ClientResponse> {
+  async getCostReports(query: CostQuery, walletName: string = DEFAULT_WALLET_NAME): Promise<ClientResponse> {
     const results: Report[] = [];
     const errors: CloudProviderError[] = [];
 
+    // custom costs are not assigned to wallets, they are only reported in the default wallet
+    if (walletName !== DEFAULT_WALLET_NAME) {
+      return { reports: results, errors: errors };
+    }
+
     // first check if there is any cached
     const cachedCosts = await getReportsFromCache(this.cache, this.provider, 'custom', query);
     if (cachedCosts) {
@@ -188,7 +201,7 @@ export class CustomProviderClient extends InfraWalletClient {
         this.provider,
         'custom',
         query,
-        getDefaultCacheTTL(CACHE_CATEGORY.COSTS, this.provider),
+        this.getCacheTTL(CACHE_CATEGORY.COSTS),
       );
 
       transformedReports.forEach((value: any) => {
@@ -146,7 +146,7 @@ export class DatadogClient extends InfraWalletClient {
         } catch (error) {
           if (error instanceof ZodError) {
             this.logger.warn(`Datadog historical cost response validation failed: ${error.message}`);
-            this.logger.debug(`Sample validation errors: ${JSON.stringify(error.errors.slice(0, 3))}`);
+            this.logger.debug(`Sample validation errors: ${JSON.stringify(error.issues.slice(0, 3))}`);
           } else {
             this.logger.warn(`Unexpected validation error: ${(error as Error).message}`);
           }
@@ -178,7 +178,7 @@ export class DatadogClient extends InfraWalletClient {
       } catch (error) {
         if (error instanceof ZodError) {
           this.logger.warn(`Datadog estimated cost response validation failed: ${error.message}`);
-          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.errors.slice(0, 3))}`);
+          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.issues.slice(0, 3))}`);
         } else {
           this.logger.warn(`Unexpected validation error: ${(error as Error).message}`);
         }
@@ -98,7 +98,7 @@ export class ElasticCloudClient extends InfraWalletClient {
       } catch (error) {
         if (error instanceof ZodError) {
           this.logger.warn(
-            `Request parameters didn't match schema for GetChartsRequest: ${JSON.stringify(error.errors)}`,
+            `Request parameters didn't match schema for GetChartsRequest: ${JSON.stringify(error.issues)}`,
           );
         } else {
           this.logger.warn(`Unexpected validation error: ${(error as Error).message}`);
@@ -0,0 +1,282 @@
+/**
+ * @file FileClient.test.ts
+ * @description Tests for the FileClient cost integration reading billing files from a local directory.
+ *
+ * This test suite validates:
+ * - Reading: .csv and .csv.gz files are parsed, the other files are ignored
+ * - Period: the rows and the files out of the period of the query are skipped
+ * - Data transformation: FOCUS and mapped CSV rows → InfraWallet reports
+ * - Report keys: the rows with different tags are never merged
+ *
+ * @module FileClient.test
+ */
+
+import { ConfigReader } from '@backstage/config';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+
+// Mock the consts module to break circular dependency (consts imports all clients)
+jest.mock('../service/consts', () => ({
+  CLOUD_PROVIDER: {
+    FILE: 'File',
+  },
+  GRANULARITY: {
+    DAILY: 'daily',
+    MONTHLY: 'monthly',
+  },
+  PROVIDER_TYPE: {
+    INTEGRATION: 'Integration',
+    CUSTOM: 'Custom',
+  },
+  COST_CLIENT_MAPPINGS: {},
+  METRIC_PROVIDER_MAPPINGS: {},
+  CACHE_CATEGORY: {
+    COSTS: 'costs',
+    TAGS: 'tags',
+    METRICS: 'metrics',
+    CATEGORY_MAPPINGS: 'category_mappings',
+  },
+  DEFAULT_WALLET_NAME: 'default',
+}));
+
+jest.mock('../service/CategoryMappingService', () => ({
+  CategoryMappingService: {
+    getInstance: () => ({
+      getCategoryByServiceName: (_provider: any, serviceName: any) => `category-${serviceName}`,
+    }),
+    initInstance: jest.fn(),
+  },
+}));
+
+jest.mock('../controllers/WalletController', () => ({
+  getWallet: jest.fn(),
+}));
+jest.mock('../models/CostItem', () => ({
+  bulkInsertCostItems: jest.fn(),
+  countCostItems: jest.fn(),
+  getCostItems: jest.fn(),
+  CostItem: {},
+}));
+jest.mock('../service/functions', () => ({
+  getDefaultCacheTTL: jest.fn().mockReturnValue(7200000),
+  getReportsFromCache: jest.fn().mockResolvedValue(undefined),
+  logTransformationSummary: jest.fn(),
+  parseCost: (value: any) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? Math.round(parsed * 100) / 100 : 0;
+  },
+  setReportsToCache: jest.fn(),
+}));
+
+import { FileClient } from './FileClient';
+import { CostQuery } from '../service/types';
+
+// ─── Test Helpers ────────────────────────────────────────────────────────────
+
+function createTestClient(): any {
+  return FileClient.create(
+    new ConfigReader({}),
+    {} as any,
+    { get: jest.fn(), set: jest.fn() } as any,
+    {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    } as any,
+  );
+}
+
+// January and February 2024
+function createQuery(granularity: 'daily' | 'monthly' = 'monthly'): CostQuery {
+  return {
+    filters: '',
+    tags: '',
+    groups: '',
+    granularity: granularity as any,
+    startTime: Date.parse('2024-01-01T00:00:00Z').toString(),
+    endTime: Date.parse('2024-02-29T23:59:59Z').toString(),
+  };
+}
+
+async function fetchReports(client: any, integrationConfig: ConfigReader, query: CostQuery): Promise<any[]> {
+  const rows = await client.fetchCosts(integrationConfig, null, query);
+  return client.transformCostsData(integrationConfig, query, rows);
+}
+
+const FOCUS_HEADER = 'ChargePeriodStart,BilledCost,BillingCurrency,SubAccountName,ServiceName,ProviderName,Tags';
+
+function focusRow(date: string, cost: number, service: string, tags: Record<string, string> = {}): string {
+  return [date, cost, 'USD', 'payments', service, 'Snowflake', `"${JSON.stringify(tags).replace(/"/g, '""')}"`].join(
+    ',',
+  );
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('FileClient', () => {
+  let client: any;
+  let directory: string;
+
+  beforeEach(() => {
+    client = createTestClient();
+    directory = mkdtempSync(join(tmpdir(), 'infrawallet-file-client-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const focusConfig = (tags?: string[]) =>
+    new ConfigReader({ name: 'billing', source: { type: 'local', path: directory }, ...(tags ? { tags } : {}) });
+
+  describe('FOCUS files', () => {
+    it('should read the .csv and .csv.gz files and ignore the other files', async () => {
+      writeFileSync(join(directory, 'a.csv'), [FOCUS_HEADER, focusRow('2024-01-10', 10, 'Compute')].join('\n'));
+      writeFileSync(
+        join(directory, 'b.csv.gz'),
+        gzipSync([FOCUS_HEADER, focusRow('2024-01-20', 5, 'Compute')].join('\n')),
+      );
+      writeFileSync(join(directory, 'readme.txt'), 'not a billing file');
+
+      const reports = await fetchReports(client, focusConfig(), createQuery());
+
+      expect(reports).toHaveLength(1);
+      expect(reports[0]).toMatchObject({
+        account: 'Snowflake/payments',
+        service: 'Snowflake/Compute',
+        category: 'category-Compute',
+        provider: 'File',
+        currency: 'USD',
+        reports: { '2024-01': 15 },
+      });
+    });
+
+    it('should keep the configured tags of the Tags column', async () => {
+      writeFileSync(
+        join(directory, 'a.csv'),
+        [FOCUS_HEADER, focusRow('2024-01-10', 10, 'Compute', { team: 'payments', env: 'prod' })].join('\n'),
+      );
+
+      const reports = await fetchReports(client, focusConfig(['team']), createQuery());
+
+      expect(reports[0].team).toBe('payments');
+      expect(reports[0].env).toBeUndefined();
+    });
+
+    it('should not merge the rows with different tag keys', async () => {
+      writeFileSync(
+        join(directory, 'a.csv'),
+        [
+          FOCUS_HEADER,
+          focusRow('2024-01-10', 10, 'Compute', { team: 'payments' }),
+          focusRow('2024-01-10', 20, 'Compute', { owner: 'payments' }),
+        ].join('\n'),
+      );
+
+      const reports = await fetchReports(client, focusConfig(['team', 'owner']), createQuery());
+
+      expect(reports).toHaveLength(2);
+      expect(reports.map(report => report.reports['2024-01']).sort()).toEqual([10, 20]);
+    });
+  });
+
+  describe('period of the query', () => {
+    it('should skip the rows out of the period while reading', async () => {
+      writeFileSync(
+        join(directory, 'a.csv'),
+        [FOCUS_HEADER, focusRow('2023-12-31', 7, 'Compute'), focusRow('2024-02-01', 3, 'Compute')].join('\n'),
+      );
+
+      const rows = await client.fetchCosts(focusConfig(), null, createQuery());
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0].ChargePeriodStart).toBe('2024-02-01');
+    });
+
+    it('should not read the files last modified before the period', async () => {
+      const oldFile = join(directory, 'old.csv');
+      writeFileSync(oldFile, [FOCUS_HEADER, focusRow('2024-01-10', 7, 'Compute')].join('\n'));
+      const modified = new Date('2023-06-30T00:00:00Z');
+      utimesSync(oldFile, modified, modified);
+
+      const rows = await client.fetchCosts(focusConfig(), null, createQuery());
+
+      expect(rows).toHaveLength(0);
+    });
+
+    it('should group the costs by day for the daily granularity', async () => {
+      writeFileSync(
+        join(directory, 'a.csv'),
+        [FOCUS_HEADER, focusRow('2024-01-10T00:00:00Z', 1, 'Compute'), focusRow('2024-01-11', 2, 'Compute')].join('\n'),
+      );
+
+      const reports = await fetchReports(client, focusConfig(), createQuery('daily'));
+
+      expect(reports[0].reports).toEqual({ '2024-01-10': 1, '2024-01-11': 2 });
+    });
+  });
+
+  describe('mapped CSV files', () => {
+    const csvConfig = (columns?: Record<string, string>) =>
+      new ConfigReader({
+        name: 'snowflake',
+        format: 'csv',
+        delimiter: ';',
+        dateFormat: 'DD/MM/YYYY',
+        source: { type: 'local', path: directory },
+        tags: ['warehouse'],
+        ...(columns ? { columns } : {}),
+      });
+
+    it('should read the mapped columns', async () => {
+      writeFileSync(
+        join(directory, 'export.csv'),
+        [
+          'usage_date;amount;account_name;product;warehouse',
+          '15/01/2024;12.345;analytics;Storage;wh-1',
+          '16/01/2024;0;analytics;Storage;wh-1',
+          '31/12/2023;4;analytics;Storage;wh-1',
+        ].join('\n'),
+      );
+
+      const reports = await fetchReports(
+        client,
+        csvConfig({ date: 'usage_date', cost: 'amount', account: 'account_name', service: 'product' }),
+        createQuery(),
+      );
+
+      expect(reports).toHaveLength(1);
+      expect(reports[0]).toMatchObject({
+        account: 'snowflake/analytics',
+        service: 'snowflake/Storage',
+        category: 'category-Storage',
+        warehouse: 'wh-1',
+        reports: { '2024-01': 12.35 },
+      });
+      expect(reports[0].currency).toBeUndefined();
+    });
+
+    it('should count the rows with an invalid date as such', async () => {
+      writeFileSync(
+        join(directory, 'export.csv'),
+        ['usage_date;amount;account_name;product', '2024-01-15;1;analytics;Storage'].join('\n'),
+      );
+
+      const reports = await fetchReports(
+        client,
+        csvConfig({ date: 'usage_date', cost: 'amount', account: 'account_name', service: 'product' }),
+        createQuery(),
+      );
+
+      expect(reports).toHaveLength(0);
+    });
+
+    it('should require the columns mapping', async () => {
+      await expect(client.fetchCosts(csvConfig(), null, createQuery())).rejects.toThrow(/columns mapping is required/);
+    });
+  });
+});
@@ -0,0 +1,353 @@
+import { GetObjectCommand, ListObjectsV2Command, ListObjectsV2CommandOutput, S3Client } from '@aws-sdk/client-s3';
+import { CacheService, DatabaseService, LoggerService } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import { parse, Parser } from 'csv-parse';
+import { createReadStream, promises as fsPromises } from 'fs';
+import moment from 'moment';
+import { join } from 'path';
+import { pipeline, Readable } from 'stream';
+import { createGunzip } from 'zlib';
+import { ZodError } from 'zod';
+import { FocusBillingFileSchema } from '../schemas/FileBilling';
+import { CategoryMappingService } from '../service/CategoryMappingService';
+import { CLOUD_PROVIDER, GRANULARITY, PROVIDER_TYPE } from '../service/consts';
+import { parseCost } from '../service/functions';
+import { CostQuery, Report } from '../service/types';
+import { InfraWalletClient } from './InfraWalletClient';
+
+type FileFormat = 'focus' | 'csv';
+
+// The columns of a row that are read, the first non-empty column is used when a list is given
+type ColumnMapping = {
+  date: string;
+  cost: string;
+  account: string | string[];
+  service: string;
+  category?: string;
+  currency?: string;
+  vendor?: string;
+};
+
+const FOCUS_COLUMN_MAPPING: ColumnMapping = {
+  date: 'ChargePeriodStart',
+  cost: 'BilledCost',
+  account: ['SubAccountName', 'SubAccountId', 'BillingAccountName', 'BillingAccountId'],
+  service: 'ServiceName',
+  category: 'ServiceCategory',
+  currency: 'BillingCurrency',
+  vendor: 'ProviderName',
+};
+
+const FILE_NAME_PATTERN = /\.csv(\.gz)?$/i;
+
+interface BillingFile {
+  name: string;
+  lastModified?: Date;
+  open: () => Promise<Readable>;
+}
+
+export class FileClient extends InfraWalletClient {
+  static create(config: Config, database: DatabaseService, cache: CacheService, logger: LoggerService) {
+    return new FileClient(CLOUD_PROVIDER.FILE, config, database, cache, logger);
+  }
+
+  protected async initCloudClient(integrationConfig: Config): Promise<S3Client | null> {
+    const sourceConfig = integrationConfig.getConfig('source');
+    if (sourceConfig.getString('type') !== 's3') {
+      return null;
+    }
+
+    const accessKeyId = sourceConfig.getOptionalString('accessKeyId');
+    const secretAccessKey = sourceConfig.getOptionalString('secretAccessKey');
+    if ((accessKeyId || secretAccessKey) && !(accessKeyId && secretAccessKey)) {
+      throw new Error('Both accessKeyId and secretAccessKey must be provided');
+    }
+
+    // a custom endpoint with path-style URLs makes it work with S3-compatible storages such as MinIO
+    return new S3Client({
+      region: sourceConfig.getOptionalString('region') ?? 'us-east-1',
+      endpoint: sourceConfig.getOptionalString('endpoint'),
+      forcePathStyle: sourceConfig.getOptionalBoolean('forcePathStyle') ?? false,
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+  }
+
+  private async listLocalFiles(directory: string): Promise<BillingFile[]> {
+    const files: BillingFile[] = [];
+    const fileNames = (await fsPromises.readdir(directory)).filter(fileName => FILE_NAME_PATTERN.test(fileName));
+    for (const fileName of fileNames.sort()) {
+      const path = join(directory, fileName);
+      const stats = await fsPromises.stat(path);
+      files.push({ name: fileName, lastModified: stats.mtime, open: async () => createReadStream(path) });
+    }
+    return files;
+  }
+
+  private async listS3Files(client: S3Client, bucket: string, prefix?: string): Promise<BillingFile[]> {
+    const files: BillingFile[] = [];
+    let continuationToken: string | undefined = undefined;
+
+    do {
+      const listResponse: ListObjectsV2CommandOutput = await client.send(
+        new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, ContinuationToken: continuationToken }),
+      );
+
+      for (const object of listResponse.Contents ?? []) {
+        const key = object.Key;
+        if (!key || !FILE_NAME_PATTERN.test(key)) {
+          continue;
+        }
+        files.push({
+          name: key,
+          lastModified: object.LastModified,
+          open: async () => {
+            const objectResponse = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+            // the body is a Node.js stream in the backend
+            return (objectResponse.Body as Readable | undefined) ?? Readable.from([]);
+          },
+        });
+      }
+
+      continuationToken = listResponse.IsTruncated ? listResponse.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  // Parse the rows of a file as they are read, the .gz files are decompressed on the fly
+  private parseFile(file: BillingFile, input: Readable, delimiter: string): Parser {
+    const parser = parse({ columns: true, bom: true, skip_empty_lines: true, delimiter: delimiter });
+    // the errors of the input and of the decompression are thrown when the rows of the parser are read
+    const onError = (error: NodeJS.ErrnoException | null) => {
+      if (error) {
+        parser.destroy(error);
+      }
+    };
+    if (file.name.toLowerCase().endsWith('.gz')) {
+      pipeline(input, createGunzip(), parser, onError);
+    } else {
+      pipeline(input, parser, onError);
+    }
+    return parser;
+  }
+
+  // Only the rows within the period of the query are kept, so that the files are never loaded in memory as a whole
+  // the files last modified before the start of the period cannot have costs of the period, they are not read
+  protected async fetchCosts(integrationConfig: Config, client: S3Client | null, query: CostQuery): Promise<any> {
+    const integrationName = integrationConfig.getString('name');
+    const format = (integrationConfig.getOptionalString('format') ?? 'focus') as FileFormat;
+    const sourceConfig = integrationConfig.getConfig('source');
+    const dateFormat = integrationConfig.getOptionalString('dateFormat');
+    const delimiter = integrationConfig.getOptionalString('delimiter') ?? ',';
+    const columns = this.getColumnMapping(integrationConfig);
+    const startDate = moment(parseInt(query.startTime, 10));
+    const endDate = moment(parseInt(query.endTime, 10));
+
+    let files: BillingFile[];
+    if (client) {
+      files = await this.listS3Files(
+        client,
+        sourceConfig.getString('bucket'),
+        sourceConfig.getOptionalString('prefix'),
+      );
+    } else {
+      files = await this.listLocalFiles(sourceConfig.getString('path'));
+    }
+    const periodFiles = files.filter(file => !file.lastModified || !moment(file.lastModified).isBefore(startDate));
+    this.logger.debug(`${integrationName}: ${periodFiles.length} of ${files.length} files modified during the period`);
+
+    const rows: Record<string, string>[] = [];
+    for (const file of periodFiles) {
+      let fileRows = 0;
+      let skippedRows = 0;
+      for await (const row of this.parseFile(file, await file.open(), delimiter)) {
+        fileRows++;
+        // the rows without a valid date are kept, they are counted in the transformation summary
+        const date = this.getRowDate(row, columns.date, dateFormat);
+        if (date?.isValid() && (date.isBefore(startDate) || date.isAfter(endDate))) {
+          skippedRows++;
+          continue;
+        }
+        rows.push(row);
+      }
+      this.logger.debug(
+        `${integrationName}: ${fileRows} rows read from ${file.name}, ${skippedRows} out of the period`,
+      );
+    }
+
+    if (format === 'focus') {
+      try {
+        FocusBillingFileSchema.parse(rows);
+        this.logger.debug(`FOCUS billing data validation passed for ${rows.length} records`);
+      } catch (error) {
+        if (error instanceof ZodError) {
+          this.logger.warn(`FOCUS billing data validation failed: ${error.message}`);
+          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.issues.slice(0, 3))}`);
+        } else {
+          this.logger.warn(`Unexpected validation error: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    return rows;
+  }
+
+  private getColumnMapping(integrationConfig: Config): ColumnMapping {
+    const format = (integrationConfig.getOptionalString('format') ?? 'focus') as FileFormat;
+    const columnsConfig = integrationConfig.getOptionalConfig('columns');
+
+    if (format === 'csv' && !columnsConfig) {
+      throw new Error(`The columns mapping is required for the csv format of ${integrationConfig.getString('name')}`);
+    }
+
+    // for FOCUS files, the configured columns override the ones of the specification
+    const defaults: Partial<ColumnMapping> = format === 'focus' ? FOCUS_COLUMN_MAPPING : {};
+    return {
+      date: columnsConfig?.getOptionalString('date') ?? (defaults.date as string),
+      cost: columnsConfig?.getOptionalString('cost') ?? (defaults.cost as string),
+      account: columnsConfig?.getOptionalString('account') ?? (defaults.account as string | string[]),
+      service: columnsConfig?.getOptionalString('service') ?? (defaults.service as string),
+      category: columnsConfig?.getOptionalString('category') ?? defaults.category,
+      currency: columnsConfig?.getOptionalString('currency') ?? defaults.currency,
+      vendor: columnsConfig?.getOptionalString('vendor') ?? defaults.vendor,
+    };
+  }
+
+  private getColumnValue(row: Record<string, string>, column: string | string[] | undefined): string | undefined {
+    const columns = Array.isArray(column) ? column : [column];
+    for (const c of columns) {
+      const value = c ? row[c]?.trim() : undefined;
+      if (value) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  private getRowDate(
+    row: Record<string, string>,
+    column: string,
+    dateFormat: string | undefined,
+  ): moment.Moment | undefined {
+    const dateValue = this.getColumnValue(row, column);
+    if (!dateValue) {
+      return undefined;
+    }
+    return dateFormat ? moment.utc(dateValue, dateFormat, true) : moment.utc(dateValue, moment.ISO_8601);
+  }
+
+  // FOCUS keeps the tags as a JSON object in one column, other CSV files have one column per tag
+  private getRowTags(row: Record<string, string>, format: FileFormat, tagKeys: string[]): Record<string, string> {
+    const tags: Record<string, string> = {};
+    let focusTags: Record<string, string> = {};
+    if (format === 'focus' && row.Tags) {
+      try {
+        focusTags = JSON.parse(row.Tags);
+      } catch (e) {
+        focusTags = {};
+      }
+    }
+
+    for (const tagKey of tagKeys) {
+      const value = format === 'focus' ? focusTags[tagKey] : row[tagKey];
+      if (value !== undefined && value !== '') {
+        tags[tagKey] = String(value);
+      }
+    }
+    return tags;
+  }
+
+  protected async transformCostsData(
+    integrationConfig: Config,
+    query: CostQuery,
+    costResponse: any,
+  ): Promise<Report[]> {
+    const categoryMappingService = CategoryMappingService.getInstance();
+    const integrationName = integrationConfig.getString('name');
+    const format = (integrationConfig.getOptionalString('format') ?? 'focus') as FileFormat;
+    const dateFormat = integrationConfig.getOptionalString('dateFormat');
+    const tagKeys = integrationConfig.getOptionalStringArray('tags') ?? [];
+    const columns = this.getColumnMapping(integrationConfig);
+    const startDate = moment(parseInt(query.startTime, 10));
+    const endDate = moment(parseInt(query.endTime, 10));
+    const periodFormat = query.granularity === GRANULARITY.MONTHLY ? 'YYYY-MM' : 'YYYY-MM-DD';
+
+    let processedRecords = 0;
+    let filteredOutZeroAmount = 0;
+    let filteredOutMissingFields = 0;
+    let filteredOutInvalidDate = 0;
+    let filteredOutTimeRange = 0;
+    const rows: Record<string, string>[] = costResponse ?? [];
+    const transformedData: Record<string, Report> = {};
+
+    for (const row of rows) {
+      const date = this.getRowDate(row, columns.date, dateFormat);
+      const account = this.getColumnValue(row, columns.account);
+      const service = this.getColumnValue(row, columns.service);
+      const costValue = this.getColumnValue(row, columns.cost);
+      if (!date || !account || !service || costValue === undefined) {
+        filteredOutMissingFields++;
+        continue;
+      }
+
+      if (!date.isValid()) {
+        filteredOutInvalidDate++;
+        continue;
+      }
+
+      if (date.isBefore(startDate) || date.isAfter(endDate)) {
+        filteredOutTimeRange++;
+        continue;
+      }
+
+      if (!this.evaluateIntegrationFilters(account, integrationConfig)) {
+        continue;
+      }
+
+      const cost = parseCost(costValue);
+      if (cost === 0) {
+        filteredOutZeroAmount++;
+        continue;
+      }
+
+      const vendor = this.getColumnValue(row, columns.vendor) ?? integrationName;
+      const category =
+        this.getColumnValue(row, columns.category) ??
+        categoryMappingService.getCategoryByServiceName(this.provider, service);
+      const currency = this.getColumnValue(row, columns.currency);
+      const tags = this.getRowTags(row, format, tagKeys);
+      // the tags are keyed by their names, so that the rows with different tags are never merged
+      const keyName = JSON.stringify({ integration: integrationName, account, service, category, tags });
+
+      if (!transformedData[keyName]) {
+        transformedData[keyName] = {
+          id: keyName,
+          account: `${vendor}/${account}`,
+          service: `${vendor}/${service}`,
+          category: category,
+          provider: this.provider,
+          providerType: PROVIDER_TYPE.INTEGRATION,
+          reports: {},
+          ...(currency ? { currency: currency.toUpperCase() } : {}),
+          ...tags,
+        };
+      }
+
+      const period = date.format(periodFormat);
+      transformedData[keyName].reports[period] = parseCost((transformedData[keyName].reports[period] ?? 0) + cost);
+      processedRecords++;
+    }
+
+    this.logTransformationSummary({
+      processed: processedRecords,
+      uniqueReports: Object.keys(transformedData).length,
+      zeroAmount: filteredOutZeroAmount,
+      missingFields: filteredOutMissingFields,
+      invalidDate: filteredOutInvalidDate,
+      timeRange: filteredOutTimeRange,
+      totalRecords: rows.length,
+    });
+
+    return Object.values(transformedData);
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * @file GCPClient.test.ts
+ * @description Tests for the GCPClient cost integration reading the BigQuery billing export.
+ *
+ * This test suite validates:
+ * - Data transformation: BigQuery rows → InfraWallet reports
+ * - Currencies: the costs billed in different currencies are never merged
+ *
+ * @module GCPClient.test
+ */
+
+import { ConfigReader } from '@backstage/config';
+
+// Mock the consts module to break circular dependency (consts imports all clients)
+jest.mock('../service/consts', () => ({
+  CLOUD_PROVIDER: {
+    GCP: 'GCP',
+  },
+  COST_METRIC: {},
+  GRANULARITY: {
+    DAILY: 'daily',
+    MONTHLY: 'monthly',
+  },
+  PROVIDER_TYPE: {
+    INTEGRATION: 'Integration',
+    CUSTOM: 'Custom',
+  },
+  COST_CLIENT_MAPPINGS: {},
+  METRIC_PROVIDER_MAPPINGS: {},
+  CACHE_CATEGORY: {
+    COSTS: 'costs',
+    TAGS: 'tags',
+    METRICS: 'metrics',
+    CATEGORY_MAPPINGS: 'category_mappings',
+  },
+  DEFAULT_CURRENCY: 'USD',
+  DEFAULT_WALLET_NAME: 'default',
+}));
+
+jest.mock('../service/CategoryMappingService', () => ({
+  CategoryMappingService: {
+    getInstance: () => ({
+      getCategoryByServiceName: (_provider: any, serviceName: any) => `category-${serviceName}`,
+    }),
+    initInstance: jest.fn(),
+  },
+}));
+
+jest.mock('../controllers/WalletController', () => ({
+  getWallet: jest.fn(),
+}));
+jest.mock('../models/CostItem', () => ({
+  bulkInsertCostItems: jest.fn(),
+  countCostItems: jest.fn(),
+  getCostItems: jest.fn(),
+  CostItem: {},
+}));
+jest.mock('../service/functions', () => ({
+  getDefaultCacheTTL: jest.fn().mockReturnValue(7200000),
+  getReportsFromCache: jest.fn().mockResolvedValue(undefined),
+  logTransformationSummary: jest.fn(),
+  parseCost: (value: any) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? Math.round(parsed * 100) / 100 : 0;
+  },
+  parseGroups: jest.fn().mockReturnValue(undefined),
+  setReportsToCache: jest.fn(),
+}));
+
+import { GCPClient } from './GCPClient';
+import { CostQuery } from '../service/types';
+
+// ─── Test Helpers ────────────────────────────────────────────────────────────
+
+function createTestClient(): any {
+  return GCPClient.create(
+    new ConfigReader({}),
+    {} as any,
+    { get: jest.fn(), set: jest.fn() } as any,
+    {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    } as any,
+  );
+}
+
+const query: CostQuery = {
+  filters: '',
+  tags: '',
+  groups: '',
+  granularity: 'monthly' as any,
+  startTime: Date.parse('2024-01-01T00:00:00Z').toString(),
+  endTime: Date.parse('2024-01-31T23:59:59Z').toString(),
+};
+
+const integrationConfig = new ConfigReader({ name: 'billing', projectId: 'p', datasetId: 'd', tableId: 't' });
+
+function createRow(currency: string | undefined, totalCost: number) {
+  return { project: 'payments', service: 'Compute Engine', period: '2024-01', currency, total_cost: totalCost };
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('GCPClient', () => {
+  describe('transformCostsData', () => {
+    it('should read the rows as reports', async () => {
+      const reports = await createTestClient().transformCostsData(integrationConfig, query, [createRow('USD', 12.345)]);
+
+      expect(reports).toEqual([
+        expect.objectContaining({
+          id: 'billing_payments_Compute Engine',
+          account: 'GCP/billing',
+          service: 'GCP/Compute Engine',
+          category: 'category-Compute Engine',
+          project: 'payments',
+          currency: 'USD',
+          reports: { '2024-01': 12.35 },
+        }),
+      ]);
+    });
+
+    it('should not merge the costs of one service billed in two currencies', async () => {
+      const reports = await createTestClient().transformCostsData(integrationConfig, query, [
+        createRow('USD', 10),
+        createRow('EUR', 20),
+      ]);
+
+      expect(reports).toHaveLength(2);
+      expect(reports.map((report: any) => [report.id, report.currency, report.reports['2024-01']])).toEqual([
+        ['billing_payments_Compute Engine', 'USD', 10],
+        ['billing_payments_Compute Engine_EUR', 'EUR', 20],
+      ]);
+    });
+
+    it('should read the rows without a currency as USD', async () => {
+      const reports = await createTestClient().transformCostsData(integrationConfig, query, [createRow(undefined, 5)]);
+
+      expect(reports[0].id).toBe('billing_payments_Compute Engine');
+      expect(reports[0].currency).toBe('USD');
+    });
+  });
+});
@@ -6,9 +6,9 @@ import { reduce } from 'lodash';
 import { homedir } from 'os';
 import { join } from 'path';
 import { CategoryMappingService } from '../service/CategoryMappingService';
-import { CLOUD_PROVIDER, GRANULARITY, PROVIDER_TYPE } from '../service/consts';
-import { parseCost } from '../service/functions';
-import { CostQuery, Report } from '../service/types';
+import { CLOUD_PROVIDER, COST_METRIC, DEFAULT_CURRENCY, GRANULARITY, PROVIDER_TYPE } from '../service/consts';
+import { parseCost, parseGroups } from '../service/functions';
+import { CostQuery, Report, ReportGroup } from '../service/types';
 import { InfraWalletClient } from './InfraWalletClient';
 import { GCPCustomQueryResultSchema } from '../schemas/GCPBilling';
 import { ZodError } from 'zod';
@@ -18,6 +18,10 @@ export class GCPClient extends InfraWalletClient {
     return new GCPClient(CLOUD_PROVIDER.GCP, config, database, cache, logger);
   }
 
+  protected supportsTagGroups(): boolean {
+    return true;
+  }
+
   protected convertServiceName(serviceName: string): string {
     let convertedName = serviceName;
 
@@ -126,7 +130,7 @@ export class GCPClient extends InfraWalletClient {
         } catch (error) {
           if (error instanceof ZodError) {
             this.logger.warn(`GCP billing data validation failed: ${error.message}`);
-            this.logger.debug(`Sample validation errors: ${JSON.stringify(error.errors.slice(0, 3))}`);
+            this.logger.debug(`Sample validation errors: ${JSON.stringify(error.issues.slice(0, 3))}`);
           } else {
             this.logger.warn(`Unexpected validation error: ${(error as Error).message}`);
           }
@@ -172,6 +176,25 @@ export class GCPClient extends InfraWalletClient {
     throw new Error(`Max retries (${maxRetries}) exceeded for BigQuery operation`);
   }
 
+  private getGroupExpression(group: ReportGroup): string {
+    switch (group.type) {
+      case 'region':
+        return 'location.region';
+      case 'usage_type':
+        return 'sku.description';
+      default:
+        return 'group_label.value';
+    }
+  }
+
+  // Get the expression of the total cost of the cost metric, the credits are negative amounts, see COST_METRIC
+  private getTotalCostExpression(query: CostQuery): string {
+    if (query.costMetric === COST_METRIC.GROSS) {
+      return 'SUM(CAST(cost AS NUMERIC))';
+    }
+    return '(SUM(CAST(cost AS NUMERIC)) + SUM(IFNULL((SELECT SUM(CAST(c.amount AS NUMERIC)) FROM UNNEST(credits) AS c), 0)))';
+  }
+
   protected async fetchCosts(subAccountConfig: Config, client: any, query: CostQuery): Promise<any> {
     const projectId = subAccountConfig.getString('projectId');
     const datasetId = subAccountConfig.getString('datasetId');
@@ -179,26 +202,35 @@ export class GCPClient extends InfraWalletClient {
 
     try {
       const periodFormat = query.granularity === GRANULARITY.MONTHLY ? '%Y-%m' : '%Y-%m-%d';
+      const group = parseGroups(query.groups);
+      const groupColumn = group ? `\n          ${this.getGroupExpression(group)} AS group_value,` : '';
+      // the tag key is passed as a query parameter, label keys are unique in a row
+      const groupJoin =
+        group?.type === 'tag'
+          ? '\n          LEFT JOIN UNNEST(labels) AS group_label ON group_label.key = @groupKey'
+          : '';
       const sql = `
         SELECT
           project.name AS project,
           service.description AS service,
-          FORMAT_TIMESTAMP('${periodFormat}', usage_start_time) AS period,
-          (SUM(CAST(cost AS NUMERIC)) + SUM(IFNULL((SELECT SUM(CAST(c.amount AS NUMERIC)) FROM UNNEST(credits) AS c), 0))) AS total_cost
+          FORMAT_TIMESTAMP('${periodFormat}', usage_start_time) AS period,${groupColumn}
+          currency,
+          ${this.getTotalCostExpression(query)} AS total_cost
         FROM
-          \`${projectId}.${datasetId}.${tableId}\`
+          \`${projectId}.${datasetId}.${tableId}\`${groupJoin}
         WHERE
           project.name IS NOT NULL
           AND cost > 0
           AND usage_start_time >= TIMESTAMP_MILLIS(${query.startTime})
           AND usage_start_time <= TIMESTAMP_MILLIS(${query.endTime})
         GROUP BY
-          project, service, period
+          project, service, period, currency${group ? ', group_value' : ''}
         ORDER BY
           project, period, total_cost DESC`;
 
       const queryOptions = {
         query: sql,
+        ...(group?.type === 'tag' ? { params: { groupKey: group.key } } : {}),
       };
 
       return await this.fetchDataWithRetry(client, queryOptions);
@@ -208,18 +240,18 @@ export class GCPClient extends InfraWalletClient {
     }
   }
 
-  protected async transformCostsData(
-    subAccountConfig: Config,
-    _query: CostQuery,
-    costResponse: any,
-  ): Promise<Report[]> {
+  protected async transformCostsData(subAccountConfig: Config, query: CostQuery, costResponse: any): Promise<Report[]> {
     const categoryMappingService = CategoryMappingService.getInstance();
     const accountName = subAccountConfig.getString('name');
+    const group = parseGroups(query.groups);
     const tags = subAccountConfig.getOptionalStringArray('tags');
     const tagKeyValues: { [key: string]: string } = {};
     tags?.forEach(tag => {
       const [k, v] = tag.split(':');
-      tagKeyValues[k.trim()] = v.trim();
+      // tags without a value are tag keys stored with the cost items
+      if (k && v) {
+        tagKeyValues[k.trim()] = v.trim();
+      }
     });
 
     // Initialize tracking variables
@@ -249,7 +281,13 @@ export class GCPClient extends InfraWalletClient {
         }
 
         const period = row.period;
-        const keyName = `${accountName}_${row.project}_${row.service}`;
+        const groupValue = row.group_value ?? '';
+        const currency = row.currency ?? DEFAULT_CURRENCY;
+        const costKeyName = group
+          ? `${accountName}_${row.project}_${row.service}_${groupValue}`
+          : `${accountName}_${row.project}_${row.service}`;
+        // costs in different currencies cannot be summed up before being converted
+        const keyName = currency === DEFAULT_CURRENCY ? costKeyName : `${costKeyName}_${currency}`;
 
         if (!acc[keyName]) {
           uniqueKeys.add(keyName);
@@ -261,8 +299,10 @@ export class GCPClient extends InfraWalletClient {
             provider: this.provider,
             providerType: PROVIDER_TYPE.INTEGRATION,
             reports: {},
+            currency: currency,
             ...{ project: row.project }, // TODO: how should we handle the project field? for now, we add project name as a field in the report
             ...tagKeyValues, // note that if there is a tag `project:foo` in config, it overrides the project field set above
+            ...(group ? { [group.column]: groupValue } : {}),
           };
         }
 
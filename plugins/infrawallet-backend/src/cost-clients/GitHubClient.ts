@@ -50,7 +50,7 @@ export class GitHubClient extends InfraWalletClient {
       } catch (error) {
         if (error instanceof ZodError) {
           this.logger.warn(`GitHub billing response validation failed: ${error.message}`);
-          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.errors.slice(0, 3))}`);
+          this.logger.debug(`Sample validation errors: ${JSON.stringify(error.issues.slice(0, 3))}`);
         } else {
           this.logger.warn(`Unexpected validation error: ${(error as Error).message}`);
         }
@@ -2,24 +2,48 @@ import { CacheService, DatabaseService, LoggerService } from '@backstage/backend
 import { Config } from '@backstage/config';
 import { addMonths, endOfMonth, format, startOfMonth } from 'date-fns';
 import { reduce } from 'lodash';
-import { getWallet } from '../controllers/MetricSettingController';
-import { CostItem, bulkInsertCostItems, countCostItems, getCostItems } from '../models/CostItem';
+import { getWallet } from '../controllers/WalletController';
+import {
+  CostItem,
+  TaggedCostItem,
+  bulkInsertCostItems,
+  bulkInsertTaggedCostItems,
+  countCostItemRows,
+  countCostItems,
+  countTaggedCostItems,
+  getCostItemMetrics,
+  getCostItems,
+  getTaggedCostItems,
+} from '../models/CostItem';
+import { IngestionRun, failIngestionRun, insertIngestionRuns, skipIngestionRun } from '../models/IngestionRun';
 import {
   CACHE_CATEGORY,
   CLOUD_PROVIDER,
+  COST_METRICS,
+  DEFAULT_CURRENCY,
+  DEFAULT_EXTENSION_NUMBER_OF_MONTHS_FETCHING_HISTORICAL_COSTS,
+  DEFAULT_MIN_REPLACEMENT_RATIO,
+  DEFAULT_WALLET_NAME,
   GRANULARITY,
   NUMBER_OF_MONTHS_FETCHING_HISTORICAL_COSTS,
   PROVIDER_TYPE,
 } from '../service/consts';
 import {
   getDefaultCacheTTL,
+  getForecastFromCache,
   getReportsFromCache,
   getTagKeysFromCache,
   getTagValuesFromCache,
+  hasStaleCostMetrics,
   logTransformationSummary,
+  parseCost,
+  parseGroups,
+  parseTags,
+  setForecastToCache,
   setReportsToCache,
   setTagKeysToCache,
   setTagValuesToCache,
+  spreadForecastOverReports,
   tagExists,
   usageDateToPeriodString,
 } from '../service/functions';
@@ -36,9 +60,18 @@ import {
   Wallet,
 } from '../service/types';
 
+/**
+ * Base class of the cost clients, it can be extended to add a provider through the cost client extension point
+ *
+ * @public
+ */
 export abstract class InfraWalletClient {
+  // summary of the latest transformation, recorded in the ingestion run of the integration
+  private lastTransformationSummary?: TransformationSummary;
+
   constructor(
-    protected readonly provider: CLOUD_PROVIDER,
+    // one of CLOUD_PROVIDER, or the name of a provider registered through the extension point
+    protected readonly provider: string,
     protected readonly config: Config,
     protected readonly database: DatabaseService,
     protected readonly cache: CacheService,
@@ -94,6 +127,104 @@ export abstract class InfraWalletClient {
     return true;
   }
 
+  // Get the integration configs of this provider, limited to the ones assigned to a wallet if given
+  protected getIntegrationConfigs(walletName?: string): Config[] | undefined {
+    const integrationConfigs = this.config.getOptionalConfigArray(
+      `backend.infraWallet.integrations.${this.provider.toLowerCase()}`,
+    );
+    if (!integrationConfigs || walletName === undefined) {
+      return integrationConfigs;
+    }
+
+    return integrationConfigs.filter(
+      integrationConfig => (integrationConfig.getOptionalString('wallet') ?? DEFAULT_WALLET_NAME) === walletName,
+    );
+  }
+
+  // Whether the client returns the costs split by a tag key, see parseGroups
+  protected supportsTagGroups(): boolean {
+    return false;
+  }
+
+  // Whether the client fetches the forecasts of the provider, see fetchForecast
+  protected supportsForecast(): boolean {
+    return false;
+  }
+
+  // Cost metrics supported by the client, the first one is the default, see COST_METRIC
+  protected getCostMetrics(): string[] {
+    return COST_METRICS[this.provider] ?? [];
+  }
+
+  // Get the cost metric of an integration, the one of the query if the client supports it,
+  // otherwise the one configured in the integration, undefined if the client has a single metric
+  protected getCostMetric(integrationConfig: Config, query?: CostQuery): string | undefined {
+    const costMetrics = this.getCostMetrics();
+    if (costMetrics.length === 0) {
+      return undefined;
+    }
+    if (query?.costMetric && costMetrics.includes(query.costMetric)) {
+      return query.costMetric;
+    }
+
+    const configuredCostMetric = integrationConfig.getOptionalString('costMetric');
+    if (configuredCostMetric === undefined) {
+      return costMetrics[0];
+    }
+    if (!costMetrics.includes(configuredCostMetric)) {
+      const integration = `${this.provider}/${integrationConfig.getString('name')}`;
+      throw new Error(
+        `Unsupported costMetric ${configuredCostMetric} of ${integration}, it must be one of ${costMetrics.join(', ')}`,
+      );
+    }
+    return configuredCostMetric;
+  }
+
+  // Get the tag keys whose values are stored with the cost items, the integration tags without a value
+  protected getStoredTagKeys(walletName: string): string[] {
+    if (!this.supportsTagGroups()) {
+      return [];
+    }
+
+    const tagKeys = new Set<string>();
+    for (const integrationConfig of this.getIntegrationConfigs(walletName) ?? []) {
+      for (const tag of integrationConfig.getOptionalStringArray('tags') ?? []) {
+        if (!tag.includes(':')) {
+          tagKeys.add(tag.trim());
+        }
+      }
+    }
+    return Array.from(tagKeys);
+  }
+
+  // Get the report columns saved in the other_columns of the cost items, the tags defined in the integration configs
+  protected getStoredDimensions(walletName: string): string[] {
+    const storedTagKeys = this.getStoredTagKeys(walletName);
+    const dimensions = new Set<string>();
+    for (const integrationConfig of this.getIntegrationConfigs(walletName) ?? []) {
+      for (const tag of integrationConfig.getOptionalStringArray('tags') ?? []) {
+        const key = tag.split(':')[0].trim();
+        if (!storedTagKeys.includes(key)) {
+          dimensions.add(key);
+        }
+      }
+    }
+    return Array.from(dimensions);
+  }
+
+  // TTL of the cached costs and tags, the clients registered through the extension point can override it
+  protected getCacheTTL(cacheCategory: CACHE_CATEGORY): number {
+    return getDefaultCacheTTL(cacheCategory, this.provider);
+  }
+
+  // Number of months of costs fetched when nothing is saved yet, the clients registered through the extension point can override it
+  protected getHistoricalMonths(): number {
+    return (
+      NUMBER_OF_MONTHS_FETCHING_HISTORICAL_COSTS[this.provider as CLOUD_PROVIDER] ??
+      DEFAULT_EXTENSION_NUMBER_OF_MONTHS_FETCHING_HISTORICAL_COSTS
+    );
+  }
+
   protected abstract initCloudClient(integrationConfig: Config): Promise<any>;
 
   // Get all cost allocation tag keys from one account
@@ -101,7 +232,7 @@ export abstract class InfraWalletClient {
     _integrationConfig: Config,
     _client: any,
     _query: TagsQuery,
-  ): Promise<{ tagKeys: string[]; provider: CLOUD_PROVIDER }> {
+  ): Promise<{ tagKeys: string[]; provider: string }> {
     // To be implemented by each provider client
     return { tagKeys: [], provider: this.provider };
   }
@@ -112,13 +243,15 @@ export abstract class InfraWalletClient {
     _client: any,
     _query: TagsQuery,
     _tagKey: string,
-  ): Promise<{ tagValues: string[]; provider: CLOUD_PROVIDER }> {
+  ): Promise<{ tagValues: string[]; provider: string }> {
     // To be implemented by each provider client
     return { tagValues: [], provider: this.provider };
   }
 
   protected abstract fetchCosts(integrationConfig: Config, client: any, query: CostQuery): Promise<any>;
-  protected async fetchForecast(_integrationConfig: Config): Promise<number | null> {
+  // Get the forecasted costs of one integration from today to the end of the current month,
+  // to be implemented by the provider clients whose supportsForecast returns true
+  protected async fetchForecast(_integrationConfig: Config, _client: any, _query: CostQuery): Promise<number | null> {
     return null;
   }
 
@@ -130,13 +263,13 @@ export abstract class InfraWalletClient {
 
   protected logTransformationSummary(summary: TransformationSummary): void {
     logTransformationSummary(this.logger, this.provider, summary);
+    this.lastTransformationSummary = summary;
   }
 
-  // Get aggregated unique tag keys across all accounts of this cloud provider
+  // Get aggregated unique tag keys across all accounts of this cloud provider, limited to the wallet of the query
+  // if given
   async getTagKeys(query: TagsQuery): Promise<TagsResponse> {
-    const integrationConfigs = this.config.getOptionalConfigArray(
-      `backend.infraWallet.integrations.${this.provider.toLowerCase()}`,
-    );
+    const integrationConfigs = this.getIntegrationConfigs(query.walletName);
     if (!integrationConfigs) {
       return { tags: [], errors: [] };
     }
@@ -175,7 +308,14 @@ export abstract class InfraWalletClient {
               aggregatedTags.push(tag);
             }
           }
-          await setTagKeysToCache(this.cache, tagKeysCache, this.provider, integrationName, query);
+          await setTagKeysToCache(
+            this.cache,
+            tagKeysCache,
+            this.provider,
+            integrationName,
+            query,
+            this.getCacheTTL(CACHE_CATEGORY.TAGS),
+          );
         } catch (e) {
           this.logger.error(`${e}`);
           errors.push({
@@ -197,11 +337,10 @@ export abstract class InfraWalletClient {
     };
   }
 
-  // Get aggregated tag values of the specified tag key across all accounts of this cloud provider
+  // Get aggregated tag values of the specified tag key across all accounts of this cloud provider, limited to the wallet
+  // of the query if given
   async getTagValues(query: TagsQuery, tagKey: string): Promise<TagsResponse> {
-    const integrationConfigs = this.config.getOptionalConfigArray(
-      `backend.infraWallet.integrations.${this.provider.toLowerCase()}`,
-    );
+    const integrationConfigs = this.getIntegrationConfigs(query.walletName);
     if (!integrationConfigs) {
       return { tags: [], errors: [] };
     }
@@ -240,7 +379,15 @@ export abstract class InfraWalletClient {
               aggregatedTags.push(tag);
             }
           }
-          await setTagValuesToCache(this.cache, tagValuesCache, this.provider, integrationName, tagKey, query);
+          await setTagValuesToCache(
+            this.cache,
+            tagValuesCache,
+            this.provider,
+            integrationName,
+            tagKey,
+            query,
+            this.getCacheTTL(CACHE_CATEGORY.TAGS),
+          );
         } catch (e) {
           this.logger.error(`${e}`);
           errors.push({
@@ -264,9 +411,45 @@ export abstract class InfraWalletClient {
     };
   }
 
+  // Get the stored tag key needed to answer the query from the database, undefined if the cost items without tags
+  // are enough and null if the query cannot be answered from the database
+  private getDatabaseTagKey(query: CostQuery, walletName: string): string | undefined | null {
+    const tagKeys = new Set(parseTags(query.tags).map(tag => tag.key));
+    if (tagKeys.size > 1) {
+      // the costs of resources matching several tag keys would be counted more than once
+      return null;
+    }
+
+    let tagKey: string | undefined = Array.from(tagKeys)[0];
+    const group = parseGroups(query.groups);
+    if (group && !this.getStoredDimensions(walletName).includes(group.column)) {
+      if (group.type !== 'tag' || (tagKey !== undefined && tagKey !== group.key)) {
+        return null;
+      }
+      tagKey = group.key;
+    }
+
+    if (tagKey !== undefined && !this.getStoredTagKeys(walletName).includes(tagKey)) {
+      return null;
+    }
+
+    return tagKey;
+  }
+
   // Helper method to check if database autoload should be used
-  private shouldUseAutoloadFromDatabase(query: CostQuery, autoloadCostData: boolean): boolean {
-    return query.tags === '()' && query.groups === '' && autoloadCostData && this.provider !== CLOUD_PROVIDER.MOCK;
+  private shouldUseAutoloadFromDatabase(query: CostQuery, autoloadCostData: boolean, walletName: string): boolean {
+    // the autoload task itself queries the providers with empty tags
+    if (query.tags === '' || !autoloadCostData || this.provider === CLOUD_PROVIDER.MOCK) {
+      return false;
+    }
+
+    // the cost items are saved with the cost metrics configured in the integrations
+    const integrationConfigs = this.getIntegrationConfigs(walletName) ?? [];
+    if (integrationConfigs.some(config => this.getCostMetric(config, query) !== this.getCostMetric(config))) {
+      return false;
+    }
+
+    return this.getDatabaseTagKey(query, walletName) !== null;
   }
 
   // Helper method to handle cached data retrieval
@@ -293,6 +476,12 @@ export abstract class InfraWalletClient {
     const costResponse = await this.fetchCosts(integrationConfig, client, query);
     const transformedReports = await this.transformCostsData(integrationConfig, query, costResponse);
 
+    // Tag the source currency if the provider does not report it
+    const integrationCurrency = integrationConfig.getOptionalString('currency') ?? DEFAULT_CURRENCY;
+    transformedReports.forEach(report => {
+      report.currency = report.currency ?? integrationCurrency;
+    });
+
     // Cache the results
     await setReportsToCache(
       this.cache,
@@ -300,19 +489,60 @@ export abstract class InfraWalletClient {
       this.provider,
       integrationName,
       query,
-      getDefaultCacheTTL(CACHE_CATEGORY.COSTS, this.provider),
+      this.getCacheTTL(CACHE_CATEGORY.COSTS),
     );
 
     transformedReports.forEach((value: any) => results.push(value));
   }
 
-  async getCostReports(query: CostQuery): Promise<ClientResponse> {
+  // Helper method to add the forecast of the provider to the monthly reports of one integration
+  private async handleForecast(
+    integrationConfig: Config,
+    integrationName: string,
+    query: CostQuery,
+    reports: Report[],
+  ): Promise<void> {
+    const now = new Date();
+    if (
+      !this.supportsForecast() ||
+      query.granularity !== GRANULARITY.MONTHLY ||
+      parseInt(query.endTime, 10) < startOfMonth(now).getTime() ||
+      reports.length === 0
+    ) {
+      return;
+    }
+
+    try {
+      let forecast = await getForecastFromCache(this.cache, this.provider, integrationName, query);
+      if (forecast === undefined) {
+        const client = await this.initCloudClient(integrationConfig);
+        const fetchedForecast = await this.fetchForecast(integrationConfig, client, query);
+        if (fetchedForecast === null) {
+          return;
+        }
+        forecast = fetchedForecast;
+        await setForecastToCache(
+          this.cache,
+          forecast,
+          this.provider,
+          integrationName,
+          query,
+          this.getCacheTTL(CACHE_CATEGORY.COSTS),
+        );
+      }
+
+      spreadForecastOverReports(reports, forecast, format(now, 'yyyy-MM'), format(addMonths(now, -1), 'yyyy-MM'));
+    } catch (e) {
+      // the costs are still returned without the forecast
+      this.logger.warn(`Failed to fetch the forecast of ${this.provider}/${integrationName}: ${(e as Error).message}`);
+    }
+  }
+
+  async getCostReports(query: CostQuery, walletName: string = DEFAULT_WALLET_NAME): Promise<ClientResponse> {
     const autoloadCostData = this.config.getOptionalBoolean('backend.infraWallet.autoload.enabled') ?? false;
-    const integrationConfigs = this.config.getOptionalConfigArray(
-      `backend.infraWallet.integrations.${this.provider.toLowerCase()}`,
-    );
+    const integrationConfigs = this.getIntegrationConfigs(walletName);
 
-    if (!integrationConfigs) {
+    if (!integrationConfigs || integrationConfigs.length === 0) {
       return { reports: [], errors: [] };
     }
 
@@ -320,26 +550,26 @@ export abstract class InfraWalletClient {
     const errors: CloudProviderError[] = [];
 
     // Use autoload from database if conditions are met
-    if (this.shouldUseAutoloadFromDatabase(query, autoloadCostData)) {
-      const reportsFromDatabase = await this.getCostReportsFromDatabase(query);
+    if (this.shouldUseAutoloadFromDatabase(query, autoloadCostData, walletName)) {
+      const reportsFromDatabase = await this.getCostReportsFromDatabase(query, walletName);
       reportsFromDatabase.forEach(report => results.push(report));
     } else {
       const promises = [];
 
       for (const integrationConfig of integrationConfigs) {
         const integrationName = integrationConfig.getString('name');
+        const integrationReports: Report[] = [];
 
-        // Check for cached data first
-        const foundCachedData = await this.handleCachedData(integrationName, query, results);
-
-        if (foundCachedData) {
-          continue;
-        }
-
-        // Process fresh data from API
+        // Check for cached data first, then process fresh data from API if nothing is cached
         const promise = (async () => {
           try {
-            await this.processFreshData(integrationConfig, integrationName, query, results);
+            const integrationQuery = { ...query, costMetric: this.getCostMetric(integrationConfig, query) };
+            const foundCachedData = await this.handleCachedData(integrationName, integrationQuery, integrationReports);
+            if (!foundCachedData) {
+              await this.processFreshData(integrationConfig, integrationName, integrationQuery, integrationReports);
+            }
+            await this.handleForecast(integrationConfig, integrationName, integrationQuery, integrationReports);
+            integrationReports.forEach(report => results.push(report));
           } catch (e) {
             this.logger.error(`${e}`);
             errors.push({
@@ -360,75 +590,387 @@ export abstract class InfraWalletClient {
     };
   }
 
-  async saveCostReportsToDatabase(wallet: Wallet, granularity: GRANULARITY): Promise<void> {
-    const count = await countCostItems(this.database, wallet.id, this.provider, granularity);
-
-    const endTime = endOfMonth(new Date());
-    let startTime = startOfMonth(addMonths(new Date(), -1));
+  // Get the start of the period to fetch, the whole history is fetched if nothing is saved yet
+  private getFetchStartTime(count: number): Date {
     if (count === 0) {
       // if there is no record, the first call is going to fetch the last 364 days' cost data
       // it cannot be 365 day or 1 year because Azure API will responds with the following error
       // Invalid query definition: The time period for pulling the data cannot exceed 1 year(s)
-      startTime = startOfMonth(
-        addMonths(new Date(), -1 * NUMBER_OF_MONTHS_FETCHING_HISTORICAL_COSTS[this.provider] + 1),
-      );
+      return startOfMonth(addMonths(new Date(), -1 * this.getHistoricalMonths() + 1));
+    }
+
+    return startOfMonth(addMonths(new Date(), -1));
+  }
+
+  // Fetch the costs of one integration to save, split by groups if given
+  // the transformation summary is undefined if the costs are read from the cache
+  private async fetchIntegrationCostReportsToSave(
+    integrationConfig: Config,
+    granularity: GRANULARITY,
+    startTime: Date,
+    endTime: Date,
+    groups: string,
+    useCache: boolean,
+  ): Promise<{ reports: Report[]; summary?: TransformationSummary }> {
+    const integrationName = integrationConfig.getString('name');
+    const query: CostQuery = {
+      filters: '',
+      tags: '',
+      groups: groups,
+      granularity: granularity,
+      startTime: startTime.getTime().toString(),
+      endTime: endTime.getTime().toString(),
+      costMetric: this.getCostMetric(integrationConfig),
+    };
+    // the cost metric is saved with the cost items
+    const withCostMetric = (reports: Report[]) => reports.map(report => ({ ...report, costMetric: query.costMetric }));
+
+    const reports: Report[] = [];
+    if (useCache && (await this.handleCachedData(integrationName, query, reports))) {
+      return { reports: withCostMetric(reports) };
     }
 
-    this.logger.debug(`Fetching ${granularity} costs from ${startTime} to ${endTime} for ${this.provider}`);
+    this.lastTransformationSummary = undefined;
+    await this.processFreshData(integrationConfig, integrationName, query, reports);
+    return { reports: withCostMetric(reports), summary: this.lastTransformationSummary };
+  }
 
-    const results: Report[] = [];
+  // Fetch the costs of all the integrations to save, the errors and the summaries are recorded in their runs
+  // the integrations are fetched one by one so that each transformation summary belongs to its integration
+  // the number of rows of each integration is returned in the order of the runs, it is added to the runs once saved
+  private async fetchCostReportsToSave(
+    runs: { integrationConfig: Config; run: IngestionRun }[],
+    granularity: GRANULARITY,
+    startTime: Date,
+    endTime: Date,
+    groups: string,
+    refreshedIntegrations?: string[],
+  ): Promise<{ reports: Report[]; rows: number[]; failed: boolean }> {
     const usageDateFormat = granularity === GRANULARITY.DAILY ? 'yyyyMMdd' : 'yyyyMM';
-    try {
-      const clientResponse = await this.getCostReports({
-        filters: '',
-        tags: '',
-        groups: '',
+    const results: Report[] = [];
+    const rows: number[] = [];
+    let failed = false;
+    for (const { integrationConfig, run } of runs) {
+      try {
+        const { reports, summary } = await this.fetchIntegrationCostReportsToSave(
+          integrationConfig,
+          granularity,
+          startTime,
+          endTime,
+          groups,
+          !refreshedIntegrations?.includes(run.integration),
+        );
+        reports.forEach(report => results.push(report));
+        rows.push(
+          countCostItemRows(
+            reports,
+            parseInt(format(startTime, usageDateFormat), 10),
+            parseInt(format(endTime, usageDateFormat), 10),
+          ),
+        );
+        if (groups === '') {
+          run.summary = summary;
+        }
+      } catch (e) {
+        this.logger.error(`${e}`);
+        failIngestionRun(run, groups === '' ? (e as Error).message : `${groups}: ${(e as Error).message}`);
+        rows.push(0);
+        failed = true;
+      }
+    }
+
+    return { reports: results, rows: rows, failed: failed };
+  }
+
+  // Replace the saved costs of a period by the fetched ones, the saved costs are kept if any integration failed
+  // since the costs of all the integrations are saved together, or if the fetched costs look incomplete
+  private async replaceCostItems(
+    runs: { integrationConfig: Config; run: IngestionRun }[],
+    fetched: { reports: Report[]; rows: number[]; failed: boolean },
+    groups: string,
+    minReplacementRatio: number,
+    insert: (reports: Report[], minReplacementRatio: number) => Promise<number | undefined>,
+  ): Promise<void> {
+    const prefix = groups === '' ? '' : `${groups}: `;
+    if (fetched.failed) {
+      runs
+        .filter(({ run }) => run.status !== 'failed')
+        .forEach(({ run }) =>
+          skipIngestionRun(run, `${prefix}saved costs kept because another integration of ${this.provider} failed`),
+        );
+      return;
+    }
+
+    const inserted = await insert(fetched.reports, minReplacementRatio);
+    if (inserted === undefined) {
+      const fetchedRows = fetched.rows.reduce((a, b) => a + b, 0);
+      this.logger.warn(
+        `${this.provider} ${prefix}${fetchedRows} cost items fetched, too few to replace the saved ones, they are kept`,
+      );
+      runs.forEach(({ run }) =>
+        skipIngestionRun(run, `${prefix}saved costs kept because only ${fetchedRows} cost items were fetched`),
+      );
+      return;
+    }
+    this.logger.info(`${this.provider} ${prefix}${inserted} cost items have been inserted`);
+
+    runs.forEach(({ run }, index) => {
+      run.rows_written += fetched.rows[index];
+    });
+  }
+
+  // Fetch the costs of all the integrations of the wallet and save them, one ingestion run is recorded per integration
+  private async fetchAndSaveCostReports(
+    wallet: Wallet,
+    granularity: GRANULARITY,
+    options: {
+      // the start of the period to fetch for the cost items, or for the cost items of a stored tag key
+      getStartTime: (tagKey?: string) => Promise<Date>;
+      endTime: Date;
+      minReplacementRatio: number;
+      // the integrations fetched from the provider even if their costs are cached, see fetchCostReportsToSave
+      refreshedIntegrations?: string[];
+      // the saved costs out of the period are also replaced, in the same transaction as the fetched ones
+      replaceHistory?: boolean;
+    },
+  ): Promise<void> {
+    const integrationConfigs = this.getIntegrationConfigs(wallet.name);
+    if (!integrationConfigs || integrationConfigs.length === 0) {
+      return;
+    }
+
+    const { getStartTime, endTime, minReplacementRatio, refreshedIntegrations, replaceHistory } = options;
+
+    // every integration has a run in the history, whatever the outcome
+    const runs = integrationConfigs.map(integrationConfig => ({
+      integrationConfig: integrationConfig,
+      run: {
+        wallet_id: wallet.id,
+        provider: this.provider,
+        integration: integrationConfig.getString('name'),
         granularity: granularity,
-        startTime: startTime.getTime().toString(),
-        endTime: endTime.getTime().toString(),
-      });
-      clientResponse.reports.forEach((cost: Report) => {
-        results.push(cost);
+        started_at: new Date(),
+        status: 'succeeded',
+        rows_written: 0,
+      } as IngestionRun,
+    }));
+
+    try {
+      const usageDateFormat = granularity === GRANULARITY.DAILY ? 'yyyyMMdd' : 'yyyyMM';
+      const startTime = await getStartTime();
+
+      this.logger.debug(
+        `Fetching ${granularity} costs from ${startTime} to ${endTime} for ${this.provider} in wallet ${wallet.name}`,
+      );
+
+      const fetched = await this.fetchCostReportsToSave(
+        runs,
+        granularity,
+        startTime,
+        endTime,
+        '',
+        refreshedIntegrations,
+      );
+      await this.replaceCostItems(runs, fetched, '', minReplacementRatio, (reports, ratio) =>
+        bulkInsertCostItems(
+          this.database,
+          wallet.id,
+          this.provider,
+          granularity,
+          parseInt(format(startTime, usageDateFormat), 10),
+          parseInt(format(endTime, usageDateFormat), 10),
+          reports,
+          ratio,
+          replaceHistory,
+        ),
+      );
+
+      // the costs are also saved split by each stored tag key, so that the tag filters can be answered from the database
+      for (const tagKey of this.getStoredTagKeys(wallet.name)) {
+        const tagStartTime = await getStartTime(tagKey);
+
+        this.logger.debug(
+          `Fetching ${granularity} costs of tag ${tagKey} from ${tagStartTime} to ${endTime} for ${this.provider} in wallet ${wallet.name}`,
+        );
+
+        const taggedFetched = await this.fetchCostReportsToSave(
+          runs,
+          granularity,
+          tagStartTime,
+          endTime,
+          `tag:${tagKey}`,
+          refreshedIntegrations,
+        );
+        await this.replaceCostItems(runs, taggedFetched, `tag:${tagKey}`, minReplacementRatio, (reports, ratio) =>
+          bulkInsertTaggedCostItems(
+            this.database,
+            wallet.id,
+            this.provider,
+            granularity,
+            tagKey,
+            parseInt(format(tagStartTime, usageDateFormat), 10),
+            parseInt(format(endTime, usageDateFormat), 10),
+            reports,
+            ratio,
+            replaceHistory,
+          ),
+        );
+      }
+    } catch (e) {
+      // the cost items of all the integrations are saved together, so a database error fails all the runs
+      // the saved cost items are untouched since they are replaced in a transaction
+      runs.forEach(({ run }) => failIngestionRun(run, (e as Error).message));
+      throw e;
+    } finally {
+      const finishedAt = new Date();
+      runs.forEach(({ run }) => {
+        run.finished_at = finishedAt;
       });
+      await insertIngestionRuns(
+        this.database,
+        runs.map(({ run }) => run),
+      ).catch(e => this.logger.error(`Failed to record the ingestion runs of ${this.provider}: ${e}`));
+    }
+
+    if (runs.some(({ run }) => run.status !== 'succeeded')) {
+      throw new Error(
+        runs
+          .map(({ run }) => run.error)
+          .filter(Boolean)
+          .join('\n'),
+      );
+    }
+  }
+
+  // The cost items are read from the database as they are saved, so the saved ones are replaced when the cost metric
+  // of an integration changes, the whole history is then fetched again with the configured metrics
+  private async hasStaleCostItems(wallet: Wallet, granularity: GRANULARITY): Promise<boolean> {
+    let configuredCostMetrics: (string | undefined)[];
+    try {
+      configuredCostMetrics = (this.getIntegrationConfigs(wallet.name) ?? []).map(integrationConfig =>
+        this.getCostMetric(integrationConfig),
+      );
     } catch (e) {
-      this.logger.error(`${e}`);
+      // an unsupported cost metric fails the ingestion run of its integration
+      return false;
     }
+    const savedCostMetrics = await getCostItemMetrics(this.database, wallet.id, this.provider, granularity);
+    return hasStaleCostMetrics(savedCostMetrics, configuredCostMetrics, this.getCostMetrics()[0]);
+  }
 
-    await bulkInsertCostItems(
-      this.database,
-      wallet.id,
-      this.provider,
-      granularity,
-      parseInt(format(startTime, usageDateFormat), 10),
-      parseInt(format(endTime, usageDateFormat), 10),
-      results,
+  // Save the costs of the autoload task, the whole history is fetched if nothing is saved yet, the last month otherwise
+  // the saved costs are only replaced once the whole history is fetched, see replaceCostItems
+  async saveCostReportsToDatabase(wallet: Wallet, granularity: GRANULARITY): Promise<void> {
+    const replaceHistory = await this.hasStaleCostItems(wallet, granularity);
+    if (replaceHistory) {
+      this.logger.info(
+        `The cost metrics of ${this.provider} in wallet ${wallet.name} changed, the saved ${granularity} cost items are replaced by the whole history`,
+      );
+    }
+
+    await this.fetchAndSaveCostReports(wallet, granularity, {
+      getStartTime: async tagKey => {
+        if (replaceHistory) {
+          return this.getFetchStartTime(0);
+        }
+        return this.getFetchStartTime(
+          tagKey === undefined
+            ? await countCostItems(this.database, wallet.id, this.provider, granularity)
+            : await countTaggedCostItems(this.database, wallet.id, this.provider, granularity, tagKey),
+        );
+      },
+      endTime: endOfMonth(new Date()),
+      minReplacementRatio:
+        this.config.getOptionalNumber('backend.infraWallet.autoload.minReplacementRatio') ??
+        DEFAULT_MIN_REPLACEMENT_RATIO,
+      replaceHistory: replaceHistory,
+    });
+  }
+
+  // Re-fetch and replace the saved costs of a period, the integration is fetched from the provider even if its costs
+  // are cached, all the integrations are if none is given
+  // the saved costs are kept if the fetch is empty, but a smaller fetch than the saved costs replaces them
+  async backfillCostReportsToDatabase(
+    wallet: Wallet,
+    granularity: GRANULARITY,
+    startTime: Date,
+    endTime: Date,
+    integrationName?: string,
+  ): Promise<void> {
+    const integrationNames = (this.getIntegrationConfigs(wallet.name) ?? []).map(integrationConfig =>
+      integrationConfig.getString('name'),
     );
+    if (integrationName !== undefined && !integrationNames.includes(integrationName)) {
+      throw new Error(`Integration ${integrationName} of ${this.provider} not found in wallet ${wallet.name}`);
+    }
+
+    await this.fetchAndSaveCostReports(wallet, granularity, {
+      getStartTime: async () => startTime,
+      endTime: endTime,
+      minReplacementRatio: 0,
+      refreshedIntegrations: integrationName === undefined ? integrationNames : [integrationName],
+    });
   }
 
-  async getCostReportsFromDatabase(query: CostQuery): Promise<Report[]> {
-    // TODO: support searching for different wallets in the future, for now it is always the default wallet
-    const defaultWallet = await getWallet(this.database, 'default');
-    if (defaultWallet !== undefined) {
+  async getCostReportsFromDatabase(query: CostQuery, walletName: string = DEFAULT_WALLET_NAME): Promise<Report[]> {
+    const wallet = await getWallet(this.database, walletName);
+    if (wallet !== undefined) {
+      const tagKey = this.getDatabaseTagKey(query, walletName);
+      if (tagKey === null) {
+        this.logger.warn(
+          `The ${this.provider} costs with tags ${query.tags} and groups ${query.groups} are not stored`,
+        );
+        return [];
+      }
+
       // query the database
       const usageDateFormat = query.granularity === 'daily' ? 'yyyyMMdd' : 'yyyyMM';
       const startUsageDate = parseInt(format(parseInt(query.startTime, 10), usageDateFormat), 10);
       const endUsageDate = parseInt(format(parseInt(query.endTime, 10), usageDateFormat), 10);
-      const costItems = await getCostItems(
-        this.database,
-        defaultWallet.id,
-        this.provider,
-        query.granularity,
-        startUsageDate,
-        endUsageDate,
-      );
+      let costItems: (CostItem | TaggedCostItem)[];
+      if (tagKey === undefined) {
+        costItems = await getCostItems(
+          this.database,
+          wallet.id,
+          this.provider,
+          query.granularity,
+          startUsageDate,
+          endUsageDate,
+        );
+      } else {
+        const tagValues = parseTags(query.tags)
+          .map(tag => tag.value)
+          .filter((value): value is string => value !== undefined);
+        costItems = await getTaggedCostItems(
+          this.database,
+          wallet.id,
+          this.provider,
+          query.granularity,
+          tagKey,
+          tagValues.length > 0 ? tagValues : undefined,
+          startUsageDate,
+          endUsageDate,
+        );
+      }
 
-      // transform the cost items into cost reports
+      // transform the cost items into cost reports, split by the value of the group column if any
+      // the cost items of different tag values are added up unless the costs are split by the tag key
+      const group = parseGroups(query.groups);
+      const splitByTag = tagKey !== undefined && group?.column === tagKey;
       const transformedData = reduce(
         costItems,
-        (accumulator: { [key: string]: Report }, row: CostItem) => {
-          const key = row.key;
+        (accumulator: { [key: string]: Report }, row: CostItem | TaggedCostItem) => {
           const otherColumns =
-            typeof row.other_columns === 'string' ? JSON.parse(row.other_columns) : row.other_columns;
+            (typeof row.other_columns === 'string' ? JSON.parse(row.other_columns) : row.other_columns) ?? {};
+          let baseKey = row.key;
+          if (tagKey !== undefined && 'tag_value' in row) {
+            if (splitByTag) {
+              otherColumns[tagKey] = row.tag_value;
+            } else {
+              baseKey = [row.account, row.service, JSON.stringify(otherColumns)].join('->');
+            }
+          }
+          const key = group ? `${baseKey}->${otherColumns[group.column] ?? ''}` : baseKey;
 
           if (!accumulator[key]) {
             accumulator[key] = {
@@ -440,9 +982,13 @@ export abstract class InfraWalletClient {
               providerType: PROVIDER_TYPE.INTEGRATION,
               reports: {},
               ...otherColumns,
+              ...(group ? { [group.column]: otherColumns[group.column] ?? '' } : {}),
             };
           }
-          accumulator[key].reports[usageDateToPeriodString(row.usage_date)] = parseFloat(row.cost as string);
+          const period = usageDateToPeriodString(row.usage_date);
+          const cost = parseFloat(row.cost as string);
+          accumulator[key].reports[period] =
+            group || tagKey !== undefined ? parseCost((accumulator[key].reports[period] ?? 0) + cost) : cost;
 
           return accumulator;
         },
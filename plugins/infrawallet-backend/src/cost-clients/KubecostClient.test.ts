@@ -50,6 +50,8 @@ jest.mock('../service/consts', () => ({
   DEFAULT_TAGS_CACHE_TTL: {},
   DEFAULT_COSTS_CACHE_TTL: {},
   NUMBER_OF_MONTHS_FETCHING_HISTORICAL_COSTS: {},
+  DEFAULT_EXTENSION_NUMBER_OF_MONTHS_FETCHING_HISTORICAL_COSTS: 12,
+  DEFAULT_WALLET_NAME: 'default',
 }));
 
 jest.mock('../service/CategoryMappingService', () => ({
@@ -61,7 +63,7 @@ jest.mock('../service/CategoryMappingService', () => ({
   },
 }));
 
-jest.mock('../controllers/MetricSettingController', () => ({
+jest.mock('../controllers/WalletController', () => ({
   getWallet: jest.fn(),
 }));
 jest.mock('../models/CostItem', () => ({
@@ -1,4 +1,7 @@
-import { createExtensionPoint } from '@backstage/backend-plugin-api';
+import { CacheService, DatabaseService, LoggerService, createExtensionPoint } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import { InfraWalletClient } from './cost-clients/InfraWalletClient';
+import { MetricProvider } from './metric-providers/MetricProvider';
 import { ReportParameters } from './service/types';
 
 export interface InfrawalletFilterExtension {
@@ -12,3 +15,35 @@ export interface InfrawalletReportFilterExtensionPoint {
 export const infrawalletReportFilterExtensionPoint = createExtensionPoint<InfrawalletReportFilterExtensionPoint>({
   id: 'infrawallet.report.filter',
 });
+
+export interface InfrawalletCostClientFactory {
+  create(config: Config, database: DatabaseService, cache: CacheService, logger: LoggerService): InfraWalletClient;
+}
+
+export interface InfrawalletCostClientExtensionPoint {
+  /**
+   * Register a cost client for the integrations configured under `backend.infraWallet.integrations.<provider>`,
+   * the provider key is case-insensitive and cannot be one of the built-in providers.
+   */
+  addCostClient(provider: string, factory: InfrawalletCostClientFactory): void;
+}
+
+export const infrawalletCostClientExtensionPoint = createExtensionPoint<InfrawalletCostClientExtensionPoint>({
+  id: 'infrawallet.cost-client',
+});
+
+export interface InfrawalletMetricProviderFactory {
+  create(config: Config, database: DatabaseService, cache: CacheService, logger: LoggerService): MetricProvider;
+}
+
+export interface InfrawalletMetricProviderExtensionPoint {
+  /**
+   * Register a metric provider for the configs under `backend.infraWallet.metricProviders.<provider>`,
+   * the provider key is case-insensitive and cannot be one of the built-in providers.
+   */
+  addMetricProvider(provider: string, factory: InfrawalletMetricProviderFactory): void;
+}
+
+export const infrawalletMetricProviderExtensionPoint = createExtensionPoint<InfrawalletMetricProviderExtensionPoint>({
+  id: 'infrawallet.metric-provider',
+});
@@ -1,5 +1,25 @@
-export { infrawalletReportFilterExtensionPoint } from './extension';
-export type { InfrawalletFilterExtension, InfrawalletReportFilterExtensionPoint } from './extension';
+export { InfraWalletClient } from './cost-clients/InfraWalletClient';
+export {
+  infrawalletCostClientExtensionPoint,
+  infrawalletMetricProviderExtensionPoint,
+  infrawalletReportFilterExtensionPoint,
+} from './extension';
+export type {
+  InfrawalletCostClientExtensionPoint,
+  InfrawalletCostClientFactory,
+  InfrawalletFilterExtension,
+  InfrawalletMetricProviderExtensionPoint,
+  InfrawalletMetricProviderFactory,
+  InfrawalletReportFilterExtensionPoint,
+} from './extension';
+export { MetricProvider } from './metric-providers/MetricProvider';
 export { infraWalletPlugin as default } from './plugin';
+export {
+  createInfraWalletWalletConditionalDecision,
+  infraWalletWalletConditions,
+  walletPermissionResourceRef,
+  walletPermissionRules,
+} from './service/permissions';
 export * from './service/router';
-export type { ReportParameters, Tag } from './service/types';
+export { CACHE_CATEGORY, GRANULARITY, PROVIDER_TYPE } from './service/consts';
+export type { CostQuery, Metric, MetricQuery, Report, ReportParameters, Tag, TagsQuery } from './service/types';
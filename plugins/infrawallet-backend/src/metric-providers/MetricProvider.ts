@@ -3,6 +3,11 @@ import { Config } from '@backstage/config';
 import { getMetricsFromCache, setMetricsToCache } from '../service/functions';
 import { CloudProviderError, Metric, MetricQuery, MetricSetting, MetricResponse } from '../service/types';
 
+/**
+ * Base class of the metric providers, it can be extended to add a provider through the metric provider extension point
+ *
+ * @public
+ */
 export abstract class MetricProvider {
   constructor(
     protected readonly providerName: string,
@@ -0,0 +1,252 @@
+/**
+ * @file PrometheusProvider.test.ts
+ * @description Tests for the PrometheusProvider metric provider.
+ *
+ * This test suite validates:
+ * - Outbound requests: config + query → range query against the Prometheus HTTP API
+ * - Authentication: bearer token and basic auth headers
+ * - Periods: a point at time t aggregates the interval before t and belongs to the previous day
+ * - Data transformation: Prometheus matrix results → InfraWallet metrics
+ *
+ * @module PrometheusProvider.test
+ */
+
+import { ConfigReader } from '@backstage/config';
+import moment from 'moment';
+
+// Mock the functions module to break circular dependency (consts imports all clients and providers)
+jest.mock('../service/functions', () => ({
+  getMetricsFromCache: jest.fn().mockResolvedValue(undefined),
+  setMetricsToCache: jest.fn(),
+}));
+
+import { PrometheusProvider } from './PrometheusProvider';
+import { MetricQuery } from '../service/types';
+
+// ─── Test Helpers ────────────────────────────────────────────────────────────
+
+const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
+
+function createTestProvider(): PrometheusProvider {
+  return PrometheusProvider.create(
+    new ConfigReader({}),
+    {} as any,
+    { get: jest.fn(), set: jest.fn() } as any,
+    {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      child: jest.fn().mockReturnThis(),
+    } as any,
+  );
+}
+
+function createQuery(granularity: 'daily' | 'monthly' = 'daily'): MetricQuery {
+  return {
+    walletName: 'default',
+    name: 'requests',
+    query: 'sum(increase(http_requests_total[IW_INTERVAL]))',
+    granularity: granularity,
+    startTime: moment('2024-01-01').valueOf().toString(),
+    endTime: moment('2024-01-31').valueOf().toString(),
+  };
+}
+
+// the timestamp of a point at the local midnight starting the given day
+function midnight(date: string): number {
+  return moment(date).unix();
+}
+
+function createResponse(values: [number, string][], metric: Record<string, string> = {}) {
+  return { status: 'success', data: { resultType: 'matrix', result: [{ metric: metric, values: values }] } };
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+describe('PrometheusProvider', () => {
+  let provider: PrometheusProvider;
+
+  beforeEach(() => {
+    provider = createTestProvider();
+  });
+
+  describe('fetchMetrics → HTTP request', () => {
+    let originalFetch: typeof global.fetch;
+    let fetchMock: jest.Mock;
+
+    beforeEach(() => {
+      originalFetch = global.fetch;
+      fetchMock = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        json: async () => createResponse([]),
+      });
+      global.fetch = fetchMock as any;
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    const getRequest = () => {
+      const [url, init] = fetchMock.mock.calls[0];
+      return { url: url as string, headers: init.headers, body: init.body as URLSearchParams };
+    };
+
+    it('should query the range API one day later than the queried period', async () => {
+      const query = createQuery();
+
+      await provider.fetchMetrics(new ConfigReader({ url: 'http://prometheus:9090/' }), null, query);
+
+      const { url, body } = getRequest();
+      expect(url).toBe('http://prometheus:9090/api/v1/query_range');
+      expect(body.get('start')).toBe((midnight('2024-01-01') + ONE_DAY_IN_SECONDS).toString());
+      expect(body.get('end')).toBe((midnight('2024-01-31') + ONE_DAY_IN_SECONDS).toString());
+      expect(body.get('step')).toBe(ONE_DAY_IN_SECONDS.toString());
+    });
+
+    it('should not query points in the future', async () => {
+      const query = { ...createQuery(), endTime: moment().add(1, 'month').valueOf().toString() };
+      const before = moment().unix();
+
+      await provider.fetchMetrics(new ConfigReader({ url: 'http://prometheus:9090' }), null, query);
+
+      const end = parseInt(getRequest().body.get('end') as string, 10);
+      expect(end).toBeGreaterThanOrEqual(before);
+      expect(end).toBeLessThanOrEqual(moment().unix());
+    });
+
+    it.each([
+      ['daily', '1d'],
+      ['monthly', '30d'],
+    ] as const)('should replace IW_INTERVAL for the %s granularity', async (granularity, interval) => {
+      await provider.fetchMetrics(new ConfigReader({ url: 'http://prometheus:9090' }), null, createQuery(granularity));
+
+      expect(getRequest().body.get('query')).toBe(`sum(increase(http_requests_total[${interval}]))`);
+    });
+
+    it('should send a bearer token', async () => {
+      await provider.fetchMetrics(
+        new ConfigReader({ url: 'http://prometheus:9090', token: 'secret', username: 'ignored' }),
+        null,
+        createQuery(),
+      );
+
+      expect(getRequest().headers).toEqual({
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: 'Bearer secret',
+      });
+    });
+
+    it('should send the basic auth credentials', async () => {
+      await provider.fetchMetrics(
+        new ConfigReader({ url: 'http://prometheus:9090', username: 'user', password: 'pass' }),
+        null,
+        createQuery(),
+      );
+
+      expect(getRequest().headers.Authorization).toBe(`Basic ${Buffer.from('user:pass').toString('base64')}`);
+    });
+
+    it('should send no credentials if none are configured', async () => {
+      await provider.fetchMetrics(new ConfigReader({ url: 'http://prometheus:9090' }), null, createQuery());
+
+      expect(getRequest().headers).toEqual({ 'Content-Type': 'application/x-www-form-urlencoded' });
+    });
+
+    it('should throw the error returned by Prometheus', async () => {
+      fetchMock.mockResolvedValue({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: async () => ({ status: 'error', error: 'parse error' }),
+      });
+
+      await expect(
+        provider.fetchMetrics(new ConfigReader({ url: 'http://prometheus:9090' }), null, createQuery()),
+      ).rejects.toThrow('Failed to query Prometheus at http://prometheus:9090: parse error');
+    });
+
+    it('should throw the HTTP status if the response is not JSON', async () => {
+      fetchMock.mockResolvedValue({
+        ok: false,
+        status: 502,
+        statusText: 'Bad Gateway',
+        json: async () => {
+          throw new SyntaxError('Unexpected token');
+        },
+      });
+
+      await expect(
+        provider.fetchMetrics(new ConfigReader({ url: 'http://prometheus:9090' }), null, createQuery()),
+      ).rejects.toThrow('Failed to query Prometheus at http://prometheus:9090: 502 Bad Gateway');
+    });
+  });
+
+  describe('transformMetricData', () => {
+    it('should put a point at midnight into the previous day', async () => {
+      const response = createResponse([
+        [midnight('2024-01-02'), '10'],
+        [midnight('2024-01-03'), '20.5'],
+      ]);
+
+      const metrics = await provider.transformMetricData(new ConfigReader({}), createQuery(), response);
+
+      expect(metrics).toEqual([
+        {
+          id: 'requests',
+          provider: 'Prometheus',
+          name: 'requests',
+          reports: { '2024-01-01': 10, '2024-01-02': 20.5 },
+        },
+      ]);
+    });
+
+    it('should keep the last point of a month for the monthly granularity', async () => {
+      const response = createResponse([
+        [midnight('2024-01-31'), '100'],
+        [midnight('2024-02-01'), '110'],
+        [midnight('2024-02-02'), '5'],
+        [midnight('2024-03-01'), '120'],
+      ]);
+
+      const metrics = await provider.transformMetricData(new ConfigReader({}), createQuery('monthly'), response);
+
+      expect(metrics[0].reports).toEqual({ '2024-01': 110, '2024-02': 120 });
+    });
+
+    it('should skip the values that are not numbers', async () => {
+      const response = createResponse([
+        [midnight('2024-01-02'), 'NaN'],
+        [midnight('2024-01-03'), '3'],
+      ]);
+
+      const metrics = await provider.transformMetricData(new ConfigReader({}), createQuery(), response);
+
+      expect(metrics[0].reports).toEqual({ '2024-01-02': 3 });
+    });
+
+    it('should name the series by their labels', async () => {
+      const response = {
+        status: 'success',
+        data: {
+          resultType: 'matrix',
+          result: [
+            { metric: { __name__: 'http_requests_total', service: 'api' }, values: [[midnight('2024-01-02'), '1']] },
+            { metric: { service: 'web', env: 'prod' }, values: [[midnight('2024-01-02'), '2']] },
+          ],
+        },
+      };
+
+      const metrics = await provider.transformMetricData(new ConfigReader({}), createQuery(), response);
+
+      expect(metrics.map(metric => metric.name)).toEqual([
+        'requests{service="api"}',
+        'requests{service="web",env="prod"}',
+      ]);
+      expect(metrics.map(metric => metric.id)).toEqual(metrics.map(metric => metric.name));
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { CacheService, DatabaseService, LoggerService } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import moment from 'moment';
+import { MetricProvider } from './MetricProvider';
+import { Metric, MetricQuery } from '../service/types';
+
+const ONE_DAY_IN_SECONDS = 24 * 60 * 60;
+
+export class PrometheusProvider extends MetricProvider {
+  static create(config: Config, database: DatabaseService, cache: CacheService, logger: LoggerService) {
+    return new PrometheusProvider('Prometheus', config, database, cache, logger);
+  }
+
+  async initProviderClient(_config: Config): Promise<any> {
+    // the HTTP API is called with fetch, no client is needed
+    return null;
+  }
+
+  private getAuthHeaders(metricProviderConfig: Config): Record<string, string> {
+    const token = metricProviderConfig.getOptionalString('token');
+    if (token) {
+      return { Authorization: `Bearer ${token}` };
+    }
+
+    const username = metricProviderConfig.getOptionalString('username');
+    if (username) {
+      const password = metricProviderConfig.getOptionalString('password') ?? '';
+      return { Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}` };
+    }
+
+    return {};
+  }
+
+  async fetchMetrics(metricProviderConfig: Config, _client: any, query: MetricQuery): Promise<any> {
+    const url = metricProviderConfig.getString('url').replace(/\/+$/, '');
+
+    // a point at time t aggregates the IW_INTERVAL before t, so the points are taken at the end of each day
+    // and one day later than the queried period, see transformMetricData
+    const start = Math.floor(parseInt(query.startTime, 10) / 1000) + ONE_DAY_IN_SECONDS;
+    const end = Math.min(Math.floor(parseInt(query.endTime, 10) / 1000) + ONE_DAY_IN_SECONDS, moment().unix());
+
+    const body = new URLSearchParams({
+      query: query.query?.replaceAll('IW_INTERVAL', query.granularity === 'daily' ? '1d' : '30d') as string,
+      start: start.toString(),
+      end: end.toString(),
+      step: ONE_DAY_IN_SECONDS.toString(),
+    });
+
+    const response = await fetch(`${url}/api/v1/query_range`, {
+      method: 'post',
+      body: body,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        ...this.getAuthHeaders(metricProviderConfig),
+      },
+    });
+    const data = await response.json().catch(() => undefined);
+
+    if (!response.ok || data?.status !== 'success') {
+      throw new Error(
+        `Failed to query Prometheus at ${url}: ${data?.error ?? `${response.status} ${response.statusText}`}`,
+      );
+    }
+
+    return data;
+  }
+
+  async transformMetricData(_metricProviderConfig: Config, query: MetricQuery, metricResponse: any): Promise<Metric[]> {
+    const transformedData = [];
+
+    for (const series of metricResponse.data.result) {
+      const metricName = query.name as string;
+      const labels = Object.entries(series.metric as Record<string, string>)
+        .filter(([key, _value]) => key !== '__name__')
+        .map(([key, value]) => `${key}="${value}"`)
+        .join(',');
+
+      // the series of one query are told apart in the chart by their labels
+      const seriesName = labels.length === 0 ? metricName : `${metricName}{${labels}}`;
+      const metric: Metric = {
+        id: seriesName,
+        provider: this.providerName,
+        name: seriesName,
+        reports: {},
+      };
+
+      // the points are sorted by time, for the monthly granularity the last point of a month is kept,
+      // which aggregates the 30 days before the end of that month
+      for (const [timestamp, value] of series.values as [number, string][]) {
+        const parsedValue = parseFloat(value);
+        if (isNaN(parsedValue)) {
+          continue;
+        }
+        // the point at midnight belongs to the previous day, see fetchMetrics
+        const period = moment((timestamp - 1) * 1000).format(query.granularity === 'daily' ? 'YYYY-MM-DD' : 'YYYY-MM');
+        metric.reports[period] = parsedValue;
+      }
+
+      transformedData.push(metric);
+    }
+
+    return transformedData;
+  }
+}
@@ -0,0 +1,46 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+import { AllocationRule } from '../service/types';
+
+// SQLite returns the json columns as strings
+function toAllocationRule(record: any): AllocationRule {
+  return {
+    id: record.id,
+    wallet_id: record.wallet_id,
+    name: record.name,
+    source_filters: record.source_filters,
+    method: record.method,
+    targets: typeof record.targets === 'string' ? JSON.parse(record.targets) : record.targets,
+  };
+}
+
+// Get the allocation rules of a wallet in the order they are applied, the oldest first
+export async function getAllocationRules(database: DatabaseService, walletId: string): Promise<AllocationRule[]> {
+  const knex = await database.getClient();
+  const records = await knex('allocation_rules').where('wallet_id', walletId).select('*').orderBy('created_at', 'asc');
+  return records.map(toAllocationRule);
+}
+
+// a rule of another wallet with the same ID is not updated
+export async function updateOrInsertAllocationRule(database: DatabaseService, rule: AllocationRule): Promise<boolean> {
+  const knex = await database.getClient();
+  // the targets are stringified, so that the array is stored as json in Postgres
+  const records = await knex('allocation_rules')
+    .insert({ ...rule, targets: JSON.stringify(rule.targets), updated_at: knex.fn.now() })
+    .onConflict('id')
+    .merge(['name', 'source_filters', 'method', 'targets', 'updated_at'])
+    .where('allocation_rules.wallet_id', rule.wallet_id)
+    .returning('id');
+
+  return records.length > 0;
+}
+
+export async function deleteAllocationRule(database: DatabaseService, rule: AllocationRule): Promise<boolean> {
+  const knex = await database.getClient();
+  const result: number = await knex('allocation_rules').where({ id: rule.id, wallet_id: rule.wallet_id }).del();
+
+  if (result > 0) {
+    return true;
+  }
+
+  return false;
+}
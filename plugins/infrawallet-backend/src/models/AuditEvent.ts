@@ -0,0 +1,94 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'fetch';
+
+export type AuditEntityType =
+  | 'allocation_rule'
+  | 'budget'
+  | 'cost_items'
+  | 'currency_rates'
+  | 'custom_cost'
+  | 'metric_setting'
+  | 'wallet';
+
+export type AuditEvent = {
+  id?: string; // UUID generated by database
+  actor: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id?: string;
+  wallet_name?: string;
+  before?: unknown;
+  after?: unknown;
+  created_at?: Date;
+};
+
+export type AuditEventQuery = {
+  offset: number;
+  limit: number;
+  entityType?: string;
+  walletName?: string;
+};
+
+// the values are always stringified, so that arrays are also stored as json in Postgres
+function toJsonColumn(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+// SQLite returns the json columns as strings
+function fromJsonColumn(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return value;
+  }
+}
+
+export async function insertAuditEvent(database: DatabaseService, event: AuditEvent): Promise<void> {
+  const knex = await database.getClient();
+  await knex('audit_events').insert({
+    actor: event.actor,
+    action: event.action,
+    entity_type: event.entity_type,
+    entity_id: event.entity_id,
+    wallet_name: event.wallet_name,
+    before: toJsonColumn(event.before),
+    after: toJsonColumn(event.after),
+  });
+}
+
+// Get a page of the audit events, the latest first
+export async function getAuditEvents(
+  database: DatabaseService,
+  query: AuditEventQuery,
+): Promise<{ events: AuditEvent[]; total: number }> {
+  const knex = await database.getClient();
+  const baseQuery = knex<AuditEvent>('audit_events').modify(builder => {
+    if (query.entityType) {
+      builder.where('entity_type', query.entityType);
+    }
+    if (query.walletName) {
+      builder.where('wallet_name', query.walletName);
+    }
+  });
+
+  const [{ count }] = await baseQuery.clone().count({ count: '*' });
+  const records: AuditEvent[] = await baseQuery
+    .clone()
+    .select('*')
+    .orderBy('created_at', 'desc')
+    .offset(query.offset)
+    .limit(query.limit);
+
+  const events = records.map(record => ({
+    ...record,
+    before: fromJsonColumn(record.before),
+    after: fromJsonColumn(record.after),
+  }));
+
+  return { events: events, total: Number(count) };
+}
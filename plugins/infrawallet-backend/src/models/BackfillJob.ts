@@ -0,0 +1,56 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+
+export type BackfillJobStatus = 'running' | 'succeeded' | 'failed';
+
+export type BackfillJob = {
+  id?: string; // UUID generated by database
+  wallet_id: string;
+  provider: string;
+  integration?: string; // all the integrations of the provider are re-fetched if not given
+  granularity: string;
+  start_time: Date;
+  end_time: Date;
+  status: BackfillJobStatus;
+  requested_by?: string;
+  error?: string;
+  created_at?: Date;
+  finished_at?: Date;
+};
+
+export async function createBackfillJob(database: DatabaseService, job: BackfillJob): Promise<BackfillJob> {
+  const knex = await database.getClient();
+  const [record] = await knex('backfill_jobs').insert(job).returning('*');
+  return record;
+}
+
+export async function finishBackfillJob(
+  database: DatabaseService,
+  id: string,
+  status: BackfillJobStatus,
+  error?: string,
+): Promise<void> {
+  const knex = await database.getClient();
+  await knex('backfill_jobs').where('id', id).update({ status: status, error: error, finished_at: new Date() });
+}
+
+// Mark the running jobs as failed, returns the number of jobs marked
+export async function failRunningBackfillJobs(database: DatabaseService, error: string): Promise<number> {
+  const knex = await database.getClient();
+  return await knex('backfill_jobs')
+    .where('status', 'running')
+    .update({ status: 'failed', error: error, finished_at: new Date() });
+}
+
+// Get the latest jobs of a wallet, the latest first
+export async function getBackfillJobs(
+  database: DatabaseService,
+  walletId: string,
+  limit: number,
+): Promise<BackfillJob[]> {
+  const knex = await database.getClient();
+  return await knex<BackfillJob>('backfill_jobs')
+    .where('wallet_id', walletId)
+    .select('*')
+    .orderBy('created_at', 'desc')
+    .limit(limit);
+}
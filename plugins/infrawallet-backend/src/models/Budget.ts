@@ -20,6 +20,20 @@ export async function getBudgets(database: DatabaseService, walletName: string):
   return budgets;
 }
 
+// Get the budgets of all wallets together with the wallet name and currency
+export async function getAllBudgets(
+  database: DatabaseService,
+): Promise<(Budget & { wallet_name: string; wallet_currency: string })[]> {
+  const knex = await database.getClient();
+
+  const budgets = await knex
+    .select('budgets.*', 'wallets.name as wallet_name', 'wallets.currency as wallet_currency')
+    .from<Budget>('budgets')
+    .join('wallets', 'budgets.wallet_id', '=', 'wallets.id');
+
+  return budgets;
+}
+
 export async function getBudget(database: DatabaseService, walletName: string, provider: string): Promise<Budget[]> {
   const knex = await database.getClient();
 
@@ -0,0 +1,30 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+
+export type BudgetAlertRecord = {
+  id?: string; // UUID generated by database
+  budget_id: string;
+  period: string; // format YYYY
+  status: string; // warning or critical
+  utilization: number | string;
+  notified_at?: Date;
+};
+
+// Check if an alert with the same status has already been sent for a budget in a period
+export async function budgetAlertExists(
+  database: DatabaseService,
+  budgetId: string,
+  period: string,
+  status: string,
+): Promise<boolean> {
+  const knex = await database.getClient();
+  const record = await knex<BudgetAlertRecord>('budget_alerts')
+    .where({ budget_id: budgetId, period: period, status: status })
+    .first();
+
+  return record !== undefined;
+}
+
+export async function insertBudgetAlert(database: DatabaseService, alert: BudgetAlertRecord): Promise<void> {
+  const knex = await database.getClient();
+  await knex('budget_alerts').insert(alert).onConflict(['budget_id', 'period', 'status']).ignore();
+}
@@ -0,0 +1,47 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+
+export type CostAnomalyRecord = {
+  id?: string; // UUID generated by database
+  wallet_id: string;
+  provider: string;
+  account: string;
+  service: string;
+  usage_date: number; // format YYYYMMDD
+  // If Postgres is used, the column type is decimal but Knex gets the values as strings
+  cost: number | string;
+  expected_cost: number | string;
+  score: number | string;
+  method: string;
+  currency?: string;
+  detected_at?: Date;
+};
+
+// Get the anomalies of a wallet in a time range
+export async function getCostAnomalies(
+  database: DatabaseService,
+  walletId: string,
+  startUsageDate: number,
+  endUsageDate: number,
+): Promise<CostAnomalyRecord[]> {
+  const knex = await database.getClient();
+  const records = await knex<CostAnomalyRecord>('cost_anomalies')
+    .where({ wallet_id: walletId })
+    .andWhereBetween('usage_date', [startUsageDate, endUsageDate])
+    .orderBy('usage_date')
+    .select('*');
+
+  return records;
+}
+
+// Insert anomalies, an anomaly detected again for the same day is updated with the latest values
+export async function upsertCostAnomalies(database: DatabaseService, anomalies: CostAnomalyRecord[]): Promise<void> {
+  if (anomalies.length === 0) {
+    return;
+  }
+
+  const knex = await database.getClient();
+  await knex('cost_anomalies')
+    .insert(anomalies)
+    .onConflict(['wallet_id', 'provider', 'account', 'service', 'usage_date'])
+    .merge(['cost', 'expected_cost', 'score', 'method', 'currency', 'detected_at']);
+}
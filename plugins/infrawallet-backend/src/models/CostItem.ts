@@ -1,4 +1,5 @@
 import { DatabaseService } from '@backstage/backend-plugin-api';
+import { isCostItemsReplacementSafe } from '../service/functions';
 import { Report } from '../service/types';
 
 // TODO: add a granularity field to the table, query both daily and monthly costs directly from the cloud
@@ -15,8 +16,71 @@ export type CostItem = {
   // If Postgres is used, the column type is decimal but Knex gets the values as strings
   // see https://stackoverflow.com/questions/45569216/knex-postgres-returns-strings-for-numeric-decimal-values
   cost: number | string;
+  cost_metric?: string | null; // the cost metric of the integration, see COST_METRIC
 };
 
+// Cost item split by the values of a tag key, the tag is not part of other_columns
+export type TaggedCostItem = CostItem & {
+  tag_key: string;
+  tag_value: string;
+};
+
+// Transform the costs of the reports within the usage dates into cost item rows
+function reportsToCostItems(
+  dialect: string,
+  walletId: string,
+  startUsageDate: number,
+  endUsageDate: number,
+  reports: Report[],
+  excludedFields: string[] = [],
+): Omit<CostItem, 'id'>[] {
+  const rows: Omit<CostItem, 'id'>[] = [];
+  const genericFieldsInReports = [
+    'id',
+    'account',
+    'service',
+    'category',
+    'provider',
+    'providerType',
+    'reports',
+    'costMetric',
+  ];
+  reports.forEach(report => {
+    for (const [period, cost] of Object.entries(report.reports)) {
+      const usageDate = parseInt(period.replaceAll('-', ''), 10);
+      if (usageDate >= startUsageDate && usageDate <= endUsageDate) {
+        // for the fields that are not included by the feneric fields list
+        // they will be added into the `other_columns` column in db
+        const otherColumns: { [key: string]: any } = {};
+        for (const key in report) {
+          if (!genericFieldsInReports.includes(key) && !excludedFields.includes(key)) {
+            otherColumns[key] = report[key];
+          }
+        }
+        rows.push({
+          wallet_id: walletId,
+          key: report.id,
+          account: report.account,
+          service: report.service,
+          category: report.category,
+          provider: report.provider,
+          usage_date: usageDate,
+          other_columns: dialect === 'sqlite3' ? JSON.stringify(otherColumns) : otherColumns,
+          cost: cost,
+          cost_metric: (report.costMetric as string | undefined) ?? null,
+        });
+      }
+    }
+  });
+
+  return rows;
+}
+
+// Count the cost item rows that the reports are saved as within the usage dates
+export function countCostItemRows(reports: Report[], startUsageDate: number, endUsageDate: number): number {
+  return reportsToCostItems('', '', startUsageDate, endUsageDate, reports).length;
+}
+
 // Count cost items in a specific wallet
 export async function countCostItems(
   database: DatabaseService,
@@ -47,7 +111,23 @@ export async function countCostItems(
   return 0;
 }
 
-// Delete cost items of a provider in a specific wallet
+// Get the distinct cost metrics of the cost items of a provider in a specific wallet
+export async function getCostItemMetrics(
+  database: DatabaseService,
+  walletId: string,
+  provider: string,
+  granularity: string,
+): Promise<(string | null)[]> {
+  const knex = await database.getClient();
+
+  const records: { cost_metric: string | null }[] = await knex(`cost_items_${granularity}`)
+    .where({ wallet_id: walletId, provider: provider })
+    .distinct('cost_metric');
+
+  return records.map(record => record.cost_metric);
+}
+
+// Delete cost items of a provider in a specific wallet, including the ones split by tag keys
 export async function deleteCostItems(
   database: DatabaseService,
   walletId: string,
@@ -57,8 +137,11 @@ export async function deleteCostItems(
   const knex = await database.getClient();
 
   const rowsDeleted = await knex(`cost_items_${granularity}`).where({ wallet_id: walletId, provider: provider }).del();
+  const taggedRowsDeleted = await knex(`cost_items_by_tag_${granularity}`)
+    .where({ wallet_id: walletId, provider: provider })
+    .del();
 
-  return rowsDeleted;
+  return rowsDeleted + taggedRowsDeleted;
 }
 
 // Get all cost items in a specific wallet
@@ -80,7 +163,41 @@ export async function getCostItems(
   return records;
 }
 
-// bulk insert cost reports to the table
+// Replace the records of a period in one transaction, so that the period never misses records if the insert fails
+// the saved records are kept if the new ones look incomplete, undefined is returned in this case
+// all the saved records are replaced by the ones of the period if replaceHistory is set
+async function replaceCostItemRows(
+  knex: Awaited<ReturnType<DatabaseService['getClient']>>,
+  table: string,
+  where: Record<string, string>,
+  startUsageDate: number,
+  endUsageDate: number,
+  rows: object[],
+  minReplacementRatio: number,
+  replaceHistory: boolean,
+): Promise<number | undefined> {
+  // for sqlite3, we need a smaller chunk size
+  const chunkSize = knex.client.dialect === 'sqlite3' ? 500 : 1000;
+
+  return await knex.transaction(async trx => {
+    const savedRows = () => {
+      const query = trx(table).where(where);
+      return replaceHistory ? query : query.andWhereBetween('usage_date', [startUsageDate, endUsageDate]);
+    };
+    const [{ count }] = await savedRows().count({ count: '*' });
+    if (!isCostItemsReplacementSafe(Number(count), rows.length, minReplacementRatio)) {
+      return undefined;
+    }
+
+    await savedRows().del();
+    await knex.batchInsert(table, rows, chunkSize).transacting(trx);
+
+    return rows.length;
+  });
+}
+
+// bulk insert cost reports to the table, replacing the records of the period, or all the records if replaceHistory is set
+// returns the number of inserted records, or undefined if the saved records are kept
 export async function bulkInsertCostItems(
   database: DatabaseService,
   walletId: string,
@@ -89,54 +206,121 @@ export async function bulkInsertCostItems(
   startUsageDate: number,
   endUsageDate: number,
   reports: Report[],
-): Promise<void> {
+  minReplacementRatio: number = 0,
+  replaceHistory: boolean = false,
+): Promise<number | undefined> {
   const knex = await database.getClient();
 
-  // clean up the records
-  await knex(`cost_items_${granularity}`)
-    .where({ wallet_id: walletId, provider: provider })
+  // transform the records
+  const rows = reportsToCostItems(knex.client.dialect, walletId, startUsageDate, endUsageDate, reports);
+
+  return await replaceCostItemRows(
+    knex,
+    `cost_items_${granularity}`,
+    { wallet_id: walletId, provider: provider },
+    startUsageDate,
+    endUsageDate,
+    rows,
+    minReplacementRatio,
+    replaceHistory,
+  );
+}
+
+// Get the cost items of all the providers in a specific wallet
+export async function getWalletCostItems(
+  database: DatabaseService,
+  walletId: string,
+  granularity: string,
+  startUsageDate: number,
+  endUsageDate: number,
+): Promise<CostItem[]> {
+  const knex = await database.getClient();
+
+  const records = await knex<CostItem>(`cost_items_${granularity}`)
+    .where({ wallet_id: walletId })
     .andWhereBetween('usage_date', [startUsageDate, endUsageDate])
-    .del();
+    .select('*');
+
+  return records;
+}
+
+// Count the cost items of a tag key in a specific wallet
+export async function countTaggedCostItems(
+  database: DatabaseService,
+  walletId: string,
+  provider: string,
+  granularity: string,
+  tagKey: string,
+): Promise<number> {
+  const knex = await database.getClient();
+
+  const records = await knex(`cost_items_by_tag_${granularity}`)
+    .where({ wallet_id: walletId, provider: provider, tag_key: tagKey })
+    .count({ count: '*' });
+
+  if (records) {
+    return parseInt(records[0].count as string, 10);
+  }
+
+  return 0;
+}
+
+// Get the cost items of a tag key in a specific wallet, limited to some tag values if given
+export async function getTaggedCostItems(
+  database: DatabaseService,
+  walletId: string,
+  provider: string,
+  granularity: string,
+  tagKey: string,
+  tagValues: string[] | undefined,
+  startUsageDate: number,
+  endUsageDate: number,
+): Promise<TaggedCostItem[]> {
+  const knex = await database.getClient();
+
+  const query = knex<TaggedCostItem>(`cost_items_by_tag_${granularity}`)
+    .where({ wallet_id: walletId, provider: provider, tag_key: tagKey })
+    .andWhereBetween('usage_date', [startUsageDate, endUsageDate]);
+  if (tagValues) {
+    query.whereIn('tag_value', tagValues);
+  }
+
+  return await query.select('*');
+}
+
+// bulk insert cost reports split by a tag key to the table, the tag value is read from the report column of the tag key
+// the records of the period are replaced like in bulkInsertCostItems
+export async function bulkInsertTaggedCostItems(
+  database: DatabaseService,
+  walletId: string,
+  provider: string,
+  granularity: string,
+  tagKey: string,
+  startUsageDate: number,
+  endUsageDate: number,
+  reports: Report[],
+  minReplacementRatio: number = 0,
+  replaceHistory: boolean = false,
+): Promise<number | undefined> {
+  const knex = await database.getClient();
 
   // transform the records
-  const rows: Omit<CostItem, 'id'>[] = [];
-  const genericFieldsInReports = ['id', 'account', 'service', 'category', 'provider', 'providerType', 'reports'];
-  reports.forEach(report => {
-    for (const [period, cost] of Object.entries(report.reports)) {
-      const usageDate = parseInt(period.replaceAll('-', ''), 10);
-      if (usageDate >= startUsageDate && usageDate <= endUsageDate) {
-        // for the fields that are not included by the feneric fields list
-        // they will be added into the `other_columns` column in db
-        const otherColumns: { [key: string]: any } = {};
-        for (const key in report) {
-          if (!genericFieldsInReports.includes(key)) {
-            otherColumns[key] = report[key];
-          }
-        }
-        rows.push({
-          wallet_id: walletId,
-          key: report.id,
-          account: report.account,
-          service: report.service,
-          category: report.category,
-          provider: report.provider,
-          usage_date: usageDate,
-          other_columns: knex.client.dialect === 'sqlite3' ? JSON.stringify(otherColumns) : otherColumns,
-          cost: cost,
-        });
-      }
-    }
-  });
+  const rows: Omit<TaggedCostItem, 'id'>[] = reports.flatMap(report =>
+    reportsToCostItems(knex.client.dialect, walletId, startUsageDate, endUsageDate, [report], [tagKey]).map(row => ({
+      ...row,
+      tag_key: tagKey,
+      tag_value: (report[tagKey] as string | undefined) ?? '',
+    })),
+  );
 
-  // bulk insert the records
-  // for sqlite3, we need a smaller chunk size
-  const chunkSize = knex.client.dialect === 'sqlite3' ? 500 : 1000;
-  await knex
-    .batchInsert(`cost_items_${granularity}`, rows, chunkSize)
-    .then(() => {
-      console.log(`${reports.length} ${granularity} records have been inserted`);
-    })
-    .catch(error => {
-      console.error('Error inserting rows:', error);
-    });
+  return await replaceCostItemRows(
+    knex,
+    `cost_items_by_tag_${granularity}`,
+    { wallet_id: walletId, provider: provider, tag_key: tagKey },
+    startUsageDate,
+    endUsageDate,
+    rows,
+    minReplacementRatio,
+    replaceHistory,
+  );
 }
@@ -0,0 +1,34 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+
+export type CurrencyRate = {
+  id?: string; // UUID generated by database
+  currency: string; // ISO 4217 code, such as EUR
+  // If Postgres is used, the column type is decimal but Knex gets the values as strings
+  rate: number | string; // units of this currency for one unit of the base currency
+  updated_at?: Date;
+};
+
+export async function getCurrencyRates(database: DatabaseService): Promise<CurrencyRate[]> {
+  const knex = await database.getClient();
+  const records = await knex<CurrencyRate>('currency_rates').select('*');
+
+  return records;
+}
+
+// Insert new rates or update the existing ones, matched by currency
+export async function upsertCurrencyRates(database: DatabaseService, rates: Record<string, number>): Promise<number> {
+  const knex = await database.getClient();
+  const rows = Object.entries(rates).map(([currency, rate]) => ({
+    currency: currency.toUpperCase(),
+    rate: rate,
+    updated_at: knex.fn.now(),
+  }));
+
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  await knex('currency_rates').insert(rows).onConflict('currency').merge();
+
+  return rows.length;
+}
@@ -53,6 +53,13 @@ export async function getCustomCosts(database: DatabaseService): Promise<CustomC
   return records;
 }
 
+// Get one cost record by ID
+export async function getCustomCost(database: DatabaseService, id: string): Promise<CustomCost | undefined> {
+  const knex = await database.getClient();
+  const record = await knex('custom_costs').where('id', id).first();
+  return record;
+}
+
 // Update one cost record
 export async function updateOrInsertCustomCost(database: DatabaseService, data: CustomCost): Promise<CustomCost> {
   const knex = await database.getClient();
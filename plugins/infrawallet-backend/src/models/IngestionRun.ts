@@ -0,0 +1,146 @@
+import { DatabaseService } from '@backstage/backend-plugin-api';
+import { TransformationSummary } from '../service/types';
+
+// a run is skipped when the saved cost items are kept instead of being replaced by the fetched ones
+export type IngestionRunStatus = 'succeeded' | 'failed' | 'skipped';
+
+export type IngestionRun = {
+  id?: string; // UUID generated by database
+  wallet_id: string;
+  provider: string;
+  integration: string;
+  granularity: string;
+  started_at: Date;
+  finished_at?: Date;
+  status: IngestionRunStatus;
+  rows_written: number;
+  summary?: TransformationSummary;
+  error?: string;
+};
+
+export type IngestionRunQuery = {
+  offset: number;
+  limit: number;
+  provider?: string;
+  status?: string;
+};
+
+// Latest run of an integration and granularity, with the end of its latest successful run
+export type IngestionStatus = IngestionRun & {
+  last_succeeded_at?: Date;
+};
+
+// SQLite returns the json columns as strings
+function fromSummaryColumn(value: unknown): TransformationSummary | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  return typeof value === 'string' ? JSON.parse(value) : (value as TransformationSummary);
+}
+
+// Mark a run as failed, the errors of the same run are kept one per line
+export function failIngestionRun(run: IngestionRun, error: string): void {
+  run.status = 'failed';
+  run.error = run.error ? `${run.error}\n${error}` : error;
+}
+
+// Mark a run as skipped, a failed run stays failed
+export function skipIngestionRun(run: IngestionRun, reason: string): void {
+  if (run.status !== 'failed') {
+    run.status = 'skipped';
+  }
+  run.error = run.error ? `${run.error}\n${reason}` : reason;
+}
+
+export async function insertIngestionRuns(database: DatabaseService, runs: IngestionRun[]): Promise<void> {
+  if (runs.length === 0) {
+    return;
+  }
+
+  const knex = await database.getClient();
+  await knex('ingestion_runs').insert(
+    runs.map(run => ({
+      wallet_id: run.wallet_id,
+      provider: run.provider,
+      integration: run.integration,
+      granularity: run.granularity,
+      started_at: run.started_at,
+      finished_at: run.finished_at ?? new Date(),
+      status: run.status,
+      rows_written: run.rows_written,
+      summary: run.summary ? JSON.stringify(run.summary) : null,
+      error: run.error,
+    })),
+  );
+}
+
+// Get a page of the runs of a wallet, the latest first
+export async function getIngestionRuns(
+  database: DatabaseService,
+  walletId: string,
+  query: IngestionRunQuery,
+): Promise<{ runs: IngestionRun[]; total: number }> {
+  const knex = await database.getClient();
+  const baseQuery = knex<IngestionRun>('ingestion_runs')
+    .where('wallet_id', walletId)
+    .modify(builder => {
+      if (query.provider) {
+        builder.where('provider', query.provider);
+      }
+      if (query.status) {
+        builder.where('status', query.status);
+      }
+    });
+
+  const [{ count }] = await baseQuery.clone().count({ count: '*' });
+  const records: IngestionRun[] = await baseQuery
+    .clone()
+    .select('*')
+    .orderBy('finished_at', 'desc')
+    .offset(query.offset)
+    .limit(query.limit);
+
+  const runs = records.map(record => ({ ...record, summary: fromSummaryColumn(record.summary) }));
+
+  return { runs: runs, total: Number(count) };
+}
+
+// Get the latest run of each integration and granularity in a wallet
+export async function getIngestionStatuses(database: DatabaseService, walletId: string): Promise<IngestionStatus[]> {
+  const knex = await database.getClient();
+  const groupColumns = ['provider', 'integration', 'granularity'];
+
+  const latestRuns = await knex('ingestion_runs as runs')
+    .join(
+      knex('ingestion_runs')
+        .select(groupColumns)
+        .max({ finished_at: 'finished_at' })
+        .where('wallet_id', walletId)
+        .groupBy(groupColumns)
+        .as('latest'),
+      builder => {
+        groupColumns.forEach(column => builder.on(`runs.${column}`, '=', `latest.${column}`));
+        builder.andOn('runs.finished_at', '=', 'latest.finished_at');
+      },
+    )
+    .where('runs.wallet_id', walletId)
+    .select('runs.*');
+
+  const lastSucceededRuns = await knex('ingestion_runs')
+    .select(groupColumns)
+    .max({ finished_at: 'finished_at' })
+    .where({ wallet_id: walletId, status: 'succeeded' })
+    .groupBy(groupColumns);
+
+  const key = (record: Record<string, any>) => groupColumns.map(column => record[column]).join('/');
+  const lastSucceededAt = new Map<string, Date>(lastSucceededRuns.map(record => [key(record), record.finished_at]));
+
+  return latestRuns
+    .map(record => ({
+      ...record,
+      summary: fromSummaryColumn(record.summary),
+      last_succeeded_at: lastSucceededAt.get(key(record)),
+    }))
+    .sort((a, b) => key(a).localeCompare(key(b)));
+}
@@ -0,0 +1,31 @@
+import { LoggerService } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import { NotificationService } from '@backstage/plugin-notifications-node';
+import { BudgetAlert } from '../service/types';
+import { BudgetAlertNotifier } from './BudgetAlertNotifier';
+
+export class BackstageNotifier extends BudgetAlertNotifier {
+  constructor(
+    notifierConfig: Config,
+    logger: LoggerService,
+    private readonly notificationService: NotificationService,
+  ) {
+    super(notifierConfig, logger);
+  }
+
+  async notify(alert: BudgetAlert): Promise<void> {
+    // entity refs of users or groups, the notification is broadcast if there is none
+    const recipients = this.notifierConfig.getOptionalStringArray('recipients') ?? [];
+
+    await this.notificationService.send({
+      recipients: recipients.length > 0 ? { type: 'entity', entityRef: recipients } : { type: 'broadcast' },
+      payload: {
+        title: this.getTitle(alert),
+        description: this.getDescription(alert),
+        link: '/infrawallet/budgets',
+        severity: alert.status === 'critical' ? 'critical' : 'high',
+        topic: 'infrawallet-budget-alerts',
+      },
+    });
+  }
+}
@@ -0,0 +1,27 @@
+import { LoggerService } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import { BudgetAlert } from '../service/types';
+
+export abstract class BudgetAlertNotifier {
+  constructor(protected readonly notifierConfig: Config, protected readonly logger: LoggerService) {}
+
+  getName(): string {
+    return `${this.constructor.name}/${this.notifierConfig.getString('name')}`;
+  }
+
+  protected getTitle(alert: BudgetAlert): string {
+    return `[${alert.status.toUpperCase()}] ${alert.budgetName} in wallet ${alert.walletName}`;
+  }
+
+  protected getDescription(alert: BudgetAlert): string {
+    const spent = `${alert.yearToDateSpent.toFixed(2)} ${alert.currency}`;
+    const budget = `${alert.budgetAmount.toFixed(2)} ${alert.currency}`;
+
+    return (
+      `${alert.provider} has spent ${spent} in ${alert.period}, ${alert.utilizationPercent.toFixed(1)}% of the ` +
+      `annual budget of ${budget}, while only ${alert.expectedUtilizationPercent.toFixed(1)}% of the year has elapsed.`
+    );
+  }
+
+  abstract notify(alert: BudgetAlert): Promise<void>;
+}
@@ -0,0 +1,22 @@
+import { createTransport } from 'nodemailer';
+import { BudgetAlert } from '../service/types';
+import { BudgetAlertNotifier } from './BudgetAlertNotifier';
+
+export class EmailNotifier extends BudgetAlertNotifier {
+  async notify(alert: BudgetAlert): Promise<void> {
+    const username = this.notifierConfig.getOptionalString('username');
+    const transporter = createTransport({
+      host: this.notifierConfig.getString('host'),
+      port: this.notifierConfig.getOptionalNumber('port') ?? 587,
+      secure: this.notifierConfig.getOptionalBoolean('secure') ?? false,
+      auth: username ? { user: username, pass: this.notifierConfig.getString('password') } : undefined,
+    });
+
+    await transporter.sendMail({
+      from: this.notifierConfig.getString('from'),
+      to: this.notifierConfig.getStringArray('to').join(', '),
+      subject: this.getTitle(alert),
+      text: this.getDescription(alert),
+    });
+  }
+}
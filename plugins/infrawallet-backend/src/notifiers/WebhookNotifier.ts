@@ -0,0 +1,27 @@
+import { BudgetAlert } from '../service/types';
+import { BudgetAlertNotifier } from './BudgetAlertNotifier';
+
+export class WebhookNotifier extends BudgetAlertNotifier {
+  async notify(alert: BudgetAlert): Promise<void> {
+    const url = this.notifierConfig.getString('url');
+    const headersConfig = this.notifierConfig.getOptionalConfig('headers');
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    headersConfig?.keys().forEach(key => {
+      headers[key] = headersConfig.getString(key);
+    });
+
+    // `text` makes the payload compatible with Slack and Microsoft Teams incoming webhooks
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: headers,
+      body: JSON.stringify({
+        text: `${this.getTitle(alert)}\n${this.getDescription(alert)}`,
+        alert: alert,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+  }
+}
@@ -1,7 +1,30 @@
 import { coreServices, createBackendPlugin } from '@backstage/backend-plugin-api';
-import { InfrawalletFilterExtension, infrawalletReportFilterExtensionPoint } from './extension';
+import { catalogServiceRef } from '@backstage/plugin-catalog-node';
+import { notificationService } from '@backstage/plugin-notifications-node';
+import {
+  infraWalletAllocationRulesUpdatePermission,
+  infraWalletBudgetsUpdatePermission,
+  infraWalletCostsBackfillPermission,
+  infraWalletCostsDeletePermission,
+  infraWalletMetricsUpdatePermission,
+  infraWalletPermissions,
+  infraWalletWalletDeletePermission,
+  infraWalletWalletReadPermission,
+  infraWalletWalletUpdatePermission,
+} from '@electrolux-oss/plugin-infrawallet-common';
+import { getWallet } from './controllers/WalletController';
+import {
+  InfrawalletCostClientFactory,
+  InfrawalletFilterExtension,
+  InfrawalletMetricProviderFactory,
+  infrawalletCostClientExtensionPoint,
+  infrawalletMetricProviderExtensionPoint,
+  infrawalletReportFilterExtensionPoint,
+} from './extension';
+import { COST_CLIENT_MAPPINGS, METRIC_PROVIDER_MAPPINGS } from './service/consts';
+import { walletPermissionResourceRef, walletPermissionRules } from './service/permissions';
 import { createRouter } from './service/router';
-import { CostFetchTaskScheduler } from './service/scheduler';
+import { BudgetAlertTaskScheduler, CostFetchTaskScheduler, EntityCostsTaskScheduler } from './service/scheduler';
 import { LoggerService } from '@backstage/backend-plugin-api';
 
 /**
@@ -20,6 +43,38 @@ export const infraWalletPlugin = createBackendPlugin({
       },
     });
 
+    const additionalCostClients: Record<string, InfrawalletCostClientFactory> = {};
+
+    env.registerExtensionPoint(infrawalletCostClientExtensionPoint, {
+      addCostClient(provider: string, factory: InfrawalletCostClientFactory) {
+        // the clients are looked up with the keys of backend.infraWallet.integrations, which are lowercase
+        const key = provider.toLowerCase();
+        if (key in COST_CLIENT_MAPPINGS) {
+          throw new Error(`Cannot register cost client ${provider}, it is a built-in provider`);
+        }
+        if (key in additionalCostClients) {
+          throw new Error(`Cost client ${provider} is already registered`);
+        }
+        additionalCostClients[key] = factory;
+      },
+    });
+
+    const additionalMetricProviders: Record<string, InfrawalletMetricProviderFactory> = {};
+
+    env.registerExtensionPoint(infrawalletMetricProviderExtensionPoint, {
+      addMetricProvider(provider: string, factory: InfrawalletMetricProviderFactory) {
+        // the providers are looked up with the keys of backend.infraWallet.metricProviders, which are lowercase
+        const key = provider.toLowerCase();
+        if (key in METRIC_PROVIDER_MAPPINGS) {
+          throw new Error(`Cannot register metric provider ${provider}, it is a built-in provider`);
+        }
+        if (key in additionalMetricProviders) {
+          throw new Error(`Metric provider ${provider} is already registered`);
+        }
+        additionalMetricProviders[key] = factory;
+      },
+    });
+
     env.registerInit({
       deps: {
         httpRouter: coreServices.httpRouter,
@@ -28,9 +83,47 @@ export const infraWalletPlugin = createBackendPlugin({
         scheduler: coreServices.scheduler,
         cache: coreServices.cache,
         database: coreServices.database,
+        permissions: coreServices.permissions,
+        permissionsRegistry: coreServices.permissionsRegistry,
+        httpAuth: coreServices.httpAuth,
+        auth: coreServices.auth,
+        catalog: catalogServiceRef,
+        notifications: notificationService,
       },
-      async init({ httpRouter, logger, config, scheduler, cache, database }) {
-        // 1. Register the HTTP endpoints
+      async init({
+        httpRouter,
+        logger,
+        config,
+        scheduler,
+        cache,
+        database,
+        permissions,
+        permissionsRegistry,
+        httpAuth,
+        auth,
+        catalog,
+        notifications,
+      }) {
+        // 1. Register the permissions, the wallets are the resources of the permission rules
+        permissionsRegistry.addResourceType({
+          resourceRef: walletPermissionResourceRef,
+          permissions: [
+            infraWalletWalletReadPermission,
+            infraWalletWalletUpdatePermission,
+            infraWalletWalletDeletePermission,
+            infraWalletBudgetsUpdatePermission,
+            infraWalletMetricsUpdatePermission,
+            infraWalletAllocationRulesUpdatePermission,
+            infraWalletCostsDeletePermission,
+            infraWalletCostsBackfillPermission,
+          ],
+          rules: Object.values(walletPermissionRules),
+          getResources: async resourceRefs =>
+            Promise.all(resourceRefs.map(resourceRef => getWallet(database, resourceRef))),
+        });
+        permissionsRegistry.addPermissions(infraWalletPermissions);
+
+        // 2. Register the HTTP endpoints
         httpRouter.use(
           await createRouter({
             logger,
@@ -38,7 +131,12 @@ export const infraWalletPlugin = createBackendPlugin({
             scheduler,
             cache,
             database,
+            permissions,
+            httpAuth,
+            catalog,
             additionalFilters,
+            additionalCostClients,
+            additionalMetricProviders,
           }),
         );
 
@@ -47,7 +145,7 @@ export const infraWalletPlugin = createBackendPlugin({
           allow: 'unauthenticated',
         });
 
-        // 2. Initialize the task scheduler
+        // 3. Initialize the task scheduler
         const taskLogger = logger.child({ component: 'CostFetchTaskScheduler' }) as LoggerService;
         const taskScheduler = new CostFetchTaskScheduler({
           scheduler,
@@ -55,9 +153,39 @@ export const infraWalletPlugin = createBackendPlugin({
           config,
           cache,
           database,
+          additionalCostClients,
         });
 
         await taskScheduler.initialize();
+
+        // 4. Initialize the budget alert scheduler
+        const budgetAlertLogger = logger.child({ component: 'BudgetAlertTaskScheduler' }) as LoggerService;
+        const budgetAlertScheduler = new BudgetAlertTaskScheduler({
+          scheduler,
+          logger: budgetAlertLogger,
+          config,
+          database,
+          notificationService: notifications,
+        });
+
+        await budgetAlertScheduler.initialize();
+
+        // 5. Initialize the scheduler refreshing the cached costs of the catalog entities
+        const entityCostsLogger = logger.child({ component: 'EntityCostsTaskScheduler' }) as LoggerService;
+        const entityCostsScheduler = new EntityCostsTaskScheduler({
+          scheduler,
+          logger: entityCostsLogger,
+          config,
+          cache,
+          database,
+          catalog,
+          auth,
+          additionalFilters,
+          additionalCostClients,
+          additionalMetricProviders,
+        });
+
+        await entityCostsScheduler.initialize();
       },
     });
   },
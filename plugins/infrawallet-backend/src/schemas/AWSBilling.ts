@@ -4,13 +4,13 @@ export const AWSGranularitySchema = z.enum(['DAILY', 'MONTHLY', 'HOURLY']);
 
 export const AWSDimensionValueSchema = z.object({
   Value: z.string().optional(),
-  Attributes: z.record(z.string()).optional(),
+  Attributes: z.record(z.string(), z.string()).optional(),
   MatchOptions: z.array(z.string()).optional(),
 });
 
 export const AWSDimensionValueAttributesSchema = z.object({
   Value: z.string().optional(),
-  Attributes: z.record(z.string()).optional(),
+  Attributes: z.record(z.string(), z.string()).optional(),
 });
 
 export const AWSMetricValueSchema = z.object({
@@ -20,7 +20,7 @@ export const AWSMetricValueSchema = z.object({
 
 export const AWSGroupSchema = z.object({
   Keys: z.array(z.string()).optional(),
-  Metrics: z.record(AWSMetricValueSchema).optional(),
+  Metrics: z.record(z.string(), AWSMetricValueSchema).optional(),
 });
 
 export const AWSResultByTimeSchema = z.object({
@@ -30,7 +30,7 @@ export const AWSResultByTimeSchema = z.object({
       End: z.string().optional(),
     })
     .optional(),
-  Total: z.record(AWSMetricValueSchema).optional(),
+  Total: z.record(z.string(), AWSMetricValueSchema).optional(),
   Groups: z.array(AWSGroupSchema).optional(),
   Estimated: z.boolean().optional(),
 });
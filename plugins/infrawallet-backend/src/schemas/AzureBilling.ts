@@ -28,6 +28,7 @@ export const AzureDatasetSchema = z.object({
   granularity: AzureGranularitySchema,
   aggregation: z
     .record(
+      z.string(),
       z.object({
         name: z.enum(['PreTaxCost', 'CostUSD', 'UsageQuantity']),
         function: z.enum(['Sum', 'Average']),
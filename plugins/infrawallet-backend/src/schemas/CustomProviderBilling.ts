@@ -13,7 +13,7 @@ export const CustomCostRecordSchema = z.object({
   cost: z.string().or(z.number()),
   usage_month: z.number(),
   amortization_mode: CustomCostAmortizationModeSchema.optional(),
-  tags: z.string().or(z.record(z.string())).optional(),
+  tags: z.string().or(z.record(z.string(), z.string())).optional(),
   created_at: z.string().optional(),
   updated_at: z.string().optional(),
 });
@@ -27,7 +27,7 @@ export const CustomCostInputSchema = z.object({
   cost: z.number().min(0),
   usage_month: z.number().int().min(202001).max(209912), // YYYYMM format
   amortization_mode: CustomCostAmortizationModeSchema.default('lump_sum'),
-  tags: z.record(z.string()).optional().default({}),
+  tags: z.record(z.string(), z.string()).optional().default({}),
 });
 
 // Custom cost query schema
@@ -38,7 +38,7 @@ export const CustomCostQuerySchema = z.object({
   category: z.string().optional(),
   start_date: z.string().or(z.date()),
   end_date: z.string().or(z.date()),
-  tags: z.record(z.string()).optional(),
+  tags: z.record(z.string(), z.string()).optional(),
 });
 
 // Custom cost bulk upload schema
@@ -58,7 +58,7 @@ export const CustomCostResponseSchema = z.object({
 export const CustomProviderErrorSchema = z.object({
   message: z.string(),
   code: z.string().optional(),
-  details: z.record(z.any()).optional(),
+  details: z.record(z.string(), z.any()).optional(),
   timestamp: z.string().optional(),
 });
 
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+// A row of a FinOps FOCUS cost and usage export, all the values are strings in the CSV file
+// see: https://focus.finops.org/focus-specification/
+export const FocusBillingRowSchema = z
+  .object({
+    BilledCost: z.string(),
+    BillingAccountId: z.string().optional(),
+    BillingAccountName: z.string().optional(),
+    BillingCurrency: z.string().optional(),
+    ChargePeriodStart: z.string(),
+    ChargePeriodEnd: z.string().optional(),
+    EffectiveCost: z.string().optional(),
+    ProviderName: z.string().optional(),
+    ServiceCategory: z.string().optional(),
+    ServiceName: z.string(),
+    SubAccountId: z.string().optional(),
+    SubAccountName: z.string().optional(),
+    Tags: z.string().optional(),
+  })
+  .passthrough();
+
+export const FocusBillingFileSchema = z.array(FocusBillingRowSchema);
+
+export type FocusBillingRow = z.infer<typeof FocusBillingRowSchema>;
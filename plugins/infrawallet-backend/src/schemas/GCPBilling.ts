@@ -26,13 +26,13 @@ export const GCPBillingRowSchema = z.object({
       z.object({
         id: z.string(),
         name: z.string().optional(),
-        labels: z.record(z.string()).optional(),
+        labels: z.record(z.string(), z.string()).optional(),
       }),
       z.string(),
     ])
     .optional(),
-  labels: z.record(z.string()).optional(),
-  system_labels: z.record(z.string()).optional(),
+  labels: z.record(z.string(), z.string()).optional(),
+  system_labels: z.record(z.string(), z.string()).optional(),
   location: z
     .object({
       location: z.string().optional(),
@@ -85,6 +85,7 @@ export const GCPCustomQueryRowSchema = z.object({
   project: z.string(),
   service: z.string(),
   period: z.string(),
+  group_value: z.string().nullable().optional(), // only when the costs are split by a dimension
   total_cost: z.union([
     z.number(),
     z.object({}).transform((obj: any) => {
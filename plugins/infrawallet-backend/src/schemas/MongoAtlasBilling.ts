@@ -74,7 +74,7 @@ export const MongoAtlasBillingErrorSchema = z.object({
   detail: z.string().optional(),
   error: z.number().optional(),
   errorCode: z.string().optional(),
-  parameters: z.record(z.string()).optional(),
+  parameters: z.record(z.string(), z.string()).optional(),
   reason: z.string().optional(),
 });
 
@@ -0,0 +1,197 @@
+/**
+ * @file CurrencyConversionService.test.ts
+ * @description Tests for the conversion of the costs between currencies.
+ *
+ * This test suite validates:
+ * - Rates: read from the database against USD or from a JSON file
+ * - Conversion: costs and forecasts are converted through the base currency
+ * - Missing rates: the reports are kept as they are and an error is returned
+ *
+ * @module CurrencyConversionService.test
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getCurrencyRates } from '../models/CurrencyRate';
+import { CurrencyConversionService } from './CurrencyConversionService';
+import { Report } from './types';
+
+jest.mock('../models/CurrencyRate', () => ({
+  getCurrencyRates: jest.fn(),
+}));
+
+const logger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+  child: jest.fn().mockReturnThis(),
+} as any;
+
+const createReport = (currency: string | undefined, reports: Record<string, number>): Report => ({
+  id: `report-${currency}`,
+  account: 'account',
+  service: 'service',
+  category: 'category',
+  provider: 'AWS',
+  reports: reports,
+  ...(currency ? { currency } : {}),
+});
+
+describe('CurrencyConversionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getCurrencyRates', () => {
+    it('should read the rates of the database against USD', async () => {
+      (getCurrencyRates as jest.Mock).mockResolvedValue([
+        { currency: 'eur', rate: '0.9' },
+        { currency: 'SEK', rate: 10.5 },
+      ]);
+      const service = new CurrencyConversionService({} as any, logger, 'database');
+
+      expect(await service.getCurrencyRates()).toEqual({ base: 'USD', rates: { EUR: 0.9, SEK: 10.5 } });
+      expect(service.isReadOnly()).toBe(false);
+    });
+
+    describe('from a file', () => {
+      let directory: string;
+
+      beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), 'infrawallet-currency-rates-'));
+      });
+
+      afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+      });
+
+      it('should read the base and the rates of the file', async () => {
+        const target = join(directory, 'rates.json');
+        writeFileSync(target, JSON.stringify({ base: 'eur', rates: { usd: 1.1, SEK: 11.5 } }));
+        const service = new CurrencyConversionService({} as any, logger, 'file', target);
+
+        expect(await service.getCurrencyRates()).toEqual({ base: 'EUR', rates: { USD: 1.1, SEK: 11.5 } });
+        expect(service.isReadOnly()).toBe(true);
+      });
+
+      it('should return no rates if the file cannot be read', async () => {
+        const service = new CurrencyConversionService({} as any, logger, 'file', join(directory, 'missing.json'));
+
+        expect(await service.getCurrencyRates()).toEqual({ base: 'USD', rates: {} });
+      });
+
+      it('should return no rates if no file is configured', async () => {
+        const service = new CurrencyConversionService({} as any, logger, 'file');
+
+        expect(await service.getCurrencyRates()).toEqual({ base: 'USD', rates: {} });
+      });
+    });
+  });
+
+  describe('getConversionRate', () => {
+    beforeEach(() => {
+      (getCurrencyRates as jest.Mock).mockResolvedValue([
+        { currency: 'EUR', rate: '0.5' },
+        { currency: 'SEK', rate: '10' },
+      ]);
+    });
+
+    it('should return 1 for the same currency', async () => {
+      const service = new CurrencyConversionService({} as any, logger, 'database');
+
+      expect(await service.getConversionRate('eur', 'EUR')).toBe(1);
+      expect(getCurrencyRates).not.toHaveBeenCalled();
+    });
+
+    it('should return the multiplier from the source to the target currency', async () => {
+      const service = new CurrencyConversionService({} as any, logger, 'database');
+
+      expect(await service.getConversionRate('SEK', 'EUR')).toBe(0.05);
+      expect(await service.getConversionRate('USD', 'SEK')).toBe(10);
+    });
+
+    it('should return undefined if a rate is missing', async () => {
+      const service = new CurrencyConversionService({} as any, logger, 'database');
+
+      expect(await service.getConversionRate('JPY', 'EUR')).toBeUndefined();
+    });
+  });
+
+  describe('convertReports', () => {
+    let service: CurrencyConversionService;
+
+    beforeEach(() => {
+      service = new CurrencyConversionService({} as any, logger, 'database');
+      (getCurrencyRates as jest.Mock).mockResolvedValue([
+        { currency: 'EUR', rate: '0.5' },
+        { currency: 'SEK', rate: '10' },
+      ]);
+    });
+
+    it('should keep the costs of the reports in the target currency', async () => {
+      const report = createReport('eur', { '2024-01': 12.34 });
+
+      const result = await service.convertReports([report], 'EUR');
+
+      expect(result.reports).toEqual([{ ...report, currency: 'EUR' }]);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should read the reports without a currency as USD', async () => {
+      const result = await service.convertReports([createReport(undefined, { '2024-01': 10 })], 'EUR');
+
+      expect(result.reports[0].currency).toBe('EUR');
+      expect(result.reports[0].reports).toEqual({ '2024-01': 5 });
+    });
+
+    it('should convert the costs through the base currency', async () => {
+      const result = await service.convertReports([createReport('SEK', { '2024-01': 100, '2024-02': 33 })], 'EUR');
+
+      expect(result.reports[0].currency).toBe('EUR');
+      expect(result.reports[0].reports).toEqual({ '2024-01': 5, '2024-02': 1.65 });
+    });
+
+    it('should convert the forecasts', async () => {
+      const report: Report = {
+        ...createReport('USD', { '2024-01': 10 }),
+        forecast: { '2024-02': 20 },
+        forecastLow: { '2024-02': 16 },
+        forecastHigh: { '2024-02': 24 },
+      };
+
+      const result = await service.convertReports([report], 'EUR');
+
+      expect(result.reports[0]).toMatchObject({
+        currency: 'EUR',
+        reports: { '2024-01': 5 },
+        forecast: { '2024-02': 10 },
+        forecastLow: { '2024-02': 8 },
+        forecastHigh: { '2024-02': 12 },
+      });
+    });
+
+    it('should keep the reports without a rate and report the missing currency once', async () => {
+      const reports = [createReport('JPY', { '2024-01': 1000 }), createReport('JPY', { '2024-01': 2000 })];
+
+      const result = await service.convertReports(reports, 'EUR');
+
+      expect(result.reports).toEqual(reports);
+      expect(result.errors).toEqual([
+        {
+          provider: 'CurrencyConversion',
+          name: 'CurrencyConversion',
+          error: 'No exchange rate found for JPY, some costs are not converted into EUR',
+        },
+      ]);
+    });
+
+    it('should report a missing rate of the target currency', async () => {
+      const result = await service.convertReports([createReport('USD', { '2024-01': 10 })], 'NOK');
+
+      expect(result.reports[0].currency).toBe('USD');
+      expect(result.errors[0].error).toBe('No exchange rate found for NOK, some costs are not converted into NOK');
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { DatabaseService, LoggerService } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import { promises as fsPromises } from 'fs';
+import { mapValues } from 'lodash';
+import { getCurrencyRates } from '../models/CurrencyRate';
+import { DEFAULT_CURRENCY } from './consts';
+import { parseCost } from './functions';
+import { CloudProviderError, CurrencyRates, Report } from './types';
+
+type DatasourceType = 'database' | 'file';
+
+export class CurrencyConversionService {
+  private static instance: CurrencyConversionService;
+
+  constructor(
+    protected readonly database: DatabaseService,
+    protected readonly logger: LoggerService,
+    protected readonly datasourceType: DatasourceType,
+    protected readonly datasourceTarget?: string,
+  ) {}
+
+  static initInstance(database: DatabaseService, logger: LoggerService, config?: Config) {
+    if (!CurrencyConversionService.instance) {
+      const datasourceType =
+        (config?.getOptionalString('backend.infraWallet.currencyRates.type') as DatasourceType) ?? 'database';
+      const datasourceTarget = config?.getOptionalString('backend.infraWallet.currencyRates.target');
+      CurrencyConversionService.instance = new CurrencyConversionService(
+        database,
+        logger,
+        datasourceType,
+        datasourceTarget,
+      );
+    }
+  }
+
+  static getInstance(): CurrencyConversionService {
+    if (!CurrencyConversionService.instance) {
+      throw new Error('CurrencyConversionService needs to be initialized first');
+    }
+    return CurrencyConversionService.instance;
+  }
+
+  public isReadOnly(): boolean {
+    return this.datasourceType !== 'database';
+  }
+
+  private async loadFromDatabase(): Promise<CurrencyRates> {
+    const records = await getCurrencyRates(this.database);
+    const rates: Record<string, number> = {};
+    records.forEach(record => {
+      rates[record.currency.toUpperCase()] = parseFloat(record.rate as string);
+    });
+
+    return { base: DEFAULT_CURRENCY, rates: rates };
+  }
+
+  // the file is read on every request so that it can be replaced without restarting Backstage
+  private async loadFromFile(target: string): Promise<CurrencyRates> {
+    try {
+      const fileContent = await fsPromises.readFile(target, 'utf8');
+      const data = JSON.parse(fileContent);
+      const rates: Record<string, number> = {};
+      for (const [currency, rate] of Object.entries(data.rates ?? {})) {
+        rates[currency.toUpperCase()] = Number(rate);
+      }
+      return { base: (data.base ?? DEFAULT_CURRENCY).toUpperCase(), rates: rates };
+    } catch (error) {
+      this.logger.error(`Failed to load currency rates from file "${target}": ${(error as Error).message}`);
+      return { base: DEFAULT_CURRENCY, rates: {} };
+    }
+  }
+
+  public async getCurrencyRates(): Promise<CurrencyRates> {
+    switch (this.datasourceType) {
+      case 'database':
+        return this.loadFromDatabase();
+      case 'file':
+        if (!this.datasourceTarget) {
+          this.logger.error('Currency rates datasource type is file but no target is configured');
+          return { base: DEFAULT_CURRENCY, rates: {} };
+        }
+        return this.loadFromFile(this.datasourceTarget);
+      default:
+        this.logger.error(`Unknown currency rates datasource type: ${this.datasourceType}`);
+        return { base: DEFAULT_CURRENCY, rates: {} };
+    }
+  }
+
+  private getRate(currencyRates: CurrencyRates, currency: string): number | undefined {
+    if (currency === currencyRates.base) {
+      return 1;
+    }
+
+    const rate = currencyRates.rates[currency];
+    return rate > 0 ? rate : undefined;
+  }
+
+  // Get the multiplier from the source currency to the target currency, undefined if a rate is missing
+  public async getConversionRate(sourceCurrency: string, targetCurrency: string): Promise<number | undefined> {
+    const source = sourceCurrency.toUpperCase();
+    const target = targetCurrency.toUpperCase();
+    if (source === target) {
+      return 1;
+    }
+
+    const currencyRates = await this.getCurrencyRates();
+    const sourceRate = this.getRate(currencyRates, source);
+    const targetRate = this.getRate(currencyRates, target);
+    if (sourceRate === undefined || targetRate === undefined) {
+      return undefined;
+    }
+
+    return targetRate / sourceRate;
+  }
+
+  // Convert the costs of the reports into the target currency, reports without a known rate are kept as they are
+  public async convertReports(
+    reports: Report[],
+    targetCurrency: string,
+  ): Promise<{ reports: Report[]; errors: CloudProviderError[] }> {
+    const target = targetCurrency.toUpperCase();
+    const currencyRates = await this.getCurrencyRates();
+    const missingCurrencies = new Set<string>();
+
+    const convertedReports = reports.map(report => {
+      const source = (report.currency ?? DEFAULT_CURRENCY).toUpperCase();
+      if (source === target) {
+        return { ...report, currency: target };
+      }
+
+      const sourceRate = this.getRate(currencyRates, source);
+      const targetRate = this.getRate(currencyRates, target);
+      if (sourceRate === undefined || targetRate === undefined) {
+        missingCurrencies.add(sourceRate === undefined ? source : target);
+        return report;
+      }
+
+      const convert = (cost: number) => parseCost((cost / sourceRate) * targetRate);
+      return {
+        ...report,
+        currency: target,
+        reports: mapValues(report.reports, convert),
+        ...(report.forecast ? { forecast: mapValues(report.forecast, convert) } : {}),
+        ...(report.forecastLow ? { forecastLow: mapValues(report.forecastLow, convert) } : {}),
+        ...(report.forecastHigh ? { forecastHigh: mapValues(report.forecastHigh, convert) } : {}),
+      };
+    });
+
+    const errors: CloudProviderError[] = Array.from(missingCurrencies).map(currency => ({
+      provider: 'CurrencyConversion',
+      name: 'CurrencyConversion',
+      error: `No exchange rate found for ${currency}, some costs are not converted into ${target}`,
+    }));
+
+    return { reports: convertedReports, errors: errors };
+  }
+}
@@ -0,0 +1,180 @@
+import { BackstageCredentials } from '@backstage/backend-plugin-api';
+import { CATALOG_FILTER_EXISTS } from '@backstage/catalog-client';
+import { Entity, parseEntityRef, stringifyEntityRef } from '@backstage/catalog-model';
+import { CatalogService } from '@backstage/plugin-catalog-node';
+import {
+  INFRAWALLET_EXTRA_FILTERS_ANNOTATION,
+  INFRAWALLET_FILTER_ANNOTATIONS,
+  INFRAWALLET_TAGS_ANNOTATION,
+} from './consts';
+import { annotationsToCostSlice } from './functions';
+import { CostSlice, TeamOwnership } from './types';
+
+// the kinds of the entities whose costs are rolled up from their owned or child entities
+const ROLLUP_KINDS = ['group', 'system', 'domain'];
+
+// the owner of an entity is a group if its kind is not given
+function getOwnerGroupRef(entity: Entity): string | undefined {
+  const owner = entity.spec?.owner;
+  if (typeof owner !== 'string' || owner.length === 0) {
+    return undefined;
+  }
+
+  try {
+    const ownerRef = parseEntityRef(owner, {
+      defaultKind: 'group',
+      defaultNamespace: entity.metadata.namespace ?? 'default',
+    });
+    return ownerRef.kind.toLowerCase() === 'group' ? stringifyEntityRef(ownerRef) : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+// the entities with at least one of the infrawallet.io annotations, the filters in an array are combined with OR
+async function getAnnotatedEntities(catalog: CatalogService, credentials: BackstageCredentials): Promise<Entity[]> {
+  const annotations = [
+    ...INFRAWALLET_FILTER_ANNOTATIONS,
+    INFRAWALLET_EXTRA_FILTERS_ANNOTATION,
+    INFRAWALLET_TAGS_ANNOTATION,
+  ];
+  const { items } = await catalog.getEntities(
+    {
+      filter: annotations.map(annotation => ({ [`metadata.annotations.${annotation}`]: CATALOG_FILTER_EXISTS })),
+      fields: ['kind', 'metadata.name', 'metadata.namespace', 'metadata.annotations', 'spec.owner'],
+    },
+    { credentials },
+  );
+  return items;
+}
+
+/**
+ * Maps the groups of the catalog to the costs of the entities they own, the costs of an entity are read from
+ * its infrawallet.io annotations. The entities owned by users or without these annotations are left out.
+ * The catalog is read with the credentials of the request, so only the entities the user can see are counted.
+ */
+export async function getTeamOwnerships(
+  catalog: CatalogService,
+  credentials: BackstageCredentials,
+): Promise<TeamOwnership[]> {
+  const items = await getAnnotatedEntities(catalog, credentials);
+
+  const ownerships = new Map<string, TeamOwnership>();
+  items.forEach(entity => {
+    const team = getOwnerGroupRef(entity);
+    const slice = annotationsToCostSlice(entity.metadata.annotations ?? {});
+    if (!team || !slice) {
+      return;
+    }
+
+    const ownership = ownerships.get(team) ?? { team: team, entities: [] };
+    ownership.entities.push({ entityRef: stringifyEntityRef(entity), slice: slice });
+    ownerships.set(team, ownership);
+  });
+
+  return Array.from(ownerships.values());
+}
+
+/**
+ * Reads the cost slices of all the annotated entities of the catalog, such as for the task refreshing their costs.
+ */
+export async function getAllEntityCostSlices(
+  catalog: CatalogService,
+  credentials: BackstageCredentials,
+): Promise<{ entityRef: string; slice: CostSlice }[]> {
+  const items = await getAnnotatedEntities(catalog, credentials);
+  return items.flatMap(entity => {
+    const slice = annotationsToCostSlice(entity.metadata.annotations ?? {});
+    return slice ? [{ entityRef: stringifyEntityRef(entity), slice: slice }] : [];
+  });
+}
+
+/**
+ * Reads the cost slices of the given entities, the entities that are not found, that the user cannot see
+ * or without annotations are left out.
+ */
+export async function getEntityCostSlices(
+  catalog: CatalogService,
+  credentials: BackstageCredentials,
+  entityRefs: string[],
+): Promise<{ entityRef: string; slice: CostSlice }[]> {
+  const { items } = await catalog.getEntitiesByRefs(
+    {
+      entityRefs: Array.from(new Set(entityRefs)),
+      fields: ['kind', 'metadata.name', 'metadata.namespace', 'metadata.annotations'],
+    },
+    { credentials },
+  );
+
+  const entities = new Map<string, CostSlice>();
+  items.forEach(entity => {
+    const slice = entity ? annotationsToCostSlice(entity.metadata.annotations ?? {}) : undefined;
+    if (entity && slice) {
+      entities.set(stringifyEntityRef(entity), slice);
+    }
+  });
+  return Array.from(entities.entries()).map(([entityRef, slice]) => ({ entityRef: entityRef, slice: slice }));
+}
+
+/**
+ * Finds the annotated entities under a group, system or domain by following the ownedBy, partOf and childOf
+ * relations of the catalog, such as the components of the systems of a domain or the entities owned by the
+ * sub-groups of a group. The entity itself is included when it has annotations.
+ * Returns undefined if the entity is not found or the user cannot see it.
+ */
+export async function getRollupEntities(
+  catalog: CatalogService,
+  credentials: BackstageCredentials,
+  entityRef: string,
+): Promise<{ entityRef: string; slice: CostSlice }[] | undefined> {
+  const rootEntity = await catalog.getEntityByRef(entityRef, { credentials });
+  if (rootEntity === undefined) {
+    return undefined;
+  }
+
+  const rootRef = stringifyEntityRef(rootEntity);
+  const entities: { entityRef: string; slice: CostSlice }[] = [];
+  const rootSlice = annotationsToCostSlice(rootEntity.metadata.annotations ?? {});
+  if (rootSlice) {
+    entities.push({ entityRef: rootRef, slice: rootSlice });
+  }
+
+  // breadth-first through the relations, the visited refs stop the loops of the catalog graph
+  const visited = new Set<string>([rootRef]);
+  let queue = [rootRef];
+  while (queue.length > 0) {
+    // the filters in an array are combined with OR
+    const filter = queue.flatMap((ref): Record<string, string>[] => [
+      { 'relations.ownedBy': ref },
+      { 'relations.partOf': ref },
+      { 'relations.childOf': ref },
+    ]);
+    const { items } = await catalog.getEntities(
+      {
+        filter: filter,
+        fields: ['kind', 'metadata.name', 'metadata.namespace', 'metadata.annotations'],
+      },
+      { credentials },
+    );
+
+    const next: string[] = [];
+    for (const entity of items) {
+      const ref = stringifyEntityRef(entity);
+      if (visited.has(ref)) {
+        continue;
+      }
+      visited.add(ref);
+
+      const slice = annotationsToCostSlice(entity.metadata.annotations ?? {});
+      if (slice) {
+        entities.push({ entityRef: ref, slice: slice });
+      }
+      if (ROLLUP_KINDS.includes(entity.kind.toLowerCase())) {
+        next.push(ref);
+      }
+    }
+    queue = next;
+  }
+
+  return entities;
+}
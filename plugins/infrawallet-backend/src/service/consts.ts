@@ -4,6 +4,7 @@ import { ConfluentClient } from '../cost-clients/ConfluentClient';
 import { CustomProviderClient } from '../cost-clients/CustomProviderClient';
 import { DatadogClient } from '../cost-clients/DatadogClient';
 import { ElasticCloudClient } from '../cost-clients/ElasticCloudClient';
+import { FileClient } from '../cost-clients/FileClient';
 import { GCPClient } from '../cost-clients/GCPClient';
 import { MockClient } from '../cost-clients/MockClient';
 import { MongoAtlasClient } from '../cost-clients/MongoAtlasClient';
@@ -12,6 +13,7 @@ import { KubecostClient } from '../cost-clients/KubecostClient';
 import { DatadogProvider } from '../metric-providers/DatadogProvider';
 import { GrafanaCloudProvider } from '../metric-providers/GrafanaCloudProvider';
 import { MockProvider } from '../metric-providers/MockProvider';
+import { PrometheusProvider } from '../metric-providers/PrometheusProvider';
 
 // Supported cloud providers to extract costs
 export const enum CLOUD_PROVIDER {
@@ -24,10 +26,12 @@ export const enum CLOUD_PROVIDER {
   ELASTIC_CLOUD = 'ElasticCloud',
   GITHUB = 'GitHub',
   KUBECOST = 'Kubecost',
+  FILE = 'File',
   CUSTOM = 'Custom',
   MOCK = 'Mock',
 }
 
+// built-in cost clients, more clients can be registered through infrawalletCostClientExtensionPoint
 export const COST_CLIENT_MAPPINGS: {
   [provider: string]: any;
 } = {
@@ -40,15 +44,18 @@ export const COST_CLIENT_MAPPINGS: {
   elasticcloud: ElasticCloudClient,
   github: GitHubClient,
   kubecost: KubecostClient,
+  file: FileClient,
   custom: CustomProviderClient,
   mock: MockClient,
 };
 
+// built-in metric providers, more providers can be registered through infrawalletMetricProviderExtensionPoint
 export const METRIC_PROVIDER_MAPPINGS: {
   [provider: string]: any;
 } = {
   datadog: DatadogProvider,
   grafanacloud: GrafanaCloudProvider,
+  prometheus: PrometheusProvider,
   mock: MockProvider,
 };
 
@@ -78,6 +85,7 @@ export const DEFAULT_TAGS_CACHE_TTL: {
   [CLOUD_PROVIDER.ELASTIC_CLOUD]: 1 * 60 * 60 * 1000,
   [CLOUD_PROVIDER.GITHUB]: 1 * 60 * 60 * 1000,
   [CLOUD_PROVIDER.KUBECOST]: 1 * 60 * 60 * 1000,
+  [CLOUD_PROVIDER.FILE]: 1 * 60 * 60 * 1000,
   [CLOUD_PROVIDER.CUSTOM]: 1,
   [CLOUD_PROVIDER.MOCK]: 0, // NOTE: 0 means never expired!
 };
@@ -94,13 +102,51 @@ export const DEFAULT_COSTS_CACHE_TTL: {
   [CLOUD_PROVIDER.ELASTIC_CLOUD]: 2 * 60 * 60 * 1000,
   [CLOUD_PROVIDER.GITHUB]: 2 * 60 * 60 * 1000,
   [CLOUD_PROVIDER.KUBECOST]: 2 * 60 * 60 * 1000,
+  [CLOUD_PROVIDER.FILE]: 2 * 60 * 60 * 1000,
   [CLOUD_PROVIDER.CUSTOM]: 1, // do not cache custom costs since they are in the plugin database
   [CLOUD_PROVIDER.MOCK]: 0, // NOTE: 0 means never expired!
 };
 
+export const enum COST_METRIC {
+  UNBLENDED = 'unblended',
+  BLENDED = 'blended',
+  AMORTIZED = 'amortized',
+  NET_AMORTIZED = 'net_amortized',
+  ACTUAL = 'actual',
+  GROSS = 'gross', // without the credits
+  NET = 'net', // net of the credits
+}
+
+// cost metrics that can be chosen per integration and in the queries, the first one is the default
+export const COST_METRICS: {
+  [provider: string]: COST_METRIC[];
+} = {
+  [CLOUD_PROVIDER.AWS]: [COST_METRIC.UNBLENDED, COST_METRIC.BLENDED, COST_METRIC.AMORTIZED, COST_METRIC.NET_AMORTIZED],
+  [CLOUD_PROVIDER.AZURE]: [COST_METRIC.ACTUAL, COST_METRIC.AMORTIZED],
+  [CLOUD_PROVIDER.GCP]: [COST_METRIC.NET, COST_METRIC.GROSS],
+};
+
+// defaults of the cost clients registered through the extension point, the clients can override them
+export const DEFAULT_EXTENSION_TAGS_CACHE_TTL = 1 * 60 * 60 * 1000;
+export const DEFAULT_EXTENSION_COSTS_CACHE_TTL = 2 * 60 * 60 * 1000;
+export const DEFAULT_EXTENSION_NUMBER_OF_MONTHS_FETCHING_HISTORICAL_COSTS = 12;
+
+// the costs of the catalog entities are cached longer than the hourly schedule of the task refreshing them,
+// the task refreshes the months of the entity card, the current month and the 2 months before it
+export const DEFAULT_ENTITY_COSTS_CACHE_TTL = 2 * 60 * 60 * 1000;
+export const DEFAULT_ENTITY_COSTS_MONTHS = 3;
+
+// the saved cost items are kept when an autoload fetches less than this ratio of their number for the same period
+export const DEFAULT_MIN_REPLACEMENT_RATIO = 0.5;
+
+// the monthly costs are forecasted from the current month on, from the saved costs of the last 3 years at most
+export const DEFAULT_FORECAST_MONTHS = 12;
+export const FORECAST_HISTORY_MONTHS = 36;
+
 export const enum PROVIDER_TYPE {
   INTEGRATION = 'Integration',
   CUSTOM = 'Custom',
+  ALLOCATED = 'Allocated',
 }
 
 export const NUMBER_OF_MONTHS_FETCHING_HISTORICAL_COSTS: {
@@ -117,6 +163,24 @@ export const NUMBER_OF_MONTHS_FETCHING_HISTORICAL_COSTS: {
   [CLOUD_PROVIDER.ELASTIC_CLOUD]: 11,
   [CLOUD_PROVIDER.GITHUB]: 12,
   [CLOUD_PROVIDER.KUBECOST]: 3,
+  [CLOUD_PROVIDER.FILE]: 12,
   [CLOUD_PROVIDER.CUSTOM]: 0, // NOT USED
   [CLOUD_PROVIDER.MOCK]: 0, // NOT USED
 };
+
+// the annotations of the catalog entities selecting their costs, the key after the prefix is the report column
+export const INFRAWALLET_FILTER_ANNOTATIONS = [
+  'infrawallet.io/project',
+  'infrawallet.io/account',
+  'infrawallet.io/service',
+  'infrawallet.io/category',
+  'infrawallet.io/provider',
+];
+export const INFRAWALLET_EXTRA_FILTERS_ANNOTATION = 'infrawallet.io/extra-filters';
+export const INFRAWALLET_TAGS_ANNOTATION = 'infrawallet.io/tags';
+
+// the currency of the costs when a provider does not report it, also the base of the exchange rates
+export const DEFAULT_CURRENCY = 'USD';
+
+// the wallet seeded on first start-up, integrations without a `wallet` setting belong to it
+export const DEFAULT_WALLET_NAME = 'default';
@@ -0,0 +1,43 @@
+import ExcelJS from 'exceljs';
+import { Response } from 'express';
+import { ExportFormat, ExportTable } from './types';
+
+function escapeCsvValue(value: string | number): string {
+  const stringValue = String(value);
+  if (/[",\r\n]/.test(stringValue)) {
+    return `"${stringValue.replaceAll('"', '""')}"`;
+  }
+  return stringValue;
+}
+
+// Rows are written one by one so that large exports are not buffered in memory
+function writeCsv(response: Response, table: ExportTable) {
+  response.write(`${table.columns.map(escapeCsvValue).join(',')}\n`);
+  for (const row of table.rows) {
+    response.write(`${row.map(escapeCsvValue).join(',')}\n`);
+  }
+  response.end();
+}
+
+async function writeXlsx(response: Response, table: ExportTable) {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: response });
+  const worksheet = workbook.addWorksheet('Costs');
+  worksheet.addRow(table.columns).commit();
+  for (const row of table.rows) {
+    worksheet.addRow(row).commit();
+  }
+  worksheet.commit();
+  await workbook.commit();
+}
+
+export async function sendExportTable(response: Response, table: ExportTable, format: ExportFormat, fileName: string) {
+  if (format === 'xlsx') {
+    response.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    response.setHeader('Content-Disposition', `attachment; filename="${fileName}.xlsx"`);
+    await writeXlsx(response, table);
+  } else {
+    response.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    response.setHeader('Content-Disposition', `attachment; filename="${fileName}.csv"`);
+    writeCsv(response, table);
+  }
+}
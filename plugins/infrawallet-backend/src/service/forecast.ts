@@ -0,0 +1,95 @@
+import { DatabaseService, LoggerService } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import moment from 'moment';
+import { getWalletCostItems } from '../models/CostItem';
+import { DEFAULT_FORECAST_MONTHS, FORECAST_HISTORY_MONTHS, GRANULARITY } from './consts';
+import { forecastCosts } from './functions';
+import { Report, Wallet } from './types';
+
+export type CostForecastOptions = {
+  logger: LoggerService;
+  config: Config;
+  database: DatabaseService;
+};
+
+export function isCostForecastEnabled(config: Config): boolean {
+  return config.getOptionalBoolean('backend.infraWallet.forecast.enabled') ?? true;
+}
+
+/**
+ * Adds the forecasts of the next months to the monthly reports, with their bounds in forecastLow and forecastHigh.
+ * Each report is forecasted from the history of its monthly cost items, which are saved under the report id,
+ * so the reports split by a group or read from the costs split by tag have no forecast.
+ * The forecasts given by the provider are kept, and the forecast of the current month is at least its costs so far.
+ */
+export async function addCostForecasts(options: CostForecastOptions, wallet: Wallet, reports: Report[]): Promise<void> {
+  const { logger, config, database } = options;
+  const months = config.getOptionalNumber('backend.infraWallet.forecast.months') ?? DEFAULT_FORECAST_MONTHS;
+
+  const currentMonth = moment().startOf('month');
+  const currentUsageDate = parseInt(currentMonth.format('YYYYMM'), 10);
+  const costItems = await getWalletCostItems(
+    database,
+    wallet.id,
+    GRANULARITY.MONTHLY,
+    parseInt(currentMonth.clone().subtract(FORECAST_HISTORY_MONTHS, 'months').format('YYYYMM'), 10),
+    currentUsageDate,
+  );
+
+  // monthly costs of each saved report, by usage date
+  const seriesKey = (provider: string | undefined, key: string) => `${provider}/${key}`;
+  const series = new Map<string, Map<number, number>>();
+  costItems.forEach(item => {
+    const key = seriesKey(item.provider, item.key);
+    const costs = series.get(key) ?? new Map<number, number>();
+    costs.set(item.usage_date, (costs.get(item.usage_date) ?? 0) + parseFloat(item.cost as string));
+    series.set(key, costs);
+  });
+
+  const periods = Array.from({ length: months }, (_, index) =>
+    currentMonth.clone().add(index, 'months').format('YYYY-MM'),
+  );
+
+  let forecastedReports = 0;
+  for (const report of reports) {
+    const costs = series.get(seriesKey(report.provider, report.id));
+    const pastUsageDates = Array.from(costs?.keys() ?? []).filter(usageDate => usageDate < currentUsageDate);
+    if (!costs || pastUsageDates.length === 0) {
+      continue;
+    }
+    const firstUsageDate = Math.min(...pastUsageDates);
+
+    // the months without costs between the first saved month and the current month cost nothing
+    const history: number[] = [];
+    for (
+      const month = moment(firstUsageDate.toString(), 'YYYYMM');
+      month.isBefore(currentMonth);
+      month.add(1, 'month')
+    ) {
+      history.push(costs.get(parseInt(month.format('YYYYMM'), 10)) ?? 0);
+    }
+
+    const forecast = report.forecast ?? {};
+    const forecastLow: Record<string, number> = {};
+    const forecastHigh: Record<string, number> = {};
+    const monthToDate = costs.get(currentUsageDate) ?? 0;
+    forecastCosts(history, months).forEach((point, index) => {
+      const period = periods[index];
+      if (forecast[period] !== undefined) {
+        return;
+      }
+
+      const minimum = index === 0 ? monthToDate : 0;
+      forecast[period] = Math.max(point.value, minimum);
+      forecastLow[period] = Math.max(point.low, minimum);
+      forecastHigh[period] = Math.max(point.high, minimum);
+    });
+
+    report.forecast = forecast;
+    report.forecastLow = forecastLow;
+    report.forecastHigh = forecastHigh;
+    forecastedReports++;
+  }
+
+  logger.debug(`Forecasted the costs of ${forecastedReports} reports in wallet ${wallet.name}`);
+}
@@ -1,4 +1,24 @@
-import { getBillingPeriodFormat, getBillingPeriod, parseCost } from './functions';
+import {
+  aggregateTeamCosts,
+  annotationsToCostSlice,
+  applyAllocationRules,
+  detectAnomalies,
+  forecastCosts,
+  formatPrometheusGauges,
+  getBillingPeriodFormat,
+  getBillingPeriod,
+  getBudgetHealthStatus,
+  hasStaleCostMetrics,
+  isCostItemsReplacementSafe,
+  parseCost,
+  parseGroups,
+  reportsToExportTable,
+  rollupEntityCosts,
+  selectEntityReports,
+  spreadForecastOverReports,
+  validateAllocationRule,
+} from './functions';
+import { AllocationRule, Report } from './types';
 import { GRANULARITY } from './consts';
 
 describe('getBillingPeriodFormat', () => {
@@ -56,3 +76,611 @@ describe('parseCost', () => {
     expect(parseCost(NaN)).toBe(0);
   });
 });
+
+describe('parseGroups', () => {
+  it('should parse the region and usage type dimensions', () => {
+    expect(parseGroups('region')).toEqual({ type: 'region', column: 'region' });
+    expect(parseGroups('usage_type')).toEqual({ type: 'usage_type', column: 'usage_type' });
+  });
+
+  it('should parse a tag key', () => {
+    expect(parseGroups('tag:team')).toEqual({ type: 'tag', key: 'team', column: 'team' });
+    expect(parseGroups('tag:aws:createdBy')).toEqual({ type: 'tag', key: 'aws:createdBy', column: 'aws:createdBy' });
+  });
+
+  it('should return undefined for empty or unsupported groups', () => {
+    expect(parseGroups(undefined)).toBeUndefined();
+    expect(parseGroups('')).toBeUndefined();
+    expect(parseGroups('tag:')).toBeUndefined();
+    expect(parseGroups('tag:account')).toBeUndefined();
+    expect(parseGroups('instance_type')).toBeUndefined();
+  });
+});
+
+describe('getBudgetHealthStatus', () => {
+  // the end of June is exactly half of the year
+  const endOfJune = new Date(2025, 5, 30);
+
+  it('should return healthy when the spending follows the elapsed part of the year', () => {
+    const result = getBudgetHealthStatus(500, 1000, endOfJune);
+    expect(result.status).toBe('healthy');
+    expect(result.utilizationPercent).toBe(50);
+    expect(result.expectedUtilizationPercent).toBe(50);
+  });
+
+  it('should return warning when the spending is more than 10 points ahead', () => {
+    expect(getBudgetHealthStatus(650, 1000, endOfJune).status).toBe('warning');
+  });
+
+  it('should return critical when the spending is more than 20 points ahead', () => {
+    expect(getBudgetHealthStatus(750, 1000, endOfJune).status).toBe('critical');
+  });
+
+  it('should return healthy when there is no budget amount', () => {
+    expect(getBudgetHealthStatus(750, 0, endOfJune).status).toBe('healthy');
+  });
+});
+
+describe('hasStaleCostMetrics', () => {
+  it('should not be stale when the saved metrics are configured', () => {
+    expect(hasStaleCostMetrics(['unblended', 'amortized'], ['amortized', 'unblended'], 'unblended')).toBe(false);
+    expect(hasStaleCostMetrics([], ['amortized'], 'unblended')).toBe(false);
+  });
+
+  it('should be stale when a saved metric is not configured anymore', () => {
+    expect(hasStaleCostMetrics(['unblended'], ['amortized'], 'unblended')).toBe(true);
+  });
+
+  it('should read the saved costs without a metric as the default metric', () => {
+    expect(hasStaleCostMetrics([null], ['unblended'], 'unblended')).toBe(false);
+    expect(hasStaleCostMetrics([null], ['amortized'], 'unblended')).toBe(true);
+  });
+
+  it('should not be stale for the providers with a single metric', () => {
+    expect(hasStaleCostMetrics([null], [undefined, undefined], undefined)).toBe(false);
+  });
+});
+
+describe('isCostItemsReplacementSafe', () => {
+  it('should replace when nothing is saved yet', () => {
+    expect(isCostItemsReplacementSafe(0, 0, 0.5)).toBe(true);
+    expect(isCostItemsReplacementSafe(0, 10, 0.5)).toBe(true);
+  });
+
+  it('should never replace saved cost items with an empty fetch', () => {
+    expect(isCostItemsReplacementSafe(10, 0, 0.5)).toBe(false);
+    expect(isCostItemsReplacementSafe(10, 0, 0)).toBe(false);
+  });
+
+  it('should compare the fetched cost items with the minimal ratio', () => {
+    expect(isCostItemsReplacementSafe(100, 50, 0.5)).toBe(true);
+    expect(isCostItemsReplacementSafe(100, 49, 0.5)).toBe(false);
+    expect(isCostItemsReplacementSafe(100, 1, 0)).toBe(true);
+  });
+});
+
+describe('detectAnomalies', () => {
+  const baseline = [100, 102, 98, 101, 99, 100, 103];
+
+  it('should flag a spike with both methods', () => {
+    const costs = [...baseline, 200];
+    for (const method of ['zscore', 'mad'] as const) {
+      const anomalies = detectAnomalies(costs, method, baseline.length, 3);
+      expect(anomalies).toHaveLength(1);
+      expect(anomalies[0].index).toBe(baseline.length);
+      expect(anomalies[0].score).toBeGreaterThan(3);
+    }
+  });
+
+  it('should flag a drop with a negative score', () => {
+    const anomalies = detectAnomalies([...baseline, 10], 'mad', baseline.length, 3);
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0].score).toBeLessThan(-3);
+  });
+
+  it('should not flag costs within the usual variation', () => {
+    expect(detectAnomalies([...baseline, 101], 'zscore', baseline.length, 3)).toHaveLength(0);
+  });
+
+  it('should flag a jump after a flat baseline', () => {
+    const anomalies = detectAnomalies([10, 10, 10, 10, 20], 'mad', 4, 3);
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0].expectedCost).toBe(10);
+  });
+
+  it('should ignore deviations smaller than the minimum cost delta', () => {
+    expect(detectAnomalies([1, 1, 1, 1, 3], 'mad', 4, 3, 5)).toHaveLength(0);
+  });
+});
+
+describe('forecastCosts', () => {
+  it('should forecast a flat series without uncertainty', () => {
+    const points = forecastCosts([100, 100, 100, 100, 100, 100], 3);
+    expect(points).toEqual([
+      { value: 100, low: 100, high: 100 },
+      { value: 100, low: 100, high: 100 },
+      { value: 100, low: 100, high: 100 },
+    ]);
+  });
+
+  it('should follow the seasonality when the history covers two seasons', () => {
+    const season = [100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 100, 300];
+    const points = forecastCosts([...season, ...season, ...season], 12);
+    expect(points).toHaveLength(12);
+    expect(points[11].value).toBeGreaterThan(points[10].value * 2);
+  });
+
+  it('should widen the intervals with the horizon', () => {
+    const points = forecastCosts([100, 120, 90, 130, 95, 125, 105], 3);
+    points.forEach(point => {
+      expect(point.low).toBeLessThanOrEqual(point.value);
+      expect(point.high).toBeGreaterThanOrEqual(point.value);
+    });
+    expect(points[2].high - points[2].low).toBeGreaterThan(points[0].high - points[0].low);
+  });
+
+  it('should not forecast negative costs', () => {
+    const points = forecastCosts([500, 300, 100], 6);
+    points.forEach(point => {
+      expect(point.value).toBeGreaterThanOrEqual(0);
+      expect(point.low).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  it('should use the mean of a short history', () => {
+    expect(forecastCosts([100, 200], 1)).toEqual([
+      { value: 150, low: parseCost(150 - 1.96 * 50), high: parseCost(150 + 1.96 * 50) },
+    ]);
+    expect(forecastCosts([], 3)).toEqual([]);
+  });
+});
+
+describe('spreadForecastOverReports', () => {
+  const createReport = (id: string, reports: Record<string, number>, forecast?: Record<string, number>): Report => ({
+    id: id,
+    account: 'AWS/account',
+    service: `AWS/${id}`,
+    category: 'Compute',
+    provider: 'AWS',
+    reports: reports,
+    forecast: forecast,
+  });
+
+  it('should spread the forecast by the costs of the month so far', () => {
+    const reports = [
+      createReport('EC2', { '2026-09': 500, '2026-10': 300 }),
+      createReport('S3', { '2026-09': 500, '2026-10': 100 }),
+    ];
+    spreadForecastOverReports(reports, 400, '2026-10', '2026-09');
+    expect(reports[0].forecast).toEqual({ '2026-10': 600 });
+    expect(reports[1].forecast).toEqual({ '2026-10': 200 });
+  });
+
+  it('should spread the forecast by the costs of the previous month at the start of a month', () => {
+    const reports = [createReport('EC2', { '2026-09': 300 }), createReport('S3', { '2026-09': 100 })];
+    spreadForecastOverReports(reports, 1000, '2026-10', '2026-09');
+    expect(reports[0].forecast).toEqual({ '2026-10': 750 });
+    expect(reports[1].forecast).toEqual({ '2026-10': 250 });
+  });
+
+  it('should keep the forecasts already in the reports', () => {
+    const reports = [
+      createReport('EC2', { '2026-10': 100 }, { '2026-10': 1000 }),
+      createReport('S3', { '2026-10': 100 }),
+    ];
+    spreadForecastOverReports(reports, 200, '2026-10', '2026-09');
+    expect(reports[0].forecast).toEqual({ '2026-10': 1000 });
+    expect(reports[1].forecast).toEqual({ '2026-10': 200 });
+  });
+
+  it('should not forecast reports without costs', () => {
+    const reports = [createReport('EC2', {})];
+    spreadForecastOverReports(reports, 200, '2026-10', '2026-09');
+    expect(reports[0].forecast).toBeUndefined();
+  });
+});
+
+describe('applyAllocationRules', () => {
+  const createReport = (account: string, service: string, reports: Record<string, number>): Report => ({
+    id: `${account}_${service}`,
+    account: account,
+    service: service,
+    category: 'Compute',
+    provider: 'Kubecost',
+    currency: 'EUR',
+    reports: reports,
+  });
+  const reports = [
+    createReport('cluster', '__idle__', { '2026-09': 100, '2026-10': 200 }),
+    createReport('team-a', 'cpu', { '2026-09': 30, '2026-10': 50 }),
+    createReport('team-b', 'cpu', { '2026-09': 10, '2026-10': 150 }),
+  ];
+  const createRule = (rule: Partial<AllocationRule>): AllocationRule => ({
+    id: 'rule',
+    wallet_id: 'wallet',
+    name: 'Idle',
+    source_filters: '(service:__idle__)',
+    method: 'fixed',
+    targets: [],
+    ...rule,
+  });
+
+  it('should split the shared costs with fixed percentages and keep what is left in the source', () => {
+    const results = applyAllocationRules(reports, [
+      createRule({
+        targets: [
+          { name: 'team-a', percentage: 50 },
+          { name: 'team-b', percentage: 30 },
+        ],
+      }),
+    ]);
+    expect(results.find(r => r.id === 'cluster___idle__')?.reports).toEqual({ '2026-09': 20, '2026-10': 40 });
+    expect(results.find(r => r.id === 'Idle->team-a')).toMatchObject({
+      account: 'team-a',
+      service: 'Idle',
+      provider: 'Allocated',
+      providerType: 'Allocated',
+      currency: 'EUR',
+      reports: { '2026-09': 50, '2026-10': 100 },
+    });
+    expect(results.find(r => r.id === 'Idle->team-b')?.reports).toEqual({ '2026-09': 30, '2026-10': 60 });
+  });
+
+  it('should split the shared costs in proportion to the costs of the targets in each period', () => {
+    const results = applyAllocationRules(reports, [
+      createRule({
+        method: 'proportional_cost',
+        targets: [
+          { name: 'team-a', filters: '(account:team-a)' },
+          { name: 'team-b', filters: '(account:team-b)' },
+        ],
+      }),
+    ]);
+    expect(results.find(r => r.id === 'cluster___idle__')).toBeUndefined();
+    expect(results.find(r => r.id === 'Idle->team-a')?.reports).toEqual({ '2026-09': 75, '2026-10': 50 });
+    expect(results.find(r => r.id === 'Idle->team-b')?.reports).toEqual({ '2026-09': 25, '2026-10': 150 });
+  });
+
+  it('should split the shared costs in proportion to business metrics and keep the periods without values', () => {
+    const results = applyAllocationRules(
+      reports,
+      [
+        createRule({
+          method: 'proportional_metric',
+          targets: [
+            { name: 'team-a', metric: 'requests_a' },
+            { name: 'team-b', metric: 'requests_b' },
+          ],
+        }),
+      ],
+      [
+        { id: 'requests_a', provider: 'Datadog', name: 'requests_a', reports: { '2026-10': 3000 } },
+        { id: 'requests_b', provider: 'Datadog', name: 'requests_b', reports: { '2026-10': 1000 } },
+      ],
+    );
+    expect(results.find(r => r.id === 'cluster___idle__')?.reports).toEqual({ '2026-09': 100 });
+    expect(results.find(r => r.id === 'Idle->team-a')?.reports).toEqual({ '2026-10': 150 });
+    expect(results.find(r => r.id === 'Idle->team-b')?.reports).toEqual({ '2026-10': 50 });
+  });
+
+  it('should split the forecasts with the shares of the latest period', () => {
+    const results = applyAllocationRules(
+      [{ ...reports[0], forecast: { '2026-10': 400 } }, reports[1], reports[2]],
+      [
+        createRule({
+          method: 'proportional_cost',
+          targets: [
+            { name: 'team-a', filters: '(account:team-a)' },
+            { name: 'team-b', filters: '(account:team-b)' },
+          ],
+        }),
+      ],
+    );
+    expect(results.find(r => r.id === 'Idle->team-a')?.forecast).toEqual({ '2026-10': 100 });
+    expect(results.find(r => r.id === 'Idle->team-b')?.forecast).toEqual({ '2026-10': 300 });
+  });
+
+  it('should not change the reports when no report matches the source filters', () => {
+    const results = applyAllocationRules(reports, [
+      createRule({ source_filters: '(service:__unmounted__)', targets: [{ name: 'team-a', percentage: 100 }] }),
+    ]);
+    expect(results).toEqual(reports);
+  });
+});
+
+describe('validateAllocationRule', () => {
+  const rule: Pick<AllocationRule, 'name' | 'source_filters' | 'method' | 'targets'> = {
+    name: 'Networking',
+    source_filters: '(account:network)',
+    method: 'fixed',
+    targets: [
+      { name: 'team-a', percentage: 60 },
+      { name: 'team-b', percentage: 40 },
+    ],
+  };
+
+  it('should accept a valid rule', () => {
+    expect(validateAllocationRule(rule)).toBeUndefined();
+  });
+
+  it('should reject a rule without source filters', () => {
+    expect(validateAllocationRule({ ...rule, source_filters: '()' })).toBeDefined();
+  });
+
+  it('should reject fixed percentages above 100', () => {
+    expect(
+      validateAllocationRule({
+        ...rule,
+        targets: [
+          { name: 'team-a', percentage: 60 },
+          { name: 'team-b', percentage: 60 },
+        ],
+      }),
+    ).toBeDefined();
+  });
+
+  it('should reject targets without the input of the method', () => {
+    expect(validateAllocationRule({ ...rule, method: 'proportional_cost' })).toBeDefined();
+    expect(validateAllocationRule({ ...rule, method: 'proportional_metric' })).toBeDefined();
+  });
+});
+
+describe('annotationsToCostSlice', () => {
+  it('should build the filters and the tags like the entity card', () => {
+    expect(
+      annotationsToCostSlice({
+        'infrawallet.io/account': 'prod, staging',
+        'infrawallet.io/provider': 'AWS',
+        'infrawallet.io/extra-filters': 'region: eu-west-1|eu-north-1',
+        'infrawallet.io/tags': 'team: payments',
+      }),
+    ).toEqual({
+      filters: '(account:(prod|staging),provider:AWS,region:(eu-west-1|eu-north-1))',
+      tags: [{ key: 'team', value: 'payments', provider: 'AWS' }],
+    });
+  });
+
+  it('should return undefined without InfraWallet annotations', () => {
+    expect(annotationsToCostSlice({ 'backstage.io/techdocs-ref': 'dir:.' })).toBeUndefined();
+  });
+});
+
+describe('aggregateTeamCosts', () => {
+  const createReport = (account: string, reports: Record<string, number>): Report => ({
+    id: account,
+    account: account,
+    service: 'EC2',
+    category: 'Compute',
+    provider: 'AWS',
+    reports: reports,
+  });
+
+  it('should sum the reports of the slices of each team and count a report once', () => {
+    const teamCosts = aggregateTeamCosts(
+      [
+        {
+          team: 'group:default/team-a',
+          entities: [
+            { entityRef: 'component:default/a1', slice: { filters: '(account:a)', tags: [] } },
+            { entityRef: 'component:default/a2', slice: { filters: '(account:(a|shared))', tags: [] } },
+          ],
+        },
+        {
+          team: 'group:default/team-b',
+          entities: [
+            {
+              entityRef: 'component:default/b1',
+              slice: { filters: '()', tags: [{ key: 'team', value: 'b', provider: 'AWS' }] },
+            },
+          ],
+        },
+      ],
+      {
+        '()': [
+          createReport('a', { '2026-09': 10, '2026-10': 20 }),
+          createReport('shared', { '2026-10': 5 }),
+          createReport('c', { '2026-10': 100 }),
+        ],
+        '(AWS:team=b)': [createReport('b', { '2026-10': 50 })],
+      },
+      'EUR',
+    );
+    expect(teamCosts).toEqual([
+      {
+        team: 'group:default/team-b',
+        entities: ['component:default/b1'],
+        currency: 'EUR',
+        reports: { '2026-10': 50 },
+      },
+      {
+        team: 'group:default/team-a',
+        entities: ['component:default/a1', 'component:default/a2'],
+        currency: 'EUR',
+        reports: { '2026-09': 10, '2026-10': 25 },
+      },
+    ]);
+  });
+});
+
+describe('rollupEntityCosts', () => {
+  const createReport = (account: string, reports: Record<string, number>): Report => ({
+    id: account,
+    account: account,
+    service: 'EC2',
+    category: 'Compute',
+    provider: 'AWS',
+    reports: reports,
+  });
+
+  it('should count the reports selected by overlapping slices once in the total', () => {
+    const rollup = rollupEntityCosts(
+      'system:default/shop',
+      [
+        { entityRef: 'component:default/cart', slice: { filters: '(account:(cart|shared))', tags: [] } },
+        { entityRef: 'component:default/checkout', slice: { filters: '(account:(checkout|shared))', tags: [] } },
+      ],
+      {
+        '()': [
+          createReport('cart', { '2026-09': 10, '2026-10': 20 }),
+          createReport('checkout', { '2026-10': 40 }),
+          createReport('shared', { '2026-09': 5, '2026-10': 5 }),
+          createReport('other', { '2026-10': 100 }),
+        ],
+      },
+      'EUR',
+    );
+    expect(rollup).toEqual({
+      entityRef: 'system:default/shop',
+      currency: 'EUR',
+      reports: { '2026-09': 15, '2026-10': 65 },
+      entities: [
+        { entityRef: 'component:default/checkout', reports: { '2026-09': 5, '2026-10': 45 } },
+        { entityRef: 'component:default/cart', reports: { '2026-09': 15, '2026-10': 25 } },
+      ],
+    });
+  });
+
+  it('should return empty costs when there are no entities', () => {
+    expect(rollupEntityCosts('group:default/team-a', [], {}, 'EUR')).toEqual({
+      entityRef: 'group:default/team-a',
+      currency: 'EUR',
+      reports: {},
+      entities: [],
+    });
+  });
+});
+
+describe('selectEntityReports', () => {
+  const createReport = (account: string, reports: Record<string, number>): Report => ({
+    id: account,
+    account: account,
+    service: 'EC2',
+    category: 'Compute',
+    provider: 'AWS',
+    reports: reports,
+  });
+
+  it('should select the reports of each entity by its filters in the reports of its tags', () => {
+    const shared = createReport('shared', { '2026-10': 5 });
+    const entityCosts = selectEntityReports(
+      [
+        { entityRef: 'component:default/cart', slice: { filters: '(account:(cart|shared))', tags: [] } },
+        {
+          entityRef: 'component:default/search',
+          slice: { filters: '()', tags: [{ key: 'app', value: 'search', provider: 'AWS' }] },
+        },
+        { entityRef: 'component:default/legacy', slice: { filters: '(account:legacy)', tags: [] } },
+      ],
+      {
+        '()': [createReport('cart', { '2026-10': 20 }), shared, createReport('other', { '2026-10': 100 })],
+        '(AWS:app=search)': [createReport('search', { '2026-10': 30 })],
+      },
+      'EUR',
+    );
+    expect(entityCosts).toEqual([
+      {
+        entityRef: 'component:default/cart',
+        currency: 'EUR',
+        reports: [createReport('cart', { '2026-10': 20 }), shared],
+      },
+      { entityRef: 'component:default/search', currency: 'EUR', reports: [createReport('search', { '2026-10': 30 })] },
+      { entityRef: 'component:default/legacy', currency: 'EUR', reports: [] },
+    ]);
+  });
+});
+
+describe('reportsToExportTable', () => {
+  const reports: Report[] = [
+    {
+      id: 'a',
+      provider: 'AWS',
+      account: 'AWS/prod',
+      service: 'AWS/EC2',
+      category: 'Compute',
+      providerType: 'Integration',
+      currency: 'EUR',
+      team: 'core',
+      reports: { '2025-01': 10, '2025-02': 20 },
+    },
+    {
+      id: 'b',
+      provider: 'AWS',
+      account: 'AWS/dev',
+      service: 'AWS/EC2',
+      category: 'Compute',
+      providerType: 'Integration',
+      currency: 'EUR',
+      reports: { '2025-02': 5 },
+    },
+  ];
+  const periods = ['2025-01', '2025-02'];
+
+  it('should export one row per report with all the dimensions and a total row', () => {
+    const table = reportsToExportTable(reports, periods);
+    expect(table.columns).toEqual([
+      'provider',
+      'account',
+      'service',
+      'category',
+      'team',
+      'currency',
+      '2025-01',
+      '2025-02',
+      'total',
+    ]);
+    expect(table.rows).toEqual([
+      ['AWS', 'AWS/prod', 'AWS/EC2', 'Compute', 'core', 'EUR', 10, 20, 30],
+      ['AWS', 'AWS/dev', 'AWS/EC2', 'Compute', '', 'EUR', 0, 5, 5],
+      ['Total', '', '', '', '', 'EUR', 10, 25, 35],
+    ]);
+  });
+
+  it('should merge the reports with the same value of the aggregation dimension', () => {
+    const table = reportsToExportTable(reports, periods, 'service');
+    expect(table.columns).toEqual(['service', 'currency', '2025-01', '2025-02', 'total']);
+    expect(table.rows).toEqual([
+      ['AWS/EC2', 'EUR', 10, 25, 35],
+      ['Total', 'EUR', 10, 25, 35],
+    ]);
+  });
+
+  it('should not add a total row when the currencies are different', () => {
+    const table = reportsToExportTable([reports[0], { ...reports[1], currency: 'USD' }], periods, 'service');
+    expect(table.rows).toHaveLength(2);
+  });
+});
+
+describe('formatPrometheusGauges', () => {
+  it('should format the gauges with sorted labels', () => {
+    const text = formatPrometheusGauges([
+      {
+        name: 'infrawallet_budget_amount',
+        help: 'Annual budget amount',
+        samples: [
+          { labels: { wallet: 'default', provider: 'AWS', currency: 'EUR' }, value: 1000 },
+          { labels: { wallet: 'default', provider: 'GCP', currency: 'EUR' }, value: 250.5 },
+        ],
+      },
+    ]);
+    expect(text).toEqual(
+      [
+        '# HELP infrawallet_budget_amount Annual budget amount',
+        '# TYPE infrawallet_budget_amount gauge',
+        'infrawallet_budget_amount{currency="EUR",provider="AWS",wallet="default"} 1000',
+        'infrawallet_budget_amount{currency="EUR",provider="GCP",wallet="default"} 250.5',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should escape the label values', () => {
+    const text = formatPrometheusGauges([
+      {
+        name: 'infrawallet_cost_month_to_date',
+        help: 'Cost',
+        samples: [{ labels: { service: 'a "quoted"\\name\n' }, value: 1 }],
+      },
+    ]);
+    expect(text).toContain('infrawallet_cost_month_to_date{service="a \\"quoted\\"\\\\name\\n"} 1');
+  });
+});
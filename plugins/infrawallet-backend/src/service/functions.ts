@@ -1,6 +1,42 @@
 import { CacheService, LoggerService } from '@backstage/backend-plugin-api';
-import { CACHE_CATEGORY, CLOUD_PROVIDER, DEFAULT_COSTS_CACHE_TTL, DEFAULT_TAGS_CACHE_TTL, GRANULARITY } from './consts';
-import { CostQuery, Metric, MetricQuery, Report, Tag, TagsQuery, TransformationSummary } from './types';
+import {
+  CACHE_CATEGORY,
+  CLOUD_PROVIDER,
+  DEFAULT_COSTS_CACHE_TTL,
+  DEFAULT_ENTITY_COSTS_CACHE_TTL,
+  DEFAULT_EXTENSION_COSTS_CACHE_TTL,
+  DEFAULT_EXTENSION_TAGS_CACHE_TTL,
+  DEFAULT_TAGS_CACHE_TTL,
+  GRANULARITY,
+  INFRAWALLET_EXTRA_FILTERS_ANNOTATION,
+  INFRAWALLET_FILTER_ANNOTATIONS,
+  INFRAWALLET_TAGS_ANNOTATION,
+  PROVIDER_TYPE,
+} from './consts';
+import {
+  AllocationRule,
+  AllocationTarget,
+  AnomalyDetectionMethod,
+  AnomalyScore,
+  BudgetHealthStatus,
+  CostForecastPoint,
+  CostQuery,
+  CostSlice,
+  EntityCost,
+  EntityCostQuery,
+  EntityCostRollup,
+  ExportTable,
+  Metric,
+  MetricQuery,
+  PrometheusGauge,
+  Report,
+  ReportGroup,
+  Tag,
+  TagsQuery,
+  TeamCost,
+  TeamOwnership,
+  TransformationSummary,
+} from './types';
 import moment from 'moment';
 
 // In URL, tags are defined in this format:
@@ -42,11 +78,12 @@ export function tagExists(tags: Tag[], targetTag: Tag): boolean {
   );
 }
 
-export function getDefaultCacheTTL(cacheCategory: CACHE_CATEGORY, provider: CLOUD_PROVIDER): number {
+// the provider can also be one of the cost clients registered through the extension point
+export function getDefaultCacheTTL(cacheCategory: CACHE_CATEGORY, provider: string): number {
   if (cacheCategory === CACHE_CATEGORY.TAGS) {
-    return DEFAULT_TAGS_CACHE_TTL[provider];
+    return DEFAULT_TAGS_CACHE_TTL[provider as CLOUD_PROVIDER] ?? DEFAULT_EXTENSION_TAGS_CACHE_TTL;
   } else if (cacheCategory === CACHE_CATEGORY.COSTS) {
-    return DEFAULT_COSTS_CACHE_TTL[provider];
+    return DEFAULT_COSTS_CACHE_TTL[provider as CLOUD_PROVIDER] ?? DEFAULT_EXTENSION_COSTS_CACHE_TTL;
   }
 
   return 0;
@@ -54,7 +91,7 @@ export function getDefaultCacheTTL(cacheCategory: CACHE_CATEGORY, provider: CLOU
 
 export async function getTagKeysFromCache(
   cache: CacheService,
-  provider: CLOUD_PROVIDER,
+  provider: string,
   configKey: string,
   query: TagsQuery,
 ): Promise<Tag[] | undefined> {
@@ -65,7 +102,7 @@ export async function getTagKeysFromCache(
 
 export async function getTagValuesFromCache(
   cache: CacheService,
-  provider: CLOUD_PROVIDER,
+  provider: string,
   configKey: string,
   tagKey: string,
   query: TagsQuery,
@@ -98,6 +135,7 @@ export async function getReportsFromCache(
     query.granularity,
     query.startTime,
     query.endTime,
+    query.costMetric,
   ].join('_');
   const cachedCosts = (await cache.get(cacheKey)) as Report[] | undefined;
   return cachedCosts;
@@ -119,6 +157,7 @@ export async function getForecastFromCache(
     query.granularity,
     query.startTime,
     query.endTime,
+    query.costMetric,
   ].join('_');
   const cachedForecast = (await cache.get(cacheKey)) as number | undefined;
   return cachedForecast;
@@ -146,10 +185,34 @@ export async function getMetricsFromCache(
   return cachedMetrics;
 }
 
+// the costs of an entity are cached per period, so that the requests made at different times of a day share them
+function getEntityCostsCacheKey(walletName: string, entityRef: string, query: EntityCostQuery): string {
+  const periodFormat = getBillingPeriodFormat(query.granularity as GRANULARITY);
+  return [
+    CACHE_CATEGORY.COSTS,
+    'entity',
+    walletName,
+    entityRef,
+    query.granularity,
+    moment(Number(query.startTime)).format(periodFormat),
+    moment(Number(query.endTime)).format(periodFormat),
+    query.costMetric,
+  ].join('_');
+}
+
+export async function getEntityCostsFromCache(
+  cache: CacheService,
+  walletName: string,
+  entityRef: string,
+  query: EntityCostQuery,
+): Promise<EntityCost | undefined> {
+  return (await cache.get(getEntityCostsCacheKey(walletName, entityRef, query))) as EntityCost | undefined;
+}
+
 export async function setTagKeysToCache(
   cache: CacheService,
   tags: Tag[],
-  provider: CLOUD_PROVIDER,
+  provider: string,
   configKey: string,
   query: TagsQuery,
   ttl?: number,
@@ -163,7 +226,7 @@ export async function setTagKeysToCache(
 export async function setTagValuesToCache(
   cache: CacheService,
   tags: Tag[],
-  provider: CLOUD_PROVIDER,
+  provider: string,
   configKey: string,
   tagKey: string,
   query: TagsQuery,
@@ -200,12 +263,25 @@ export async function setReportsToCache(
     query.granularity,
     query.startTime,
     query.endTime,
+    query.costMetric,
   ].join('_');
   await cache.set(cacheKey, reports, {
     ttl: ttl ?? 60 * 60 * 2 * 1000,
   }); // cache for 2 hours by default
 }
 
+export async function setEntityCostsToCache(
+  cache: CacheService,
+  entityCost: EntityCost,
+  walletName: string,
+  query: EntityCostQuery,
+  ttl?: number,
+) {
+  await cache.set(getEntityCostsCacheKey(walletName, entityCost.entityRef, query), entityCost, {
+    ttl: ttl ?? DEFAULT_ENTITY_COSTS_CACHE_TTL,
+  });
+}
+
 export async function setForecastToCache(
   cache: CacheService,
   forecast: number,
@@ -224,6 +300,7 @@ export async function setForecastToCache(
     query.granularity,
     query.startTime,
     query.endTime,
+    query.costMetric,
   ].join('_');
   await cache.set(cacheKey, forecast, {
     ttl: ttl ?? 60 * 60 * 2 * 1000, // cache for 2 hours by default, same as reports
@@ -287,6 +364,33 @@ export function parseFilters(filters: string): Record<string, string[]> {
   return result;
 }
 
+// columns that a tag key cannot override when the reports are split by a tag
+const RESERVED_REPORT_COLUMNS = ['id', 'account', 'service', 'category', 'provider', 'providerType', 'currency'];
+
+// In URL, groups are defined in one of these formats:
+// groups=region, groups=usage_type or groups=tag:key1
+// only one dimension is supported because AWS Cost Explorer allows two GroupBy dimensions, one of them is the service
+export function parseGroups(groups: string | undefined): ReportGroup | undefined {
+  const group = groups?.trim();
+  if (!group) {
+    return undefined;
+  }
+
+  if (group === 'region' || group === 'usage_type') {
+    return { type: group, column: group };
+  }
+
+  if (group.startsWith('tag:')) {
+    const key = group.slice('tag:'.length);
+    if (!key || RESERVED_REPORT_COLUMNS.includes(key)) {
+      return undefined;
+    }
+    return { type: 'tag', key: key, column: key };
+  }
+
+  return undefined;
+}
+
 /**
  * Returns the date format string for a billing period based on granularity.
  */
@@ -355,3 +459,664 @@ export function logTransformationSummary(
     `${provider} transformation summary: processed=${summary.processed}, uniqueReports=${summary.uniqueReports}, zeroAmount=${summary.zeroAmount}, missingFields=${summary.missingFields}, invalidDate=${summary.invalidDate}, timeRange=${summary.timeRange}, totalRecords=${summary.totalRecords}`,
   );
 }
+
+/**
+ * Tells whether the cost items saved for a period can be replaced by the fetched ones.
+ * An empty fetch never replaces saved cost items, and a fetch with fewer than `minRatio` times
+ * the saved cost items is considered incomplete, for example when an account could not be read.
+ */
+export function isCostItemsReplacementSafe(savedRows: number, fetchedRows: number, minRatio: number): boolean {
+  if (savedRows === 0) {
+    return true;
+  }
+  if (fetchedRows === 0) {
+    return false;
+  }
+
+  return fetchedRows >= savedRows * minRatio;
+}
+
+/**
+ * Tells whether the cost items of a provider were saved with a cost metric that no integration is configured with.
+ * The cost items saved before the cost metrics were stored have none, they are in the default metric of the provider.
+ */
+export function hasStaleCostMetrics(
+  savedCostMetrics: (string | null)[],
+  configuredCostMetrics: (string | undefined)[],
+  defaultCostMetric?: string,
+): boolean {
+  return savedCostMetrics.some(costMetric => !configuredCostMetrics.includes(costMetric ?? defaultCostMetric));
+}
+
+/**
+ * Evaluates an annual budget the same way as the Budgets page does.
+ * The budget is in warning (critical) when the spending is 10 (20) points ahead of the elapsed part of the year.
+ */
+export function getBudgetHealthStatus(
+  yearToDateSpent: number,
+  annualBudget: number,
+  now: Date = new Date(),
+): { status: BudgetHealthStatus; utilizationPercent: number; expectedUtilizationPercent: number } {
+  const today = moment(now);
+  const utilizationPercent = annualBudget > 0 ? (yearToDateSpent / annualBudget) * 100 : 0;
+  const expectedUtilizationPercent = ((today.month() + today.date() / today.daysInMonth()) / 12) * 100;
+
+  let status: BudgetHealthStatus = 'healthy';
+  if (utilizationPercent > expectedUtilizationPercent + 20) {
+    status = 'critical';
+  } else if (utilizationPercent > expectedUtilizationPercent + 10) {
+    status = 'warning';
+  }
+
+  return { status, utilizationPercent, expectedUtilizationPercent };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Compares each cost with the baseline of the previous `windowSize` costs and returns the ones that deviate too much.
+ * The zscore method uses the mean and the standard deviation of the window, the mad method uses the median and
+ * the scaled median absolute deviation, which is not inflated by earlier spikes.
+ * Deviations smaller than `minCostDelta` are ignored so that cheap services do not produce noise.
+ */
+export function detectAnomalies(
+  costs: number[],
+  method: AnomalyDetectionMethod,
+  windowSize: number,
+  threshold: number,
+  minCostDelta: number = 0,
+  startIndex: number = windowSize,
+): AnomalyScore[] {
+  const anomalies: AnomalyScore[] = [];
+
+  for (let i = Math.max(startIndex, windowSize); i < costs.length; i++) {
+    const window = costs.slice(i - windowSize, i);
+    let expectedCost: number;
+    let spread: number;
+
+    if (method === 'mad') {
+      expectedCost = median(window);
+      // 1.4826 makes the MAD comparable to a standard deviation for normally distributed costs
+      spread = 1.4826 * median(window.map(cost => Math.abs(cost - expectedCost)));
+    } else {
+      expectedCost = window.reduce((sum, cost) => sum + cost, 0) / window.length;
+      spread = Math.sqrt(window.reduce((sum, cost) => sum + (cost - expectedCost) ** 2, 0) / window.length);
+    }
+
+    const delta = costs[i] - expectedCost;
+    if (Math.abs(delta) < minCostDelta || delta === 0) {
+      continue;
+    }
+
+    // a flat baseline has no spread, fall back to 1% of the baseline to still catch jumps
+    const score = delta / Math.max(spread, Math.abs(expectedCost) * 0.01, 0.01);
+    if (Math.abs(score) >= threshold) {
+      anomalies.push({ index: i, expectedCost: expectedCost, score: score });
+    }
+  }
+
+  return anomalies;
+}
+
+export function getPeriodStrings(granularity: GRANULARITY, startTime: number, endTime: number): string[] {
+  const periods: string[] = [];
+  const current = moment(startTime);
+
+  // future periods are skipped, same as the Overview page
+  while (current.isSameOrBefore(endTime) && current.isSameOrBefore(moment())) {
+    if (granularity === GRANULARITY.MONTHLY) {
+      periods.push(current.format('YYYY-MM'));
+      current.add(1, 'months');
+    } else {
+      periods.push(current.format('YYYY-MM-DD'));
+      current.add(1, 'days');
+    }
+  }
+
+  return periods;
+}
+
+// z-score of the 95% prediction intervals of the forecasts
+const FORECAST_INTERVAL_Z = 1.96;
+
+// Fit a forecasting model with the smoothing parameters giving the smallest one-step-ahead errors
+// the model returns its one-step-ahead errors and a function forecasting h steps after the end of the history
+function fitBestForecastModel<P>(
+  candidates: P[],
+  fit: (parameters: P) => { errors: number[]; forecast: (h: number) => number },
+): { errors: number[]; forecast: (h: number) => number } {
+  const sse = (errors: number[]) => errors.reduce((sum, error) => sum + error * error, 0);
+  return candidates
+    .map(parameters => fit(parameters))
+    .reduce((best, model) => (sse(model.errors) < sse(best.errors) ? model : best));
+}
+
+// Additive Holt-Winters, initialized with the first two seasons
+function fitHoltWinters(history: number[], seasonLength: number, alpha: number, beta: number, gamma: number) {
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const firstSeasonMean = mean(history.slice(0, seasonLength));
+  let level = firstSeasonMean;
+  let trend = (mean(history.slice(seasonLength, 2 * seasonLength)) - firstSeasonMean) / seasonLength;
+  const seasonals = history.slice(0, seasonLength).map(value => value - firstSeasonMean);
+  const errors: number[] = [];
+
+  for (let t = seasonLength; t < history.length; t++) {
+    const seasonal = seasonals[t - seasonLength];
+    errors.push(history[t] - (level + trend + seasonal));
+    const previousLevel = level;
+    level = alpha * (history[t] - seasonal) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonals.push(gamma * (history[t] - level) + (1 - gamma) * seasonal);
+  }
+
+  const lastSeason = seasonals.slice(-seasonLength);
+  return { errors, forecast: (h: number) => level + h * trend + lastSeason[(h - 1) % seasonLength] };
+}
+
+// Holt's linear method with a damped trend, so that the forecasts do not grow forever
+function fitDampedHolt(history: number[], alpha: number, beta: number, phi: number) {
+  let level = history[0];
+  let trend = history[1] - history[0];
+  const errors: number[] = [];
+
+  for (let t = 1; t < history.length; t++) {
+    errors.push(history[t] - (level + phi * trend));
+    const previousLevel = level;
+    level = alpha * history[t] + (1 - alpha) * (level + phi * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+  }
+
+  return {
+    errors,
+    forecast: (h: number) => {
+      let dampedSteps = 0;
+      for (let i = 1; i <= h; i++) {
+        dampedSteps += Math.pow(phi, i);
+      }
+      return level + dampedSteps * trend;
+    },
+  };
+}
+
+/**
+ * Forecasts the next `horizon` values of a monthly cost series, with 95% prediction intervals.
+ * Additive Holt-Winters is used when the history covers two seasons, Holt's linear method with a damped trend
+ * otherwise, and the mean of the history when it has fewer than 3 values. The smoothing parameters are chosen
+ * from a small grid by their one-step-ahead errors, whose standard deviation gives the width of the intervals.
+ * Costs cannot be negative, so the forecasts and their bounds are at least 0.
+ */
+export function forecastCosts(history: number[], horizon: number, seasonLength: number = 12): CostForecastPoint[] {
+  if (history.length === 0 || horizon <= 0) {
+    return [];
+  }
+
+  const smoothingValues = [0.1, 0.3, 0.5, 0.7, 0.9];
+  let model: { errors: number[]; forecast: (h: number) => number };
+  if (history.length >= 2 * seasonLength) {
+    const candidates = smoothingValues.flatMap(alpha =>
+      [0.05, 0.2].flatMap(beta => [0.1, 0.3].map(gamma => ({ alpha, beta, gamma }))),
+    );
+    model = fitBestForecastModel(candidates, ({ alpha, beta, gamma }) =>
+      fitHoltWinters(history, seasonLength, alpha, beta, gamma),
+    );
+  } else if (history.length >= 3) {
+    const candidates = smoothingValues.flatMap(alpha => [0.05, 0.2].map(beta => ({ alpha, beta })));
+    model = fitBestForecastModel(candidates, ({ alpha, beta }) => fitDampedHolt(history, alpha, beta, 0.9));
+  } else {
+    const mean = history.reduce((a, b) => a + b, 0) / history.length;
+    model = { errors: history.map(value => value - mean), forecast: () => mean };
+  }
+
+  const sigma = Math.sqrt(model.errors.reduce((sum, error) => sum + error * error, 0) / model.errors.length);
+  const points: CostForecastPoint[] = [];
+  for (let h = 1; h <= horizon; h++) {
+    const value = Math.max(model.forecast(h), 0);
+    const margin = FORECAST_INTERVAL_Z * sigma * Math.sqrt(h);
+    points.push({
+      value: parseCost(value),
+      low: parseCost(Math.max(value - margin, 0)),
+      high: parseCost(value + margin),
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Spreads the forecasted costs of an integration from today to the end of the month over its monthly reports,
+ * in proportion to their costs of the month so far, or of the previous month when nothing is reported yet.
+ * The forecast of a report is its costs so far plus its share, the forecasts already in the reports are kept.
+ */
+export function spreadForecastOverReports(
+  reports: Report[],
+  forecast: number,
+  currentPeriod: string,
+  previousPeriod: string,
+): void {
+  const sumCosts = (period: string) =>
+    reports.reduce((sum, report) => sum + Math.max(report.reports[period] ?? 0, 0), 0);
+  const weightPeriod = sumCosts(currentPeriod) > 0 ? currentPeriod : previousPeriod;
+  const totalWeight = sumCosts(weightPeriod);
+  if (totalWeight === 0) {
+    return;
+  }
+
+  reports.forEach(report => {
+    if (report.forecast?.[currentPeriod] !== undefined) {
+      return;
+    }
+    const share = (forecast * Math.max(report.reports[weightPeriod] ?? 0, 0)) / totalWeight;
+    report.forecast = {
+      ...report.forecast,
+      [currentPeriod]: parseCost((report.reports[currentPeriod] ?? 0) + share),
+    };
+  });
+}
+
+// Check if a report matches the filters parsed by parseFilters, the values of a key are alternatives
+export function reportMatchesFilters(report: Report, filters: Record<string, string[]>): boolean {
+  return Object.entries(filters).every(([key, values]) => {
+    const reportValue = report[key];
+    if (typeof reportValue !== 'string') {
+      return false;
+    }
+    return values.includes(reportValue);
+  });
+}
+
+// Returns the reason why an allocation rule cannot be applied, or undefined if it is valid
+export function validateAllocationRule(
+  rule: Pick<AllocationRule, 'name' | 'source_filters' | 'method' | 'targets'>,
+): string | undefined {
+  if (!rule.name) {
+    return 'The name of the rule is missing';
+  }
+  if (Object.keys(parseFilters(rule.source_filters ?? '')).length === 0) {
+    return 'The source filters must select the shared costs, such as (account:123)';
+  }
+  if (!['fixed', 'proportional_cost', 'proportional_metric'].includes(rule.method)) {
+    return 'The method must be fixed, proportional_cost or proportional_metric';
+  }
+  if (!Array.isArray(rule.targets) || rule.targets.length === 0) {
+    return 'The rule needs at least one target';
+  }
+
+  if (
+    rule.targets.some(target => !target.name) ||
+    new Set(rule.targets.map(target => target.name)).size !== rule.targets.length
+  ) {
+    return 'Every target needs a unique name';
+  }
+  if (rule.method === 'fixed') {
+    const percentages = rule.targets.map(target => target.percentage);
+    if (percentages.some(percentage => typeof percentage !== 'number' || percentage <= 0)) {
+      return 'Every target of the fixed method needs a positive percentage';
+    }
+    if ((percentages as number[]).reduce((sum, percentage) => sum + percentage, 0) > 100) {
+      return 'The percentages of the targets cannot exceed 100';
+    }
+  }
+  if (
+    rule.method === 'proportional_cost' &&
+    rule.targets.some(target => Object.keys(parseFilters(target.filters ?? '')).length === 0)
+  ) {
+    return 'Every target of the proportional_cost method needs filters';
+  }
+  if (rule.method === 'proportional_metric' && rule.targets.some(target => !target.metric)) {
+    return 'Every target of the proportional_metric method needs a business metric';
+  }
+
+  return undefined;
+}
+
+type PeriodCosts = { [period: string]: number };
+
+const REPORT_COST_KEYS = ['reports', 'forecast', 'forecastLow', 'forecastHigh'];
+
+/**
+ * Applies the allocation rules of a wallet to reports in the same currency, in the order of the rules.
+ * The costs of the reports matching the source filters of a rule are moved to one allocated report per target,
+ * the share of a target is its fixed percentage or its weight in the same period: the costs of the other reports
+ * matching its filters, or the values of its business metric. The costs that cannot be allocated, such as what
+ * the fixed percentages leave or a period without any weight, stay in the source reports.
+ * The forecasts are split with the shares of the latest period.
+ */
+export function applyAllocationRules(reports: Report[], rules: AllocationRule[], metrics: Metric[] = []): Report[] {
+  let results = reports;
+
+  for (const rule of rules) {
+    const sourceFilters = parseFilters(rule.source_filters);
+    const sources = results.filter(report => reportMatchesFilters(report, sourceFilters));
+    if (Object.keys(sourceFilters).length === 0 || sources.length === 0) {
+      continue;
+    }
+    const others = results.filter(report => !sources.includes(report));
+
+    const getWeight = (target: AllocationTarget, period: string): number => {
+      if (rule.method === 'proportional_cost') {
+        const targetFilters = parseFilters(target.filters ?? '');
+        return others
+          .filter(report => Object.keys(targetFilters).length > 0 && reportMatchesFilters(report, targetFilters))
+          .reduce((sum, report) => sum + Math.max(report.reports[period] ?? 0, 0), 0);
+      }
+      if (rule.method === 'proportional_metric') {
+        return metrics
+          .filter(metric => metric.name === target.metric)
+          .reduce((sum, metric) => sum + Math.max(metric.reports[period] ?? 0, 0), 0);
+      }
+      return Math.max(target.percentage ?? 0, 0);
+    };
+    const getShares = (period: string): number[] => {
+      const weights = rule.targets.map(target => getWeight(target, period));
+      if (rule.method === 'fixed') {
+        return weights.map(weight => weight / 100);
+      }
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      return weights.map(weight => (totalWeight > 0 ? weight / totalWeight : 0));
+    };
+
+    const periods = Array.from(new Set(sources.flatMap(report => Object.keys(report.reports)))).sort();
+    const shares = new Map(periods.map(period => [period, getShares(period)]));
+    const latestShares = periods.length > 0 ? (shares.get(periods[periods.length - 1]) as number[]) : getShares('');
+
+    const allocatedReports: Report[] = rule.targets.map(target => ({
+      id: `${rule.name}->${target.name}`,
+      account: target.name,
+      service: rule.name,
+      category: PROVIDER_TYPE.ALLOCATED,
+      provider: PROVIDER_TYPE.ALLOCATED,
+      providerType: PROVIDER_TYPE.ALLOCATED,
+      allocationRule: rule.name,
+      currency: sources[0].currency,
+      reports: {},
+    }));
+    const remainingReports: Report[] = sources.map(source => {
+      const remainingReport: Report = { ...source };
+      REPORT_COST_KEYS.forEach(key => {
+        const costs = source[key] as PeriodCosts | undefined;
+        if (costs === undefined) {
+          return;
+        }
+
+        const remainingCosts: PeriodCosts = {};
+        Object.entries(costs).forEach(([period, cost]) => {
+          const periodShares = key === 'reports' ? (shares.get(period) as number[]) : latestShares;
+          periodShares.forEach((share, index) => {
+            if (share > 0) {
+              const allocatedCosts = (allocatedReports[index][key] ?? {}) as PeriodCosts;
+              allocatedCosts[period] = (allocatedCosts[period] ?? 0) + cost * share;
+              allocatedReports[index][key] = allocatedCosts;
+            }
+          });
+          const remainingCost = parseCost(cost * (1 - periodShares.reduce((sum, share) => sum + share, 0)));
+          if (remainingCost !== 0) {
+            remainingCosts[period] = remainingCost;
+          }
+        });
+        remainingReport[key] = remainingCosts;
+      });
+      return remainingReport;
+    });
+
+    allocatedReports.forEach(report => {
+      REPORT_COST_KEYS.filter(key => report[key] !== undefined).forEach(key => {
+        const costs = Object.entries(report[key] as PeriodCosts).map(([period, cost]) => [period, parseCost(cost)]);
+        report[key] = Object.fromEntries(costs);
+      });
+    });
+
+    results = [
+      ...others,
+      ...remainingReports.filter(report => Object.keys(report.reports).length > 0),
+      ...allocatedReports.filter(report => Object.keys(report.reports).length > 0),
+    ];
+  }
+
+  return results;
+}
+
+/**
+ * Reads the costs of a catalog entity from its annotations, the same way as the EntityInfraWalletCard:
+ * comma-separated values of infrawallet.io/account and the like, extra filters such as `key1: v1|v2, key2: v3`
+ * and tags such as `key1: value1, key2: value2` of the provider in infrawallet.io/provider.
+ * Returns undefined if the entity has none of these annotations.
+ */
+export function annotationsToCostSlice(annotations: Record<string, string>): CostSlice | undefined {
+  const filters: Record<string, string[]> = {};
+  INFRAWALLET_FILTER_ANNOTATIONS.forEach(annotation => {
+    const values = (annotations[annotation] ?? '')
+      .split(',')
+      .map(value => value.trim())
+      .filter(value => value.length > 0);
+    if (values.length > 0) {
+      filters[annotation.replace('infrawallet.io/', '')] = values;
+    }
+  });
+  (annotations[INFRAWALLET_EXTRA_FILTERS_ANNOTATION] ?? '').split(',').forEach(pair => {
+    const [key, value] = pair.split(':').map(s => s.trim());
+    if (key && value) {
+      filters[key] = value
+        .split('|')
+        .map(v => v.trim())
+        .filter(v => v.length > 0);
+    }
+  });
+
+  const tags: Tag[] = [];
+  const provider = annotations['infrawallet.io/provider'];
+  if (annotations[INFRAWALLET_TAGS_ANNOTATION] && provider) {
+    annotations[INFRAWALLET_TAGS_ANNOTATION].split(',').forEach(pair => {
+      const [key, value] = pair.split(':').map(s => s.trim());
+      if (key && value) {
+        tags.push({ key: key, value: value, provider: provider });
+      }
+    });
+  }
+
+  if (Object.keys(filters).length === 0 && tags.length === 0) {
+    return undefined;
+  }
+
+  const filterStrings = Object.entries(filters).map(([key, values]) =>
+    values.length === 1 ? `${key}:${values[0]}` : `${key}:(${values.join('|')})`,
+  );
+  return { filters: `(${filterStrings.join(',')})`, tags: tags };
+}
+
+/**
+ * Sums the costs of the slices per period. The reports of a slice are looked up in `reportsByTags` by the tags
+ * of the slice, see tagsToString, and a report selected by several slices is counted once.
+ */
+export function sumCostSlices(
+  slices: CostSlice[],
+  reportsByTags: Record<string, Report[]>,
+): { [period: string]: number } {
+  const selectedReports = new Map<string, Report>();
+  slices.forEach(slice => {
+    const tags = tagsToString(slice.tags);
+    const filters = parseFilters(slice.filters);
+    (reportsByTags[tags] ?? [])
+      .filter(report => reportMatchesFilters(report, filters))
+      .forEach(report => selectedReports.set(`${tags}/${report.id}`, report));
+  });
+
+  const costs: { [period: string]: number } = {};
+  selectedReports.forEach(report => {
+    Object.entries(report.reports).forEach(([period, cost]) => {
+      costs[period] = (costs[period] ?? 0) + cost;
+    });
+  });
+  Object.keys(costs).forEach(period => {
+    costs[period] = parseCost(costs[period]);
+  });
+  return costs;
+}
+
+function sumPeriodCosts(costs: { [period: string]: number }): number {
+  return Object.values(costs).reduce((sum, cost) => sum + cost, 0);
+}
+
+/**
+ * Sums the costs of each team per period, a report selected by several slices of a team is counted once.
+ * The teams are sorted by their total costs, the highest first.
+ */
+export function aggregateTeamCosts(
+  ownerships: TeamOwnership[],
+  reportsByTags: Record<string, Report[]>,
+  currency: string,
+): TeamCost[] {
+  const teamCosts = ownerships.map(ownership => ({
+    team: ownership.team,
+    entities: ownership.entities.map(entity => entity.entityRef),
+    currency: currency,
+    reports: sumCostSlices(
+      ownership.entities.map(entity => entity.slice),
+      reportsByTags,
+    ),
+  }));
+
+  return teamCosts.sort((a, b) => sumPeriodCosts(b.reports) - sumPeriodCosts(a.reports));
+}
+
+/**
+ * Rolls up the costs of the entities of a group, system or domain. The total counts a report selected by the
+ * slices of several entities once, so it can be lower than the sum of the entities when their slices overlap.
+ * The entities are sorted by their total costs, the highest first.
+ */
+export function rollupEntityCosts(
+  entityRef: string,
+  entities: { entityRef: string; slice: CostSlice }[],
+  reportsByTags: Record<string, Report[]>,
+  currency: string,
+): EntityCostRollup {
+  const entityCosts = entities.map(entity => ({
+    entityRef: entity.entityRef,
+    reports: sumCostSlices([entity.slice], reportsByTags),
+  }));
+
+  return {
+    entityRef: entityRef,
+    currency: currency,
+    reports: sumCostSlices(
+      entities.map(entity => entity.slice),
+      reportsByTags,
+    ),
+    entities: entityCosts.sort((a, b) => sumPeriodCosts(b.reports) - sumPeriodCosts(a.reports)),
+  };
+}
+
+/**
+ * Selects the reports of each entity by the filters of its slice, in the reports fetched for the tags of the slice.
+ */
+export function selectEntityReports(
+  entities: { entityRef: string; slice: CostSlice }[],
+  reportsByTags: Record<string, Report[]>,
+  currency: string,
+): EntityCost[] {
+  return entities.map(entity => {
+    const filters = parseFilters(entity.slice.filters);
+    return {
+      entityRef: entity.entityRef,
+      currency: currency,
+      reports: (reportsByTags[tagsToString(entity.slice.tags)] ?? []).filter(report =>
+        reportMatchesFilters(report, filters),
+      ),
+    };
+  });
+}
+
+/**
+ * Builds the table of an export, one row per report or per value of `aggregatedBy`, followed by a total row.
+ * The columns are the dimensions of the reports, the currency, the periods and the total.
+ */
+export function reportsToExportTable(reports: Report[], periods: string[], aggregatedBy?: string): ExportTable {
+  const excludedKeys = ['id', 'reports', 'forecast', 'forecastLow', 'forecastHigh', 'providerType', 'currency'];
+  let dimensions: string[];
+  if (aggregatedBy && aggregatedBy !== 'none') {
+    dimensions = [aggregatedBy];
+  } else {
+    const genericDimensions = ['provider', 'account', 'service', 'category'];
+    const otherDimensions = new Set<string>();
+    reports.forEach(report => {
+      Object.keys(report).forEach(key => {
+        if (!excludedKeys.includes(key) && !genericDimensions.includes(key)) {
+          otherDimensions.add(key);
+        }
+      });
+    });
+    dimensions = [...genericDimensions, ...Array.from(otherDimensions).sort()];
+  }
+
+  // reports with the same dimension values and currency are merged into one row
+  const rowsByKey = new Map<string, { values: string[]; currency: string; costs: number[] }>();
+  reports.forEach(report => {
+    const values = dimensions.map(dimension => {
+      const value = report[dimension];
+      return typeof value === 'string' ? value : '';
+    });
+    const currency = report.currency ?? '';
+    const key = JSON.stringify([...values, currency]);
+    if (!rowsByKey.has(key)) {
+      rowsByKey.set(key, { values: values, currency: currency, costs: periods.map(() => 0) });
+    }
+    const costs = rowsByKey.get(key)?.costs ?? [];
+    periods.forEach((period, i) => {
+      costs[i] += report.reports[period] ?? 0;
+    });
+  });
+
+  const rows: (string | number)[][] = [];
+  const totals = periods.map(() => 0);
+  const currencies = new Set<string>();
+  rowsByKey.forEach(row => {
+    const costs = row.costs.map(cost => parseCost(cost));
+    costs.forEach((cost, i) => {
+      totals[i] += cost;
+    });
+    currencies.add(row.currency);
+    rows.push([...row.values, row.currency, ...costs, parseCost(costs.reduce((a, b) => a + b, 0))]);
+  });
+
+  // the total only makes sense when all the costs are in the same currency
+  if (rows.length > 0 && currencies.size === 1) {
+    const roundedTotals = totals.map(total => parseCost(total));
+    rows.push([
+      'Total',
+      ...dimensions.slice(1).map(() => ''),
+      Array.from(currencies)[0],
+      ...roundedTotals,
+      parseCost(roundedTotals.reduce((a, b) => a + b, 0)),
+    ]);
+  }
+
+  return { columns: [...dimensions, 'currency', ...periods, 'total'], rows: rows };
+}
+
+function escapePrometheusLabelValue(value: string): string {
+  return value.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n');
+}
+
+/**
+ * Formats the gauges in the Prometheus text exposition format.
+ * The labels of a sample are sorted by name so that the series stay the same between two scrapes.
+ */
+export function formatPrometheusGauges(gauges: PrometheusGauge[]): string {
+  const lines: string[] = [];
+  gauges.forEach(gauge => {
+    lines.push(`# HELP ${gauge.name} ${gauge.help}`);
+    lines.push(`# TYPE ${gauge.name} gauge`);
+    gauge.samples.forEach(sample => {
+      const labels = Object.keys(sample.labels)
+        .sort()
+        .map(name => `${name}="${escapePrometheusLabelValue(sample.labels[name])}"`)
+        .join(',');
+      lines.push(`${gauge.name}${labels.length > 0 ? `{${labels}}` : ''} ${sample.value}`);
+    });
+  });
+
+  return `${lines.join('\n')}\n`;
+}
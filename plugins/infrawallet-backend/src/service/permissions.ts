@@ -0,0 +1,61 @@
+import {
+  createConditionExports,
+  createPermissionResourceRef,
+  createPermissionRule,
+} from '@backstage/plugin-permission-node';
+import { RESOURCE_TYPE_INFRAWALLET_WALLET } from '@electrolux-oss/plugin-infrawallet-common';
+import { z } from 'zod';
+import { Wallet } from './types';
+
+export type WalletQuery = {
+  property: 'name';
+  values: string[];
+};
+
+/**
+ * Reference of the InfraWallet wallet resource used by the permission framework.
+ *
+ * @public
+ */
+export const walletPermissionResourceRef = createPermissionResourceRef<Wallet, WalletQuery>().with({
+  pluginId: 'infrawallet',
+  resourceType: RESOURCE_TYPE_INFRAWALLET_WALLET,
+});
+
+const isWalletName = createPermissionRule({
+  name: 'IS_WALLET_NAME',
+  description: 'Allow the wallets with one of the given names',
+  resourceRef: walletPermissionResourceRef,
+  paramsSchema: z.object({
+    names: z.array(z.string()).describe('Names of the wallets'),
+  }),
+  apply: (wallet: Wallet, { names }) => names.includes(wallet.name),
+  toQuery: ({ names }) => ({ property: 'name', values: names }),
+});
+
+/**
+ * Permission rules of the InfraWallet wallets.
+ *
+ * @public
+ */
+export const walletPermissionRules = { isWalletName };
+
+const { conditions, createConditionalDecision } = createConditionExports({
+  pluginId: 'infrawallet',
+  resourceType: RESOURCE_TYPE_INFRAWALLET_WALLET,
+  rules: walletPermissionRules,
+});
+
+/**
+ * Conditions of the InfraWallet wallets, to be used in a permission policy.
+ *
+ * @public
+ */
+export const infraWalletWalletConditions = conditions;
+
+/**
+ * Create a conditional decision on the InfraWallet wallets, to be used in a permission policy.
+ *
+ * @public
+ */
+export const createInfraWalletWalletConditionalDecision = createConditionalDecision;
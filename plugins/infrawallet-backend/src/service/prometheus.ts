@@ -0,0 +1,130 @@
+import { DatabaseService, LoggerService } from '@backstage/backend-plugin-api';
+import { format } from 'date-fns';
+import { getAllBudgets } from '../models/Budget';
+import { CostItem, getCostItems, getWalletCostItems } from '../models/CostItem';
+import { GRANULARITY } from './consts';
+import { CurrencyConversionService } from './CurrencyConversionService';
+import { getBudgetHealthStatus, parseCost, usageDateToPeriodString } from './functions';
+import { CloudProviderError, PrometheusGauge, Report, Wallet } from './types';
+
+export type PrometheusGaugeOptions = {
+  logger: LoggerService;
+  database: DatabaseService;
+};
+
+// cost items are stored in the currency reported by the provider, they are converted into the wallet currency
+async function costItemsToWalletCurrency(
+  logger: LoggerService,
+  costItems: CostItem[],
+  walletCurrency: string,
+): Promise<Report[]> {
+  const reports: Report[] = costItems.map(item => {
+    const otherColumns = typeof item.other_columns === 'string' ? JSON.parse(item.other_columns) : item.other_columns;
+    return {
+      id: item.key,
+      account: item.account,
+      service: item.service,
+      category: item.category,
+      provider: item.provider,
+      currency: otherColumns?.currency,
+      reports: { [usageDateToPeriodString(item.usage_date)]: parseFloat(item.cost as string) },
+    };
+  });
+  const { reports: convertedReports, errors } = await CurrencyConversionService.getInstance().convertReports(
+    reports,
+    walletCurrency,
+  );
+  errors.forEach((e: CloudProviderError) => logger.warn(e.error));
+
+  return convertedReports;
+}
+
+function sumReports(reports: Report[]): number {
+  return reports.reduce((sum, report) => sum + Object.values(report.reports).reduce((a, b) => a + b, 0), 0);
+}
+
+/**
+ * Builds the gauges of the Prometheus endpoint from the cost items saved by the autoload task.
+ * The month-to-date costs are read from the monthly cost items, the budgets are annual like on the Budgets page.
+ */
+export async function getPrometheusGauges(
+  options: PrometheusGaugeOptions,
+  wallets: Wallet[],
+): Promise<PrometheusGauge[]> {
+  const { logger, database } = options;
+
+  const now = new Date();
+  const currentMonth = parseInt(format(now, 'yyyyMM'), 10);
+  const startOfYear = parseInt(`${format(now, 'yyyy')}01`, 10);
+
+  const costGauge: PrometheusGauge = {
+    name: 'infrawallet_cost_month_to_date',
+    help: 'Cost of the current month to date in the wallet currency',
+    samples: [],
+  };
+  for (const wallet of wallets) {
+    const costItems = await getWalletCostItems(database, wallet.id, GRANULARITY.MONTHLY, currentMonth, currentMonth);
+    const reports = await costItemsToWalletCurrency(logger, costItems, wallet.currency);
+
+    // the cost items of a service are saved under several keys when they have different values in other columns
+    const costs = new Map<string, { labels: Record<string, string>; value: number }>();
+    reports.forEach(report => {
+      const labels = {
+        wallet: wallet.name,
+        provider: report.provider,
+        account: report.account,
+        category: report.category,
+        service: report.service,
+        currency: (report.currency ?? wallet.currency).toUpperCase(),
+      };
+      const key = JSON.stringify(labels);
+      const sample = costs.get(key) ?? { labels: labels, value: 0 };
+      sample.value += sumReports([report]);
+      costs.set(key, sample);
+    });
+    costs.forEach(sample => costGauge.samples.push({ labels: sample.labels, value: parseCost(sample.value) }));
+  }
+
+  const budgetAmountGauge: PrometheusGauge = {
+    name: 'infrawallet_budget_amount',
+    help: 'Annual budget amount in the wallet currency',
+    samples: [],
+  };
+  const budgetSpentGauge: PrometheusGauge = {
+    name: 'infrawallet_budget_spent_year_to_date',
+    help: 'Cost of the current year to date counted against the budget, in the wallet currency',
+    samples: [],
+  };
+  const budgetUtilizationGauge: PrometheusGauge = {
+    name: 'infrawallet_budget_utilization_ratio',
+    help: 'Cost of the current year to date divided by the annual budget amount',
+    samples: [],
+  };
+  const walletNames = new Set(wallets.map(wallet => wallet.name));
+  const budgets = (await getAllBudgets(database)).filter(budget => walletNames.has(budget.wallet_name));
+  for (const budget of budgets) {
+    const budgetAmount = Number(budget.amount);
+    const costItems = await getCostItems(
+      database,
+      budget.wallet_id as string,
+      budget.provider,
+      GRANULARITY.MONTHLY,
+      startOfYear,
+      currentMonth,
+    );
+    const yearToDateSpent = sumReports(await costItemsToWalletCurrency(logger, costItems, budget.wallet_currency));
+    const { utilizationPercent } = getBudgetHealthStatus(yearToDateSpent, budgetAmount, now);
+
+    const labels = {
+      wallet: budget.wallet_name,
+      provider: budget.provider,
+      budget: budget.name,
+      currency: budget.wallet_currency.toUpperCase(),
+    };
+    budgetAmountGauge.samples.push({ labels: labels, value: budgetAmount });
+    budgetSpentGauge.samples.push({ labels: labels, value: parseCost(yearToDateSpent) });
+    budgetUtilizationGauge.samples.push({ labels: labels, value: utilizationPercent / 100 });
+  }
+
+  return [costGauge, budgetAmountGauge, budgetSpentGauge, budgetUtilizationGauge];
+}
@@ -0,0 +1,346 @@
+import { CacheService, DatabaseService, LoggerService } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import { InfraWalletClient } from '../cost-clients/InfraWalletClient';
+import {
+  InfrawalletCostClientFactory,
+  InfrawalletFilterExtension,
+  InfrawalletMetricProviderFactory,
+} from '../extension';
+import { MetricProvider } from '../metric-providers/MetricProvider';
+import { getAllocationRules } from '../models/AllocationRule';
+import { CategoryMappingService } from './CategoryMappingService';
+import { GRANULARITY } from './consts';
+import { CurrencyConversionService } from './CurrencyConversionService';
+import { addCostForecasts, isCostForecastEnabled } from './forecast';
+import {
+  applyAllocationRules,
+  getEntityCostsFromCache,
+  parseFilters,
+  parseTags,
+  reportMatchesFilters,
+  selectEntityReports,
+  setEntityCostsToCache,
+  tagsToString,
+} from './functions';
+import {
+  CloudProviderError,
+  CostSlice,
+  EntityCost,
+  EntityCostQuery,
+  Metric,
+  MetricQuery,
+  Report,
+  ReportParameters,
+  Tag,
+  Wallet,
+} from './types';
+
+export function parseGranularity(granularityString: string): GRANULARITY {
+  return Object.values(GRANULARITY).includes(granularityString as GRANULARITY)
+    ? (granularityString as GRANULARITY)
+    : GRANULARITY.MONTHLY;
+}
+
+export async function getMetrics(
+  query: MetricQuery,
+  metricProviders: Record<string, InfrawalletMetricProviderFactory>,
+  config: Config,
+  database: DatabaseService,
+  cache: CacheService,
+  logger: LoggerService,
+): Promise<{ metrics: Metric[]; errors: CloudProviderError[] }> {
+  const promises: Promise<void>[] = [];
+  const results: Metric[] = [];
+  const errors: CloudProviderError[] = [];
+
+  const conf = config.getOptionalConfig('backend.infraWallet.metricProviders');
+  (conf?.keys() ?? []).forEach((provider: string) => {
+    if (provider in metricProviders) {
+      const client: MetricProvider = metricProviders[provider].create(config, database, cache, logger);
+      const fetchMetrics = (async () => {
+        try {
+          const metricResponse = await client.getMetrics(query);
+          metricResponse.errors.forEach((e: CloudProviderError) => {
+            errors.push(e);
+          });
+          metricResponse.metrics.forEach((metric: Metric) => {
+            results.push(metric);
+          });
+        } catch (e) {
+          logger.error(`${e}`);
+          errors.push({
+            provider: client.constructor.name,
+            name: client.constructor.name,
+            error: (e as Error).message,
+          });
+        }
+      })();
+      promises.push(fetchMetrics);
+    }
+  });
+
+  await Promise.all(promises);
+
+  return { metrics: results, errors: errors };
+}
+
+export async function getReports(
+  queryParameters: ReportParameters,
+  wallet: Wallet,
+  costClients: Record<string, InfrawalletCostClientFactory>,
+  metricProviders: Record<string, InfrawalletMetricProviderFactory>,
+  config: Config,
+  database: DatabaseService,
+  cache: CacheService,
+  logger: LoggerService,
+): Promise<{ reports: Report[]; clientErrors: CloudProviderError[] }> {
+  const { filters, tags, groups, granularityString, startTime, endTime, costMetric } = queryParameters;
+  const promises: Promise<void>[] = [];
+  const results: Report[] = [];
+  const errors: CloudProviderError[] = [];
+
+  const granularity = parseGranularity(granularityString);
+
+  // group tags by providers
+  const providerTags: Record<string, Tag[]> = {};
+  for (const tag of tags) {
+    const provider = tag.provider.toLowerCase();
+    if (!providerTags[provider]) {
+      providerTags[provider] = [];
+    }
+
+    providerTags[provider].push(tag);
+  }
+
+  const categoryMappingService = CategoryMappingService.getInstance();
+  await categoryMappingService.refreshCategoryMappings();
+
+  const conf = config.getConfig('backend.infraWallet.integrations');
+  conf
+    .keys()
+    .concat(['custom'])
+    .forEach((provider: string) => {
+      if (provider in costClients) {
+        const client: InfraWalletClient = costClients[provider].create(config, database, cache, logger);
+        const fetchCloudCosts = (async () => {
+          try {
+            const clientResponse = await client.getCostReports(
+              {
+                filters: filters,
+                tags: tagsToString(providerTags[provider.toLowerCase()]),
+                groups: groups,
+                granularity: granularity,
+                startTime: startTime,
+                endTime: endTime,
+                costMetric: costMetric,
+              },
+              wallet.name,
+            );
+            clientResponse.errors.forEach((e: CloudProviderError) => {
+              errors.push(e);
+            });
+            clientResponse.reports.forEach((cost: Report) => {
+              results.push(cost);
+            });
+          } catch (e) {
+            logger.error(`${e}`);
+            errors.push({
+              provider: client.constructor.name,
+              name: client.constructor.name,
+              error: (e as Error).message,
+            });
+          }
+        })();
+        promises.push(fetchCloudCosts);
+      }
+    });
+
+  await Promise.all(promises);
+
+  // the forecasts are made in the currencies of the saved costs, before the conversion
+  if (granularity === GRANULARITY.MONTHLY && isCostForecastEnabled(config)) {
+    try {
+      await addCostForecasts({ logger, config, database }, wallet, results);
+    } catch (e) {
+      logger.error(`Failed to forecast the costs of wallet ${wallet.name}: ${(e as Error).message}`);
+    }
+  }
+
+  // convert the costs from the currencies reported by the providers into the wallet currency
+  const currencyConversionService = CurrencyConversionService.getInstance();
+  const { reports: convertedResults, errors: conversionErrors } = await currencyConversionService.convertReports(
+    results,
+    wallet.currency,
+  );
+  conversionErrors.forEach((e: CloudProviderError) => {
+    errors.push(e);
+  });
+
+  // the shared costs are allocated in the wallet currency and before the filters,
+  // so that the weights of the targets are not limited to the filtered costs
+  let allocatedResults = convertedResults;
+  try {
+    const rules = await getAllocationRules(database, wallet.id);
+    let metrics: Metric[] = [];
+    if (rules.some(rule => rule.method === 'proportional_metric')) {
+      const metricResponse = await getMetrics(
+        { walletName: wallet.name, granularity: granularity, startTime: startTime, endTime: endTime },
+        metricProviders,
+        config,
+        database,
+        cache,
+        logger,
+      );
+      metricResponse.errors.forEach((e: CloudProviderError) => {
+        errors.push(e);
+      });
+      metrics = metricResponse.metrics;
+    }
+    allocatedResults = applyAllocationRules(convertedResults, rules, metrics);
+  } catch (e) {
+    logger.error(`Failed to allocate the shared costs of wallet ${wallet.name}: ${(e as Error).message}`);
+    errors.push({ provider: 'Allocation', name: 'Allocation', error: (e as Error).message });
+  }
+
+  const parsedFilters = parseFilters(filters);
+  const filteredResults = allocatedResults.filter(report => reportMatchesFilters(report, parsedFilters));
+
+  return { reports: filteredResults, clientErrors: errors };
+}
+
+/**
+ * Fetches the reports of the cost slices of catalog entities, the slices with the same tags share one query.
+ * The reports are keyed by the tags of the slices, see tagsToString, and the errors of the queries are deduplicated.
+ */
+export async function getReportsOfCostSlices(
+  query: EntityCostQuery,
+  slices: CostSlice[],
+  wallet: Wallet,
+  costClients: Record<string, InfrawalletCostClientFactory>,
+  metricProviders: Record<string, InfrawalletMetricProviderFactory>,
+  config: Config,
+  database: DatabaseService,
+  cache: CacheService,
+  logger: LoggerService,
+): Promise<{ reportsByTags: Record<string, Report[]>; errors: CloudProviderError[] }> {
+  const tagSets = new Set(slices.map(slice => tagsToString(slice.tags)));
+  const reportsByTags: Record<string, Report[]> = {};
+  const errors: CloudProviderError[] = [];
+  for (const tags of tagSets) {
+    const { reports, clientErrors } = await getReports(
+      {
+        filters: '()',
+        tags: parseTags(tags),
+        groups: '',
+        granularityString: query.granularity,
+        startTime: query.startTime,
+        endTime: query.endTime,
+        costMetric: query.costMetric,
+      },
+      wallet,
+      costClients,
+      metricProviders,
+      config,
+      database,
+      cache,
+      logger,
+    );
+    reportsByTags[tags] = reports;
+    clientErrors
+      .filter(e => !errors.some(error => error.name === e.name && error.error === e.error))
+      .forEach(e => errors.push(e));
+  }
+  return { reportsByTags, errors };
+}
+
+/**
+ * Passes the slices of the entities through the report filters of the extension point, like the reports
+ * requested by the entity card with an entity name.
+ */
+export async function augmentCostSlices(
+  query: EntityCostQuery,
+  entities: { entityRef: string; slice: CostSlice }[],
+  additionalFilters: InfrawalletFilterExtension[],
+): Promise<{ entityRef: string; slice: CostSlice }[]> {
+  if (additionalFilters.length === 0) {
+    return entities;
+  }
+
+  const augmentedEntities: { entityRef: string; slice: CostSlice }[] = [];
+  for (const entity of entities) {
+    // the entity refs are stringified as kind:namespace/name
+    const [entityNamespace, entityName] = entity.entityRef.slice(entity.entityRef.indexOf(':') + 1).split('/');
+    let parameters: ReportParameters = {
+      filters: entity.slice.filters,
+      tags: entity.slice.tags,
+      groups: '',
+      granularityString: query.granularity,
+      startTime: query.startTime,
+      endTime: query.endTime,
+      costMetric: query.costMetric,
+      entityNamespace,
+      entityName,
+    };
+    for (const filter of additionalFilters) {
+      parameters = await filter.augmentFilters(parameters);
+    }
+    augmentedEntities.push({
+      entityRef: entity.entityRef,
+      slice: { filters: parameters.filters, tags: parameters.tags },
+    });
+  }
+  return augmentedEntities;
+}
+
+/**
+ * Gets the reports of each entity, from the cache refreshed by the entity costs task when possible.
+ * The costs of the other entities are fetched together, then cached for the next requests.
+ */
+export async function getEntityCosts(
+  query: EntityCostQuery,
+  entities: { entityRef: string; slice: CostSlice }[],
+  additionalFilters: InfrawalletFilterExtension[],
+  wallet: Wallet,
+  costClients: Record<string, InfrawalletCostClientFactory>,
+  metricProviders: Record<string, InfrawalletMetricProviderFactory>,
+  config: Config,
+  database: DatabaseService,
+  cache: CacheService,
+  logger: LoggerService,
+): Promise<{ entityCosts: EntityCost[]; errors: CloudProviderError[] }> {
+  const entityCosts: EntityCost[] = [];
+  const missedEntities: { entityRef: string; slice: CostSlice }[] = [];
+  for (const entity of entities) {
+    const cachedCost = await getEntityCostsFromCache(cache, wallet.name, entity.entityRef, query);
+    if (cachedCost) {
+      entityCosts.push(cachedCost);
+    } else {
+      missedEntities.push(entity);
+    }
+  }
+  if (missedEntities.length === 0) {
+    return { entityCosts, errors: [] };
+  }
+
+  const augmentedEntities = await augmentCostSlices(query, missedEntities, additionalFilters);
+  const { reportsByTags, errors } = await getReportsOfCostSlices(
+    query,
+    augmentedEntities.map(entity => entity.slice),
+    wallet,
+    costClients,
+    metricProviders,
+    config,
+    database,
+    cache,
+    logger,
+  );
+  const fetchedCosts = selectEntityReports(augmentedEntities, reportsByTags, wallet.currency);
+  // incomplete costs are not cached, the next request fetches them again
+  if (errors.length === 0) {
+    for (const entityCost of fetchedCosts) {
+      await setEntityCostsToCache(cache, entityCost, wallet.name, query);
+    }
+  }
+
+  return { entityCosts: [...entityCosts, ...fetchedCosts], errors };
+}
@@ -1,30 +1,94 @@
 import { MiddlewareFactory } from '@backstage/backend-defaults/rootHttpRouter';
-import { CacheService, DatabaseService, LoggerService, resolvePackagePath } from '@backstage/backend-plugin-api';
-import { Config } from '@backstage/config';
+import { DatabaseService, resolvePackagePath } from '@backstage/backend-plugin-api';
+import {
+  AuthorizePermissionRequest,
+  AuthorizeResult,
+  isResourcePermission,
+  Permission,
+} from '@backstage/plugin-permission-common';
+import {
+  infraWalletAllocationRulesUpdatePermission,
+  infraWalletAuditReadPermission,
+  infraWalletBudgetsUpdatePermission,
+  infraWalletCostsBackfillPermission,
+  infraWalletCostsDeletePermission,
+  infraWalletCostsFetchPermission,
+  infraWalletCurrencyRatesReadPermission,
+  infraWalletCurrencyRatesUpdatePermission,
+  infraWalletCustomCostsReadPermission,
+  infraWalletCustomCostsUpdatePermission,
+  infraWalletMetricsUpdatePermission,
+  infraWalletPrometheusMetricsReadPermission,
+  infraWalletWalletCreatePermission,
+  infraWalletWalletDeletePermission,
+  infraWalletWalletReadPermission,
+  infraWalletWalletUpdatePermission,
+} from '@electrolux-oss/plugin-infrawallet-common';
 import express from 'express';
 import Router from 'express-promise-router';
+import moment from 'moment';
 import {
   deleteWalletMetricSetting,
-  getWallet,
   getWalletMetricSettings,
   updateOrInsertWalletMetricSetting,
 } from '../controllers/MetricSettingController';
+import { createWallet, deleteWallet, getWallet, getWallets, updateWallet } from '../controllers/WalletController';
 import { InfraWalletClient } from '../cost-clients/InfraWalletClient';
-import { MetricProvider } from '../metric-providers/MetricProvider';
+import { deleteAllocationRule, getAllocationRules, updateOrInsertAllocationRule } from '../models/AllocationRule';
+import { AuditEvent, getAuditEvents, insertAuditEvent } from '../models/AuditEvent';
+import { createBackfillJob, failRunningBackfillJobs, getBackfillJobs } from '../models/BackfillJob';
 import { Budget, getBudget, getBudgets, upsertBudget } from '../models/Budget';
+import { getCostAnomalies } from '../models/CostAnomaly';
 import { deleteCostItems } from '../models/CostItem';
+import { getCurrencyRates, upsertCurrencyRates } from '../models/CurrencyRate';
 import {
   CustomCost,
   createCustomCosts,
   deleteCustomCost,
+  getCustomCost,
   getCustomCosts,
   updateOrInsertCustomCost,
 } from '../models/CustomCost';
+import { getIngestionRuns, getIngestionStatuses } from '../models/IngestionRun';
+import { backfillCosts } from '../tasks/backfillCosts';
 import { fetchAndSaveCosts } from '../tasks/fetchAndSaveCosts';
 import { CategoryMappingService } from './CategoryMappingService';
-import { COST_CLIENT_MAPPINGS, GRANULARITY, METRIC_PROVIDER_MAPPINGS } from './consts';
-import { parseFilters, parseTags, tagsToString } from './functions';
-import { CloudProviderError, Metric, MetricSetting, Report, ReportParameters, RouterOptions, Tag } from './types';
+import { getEntityCostSlices, getRollupEntities, getTeamOwnerships } from './catalog';
+import { CurrencyConversionService } from './CurrencyConversionService';
+import { sendExportTable } from './export';
+import { getPrometheusGauges } from './prometheus';
+import { getEntityCosts, getMetrics, getReports, getReportsOfCostSlices, parseGranularity } from './reports';
+import {
+  COST_CLIENT_MAPPINGS,
+  DEFAULT_CURRENCY,
+  DEFAULT_WALLET_NAME,
+  GRANULARITY,
+  METRIC_PROVIDER_MAPPINGS,
+} from './consts';
+import {
+  aggregateTeamCosts,
+  formatPrometheusGauges,
+  getPeriodStrings,
+  parseCost,
+  parseTags,
+  reportsToExportTable,
+  rollupEntityCosts,
+  usageDateToPeriodString,
+  validateAllocationRule,
+} from './functions';
+import {
+  AllocationRule,
+  AnomalyDetectionMethod,
+  CloudProviderError,
+  CostAnomaly,
+  EntityCostQuery,
+  ExportFormat,
+  MetricSetting,
+  ReportParameters,
+  RouterOptions,
+  Tag,
+  Wallet,
+} from './types';
 
 async function setUpDatabase(database: DatabaseService) {
   // check database migrations
@@ -41,97 +105,40 @@ async function setUpDatabase(database: DatabaseService) {
   await client.seed.run({ directory: seedsDir });
 }
 
-async function getReports(
-  queryParameters: ReportParameters,
-  config: Config,
-  database: DatabaseService,
-  cache: CacheService,
-  logger: LoggerService,
-): Promise<{ reports: Report[]; clientErrors: CloudProviderError[] }> {
-  const { filters, tags, groups, granularityString, startTime, endTime } = queryParameters;
-  const promises: Promise<void>[] = [];
-  const results: Report[] = [];
-  const errors: CloudProviderError[] = [];
-
-  const granularity: GRANULARITY = Object.values(GRANULARITY).includes(granularityString as GRANULARITY)
-    ? (granularityString as GRANULARITY)
-    : GRANULARITY.MONTHLY;
-
-  // group tags by providers
-  const providerTags: Record<string, Tag[]> = {};
-  for (const tag of tags) {
-    const provider = tag.provider.toLowerCase();
-    if (!providerTags[provider]) {
-      providerTags[provider] = [];
-    }
-
-    providerTags[provider].push(tag);
-  }
-
-  const categoryMappingService = CategoryMappingService.getInstance();
-  await categoryMappingService.refreshCategoryMappings();
-
-  const conf = config.getConfig('backend.infraWallet.integrations');
-  conf
-    .keys()
-    .concat(['custom'])
-    .forEach((provider: string) => {
-      if (provider in COST_CLIENT_MAPPINGS) {
-        const client: InfraWalletClient = COST_CLIENT_MAPPINGS[provider].create(config, database, cache, logger);
-        const fetchCloudCosts = (async () => {
-          try {
-            const clientResponse = await client.getCostReports({
-              filters: filters,
-              tags: tagsToString(providerTags[provider.toLowerCase()]),
-              groups: groups,
-              granularity: granularity,
-              startTime: startTime,
-              endTime: endTime,
-            });
-            clientResponse.errors.forEach((e: CloudProviderError) => {
-              errors.push(e);
-            });
-            clientResponse.reports.forEach((cost: Report) => {
-              results.push(cost);
-            });
-          } catch (e) {
-            logger.error(`${e}`);
-            errors.push({
-              provider: client.constructor.name,
-              name: client.constructor.name,
-              error: (e as Error).message,
-            });
-          }
-        })();
-        promises.push(fetchCloudCosts);
-      }
-    });
-
-  await Promise.all(promises);
-
-  const parsedFilters = parseFilters(filters);
-
-  const filteredResults = results.filter(report => {
-    return Object.entries(parsedFilters).every(([key, values]) => {
-      const reportValue = report[key];
-      if (typeof reportValue !== 'string') {
-        return false;
-      }
-      return values.includes(reportValue);
-    });
-  });
-
-  return { reports: filteredResults, clientErrors: errors };
-}
-
 export async function createRouter(options: RouterOptions): Promise<express.Router> {
-  const { logger, config, scheduler, cache, database, additionalFilters } = options;
+  const {
+    logger,
+    config,
+    scheduler,
+    cache,
+    database,
+    permissions,
+    httpAuth,
+    catalog,
+    additionalFilters,
+    additionalCostClients,
+    additionalMetricProviders,
+  } = options;
+  const costClients = { ...COST_CLIENT_MAPPINGS, ...additionalCostClients };
+  const metricProviders = { ...METRIC_PROVIDER_MAPPINGS, ...additionalMetricProviders };
   // do database migrations here to support the legacy backend system
   await setUpDatabase(database);
 
+  // the backfill jobs run in the background of the backend, the ones still running were stopped by a restart
+  const interruptedJobs = await failRunningBackfillJobs(
+    database,
+    'The backend restarted while the backfill was running',
+  );
+  if (interruptedJobs > 0) {
+    logger.warn(`${interruptedJobs} backfill jobs interrupted by a restart have been marked as failed`);
+  }
+
   // init CategoryMappingService
   CategoryMappingService.initInstance(cache, logger, config);
 
+  // init CurrencyConversionService
+  CurrencyConversionService.initInstance(database, logger, config);
+
   const router = Router();
   router.use(express.json());
 
@@ -140,8 +147,48 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
     response.json({ status: 'ok' });
   });
 
+  // respond 403 if the user of the request is not allowed, the resource ref of the wallet permissions is the wallet name
+  const isAllowed = async (
+    request: express.Request,
+    response: express.Response,
+    permission: Permission,
+    walletName?: string,
+  ): Promise<boolean> => {
+    const credentials = await httpAuth.credentials(request);
+    const authorizeRequest: AuthorizePermissionRequest = isResourcePermission(permission)
+      ? { permission: permission, resourceRef: walletName ?? DEFAULT_WALLET_NAME }
+      : { permission: permission };
+    const [decision] = await permissions.authorize([authorizeRequest], { credentials });
+    if (decision.result !== AuthorizeResult.ALLOW) {
+      response.status(403).json({ error: 'Permission denied', status: 403 });
+      return false;
+    }
+    return true;
+  };
+
+  // the user entity ref or the subject of the service of the request
+  const getActor = async (request: express.Request): Promise<string> => {
+    const credentials = await httpAuth.credentials(request, { allow: ['user', 'service'] });
+    return credentials.principal.type === 'user' ? credentials.principal.userEntityRef : credentials.principal.subject;
+  };
+
+  // record a change made through the API, the actor is the user or the service of the request
+  const audit = async (request: express.Request, event: Omit<AuditEvent, 'actor'>) => {
+    try {
+      await insertAuditEvent(database, { ...event, actor: await getActor(request) });
+    } catch (e) {
+      logger.error(`Failed to record the audit event of ${event.action} ${event.entity_type}: ${(e as Error).message}`);
+    }
+  };
+
   // Endpoint to trigger the fetchAndSaveCosts task manually
-  router.get('/fetch_and_save_costs', async (_, response) => {
+  router.get('/fetch_and_save_costs', async (request, response) => {
+    if (!(await isAllowed(request, response, infraWalletCostsFetchPermission))) {
+      return;
+    }
+
+    await audit(request, { action: 'fetch', entity_type: 'cost_items' });
+
     try {
       // Trigger the scheduled task using the scheduler
       await scheduler.triggerTask('infrawallet-autoload-costs');
@@ -175,10 +222,20 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
     const walletName = request.params.walletName;
     const granularity = request.body.granularity as string;
     const provider = request.body.provider as string;
+    if (!(await isAllowed(request, response, infraWalletCostsDeletePermission, walletName))) {
+      return;
+    }
 
     const wallet = await getWallet(database, walletName);
     if (wallet && granularity && provider) {
       const rowsDeleted = await deleteCostItems(database, wallet.id, provider, granularity);
+      await audit(request, {
+        action: 'delete',
+        entity_type: 'cost_items',
+        entity_id: provider,
+        wallet_name: walletName,
+        before: { provider: provider, granularity: granularity, count: rowsDeleted },
+      });
       response.json({
         message: `Deleted ${rowsDeleted} ${granularity} ${provider} cost records in ${walletName}`,
         status: 'ok',
@@ -188,13 +245,88 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
     }
   });
 
-  router.get('/reports', async (request, response) => {
+  // Re-fetch and replace the saved costs of a provider in a period, the job runs in the background
+  router.post('/:walletName/backfill', async (request, response) => {
+    const walletName = request.params.walletName;
+    if (!(await isAllowed(request, response, infraWalletCostsBackfillPermission, walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const provider = ((request.body.provider as string | undefined) ?? '').toLowerCase();
+    const integration = (request.body.integration as string | undefined) || undefined;
+    const granularity = request.body.granularity as string;
+    const startTime = new Date(Number(request.body.startTime));
+    const endTime = new Date(Number(request.body.endTime));
+    if (!(provider in costClients) || provider === 'mock' || provider === 'custom') {
+      response.status(400).json({ error: `Provider ${provider} cannot be backfilled`, status: 400 });
+      return;
+    }
+    if (granularity !== GRANULARITY.DAILY && granularity !== GRANULARITY.MONTHLY) {
+      response.status(400).json({ error: 'Granularity must be daily or monthly', status: 400 });
+      return;
+    }
+    if (isNaN(startTime.getTime()) || isNaN(endTime.getTime()) || startTime > endTime) {
+      response.status(400).json({ error: 'A valid startTime and endTime are required', status: 400 });
+      return;
+    }
+
+    // the whole days or months of the period are replaced
+    const unit = granularity === GRANULARITY.DAILY ? 'day' : 'month';
+    const job = await createBackfillJob(database, {
+      wallet_id: wallet.id,
+      provider: provider,
+      integration: integration,
+      granularity: granularity,
+      start_time: moment(startTime).startOf(unit).toDate(),
+      end_time: moment(endTime).endOf(unit).toDate(),
+      status: 'running',
+      requested_by: await getActor(request),
+    });
+    await audit(request, {
+      action: 'fetch',
+      entity_type: 'cost_items',
+      entity_id: provider,
+      wallet_name: walletName,
+      after: job,
+    });
+
+    backfillCosts(options, wallet, job).catch(e =>
+      logger.error(`Backfill ${job.id} of ${provider} costs in wallet ${walletName} failed: ${e}`),
+    );
+    response.status(202).json({ data: job, status: 202 });
+  });
+
+  router.get('/:walletName/backfill', async (request, response) => {
+    const walletName = request.params.walletName;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const jobs = await getBackfillJobs(database, wallet.id, 20);
+    response.json({ data: jobs, status: 200 });
+  });
+
+  // parse the query parameters shared by the reports and the export routes
+  const getReportParameters = async (request: express.Request): Promise<ReportParameters> => {
     const filters = request.query.filters as string;
     const tags = parseTags(request.query.tags as string);
     const groups = request.query.groups as string;
     const granularityString = request.query.granularity as string;
     const startTime = request.query.startTime as string;
     const endTime = request.query.endTime as string;
+    const costMetric = (request.query.costMetric as string | undefined) || undefined;
     const [entityNamespace, entityName] = decodeURI(request.query.entityName as string)?.split('/') || [];
 
     let reportFilters: ReportParameters = {
@@ -204,6 +336,7 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
       granularityString,
       startTime,
       endTime,
+      costMetric,
       entityNamespace,
       entityName,
     };
@@ -212,16 +345,243 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
         reportFilters = await filter.augmentFilters(reportFilters);
       }
     }
-    const { reports, clientErrors } = await getReports(reportFilters, config, database, cache, logger);
+    return reportFilters;
+  };
+
+  // reports of the default wallet are also served under /reports for backward compatibility
+  const getReportsHandler = async (request: express.Request, response: express.Response) => {
+    const walletName = request.params.walletName ?? DEFAULT_WALLET_NAME;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const reportFilters = await getReportParameters(request);
+    const { reports, clientErrors } = await getReports(
+      reportFilters,
+      wallet,
+      costClients,
+      metricProviders,
+      config,
+      database,
+      cache,
+      logger,
+    );
 
     if (clientErrors.length > 0) {
       response.status(207).json({ data: reports, errors: clientErrors, status: 207 });
     } else {
       response.json({ data: reports, errors: clientErrors, status: 200 });
     }
+  };
+
+  router.get('/reports', getReportsHandler);
+  router.get('/:walletName/reports', getReportsHandler);
+
+  const exportReportsHandler = async (request: express.Request, response: express.Response) => {
+    const walletName = request.params.walletName ?? DEFAULT_WALLET_NAME;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const format = (request.query.format as string | undefined) ?? 'csv';
+    if (!['csv', 'xlsx'].includes(format)) {
+      response.status(400).json({ error: 'Export format must be csv or xlsx', status: 400 });
+      return;
+    }
+
+    const reportFilters = await getReportParameters(request);
+    const { reports, clientErrors } = await getReports(
+      reportFilters,
+      wallet,
+      costClients,
+      metricProviders,
+      config,
+      database,
+      cache,
+      logger,
+    );
+    // the errors cannot be part of the file, they are logged instead
+    clientErrors.forEach((e: CloudProviderError) => {
+      logger.warn(`Costs of ${e.name} are missing in the export of wallet ${wallet.name}: ${e.error}`);
+    });
+
+    const periods = getPeriodStrings(
+      parseGranularity(reportFilters.granularityString),
+      parseInt(reportFilters.startTime, 10),
+      parseInt(reportFilters.endTime, 10),
+    );
+    const table = reportsToExportTable(reports, periods, request.query.aggregatedBy as string | undefined);
+    const fileName = `infrawallet-${wallet.name}-${periods[0] ?? ''}-${periods[periods.length - 1] ?? ''}`;
+    await sendExportTable(response, table, format as ExportFormat, fileName);
+  };
+
+  router.get('/reports/export', exportReportsHandler);
+  router.get('/:walletName/reports/export', exportReportsHandler);
+
+  // the query of the costs of catalog entities
+  const getEntityCostQuery = (request: express.Request): EntityCostQuery => ({
+    granularity: request.query.granularity as string,
+    startTime: request.query.startTime as string,
+    endTime: request.query.endTime as string,
+    costMetric: (request.query.costMetric as string | undefined) || undefined,
   });
 
-  router.get('/tag-keys', async (request, response) => {
+  // costs per owning group of the catalog entities
+  const getTeamCostsHandler = async (request: express.Request, response: express.Response) => {
+    const walletName = request.params.walletName ?? DEFAULT_WALLET_NAME;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const ownerships = await getTeamOwnerships(catalog, await httpAuth.credentials(request));
+    const { reportsByTags, errors } = await getReportsOfCostSlices(
+      getEntityCostQuery(request),
+      ownerships.flatMap(ownership => ownership.entities.map(entity => entity.slice)),
+      wallet,
+      costClients,
+      metricProviders,
+      config,
+      database,
+      cache,
+      logger,
+    );
+
+    const teamCosts = aggregateTeamCosts(ownerships, reportsByTags, wallet.currency);
+    if (errors.length > 0) {
+      response.status(207).json({ data: teamCosts, errors: errors, status: 207 });
+    } else {
+      response.json({ data: teamCosts, errors: errors, status: 200 });
+    }
+  };
+
+  router.get('/teams/costs', getTeamCostsHandler);
+  router.get('/:walletName/teams/costs', getTeamCostsHandler);
+
+  // costs of a group, system or domain rolled up from the annotated entities under it in the catalog
+  const getEntityCostRollupHandler = async (request: express.Request, response: express.Response) => {
+    const walletName = request.params.walletName ?? DEFAULT_WALLET_NAME;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
+    const entityRef = request.query.entityRef as string | undefined;
+    if (!entityRef) {
+      response.status(400).json({ error: 'entityRef is required', status: 400 });
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const entities = await getRollupEntities(catalog, await httpAuth.credentials(request), entityRef);
+    if (entities === undefined) {
+      response.status(404).json({ error: 'Entity not found', status: 404 });
+      return;
+    }
+
+    const { reportsByTags, errors } = await getReportsOfCostSlices(
+      getEntityCostQuery(request),
+      entities.map(entity => entity.slice),
+      wallet,
+      costClients,
+      metricProviders,
+      config,
+      database,
+      cache,
+      logger,
+    );
+    const rollup = rollupEntityCosts(entityRef, entities, reportsByTags, wallet.currency);
+    if (errors.length > 0) {
+      response.status(207).json({ data: rollup, errors: errors, status: 207 });
+    } else {
+      response.json({ data: rollup, errors: errors, status: 200 });
+    }
+  };
+
+  router.get('/entities/rollup', getEntityCostRollupHandler);
+  router.get('/:walletName/entities/rollup', getEntityCostRollupHandler);
+
+  // costs of a batch of catalog entities, such as the entities listed on a catalog page, the entities with the
+  // same tags share one query and the costs are cached per entity
+  const getEntityCostsHandler = async (request: express.Request, response: express.Response) => {
+    const walletName = request.params.walletName ?? DEFAULT_WALLET_NAME;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
+    const entityRefs = request.body.entityRefs;
+    if (
+      !Array.isArray(entityRefs) ||
+      entityRefs.length === 0 ||
+      !entityRefs.every(entityRef => typeof entityRef === 'string')
+    ) {
+      response.status(400).json({ error: 'entityRefs must be a non-empty list of entity refs', status: 400 });
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    // the entities the user cannot see are left out like the entities without annotations
+    const entities = await getEntityCostSlices(catalog, await httpAuth.credentials(request), entityRefs);
+    const { entityCosts, errors } = await getEntityCosts(
+      {
+        granularity: parseGranularity(request.body.granularity),
+        startTime: String(request.body.startTime),
+        endTime: String(request.body.endTime),
+        costMetric: request.body.costMetric || undefined,
+      },
+      entities,
+      additionalFilters,
+      wallet,
+      costClients,
+      metricProviders,
+      config,
+      database,
+      cache,
+      logger,
+    );
+    if (errors.length > 0) {
+      response.status(207).json({ data: entityCosts, errors: errors, status: 207 });
+    } else {
+      response.json({ data: entityCosts, errors: errors, status: 200 });
+    }
+  };
+
+  router.post('/entities/costs', getEntityCostsHandler);
+  router.post('/:walletName/entities/costs', getEntityCostsHandler);
+
+  // tag keys of the integrations assigned to a wallet, the default wallet if none is given
+  const getTagKeysHandler = async (request: express.Request, response: express.Response) => {
+    const walletName = request.params.walletName ?? DEFAULT_WALLET_NAME;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
     const tags: Tag[] = [];
     const errors: CloudProviderError[] = [];
 
@@ -232,13 +592,14 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
 
     const conf = config.getConfig('backend.infraWallet.integrations');
     conf.keys().forEach((provider: string) => {
-      if (provider.toLowerCase() === tagProvider.toLowerCase() && provider in COST_CLIENT_MAPPINGS) {
-        const client: InfraWalletClient = COST_CLIENT_MAPPINGS[provider].create(config, database, cache, logger);
+      if (provider.toLowerCase() === tagProvider.toLowerCase() && provider in costClients) {
+        const client: InfraWalletClient = costClients[provider].create(config, database, cache, logger);
         const getTagKeys = (async () => {
           try {
             const clientResponse = await client.getTagKeys({
               startTime: startTime,
               endTime: endTime,
+              walletName: walletName,
             });
             clientResponse.errors.forEach((e: CloudProviderError) => {
               errors.push(e);
@@ -266,9 +627,18 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
     } else {
       response.json({ data: tags, errors: errors, status: 200 });
     }
-  });
+  };
+
+  router.get('/tag-keys', getTagKeysHandler);
+  router.get('/:walletName/tag-keys', getTagKeysHandler);
+
+  // tag values of the integrations assigned to a wallet, the default wallet if none is given
+  const getTagValuesHandler = async (request: express.Request, response: express.Response) => {
+    const walletName = request.params.walletName ?? DEFAULT_WALLET_NAME;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
 
-  router.get('/tag-values', async (request, response) => {
     const tags: Tag[] = [];
     const errors: CloudProviderError[] = [];
 
@@ -280,14 +650,15 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
 
     const conf = config.getConfig('backend.infraWallet.integrations');
     conf.keys().forEach((provider: string) => {
-      if (provider in COST_CLIENT_MAPPINGS && provider.toLowerCase() === tagProvider.toLowerCase()) {
-        const client: InfraWalletClient = COST_CLIENT_MAPPINGS[provider].create(config, database, cache, logger);
+      if (provider in costClients && provider.toLowerCase() === tagProvider.toLowerCase()) {
+        const client: InfraWalletClient = costClients[provider].create(config, database, cache, logger);
         const getTagValues = (async () => {
           try {
             const clientResponse = await client.getTagValues(
               {
                 startTime: startTime,
                 endTime: endTime,
+                walletName: walletName,
               },
               tagKey,
             );
@@ -317,11 +688,18 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
     } else {
       response.json({ data: tags, errors: errors, status: 200 });
     }
-  });
+  };
+
+  router.get('/tag-values', getTagValuesHandler);
+  router.get('/:walletName/tag-values', getTagValuesHandler);
 
   router.get('/:walletName/budgets', async (request, response) => {
     const walletName = request.params.walletName;
     const provider = request.query.provider as string;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
     let budgets;
 
     if (provider) {
@@ -334,12 +712,142 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
   });
 
   router.put('/:walletName/budgets', async (request, response) => {
+    const readOnly = config.getOptionalBoolean('infraWallet.settings.readOnly') ?? false;
+
+    if (readOnly) {
+      response.status(403).json({ error: 'API not enabled in read-only mode', status: 403 });
+      return;
+    }
+
     const walletName = request.params.walletName;
-    const result = await upsertBudget(database, walletName, request.body as Budget);
+    if (!(await isAllowed(request, response, infraWalletBudgetsUpdatePermission, walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const budget = request.body as Budget;
+    const before = budget.id ? (await getBudgets(database, walletName)).find(b => b.id === budget.id) : undefined;
+    const result = await upsertBudget(database, walletName, budget);
+    await audit(request, {
+      action: before ? 'update' : 'create',
+      entity_type: 'budget',
+      entity_id: budget.id ?? budget.provider,
+      wallet_name: walletName,
+      before: before,
+      after: budget,
+    });
     response.json({ updated: result, status: 200 });
   });
 
-  router.get('/custom-costs', async (_request, response) => {
+  router.get('/:walletName/anomalies', async (request, response) => {
+    const walletName = request.params.walletName;
+    const startTime = request.query.startTime as string;
+    const endTime = request.query.endTime as string;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const startUsageDate = parseInt(moment(parseInt(startTime, 10)).format('YYYYMMDD'), 10);
+    const endUsageDate = parseInt(moment(parseInt(endTime, 10)).format('YYYYMMDD'), 10);
+    const records = await getCostAnomalies(database, wallet.id, startUsageDate, endUsageDate);
+
+    // anomalies are stored in the currency of the provider, they are converted the same way as the reports
+    const currencyConversionService = CurrencyConversionService.getInstance();
+    const rates: Record<string, number | undefined> = {};
+    const anomalies: CostAnomaly[] = [];
+    const errors: CloudProviderError[] = [];
+    for (const record of records) {
+      const currency = (record.currency ?? DEFAULT_CURRENCY).toUpperCase();
+      if (!(currency in rates)) {
+        rates[currency] = await currencyConversionService.getConversionRate(currency, wallet.currency);
+        if (rates[currency] === undefined) {
+          errors.push({
+            provider: 'CurrencyConversion',
+            name: 'CurrencyConversion',
+            error: `No exchange rate found for ${currency}, some anomalies are not converted into ${wallet.currency}`,
+          });
+        }
+      }
+      const rate = rates[currency];
+
+      anomalies.push({
+        id: record.id as string,
+        provider: record.provider,
+        account: record.account,
+        service: record.service,
+        period: usageDateToPeriodString(record.usage_date),
+        cost: parseCost(parseFloat(record.cost as string) * (rate ?? 1)),
+        expectedCost: parseCost(parseFloat(record.expected_cost as string) * (rate ?? 1)),
+        score: parseFloat(record.score as string),
+        method: record.method as AnomalyDetectionMethod,
+        currency: rate === undefined ? currency : wallet.currency.toUpperCase(),
+      });
+    }
+
+    if (errors.length > 0) {
+      response.status(207).json({ data: anomalies, errors: errors, status: 207 });
+    } else {
+      response.json({ data: anomalies, errors: errors, status: 200 });
+    }
+  });
+
+  // history of the autoload runs of a wallet, one run per integration and granularity
+  router.get('/:walletName/ingestion-runs', async (request, response) => {
+    const walletName = request.params.walletName;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const page = Math.max(parseInt(request.query.page as string, 10) || 0, 0);
+    const pageSize = Math.min(Math.max(parseInt(request.query.pageSize as string, 10) || 20, 1), 100);
+    const { runs, total } = await getIngestionRuns(database, wallet.id, {
+      offset: page * pageSize,
+      limit: pageSize,
+      provider: request.query.provider as string | undefined,
+      status: request.query.status as string | undefined,
+    });
+
+    response.json({ data: runs, total: total, page: page, pageSize: pageSize, status: 200 });
+  });
+
+  router.get('/:walletName/ingestion-status', async (request, response) => {
+    const walletName = request.params.walletName;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const statuses = await getIngestionStatuses(database, wallet.id);
+    response.json({ data: statuses, status: 200 });
+  });
+
+  router.get('/custom-costs', async (request, response) => {
+    if (!(await isAllowed(request, response, infraWalletCustomCostsReadPermission))) {
+      return;
+    }
+
     const customCosts = await getCustomCosts(database);
 
     // make it compatible with the SQLite database
@@ -364,7 +872,12 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
       return;
     }
 
+    if (!(await isAllowed(request, response, infraWalletCustomCostsUpdatePermission))) {
+      return;
+    }
+
     const updatedCustomCost = await createCustomCosts(database, request.body as CustomCost[]);
+    await audit(request, { action: 'create', entity_type: 'custom_cost', after: request.body });
     response.json({ created: updatedCustomCost, status: 200 });
   });
 
@@ -376,7 +889,20 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
       return;
     }
 
-    const updatedCustomCost = await updateOrInsertCustomCost(database, request.body as CustomCost);
+    if (!(await isAllowed(request, response, infraWalletCustomCostsUpdatePermission))) {
+      return;
+    }
+
+    const customCost = request.body as CustomCost;
+    const before = customCost.id ? await getCustomCost(database, customCost.id) : undefined;
+    const updatedCustomCost = await updateOrInsertCustomCost(database, customCost);
+    await audit(request, {
+      action: before ? 'update' : 'create',
+      entity_type: 'custom_cost',
+      entity_id: updatedCustomCost?.id,
+      before: before,
+      after: updatedCustomCost,
+    });
     response.json({ updated: updatedCustomCost, status: 200 });
   });
 
@@ -388,51 +914,79 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
       return;
     }
 
-    const deletedCustomCost = await deleteCustomCost(database, request.body as CustomCost);
+    if (!(await isAllowed(request, response, infraWalletCustomCostsUpdatePermission))) {
+      return;
+    }
+
+    const customCost = request.body as CustomCost;
+    const before = await getCustomCost(database, customCost.id);
+    const deletedCustomCost = await deleteCustomCost(database, customCost);
+    if (deletedCustomCost) {
+      await audit(request, { action: 'delete', entity_type: 'custom_cost', entity_id: customCost.id, before: before });
+    }
     response.json({ deleted: deletedCustomCost, status: 200 });
   });
 
+  router.get('/currency-rates', async (request, response) => {
+    if (!(await isAllowed(request, response, infraWalletCurrencyRatesReadPermission))) {
+      return;
+    }
+
+    const currencyRates = await CurrencyConversionService.getInstance().getCurrencyRates();
+    response.json({ data: currencyRates, status: 200 });
+  });
+
+  router.put('/currency-rates', async (request, response) => {
+    const readOnly = config.getOptionalBoolean('infraWallet.settings.readOnly') ?? false;
+
+    if (readOnly) {
+      response.status(403).json({ error: 'API not enabled in read-only mode', status: 403 });
+      return;
+    }
+
+    if (!(await isAllowed(request, response, infraWalletCurrencyRatesUpdatePermission))) {
+      return;
+    }
+
+    if (CurrencyConversionService.getInstance().isReadOnly()) {
+      response.status(400).json({ error: 'Currency rates are not loaded from the database', status: 400 });
+      return;
+    }
+
+    const rates = (request.body?.rates ?? {}) as Record<string, number>;
+    if (Object.values(rates).some(rate => typeof rate !== 'number' || rate <= 0)) {
+      response.status(400).json({ error: 'Currency rates must be positive numbers', status: 400 });
+      return;
+    }
+
+    const before = await getCurrencyRates(database);
+    const updated = await upsertCurrencyRates(database, rates);
+    await audit(request, {
+      action: 'update',
+      entity_type: 'currency_rates',
+      before: Object.fromEntries(before.map(record => [record.currency, parseFloat(record.rate as string)])),
+      after: rates,
+    });
+    response.json({ updated: updated, status: 200 });
+  });
+
   router.get('/:walletName/metrics', async (request, response) => {
     const walletName = request.params.walletName;
     const granularity = request.query.granularity as string;
     const startTime = request.query.startTime as string;
     const endTime = request.query.endTime as string;
-    const promises: Promise<void>[] = [];
-    const results: Metric[] = [];
-    const errors: CloudProviderError[] = [];
-
-    const conf = config.getConfig('backend.infraWallet.metricProviders');
-    conf.keys().forEach((provider: string) => {
-      if (provider in METRIC_PROVIDER_MAPPINGS) {
-        const client: MetricProvider = METRIC_PROVIDER_MAPPINGS[provider].create(config, database, cache, logger);
-        const fetchMetrics = (async () => {
-          try {
-            const metricResponse = await client.getMetrics({
-              walletName: walletName,
-              granularity: granularity,
-              startTime: startTime,
-              endTime: endTime,
-            });
-            metricResponse.errors.forEach((e: CloudProviderError) => {
-              errors.push(e);
-            });
-            metricResponse.metrics.forEach((metric: Metric) => {
-              results.push(metric);
-            });
-          } catch (e) {
-            logger.error(`${e}`);
-            errors.push({
-              provider: client.constructor.name,
-              name: client.constructor.name,
-              error: (e as Error).message,
-            });
-          }
-        })();
-        promises.push(fetchMetrics);
-      }
-    });
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
 
-    await Promise.all(promises);
+    const { metrics: results, errors } = await getMetrics(
+      { walletName: walletName, granularity: granularity, startTime: startTime, endTime: endTime },
+      metricProviders,
+      config,
+      database,
+      cache,
+      logger,
+    );
 
     if (errors.length > 0) {
       response.status(207).json({ data: results, errors: errors, status: 207 });
@@ -441,8 +995,167 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
     }
   });
 
+  // only the wallets the user is allowed to read are listed
+  router.get('/wallets', async (request, response) => {
+    const wallets = await getWallets(database);
+    const credentials = await httpAuth.credentials(request);
+    const decisions = await permissions.authorize(
+      wallets.map(wallet => ({ permission: infraWalletWalletReadPermission, resourceRef: wallet.name })),
+      { credentials },
+    );
+    const allowedWallets = wallets.filter((_wallet, index) => decisions[index].result === AuthorizeResult.ALLOW);
+    response.json({ data: allowedWallets, status: 200 });
+  });
+
+  router.post('/wallets', async (request, response) => {
+    const readOnly = config.getOptionalBoolean('infraWallet.settings.readOnly') ?? false;
+
+    if (readOnly) {
+      response.status(403).json({ error: 'API not enabled in read-only mode', status: 403 });
+      return;
+    }
+
+    if (!(await isAllowed(request, response, infraWalletWalletCreatePermission))) {
+      return;
+    }
+
+    const wallet = request.body as Wallet;
+    if (!wallet.name || !wallet.currency) {
+      response.status(400).json({ error: 'Wallet name and currency are required', status: 400 });
+      return;
+    }
+
+    if ((await getWallet(database, wallet.name)) !== undefined) {
+      response.status(409).json({ error: 'Wallet already exists', status: 409 });
+      return;
+    }
+
+    const createdWallet = await createWallet(database, wallet);
+    await audit(request, {
+      action: 'create',
+      entity_type: 'wallet',
+      entity_id: wallet.name,
+      wallet_name: wallet.name,
+      after: createdWallet,
+    });
+    response.json({ data: createdWallet, status: 200 });
+  });
+
+  router.put('/wallets/:walletName', async (request, response) => {
+    const readOnly = config.getOptionalBoolean('infraWallet.settings.readOnly') ?? false;
+
+    if (readOnly) {
+      response.status(403).json({ error: 'API not enabled in read-only mode', status: 403 });
+      return;
+    }
+
+    if (!(await isAllowed(request, response, infraWalletWalletUpdatePermission, request.params.walletName))) {
+      return;
+    }
+
+    const wallet = request.body as Wallet;
+    if (!wallet.currency && wallet.description === undefined) {
+      response.status(400).json({ error: 'Nothing to update, currency or description is required', status: 400 });
+      return;
+    }
+
+    const before = await getWallet(database, request.params.walletName);
+    const updated = await updateWallet(database, request.params.walletName, wallet);
+    if (!updated) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    await audit(request, {
+      action: 'update',
+      entity_type: 'wallet',
+      entity_id: request.params.walletName,
+      wallet_name: request.params.walletName,
+      before: before,
+      after: await getWallet(database, request.params.walletName),
+    });
+
+    response.json({ updated: updated, status: 200 });
+  });
+
+  router.delete('/wallets/:walletName', async (request, response) => {
+    const readOnly = config.getOptionalBoolean('infraWallet.settings.readOnly') ?? false;
+
+    if (readOnly) {
+      response.status(403).json({ error: 'API not enabled in read-only mode', status: 403 });
+      return;
+    }
+
+    const walletName = request.params.walletName;
+    if (!(await isAllowed(request, response, infraWalletWalletDeletePermission, walletName))) {
+      return;
+    }
+
+    if (walletName === DEFAULT_WALLET_NAME) {
+      response.status(400).json({ error: 'The default wallet cannot be deleted', status: 400 });
+      return;
+    }
+
+    const before = await getWallet(database, walletName);
+    const deleted = await deleteWallet(database, walletName);
+    if (!deleted) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    await audit(request, {
+      action: 'delete',
+      entity_type: 'wallet',
+      entity_id: walletName,
+      wallet_name: walletName,
+      before: before,
+    });
+
+    response.json({ deleted: deleted, status: 200 });
+  });
+
+  router.get('/audit', async (request, response) => {
+    if (!(await isAllowed(request, response, infraWalletAuditReadPermission))) {
+      return;
+    }
+
+    const page = Math.max(parseInt(request.query.page as string, 10) || 0, 0);
+    const pageSize = Math.min(Math.max(parseInt(request.query.pageSize as string, 10) || 20, 1), 100);
+    const { events, total } = await getAuditEvents(database, {
+      offset: page * pageSize,
+      limit: pageSize,
+      entityType: request.query.entityType as string | undefined,
+      walletName: request.query.walletName as string | undefined,
+    });
+
+    response.json({ data: events, total: total, page: page, pageSize: pageSize, status: 200 });
+  });
+
+  // Prometheus scrape endpoint, only the wallets the caller is allowed to read are exported
+  router.get('/metrics', async (request, response) => {
+    if (!(await isAllowed(request, response, infraWalletPrometheusMetricsReadPermission))) {
+      return;
+    }
+
+    const wallets = await getWallets(database);
+    const credentials = await httpAuth.credentials(request);
+    const decisions = await permissions.authorize(
+      wallets.map(wallet => ({ permission: infraWalletWalletReadPermission, resourceRef: wallet.name })),
+      { credentials },
+    );
+    const allowedWallets = wallets.filter((_wallet, index) => decisions[index].result === AuthorizeResult.ALLOW);
+
+    const gauges = await getPrometheusGauges({ logger, database }, allowedWallets);
+    response.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+    response.send(formatPrometheusGauges(gauges));
+  });
+
   router.get('/:walletName', async (request, response) => {
     const walletName = request.params.walletName;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
     const wallet = await getWallet(database, walletName);
     if (wallet === undefined) {
       response.status(404).json({ error: 'Wallet not found', status: 404 });
@@ -454,6 +1167,10 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
 
   router.get('/:walletName/metrics-setting', async (request, response) => {
     const walletName = request.params.walletName;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
     const metricSettings = await getWalletMetricSettings(database, walletName);
     response.json({ data: metricSettings, status: 200 });
   });
@@ -462,6 +1179,10 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
     const conf = config.getConfig('backend.infraWallet.metricProviders');
     const configNames: { metric_provider: string; config_name: string }[] = [];
     conf.keys().forEach((provider: string) => {
+      // only the configs of the built-in and registered providers can be used by the metric settings
+      if (!(provider in metricProviders)) {
+        return;
+      }
       const configs = conf.getOptionalConfigArray(provider);
       if (configs) {
         configs.forEach(c => {
@@ -481,7 +1202,28 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
       return;
     }
 
-    const updatedMetricSetting = await updateOrInsertWalletMetricSetting(database, request.body as MetricSetting);
+    if (!(await isAllowed(request, response, infraWalletMetricsUpdatePermission, request.params.walletName))) {
+      return;
+    }
+
+    // the metric setting always belongs to the wallet of the path the permission is checked on
+    const wallet = await getWallet(database, request.params.walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const metricSetting = { ...(request.body as MetricSetting), wallet_id: wallet.id };
+    const before = (await getWalletMetricSettings(database, wallet.name)).find(s => s.id === metricSetting.id);
+    const updatedMetricSetting = await updateOrInsertWalletMetricSetting(database, metricSetting);
+    await audit(request, {
+      action: before ? 'update' : 'create',
+      entity_type: 'metric_setting',
+      entity_id: metricSetting.id,
+      wallet_name: wallet.name,
+      before: before,
+      after: metricSetting,
+    });
     response.json({ updated: updatedMetricSetting, status: 200 });
   });
 
@@ -493,10 +1235,126 @@ export async function createRouter(options: RouterOptions): Promise<express.Rout
       return;
     }
 
-    const deletedMetricSetting = await deleteWalletMetricSetting(database, request.body as MetricSetting);
+    if (!(await isAllowed(request, response, infraWalletMetricsUpdatePermission, request.params.walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, request.params.walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const metricSetting = { ...(request.body as MetricSetting), wallet_id: wallet.id };
+    const before = (await getWalletMetricSettings(database, wallet.name)).find(s => s.id === metricSetting.id);
+    const deletedMetricSetting = await deleteWalletMetricSetting(database, metricSetting);
+    if (deletedMetricSetting) {
+      await audit(request, {
+        action: 'delete',
+        entity_type: 'metric_setting',
+        entity_id: metricSetting.id,
+        wallet_name: wallet.name,
+        before: before,
+      });
+    }
     response.json({ deleted: deletedMetricSetting, status: 200 });
   });
 
+  router.get('/:walletName/allocation-rules', async (request, response) => {
+    const walletName = request.params.walletName;
+    if (!(await isAllowed(request, response, infraWalletWalletReadPermission, walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const rules = await getAllocationRules(database, wallet.id);
+    response.json({ data: rules, status: 200 });
+  });
+
+  router.put('/:walletName/allocation-rules', async (request, response) => {
+    const readOnly = config.getOptionalBoolean('infraWallet.settings.readOnly') ?? false;
+
+    if (readOnly) {
+      response.status(403).json({ error: 'API not enabled in read-only mode', status: 403 });
+      return;
+    }
+
+    if (!(await isAllowed(request, response, infraWalletAllocationRulesUpdatePermission, request.params.walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, request.params.walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const rule = { ...(request.body as AllocationRule), wallet_id: wallet.id };
+    const validationError = validateAllocationRule(rule);
+    if (validationError) {
+      response.status(400).json({ error: validationError, status: 400 });
+      return;
+    }
+
+    const rules = await getAllocationRules(database, wallet.id);
+    if (rules.some(r => r.name === rule.name && r.id !== rule.id)) {
+      response.status(409).json({ error: `Allocation rule ${rule.name} already exists`, status: 409 });
+      return;
+    }
+
+    const before = rules.find(r => r.id === rule.id);
+    const updated = await updateOrInsertAllocationRule(database, rule);
+    if (updated) {
+      await audit(request, {
+        action: before ? 'update' : 'create',
+        entity_type: 'allocation_rule',
+        entity_id: rule.id,
+        wallet_name: wallet.name,
+        before: before,
+        after: rule,
+      });
+    }
+    response.json({ updated: updated, status: 200 });
+  });
+
+  router.delete('/:walletName/allocation-rules', async (request, response) => {
+    const readOnly = config.getOptionalBoolean('infraWallet.settings.readOnly') ?? false;
+
+    if (readOnly) {
+      response.status(403).json({ error: 'API not enabled in read-only mode', status: 403 });
+      return;
+    }
+
+    if (!(await isAllowed(request, response, infraWalletAllocationRulesUpdatePermission, request.params.walletName))) {
+      return;
+    }
+
+    const wallet = await getWallet(database, request.params.walletName);
+    if (wallet === undefined) {
+      response.status(404).json({ error: 'Wallet not found', status: 404 });
+      return;
+    }
+
+    const rule = { ...(request.body as AllocationRule), wallet_id: wallet.id };
+    const before = (await getAllocationRules(database, wallet.id)).find(r => r.id === rule.id);
+    const deleted = await deleteAllocationRule(database, rule);
+    if (deleted) {
+      await audit(request, {
+        action: 'delete',
+        entity_type: 'allocation_rule',
+        entity_id: rule.id,
+        wallet_name: wallet.name,
+        before: before,
+      });
+    }
+    response.json({ deleted: deleted, status: 200 });
+  });
+
   const middleware = MiddlewareFactory.create({ config, logger });
   router.use(middleware.error());
 
@@ -1,7 +1,21 @@
-import { CacheService, DatabaseService, SchedulerService, LoggerService } from '@backstage/backend-plugin-api';
+import {
+  AuthService,
+  CacheService,
+  DatabaseService,
+  SchedulerService,
+  LoggerService,
+} from '@backstage/backend-plugin-api';
 import { Config } from '@backstage/config';
+import { CatalogService } from '@backstage/plugin-catalog-node';
+import { NotificationService } from '@backstage/plugin-notifications-node';
+import {
+  InfrawalletCostClientFactory,
+  InfrawalletFilterExtension,
+  InfrawalletMetricProviderFactory,
+} from '../extension';
+import { evaluateBudgetAlerts } from '../tasks/evaluateBudgetAlerts';
 import { fetchAndSaveCosts } from '../tasks/fetchAndSaveCosts';
-import { RouterOptions } from './types';
+import { refreshEntityCosts } from '../tasks/refreshEntityCosts';
 
 /**
  * Responsible for scheduling and executing cost data fetching tasks
@@ -12,6 +26,7 @@ export class CostFetchTaskScheduler {
   private readonly config: Config;
   private readonly database: DatabaseService;
   private readonly cache: CacheService;
+  private readonly additionalCostClients: Record<string, InfrawalletCostClientFactory>;
 
   constructor(options: {
     scheduler: SchedulerService;
@@ -19,12 +34,14 @@ export class CostFetchTaskScheduler {
     config: Config;
     database: DatabaseService;
     cache: CacheService;
+    additionalCostClients?: Record<string, InfrawalletCostClientFactory>;
   }) {
     this.scheduler = options.scheduler;
     this.logger = options.logger;
     this.config = options.config;
     this.database = options.database;
     this.cache = options.cache;
+    this.additionalCostClients = options.additionalCostClients ?? {};
   }
 
   /**
@@ -50,16 +67,13 @@ export class CostFetchTaskScheduler {
       this.logger.info('Starting scheduled cost data fetch task');
 
       try {
-        const routerOptions: RouterOptions = {
+        await fetchAndSaveCosts({
           logger: this.logger,
           config: this.config,
-          scheduler: this.scheduler,
           cache: this.cache,
           database: this.database,
-          additionalFilters: [],
-        };
-
-        await fetchAndSaveCosts(routerOptions);
+          additionalCostClients: this.additionalCostClients,
+        });
 
         this.logger.info('Completed scheduled cost data fetch task');
       } catch (error: any) {
@@ -81,3 +95,165 @@ export class CostFetchTaskScheduler {
     );
   }
 }
+
+/**
+ * Responsible for scheduling the evaluation of budgets and sending budget alerts
+ */
+export class BudgetAlertTaskScheduler {
+  private readonly scheduler: SchedulerService;
+  private readonly logger: LoggerService;
+  private readonly config: Config;
+  private readonly database: DatabaseService;
+  private readonly notificationService?: NotificationService;
+
+  constructor(options: {
+    scheduler: SchedulerService;
+    logger: LoggerService;
+    config: Config;
+    database: DatabaseService;
+    notificationService?: NotificationService;
+  }) {
+    this.scheduler = options.scheduler;
+    this.logger = options.logger;
+    this.config = options.config;
+    this.database = options.database;
+    this.notificationService = options.notificationService;
+  }
+
+  /**
+   * Initialize and schedule the tasks
+   */
+  async initialize() {
+    const budgetAlertsConfig = this.config.getOptionalConfig('backend.infraWallet.budgetAlerts');
+    const budgetAlertsEnabled = budgetAlertsConfig?.getOptionalBoolean('enabled') ?? false;
+
+    if (!budgetAlertsEnabled) {
+      this.logger.info('Budget alerts are disabled, skipping task scheduling');
+      return;
+    }
+
+    const schedule = budgetAlertsConfig?.getOptionalString('schedule') ?? '0 9 * * *'; // Default: every day at 9:00
+    const initialDelayMinutes = budgetAlertsConfig?.getOptionalNumber('initialDelayMinutes') ?? 10; // Default: 10 minutes
+
+    const evaluateBudgetsTask = async () => {
+      this.logger.info('Starting scheduled budget alert task');
+
+      try {
+        await evaluateBudgetAlerts({
+          logger: this.logger,
+          config: this.config,
+          database: this.database,
+          notificationService: this.notificationService,
+        });
+
+        this.logger.info('Completed scheduled budget alert task');
+      } catch (error: any) {
+        this.logger.error(`Failed to evaluate budgets: ${error.message}`, { error });
+        throw error;
+      }
+    };
+
+    await this.scheduler.scheduleTask({
+      id: 'infrawallet-budget-alerts',
+      frequency: { cron: schedule },
+      timeout: { minutes: 30 },
+      initialDelay: { minutes: initialDelayMinutes },
+      fn: evaluateBudgetsTask,
+    });
+
+    this.logger.info(
+      `Scheduled budget alert task (runs with schedule: ${schedule}, initial delay: ${initialDelayMinutes} minutes)`,
+    );
+  }
+}
+
+/**
+ * Responsible for scheduling the refresh of the cached costs of the catalog entities
+ */
+export class EntityCostsTaskScheduler {
+  private readonly scheduler: SchedulerService;
+  private readonly logger: LoggerService;
+  private readonly config: Config;
+  private readonly database: DatabaseService;
+  private readonly cache: CacheService;
+  private readonly catalog: CatalogService;
+  private readonly auth: AuthService;
+  private readonly additionalFilters: Array<InfrawalletFilterExtension>;
+  private readonly additionalCostClients: Record<string, InfrawalletCostClientFactory>;
+  private readonly additionalMetricProviders: Record<string, InfrawalletMetricProviderFactory>;
+
+  constructor(options: {
+    scheduler: SchedulerService;
+    logger: LoggerService;
+    config: Config;
+    database: DatabaseService;
+    cache: CacheService;
+    catalog: CatalogService;
+    auth: AuthService;
+    additionalFilters?: Array<InfrawalletFilterExtension>;
+    additionalCostClients?: Record<string, InfrawalletCostClientFactory>;
+    additionalMetricProviders?: Record<string, InfrawalletMetricProviderFactory>;
+  }) {
+    this.scheduler = options.scheduler;
+    this.logger = options.logger;
+    this.config = options.config;
+    this.database = options.database;
+    this.cache = options.cache;
+    this.catalog = options.catalog;
+    this.auth = options.auth;
+    this.additionalFilters = options.additionalFilters ?? [];
+    this.additionalCostClients = options.additionalCostClients ?? {};
+    this.additionalMetricProviders = options.additionalMetricProviders ?? {};
+  }
+
+  /**
+   * Initialize and schedule the tasks
+   */
+  async initialize() {
+    const precomputeConfig = this.config.getOptionalConfig('backend.infraWallet.entityCosts.precompute');
+    const precomputeEnabled = precomputeConfig?.getOptionalBoolean('enabled') ?? false;
+
+    if (!precomputeEnabled) {
+      this.logger.info('Precomputing entity costs is disabled, skipping task scheduling');
+      return;
+    }
+
+    const schedule = precomputeConfig?.getOptionalString('schedule') ?? '0 * * * *'; // Default: every hour
+    const initialDelayMinutes = precomputeConfig?.getOptionalNumber('initialDelayMinutes') ?? 15; // Default: 15 minutes
+
+    const refreshEntityCostsTask = async () => {
+      this.logger.info('Starting scheduled entity costs task');
+
+      try {
+        await refreshEntityCosts({
+          logger: this.logger,
+          config: this.config,
+          cache: this.cache,
+          database: this.database,
+          catalog: this.catalog,
+          auth: this.auth,
+          additionalFilters: this.additionalFilters,
+          additionalCostClients: this.additionalCostClients,
+          additionalMetricProviders: this.additionalMetricProviders,
+        });
+
+        this.logger.info('Completed scheduled entity costs task');
+      } catch (error: any) {
+        this.logger.error(`Failed to refresh entity costs: ${error.message}`, { error });
+        throw error;
+      }
+    };
+
+    await this.scheduler.scheduleTask({
+      id: 'infrawallet-entity-costs',
+      frequency: { cron: schedule },
+      timeout: { minutes: 30 },
+      initialDelay: { minutes: initialDelayMinutes },
+      fn: refreshEntityCostsTask,
+    });
+
+    this.logger.info(
+      `Scheduled entity costs task (runs with schedule: ${schedule}, initial delay: ${initialDelayMinutes} minutes)`,
+    );
+  }
+}
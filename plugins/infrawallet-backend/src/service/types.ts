@@ -1,6 +1,18 @@
-import { CacheService, DatabaseService, LoggerService, SchedulerService } from '@backstage/backend-plugin-api';
+import {
+  CacheService,
+  DatabaseService,
+  HttpAuthService,
+  LoggerService,
+  PermissionsService,
+  SchedulerService,
+} from '@backstage/backend-plugin-api';
 import { Config } from '@backstage/config';
-import { InfrawalletFilterExtension } from '../extension';
+import { CatalogService } from '@backstage/plugin-catalog-node';
+import {
+  InfrawalletCostClientFactory,
+  InfrawalletFilterExtension,
+  InfrawalletMetricProviderFactory,
+} from '../extension';
 import { GRANULARITY } from './consts';
 
 export interface RouterOptions {
@@ -9,7 +21,12 @@ export interface RouterOptions {
   scheduler: SchedulerService;
   cache: CacheService;
   database: DatabaseService;
+  permissions: PermissionsService;
+  httpAuth: HttpAuthService;
+  catalog: CatalogService;
   additionalFilters: Array<InfrawalletFilterExtension>;
+  additionalCostClients: Record<string, InfrawalletCostClientFactory>;
+  additionalMetricProviders: Record<string, InfrawalletMetricProviderFactory>;
 }
 
 export type CategoryMappings = {
@@ -25,6 +42,7 @@ export type ServiceToCategoryMappings = {
 export type TagsQuery = {
   startTime: string;
   endTime: string;
+  walletName?: string;
 };
 
 export type CostQuery = {
@@ -34,6 +52,7 @@ export type CostQuery = {
   granularity: GRANULARITY;
   startTime: string;
   endTime: string;
+  costMetric?: string; // one of COST_METRIC, the metric configured in the integration is used if not set
 };
 
 export type Report = {
@@ -48,9 +67,25 @@ export type Report = {
   forecast?: {
     [period: string]: number;
   };
+  // bounds of the forecasts made from the saved costs, see addCostForecasts
+  forecastLow?: {
+    [period: string]: number;
+  };
+  forecastHigh?: {
+    [period: string]: number;
+  };
+  currency?: string; // ISO 4217 code of the costs, USD if not set
   [key: string]: string | number | { [period: string]: number } | undefined;
 };
 
+export type ReportGroupType = 'region' | 'usage_type' | 'tag';
+
+export type ReportGroup = {
+  type: ReportGroupType;
+  key?: string; // the tag key if type is tag
+  column: string; // the report column holding the value of the dimension
+};
+
 export type ReportParameters = {
   filters: string;
   tags: Tag[];
@@ -58,6 +93,7 @@ export type ReportParameters = {
   granularityString: string;
   startTime: string;
   endTime: string;
+  costMetric?: string;
   entityNamespace?: string;
   entityName?: string;
 };
@@ -122,10 +158,135 @@ export type MetricSetting = {
 export type Wallet = {
   id: string;
   name: string;
-  currenty: string;
+  currency: string;
   description?: string;
 };
 
+export type CurrencyRates = {
+  base: string;
+  rates: Record<string, number>; // units of each currency for one unit of the base currency
+};
+
+export type BudgetHealthStatus = 'healthy' | 'warning' | 'critical';
+
+export type BudgetAlert = {
+  walletName: string;
+  provider: string;
+  budgetName: string;
+  budgetAmount: number;
+  currency: string;
+  period: string; // the budget year, format YYYY
+  yearToDateSpent: number;
+  utilizationPercent: number;
+  expectedUtilizationPercent: number;
+  status: Exclude<BudgetHealthStatus, 'healthy'>;
+};
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportTable = {
+  columns: string[];
+  rows: (string | number)[][];
+};
+
+export type PrometheusGauge = {
+  name: string;
+  help: string;
+  samples: { labels: Record<string, string>; value: number }[];
+};
+
+export type CostForecastPoint = {
+  value: number;
+  low: number;
+  high: number;
+};
+
+export type AnomalyDetectionMethod = 'zscore' | 'mad';
+
+export type AnomalyScore = {
+  index: number; // position of the anomaly in the cost series
+  expectedCost: number;
+  score: number;
+};
+
+export type CostAnomaly = {
+  id: string;
+  provider: string;
+  account: string;
+  service: string;
+  period: string; // format YYYY-MM-DD
+  cost: number;
+  expectedCost: number;
+  score: number;
+  method: AnomalyDetectionMethod;
+  currency: string;
+};
+
+export type AllocationMethod = 'fixed' | 'proportional_cost' | 'proportional_metric';
+
+export type AllocationTarget = {
+  name: string; // the team or the product that the shared costs are allocated to
+  percentage?: number; // share of the shared costs for the fixed method
+  filters?: string; // the costs weighting the target for the proportional_cost method, such as (account:123)
+  metric?: string; // the name of the business metric weighting the target for the proportional_metric method
+};
+
+export type AllocationRule = {
+  id: string;
+  wallet_id: string;
+  name: string;
+  source_filters: string; // the shared costs, in the syntax of the filters of the reports
+  method: AllocationMethod;
+  targets: AllocationTarget[];
+};
+
+// the costs of a catalog entity, read from its infrawallet.io annotations like in the EntityInfraWalletCard
+export type CostSlice = {
+  filters: string; // in the syntax of the filters of the reports
+  tags: Tag[];
+};
+
+export type TeamOwnership = {
+  team: string; // the entity ref of the owning group, such as group:default/team-a
+  entities: { entityRef: string; slice: CostSlice }[];
+};
+
+export type TeamCost = {
+  team: string;
+  entities: string[];
+  currency: string;
+  reports: {
+    [period: string]: number;
+  };
+};
+
+export type EntityCostQuery = {
+  granularity: string;
+  startTime: string;
+  endTime: string;
+  costMetric?: string;
+};
+
+export type EntityCost = {
+  entityRef: string;
+  currency: string;
+  reports: Report[];
+};
+
+export type EntityCostRollup = {
+  entityRef: string; // the group, system or domain
+  currency: string;
+  reports: {
+    [period: string]: number;
+  };
+  entities: {
+    entityRef: string;
+    reports: {
+      [period: string]: number;
+    };
+  }[];
+};
+
 export type Filter = {
   type: string;
   attribute: string;
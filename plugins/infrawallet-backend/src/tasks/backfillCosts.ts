@@ -0,0 +1,39 @@
+import { InfraWalletClient } from '../cost-clients/InfraWalletClient';
+import { BackfillJob, finishBackfillJob } from '../models/BackfillJob';
+import { CategoryMappingService } from '../service/CategoryMappingService';
+import { COST_CLIENT_MAPPINGS, GRANULARITY } from '../service/consts';
+import { RouterOptions, Wallet } from '../service/types';
+
+export type BackfillCostsOptions = Pick<
+  RouterOptions,
+  'logger' | 'config' | 'cache' | 'database' | 'additionalCostClients'
+>;
+
+// Run a backfill job requested through the API, the job is marked as succeeded or failed when it finishes
+// the provider is the key of the integrations in the configuration, such as aws
+export async function backfillCosts(options: BackfillCostsOptions, wallet: Wallet, job: BackfillJob) {
+  const { logger, config, cache, database, additionalCostClients } = options;
+  const costClients = { ...COST_CLIENT_MAPPINGS, ...additionalCostClients };
+
+  try {
+    const categoryMappingService = CategoryMappingService.getInstance();
+    await categoryMappingService.refreshCategoryMappings();
+
+    const client: InfraWalletClient = costClients[job.provider].create(config, database, cache, logger);
+    await client.backfillCostReportsToDatabase(
+      wallet,
+      job.granularity as GRANULARITY,
+      new Date(job.start_time),
+      new Date(job.end_time),
+      job.integration,
+    );
+    await finishBackfillJob(database, job.id as string, 'succeeded');
+    logger.info(`Backfill ${job.id} of ${job.provider} ${job.granularity} costs in wallet ${wallet.name} succeeded`);
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    logger.error(`Backfill ${job.id} of ${job.provider} costs in wallet ${wallet.name} failed: ${error}`);
+    await finishBackfillJob(database, job.id as string, 'failed', error).catch(finishError =>
+      logger.error(`Failed to record the end of backfill ${job.id}: ${finishError}`),
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { DatabaseService, LoggerService } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import { addDays, format, subDays } from 'date-fns';
+import { getWallets } from '../controllers/WalletController';
+import { CostAnomalyRecord, upsertCostAnomalies } from '../models/CostAnomaly';
+import { getWalletCostItems } from '../models/CostItem';
+import { DEFAULT_CURRENCY, GRANULARITY } from '../service/consts';
+import { detectAnomalies } from '../service/functions';
+import { AnomalyDetectionMethod } from '../service/types';
+
+export type AnomalyDetectionOptions = {
+  logger: LoggerService;
+  config: Config;
+  database: DatabaseService;
+};
+
+type CostSeries = {
+  provider: string;
+  account: string;
+  service: string;
+  currency: string;
+  costs: Record<number, number>; // usage date => daily cost
+};
+
+export function isAnomalyDetectionEnabled(config: Config): boolean {
+  return config.getOptionalBoolean('backend.infraWallet.anomalyDetection.enabled') ?? false;
+}
+
+export async function detectCostAnomalies(options: AnomalyDetectionOptions) {
+  const { logger, config, database } = options;
+
+  const conf = config.getOptionalConfig('backend.infraWallet.anomalyDetection');
+  const method = (conf?.getOptionalString('method') ?? 'mad') as AnomalyDetectionMethod;
+  const windowDays = conf?.getOptionalNumber('windowDays') ?? 30;
+  const threshold = conf?.getOptionalNumber('threshold') ?? 3.5;
+  const lookbackDays = conf?.getOptionalNumber('lookbackDays') ?? 7;
+  const minCostDelta = conf?.getOptionalNumber('minCostDelta') ?? 10;
+
+  // the costs of today are usually incomplete, so the last checked day is yesterday
+  const endDate = subDays(new Date(), 1);
+  const startDate = subDays(endDate, windowDays + lookbackDays - 1);
+  const days: number[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    days.push(parseInt(format(date, 'yyyyMMdd'), 10));
+  }
+
+  const wallets = await getWallets(database);
+  for (const wallet of wallets) {
+    const costItems = await getWalletCostItems(database, wallet.id, GRANULARITY.DAILY, days[0], days[days.length - 1]);
+
+    // cost items with different tags or categories are summed up per account and service
+    const seriesMap = new Map<string, CostSeries>();
+    for (const item of costItems) {
+      const seriesKey = `${item.provider}/${item.account}/${item.service}`;
+      let series = seriesMap.get(seriesKey);
+      if (series === undefined) {
+        const otherColumns =
+          typeof item.other_columns === 'string' ? JSON.parse(item.other_columns) : item.other_columns;
+        series = {
+          provider: item.provider,
+          account: item.account,
+          service: item.service,
+          currency: otherColumns?.currency ?? DEFAULT_CURRENCY,
+          costs: {},
+        };
+        seriesMap.set(seriesKey, series);
+      }
+      series.costs[item.usage_date] = (series.costs[item.usage_date] ?? 0) + parseFloat(item.cost as string);
+    }
+
+    const anomalies: CostAnomalyRecord[] = [];
+    for (const series of seriesMap.values()) {
+      // days without cost items count as zero cost
+      const costs = days.map(day => series.costs[day] ?? 0);
+      const scores = detectAnomalies(costs, method, windowDays, threshold, minCostDelta, days.length - lookbackDays);
+      scores.forEach(anomaly => {
+        anomalies.push({
+          wallet_id: wallet.id,
+          provider: series.provider,
+          account: series.account,
+          service: series.service,
+          usage_date: days[anomaly.index],
+          cost: costs[anomaly.index],
+          expected_cost: anomaly.expectedCost,
+          score: anomaly.score,
+          method: method,
+          currency: series.currency,
+          detected_at: new Date(),
+        });
+      });
+    }
+
+    await upsertCostAnomalies(database, anomalies);
+    logger.info(`Detected ${anomalies.length} cost anomalies in ${seriesMap.size} series of wallet ${wallet.name}`);
+  }
+}
@@ -0,0 +1,140 @@
+import { DatabaseService, LoggerService } from '@backstage/backend-plugin-api';
+import { Config } from '@backstage/config';
+import { NotificationService } from '@backstage/plugin-notifications-node';
+import { format } from 'date-fns';
+import { getAllBudgets } from '../models/Budget';
+import { budgetAlertExists, insertBudgetAlert } from '../models/BudgetAlert';
+import { getCostItems } from '../models/CostItem';
+import { BackstageNotifier } from '../notifiers/BackstageNotifier';
+import { BudgetAlertNotifier } from '../notifiers/BudgetAlertNotifier';
+import { EmailNotifier } from '../notifiers/EmailNotifier';
+import { WebhookNotifier } from '../notifiers/WebhookNotifier';
+import { GRANULARITY } from '../service/consts';
+import { CurrencyConversionService } from '../service/CurrencyConversionService';
+import { getBudgetHealthStatus, usageDateToPeriodString } from '../service/functions';
+import { BudgetAlert, CloudProviderError, Report } from '../service/types';
+
+export type BudgetAlertOptions = {
+  logger: LoggerService;
+  config: Config;
+  database: DatabaseService;
+  notificationService?: NotificationService;
+};
+
+function createNotifiers(options: BudgetAlertOptions): BudgetAlertNotifier[] {
+  const { logger, config, notificationService } = options;
+  const notifiers: BudgetAlertNotifier[] = [];
+  const conf = config.getOptionalConfig('backend.infraWallet.budgetAlerts.notifiers');
+
+  conf?.getOptionalConfigArray('webhook')?.forEach(c => notifiers.push(new WebhookNotifier(c, logger)));
+  conf?.getOptionalConfigArray('email')?.forEach(c => notifiers.push(new EmailNotifier(c, logger)));
+  conf?.getOptionalConfigArray('backstage')?.forEach(c => {
+    if (notificationService) {
+      notifiers.push(new BackstageNotifier(c, logger, notificationService));
+    } else {
+      logger.warn(`Backstage notifier ${c.getString('name')} skipped, the notification service is not available`);
+    }
+  });
+
+  return notifiers;
+}
+
+export async function evaluateBudgetAlerts(options: BudgetAlertOptions) {
+  const { logger, database } = options;
+
+  const notifiers = createNotifiers(options);
+  if (notifiers.length === 0) {
+    logger.warn('No budget alert notifier is configured, skipping budget evaluation');
+    return;
+  }
+
+  const now = new Date();
+  const period = format(now, 'yyyy');
+  const startUsageDate = parseInt(`${period}01`, 10);
+  const endUsageDate = parseInt(format(now, 'yyyyMM'), 10);
+  const currencyConversionService = CurrencyConversionService.getInstance();
+
+  const budgets = await getAllBudgets(database);
+  for (const budget of budgets) {
+    const budgetAmount = Number(budget.amount);
+    if (!budget.id || !(budgetAmount > 0)) {
+      continue;
+    }
+
+    const costItems = await getCostItems(
+      database,
+      budget.wallet_id as string,
+      budget.provider,
+      GRANULARITY.MONTHLY,
+      startUsageDate,
+      endUsageDate,
+    );
+
+    // cost items are stored in the currency reported by the provider
+    const reports: Report[] = costItems.map(item => {
+      const otherColumns = typeof item.other_columns === 'string' ? JSON.parse(item.other_columns) : item.other_columns;
+      return {
+        id: item.key,
+        account: item.account,
+        service: item.service,
+        category: item.category,
+        provider: item.provider,
+        currency: otherColumns?.currency,
+        reports: { [usageDateToPeriodString(item.usage_date)]: parseFloat(item.cost as string) },
+      };
+    });
+    const { reports: convertedReports, errors } = await currencyConversionService.convertReports(
+      reports,
+      budget.wallet_currency,
+    );
+    errors.forEach((e: CloudProviderError) => logger.warn(e.error));
+
+    const yearToDateSpent = convertedReports.reduce(
+      (sum, report) => sum + Object.values(report.reports).reduce((a, b) => a + b, 0),
+      0,
+    );
+    const { status, utilizationPercent, expectedUtilizationPercent } = getBudgetHealthStatus(
+      yearToDateSpent,
+      budgetAmount,
+      now,
+    );
+
+    if (status === 'healthy' || (await budgetAlertExists(database, budget.id, period, status))) {
+      continue;
+    }
+
+    const alert: BudgetAlert = {
+      walletName: budget.wallet_name,
+      provider: budget.provider,
+      budgetName: budget.name,
+      budgetAmount: budgetAmount,
+      currency: budget.wallet_currency.toUpperCase(),
+      period: period,
+      yearToDateSpent: yearToDateSpent,
+      utilizationPercent: utilizationPercent,
+      expectedUtilizationPercent: expectedUtilizationPercent,
+      status: status,
+    };
+
+    let notified = false;
+    for (const notifier of notifiers) {
+      try {
+        await notifier.notify(alert);
+        notified = true;
+      } catch (e) {
+        logger.error(`Failed to send budget alert with ${notifier.getName()}: ${(e as Error).message}`);
+      }
+    }
+
+    // the alert is retried in the next run if no notifier succeeded
+    if (notified) {
+      await insertBudgetAlert(database, {
+        budget_id: budget.id,
+        period: period,
+        status: status,
+        utilization: utilizationPercent,
+      });
+      logger.info(`Sent ${status} budget alert for ${budget.name} in wallet ${budget.wallet_name}`);
+    }
+  }
+}
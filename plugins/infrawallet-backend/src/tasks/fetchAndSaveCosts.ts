@@ -1,34 +1,44 @@
-import { getWallet } from '../controllers/MetricSettingController';
+import { getWallets } from '../controllers/WalletController';
 import { InfraWalletClient } from '../cost-clients/InfraWalletClient';
 import { CategoryMappingService } from '../service/CategoryMappingService';
 import { COST_CLIENT_MAPPINGS, GRANULARITY } from '../service/consts';
 import { RouterOptions } from '../service/types';
+import { detectCostAnomalies, isAnomalyDetectionEnabled } from './detectCostAnomalies';
 
-export async function fetchAndSaveCosts(options: RouterOptions) {
-  const { logger, config, cache, database } = options;
+export type FetchAndSaveCostsOptions = Pick<
+  RouterOptions,
+  'logger' | 'config' | 'cache' | 'database' | 'additionalCostClients'
+>;
+
+export async function fetchAndSaveCosts(options: FetchAndSaveCostsOptions) {
+  const { logger, config, cache, database, additionalCostClients } = options;
+  const costClients = { ...COST_CLIENT_MAPPINGS, ...additionalCostClients };
 
   const categoryMappingService = CategoryMappingService.getInstance();
   await categoryMappingService.refreshCategoryMappings();
 
-  // for now, this task only fetches costs for the default wallet
-  const defaultWallet = await getWallet(database, 'default');
+  const wallets = await getWallets(database);
   const granularities = [GRANULARITY.DAILY, GRANULARITY.MONTHLY];
 
-  if (defaultWallet !== undefined) {
-    logger.debug('fetchAndSaveCosts method executed for the default wallet');
+  for (const wallet of wallets) {
+    logger.debug(`fetchAndSaveCosts method executed for the ${wallet.name} wallet`);
     for (const granularity of granularities) {
       const promises: Promise<void>[] = [];
       const conf = config.getConfig('backend.infraWallet.integrations');
       for (const provider of conf.keys()) {
         // skip mock provider as that client has some special logic to manipulate period strings
-        if (provider in COST_CLIENT_MAPPINGS && provider !== 'mock') {
-          const client: InfraWalletClient = COST_CLIENT_MAPPINGS[provider].create(config, database, cache, logger);
+        if (provider in costClients && provider !== 'mock') {
+          const client: InfraWalletClient = costClients[provider].create(config, database, cache, logger);
 
           const saveCostReportsToDatabasePromise = (async () => {
             try {
-              await client.saveCostReportsToDatabase(defaultWallet, granularity);
+              await client.saveCostReportsToDatabase(wallet, granularity);
             } catch (e) {
-              logger.error(`Error in ${provider} cost client: ${e instanceof Error ? e.message : String(e)}`);
+              logger.error(
+                `Error in ${provider} cost client for wallet ${wallet.name}: ${
+                  e instanceof Error ? e.message : String(e)
+                }`,
+              );
             }
           })();
           promises.push(saveCostReportsToDatabasePromise);
@@ -37,4 +47,13 @@ export async function fetchAndSaveCosts(options: RouterOptions) {
       await Promise.all(promises);
     }
   }
+
+  // anomalies are detected on the freshly saved daily cost items
+  if (isAnomalyDetectionEnabled(config)) {
+    try {
+      await detectCostAnomalies({ logger, config, database });
+    } catch (e) {
+      logger.error(`Error in cost anomaly detection: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
 }
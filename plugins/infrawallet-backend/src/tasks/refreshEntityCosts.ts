@@ -0,0 +1,80 @@
+import { AuthService } from '@backstage/backend-plugin-api';
+import moment from 'moment';
+import { getWallets } from '../controllers/WalletController';
+import { getAllEntityCostSlices } from '../service/catalog';
+import {
+  COST_CLIENT_MAPPINGS,
+  DEFAULT_ENTITY_COSTS_MONTHS,
+  GRANULARITY,
+  METRIC_PROVIDER_MAPPINGS,
+} from '../service/consts';
+import { selectEntityReports, setEntityCostsToCache } from '../service/functions';
+import { augmentCostSlices, getReportsOfCostSlices } from '../service/reports';
+import { EntityCostQuery, RouterOptions } from '../service/types';
+
+export type RefreshEntityCostsOptions = Pick<
+  RouterOptions,
+  | 'logger'
+  | 'config'
+  | 'cache'
+  | 'database'
+  | 'catalog'
+  | 'additionalFilters'
+  | 'additionalCostClients'
+  | 'additionalMetricProviders'
+> & {
+  auth: AuthService;
+};
+
+/**
+ * Refreshes the cached costs of all the annotated entities of the catalog in every wallet, for the months shown
+ * by the entity card. The entity pages read them through the /entities/costs route instead of querying the
+ * providers. The costs of a wallet are not cached when one of its queries fails, the route fetches them then.
+ */
+export async function refreshEntityCosts(options: RefreshEntityCostsOptions) {
+  const { logger, config, cache, database, catalog, auth, additionalFilters } = options;
+  const costClients = { ...COST_CLIENT_MAPPINGS, ...options.additionalCostClients };
+  const metricProviders = { ...METRIC_PROVIDER_MAPPINGS, ...options.additionalMetricProviders };
+
+  const months =
+    config.getOptionalNumber('backend.infraWallet.entityCosts.precompute.months') ?? DEFAULT_ENTITY_COSTS_MONTHS;
+  const query: EntityCostQuery = {
+    granularity: GRANULARITY.MONTHLY,
+    startTime: moment()
+      .subtract(months - 1, 'months')
+      .startOf('month')
+      .valueOf()
+      .toString(),
+    endTime: moment().valueOf().toString(),
+  };
+
+  const entities = await getAllEntityCostSlices(catalog, await auth.getOwnServiceCredentials());
+  if (entities.length === 0) {
+    logger.info('No entities with InfraWallet annotations in the catalog, skipping the refresh of their costs');
+    return;
+  }
+
+  const augmentedEntities = await augmentCostSlices(query, entities, additionalFilters);
+  for (const wallet of await getWallets(database)) {
+    const { reportsByTags, errors } = await getReportsOfCostSlices(
+      query,
+      augmentedEntities.map(entity => entity.slice),
+      wallet,
+      costClients,
+      metricProviders,
+      config,
+      database,
+      cache,
+      logger,
+    );
+    if (errors.length > 0) {
+      errors.forEach(e => logger.warn(`Failed to refresh the entity costs of wallet ${wallet.name}: ${e.error}`));
+      continue;
+    }
+
+    for (const entityCost of selectEntityReports(augmentedEntities, reportsByTags, wallet.currency)) {
+      await setEntityCostsToCache(cache, entityCost, wallet.name, query);
+    }
+    logger.info(`Refreshed the costs of ${augmentedEntities.length} entities in wallet ${wallet.name}`);
+  }
+}
@@ -0,0 +1,200 @@
+import { createPermission } from '@backstage/plugin-permission-common';
+
+/**
+ * Resource type of the InfraWallet wallets, the resource ref of a wallet is its name.
+ *
+ * @public
+ */
+export const RESOURCE_TYPE_INFRAWALLET_WALLET = 'infrawallet-wallet';
+
+/**
+ * Read a wallet: its costs, budgets, anomalies and business metrics.
+ *
+ * @public
+ */
+export const infraWalletWalletReadPermission = createPermission({
+  name: 'infrawallet.wallet.read',
+  attributes: { action: 'read' },
+  resourceType: RESOURCE_TYPE_INFRAWALLET_WALLET,
+});
+
+/**
+ * Create a wallet.
+ *
+ * @public
+ */
+export const infraWalletWalletCreatePermission = createPermission({
+  name: 'infrawallet.wallet.create',
+  attributes: { action: 'create' },
+});
+
+/**
+ * Update the currency and the description of a wallet.
+ *
+ * @public
+ */
+export const infraWalletWalletUpdatePermission = createPermission({
+  name: 'infrawallet.wallet.update',
+  attributes: { action: 'update' },
+  resourceType: RESOURCE_TYPE_INFRAWALLET_WALLET,
+});
+
+/**
+ * Delete a wallet.
+ *
+ * @public
+ */
+export const infraWalletWalletDeletePermission = createPermission({
+  name: 'infrawallet.wallet.delete',
+  attributes: { action: 'delete' },
+  resourceType: RESOURCE_TYPE_INFRAWALLET_WALLET,
+});
+
+/**
+ * Update the budgets of a wallet.
+ *
+ * @public
+ */
+export const infraWalletBudgetsUpdatePermission = createPermission({
+  name: 'infrawallet.budgets.update',
+  attributes: { action: 'update' },
+  resourceType: RESOURCE_TYPE_INFRAWALLET_WALLET,
+});
+
+/**
+ * Create, update and delete the business metrics of a wallet.
+ *
+ * @public
+ */
+export const infraWalletMetricsUpdatePermission = createPermission({
+  name: 'infrawallet.metrics.update',
+  attributes: { action: 'update' },
+  resourceType: RESOURCE_TYPE_INFRAWALLET_WALLET,
+});
+
+/**
+ * Create, update and delete the rules allocating the shared costs of a wallet.
+ *
+ * @public
+ */
+export const infraWalletAllocationRulesUpdatePermission = createPermission({
+  name: 'infrawallet.allocation-rules.update',
+  attributes: { action: 'update' },
+  resourceType: RESOURCE_TYPE_INFRAWALLET_WALLET,
+});
+
+/**
+ * Delete the cost items saved by the autoload task in a wallet.
+ *
+ * @public
+ */
+export const infraWalletCostsDeletePermission = createPermission({
+  name: 'infrawallet.costs.delete',
+  attributes: { action: 'delete' },
+  resourceType: RESOURCE_TYPE_INFRAWALLET_WALLET,
+});
+
+/**
+ * Re-fetch and replace the cost items saved in a wallet for a period.
+ *
+ * @public
+ */
+export const infraWalletCostsBackfillPermission = createPermission({
+  name: 'infrawallet.costs.backfill',
+  attributes: { action: 'update' },
+  resourceType: RESOURCE_TYPE_INFRAWALLET_WALLET,
+});
+
+/**
+ * Trigger the autoload task fetching the costs of all the wallets.
+ *
+ * @public
+ */
+export const infraWalletCostsFetchPermission = createPermission({
+  name: 'infrawallet.costs.fetch',
+  attributes: {},
+});
+
+/**
+ * Read the custom costs, they are shared by all the wallets.
+ *
+ * @public
+ */
+export const infraWalletCustomCostsReadPermission = createPermission({
+  name: 'infrawallet.custom-costs.read',
+  attributes: { action: 'read' },
+});
+
+/**
+ * Create, update and delete the custom costs.
+ *
+ * @public
+ */
+export const infraWalletCustomCostsUpdatePermission = createPermission({
+  name: 'infrawallet.custom-costs.update',
+  attributes: { action: 'update' },
+});
+
+/**
+ * Read the exchange rates used to convert the costs into the wallet currency.
+ *
+ * @public
+ */
+export const infraWalletCurrencyRatesReadPermission = createPermission({
+  name: 'infrawallet.currency-rates.read',
+  attributes: { action: 'read' },
+});
+
+/**
+ * Update the exchange rates used to convert the costs into the wallet currency.
+ *
+ * @public
+ */
+export const infraWalletCurrencyRatesUpdatePermission = createPermission({
+  name: 'infrawallet.currency-rates.update',
+  attributes: { action: 'update' },
+});
+
+/**
+ * Read the audit events of the changes made through the InfraWallet API.
+ *
+ * @public
+ */
+export const infraWalletAuditReadPermission = createPermission({
+  name: 'infrawallet.audit.read',
+  attributes: { action: 'read' },
+});
+
+/**
+ * Scrape the costs and the budget utilization of the wallets from the Prometheus endpoint.
+ *
+ * @public
+ */
+export const infraWalletPrometheusMetricsReadPermission = createPermission({
+  name: 'infrawallet.prometheus-metrics.read',
+  attributes: { action: 'read' },
+});
+
+/**
+ * All the InfraWallet permissions.
+ *
+ * @public
+ */
+export const infraWalletPermissions = [
+  infraWalletWalletReadPermission,
+  infraWalletWalletCreatePermission,
+  infraWalletWalletUpdatePermission,
+  infraWalletWalletDeletePermission,
+  infraWalletBudgetsUpdatePermission,
+  infraWalletMetricsUpdatePermission,
+  infraWalletAllocationRulesUpdatePermission,
+  infraWalletCostsDeletePermission,
+  infraWalletCostsBackfillPermission,
+  infraWalletCostsFetchPermission,
+  infraWalletCustomCostsReadPermission,
+  infraWalletCustomCostsUpdatePermission,
+  infraWalletCurrencyRatesReadPermission,
+  infraWalletCurrencyRatesUpdatePermission,
+  infraWalletAuditReadPermission,
+  infraWalletPrometheusMetricsReadPermission,
+];
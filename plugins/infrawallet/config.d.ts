@@ -16,9 +16,21 @@ export interface Config {
         enabled?: boolean; // whether to show business metrics or not, default is true
       };
 
+      teams?: {
+        enabled?: boolean; // whether to show the costs of the teams owning the catalog entities or not, default is true
+      };
+
       customCosts?: {
         enabled?: boolean; // whether to show custom costs or not, default is true
       };
+
+      syncStatus?: {
+        enabled?: boolean; // whether to show the sync status of the autoload task or not, default is true
+      };
+
+      audit?: {
+        enabled?: boolean; // whether to show the audit log or not, default is true
+      };
     };
   };
 }
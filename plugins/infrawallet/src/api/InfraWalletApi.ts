@@ -1,17 +1,31 @@
 import { createApiRef } from '@backstage/core-plugin-api';
 import {
+  AllocationRule,
+  AllocationRulesResponse,
+  AuditEventsResponse,
+  BackfillJobResponse,
+  BackfillJobsResponse,
+  BackfillRequest,
   Budget,
   BudgetsResponse,
+  CostAnomaliesResponse,
   CostReportsResponse,
   CustomCost,
   CustomCostsResponse,
+  EntityCostRollupResponse,
+  EntityCostsResponse,
   GetWalletResponse,
+  IngestionRunsResponse,
+  IngestionStatusResponse,
   MetricConfigsResponse,
   MetricSetting,
   MetricsResponse,
   MetricsSettingResponse,
   Tag,
   TagResponse,
+  TeamCostsResponse,
+  Wallet,
+  WalletsResponse,
 } from './types';
 
 /** @public */
@@ -29,13 +43,28 @@ export interface InfraWalletApi {
     startTime: Date,
     endTime: Date,
     entityName?: string,
+    walletName?: string,
+    costMetric?: string,
   ): Promise<CostReportsResponse>;
-  getTagKeys(provider: string, startTime: Date, endTime: Date): Promise<TagResponse>;
-  getTagValues(tag: Tag, startTime: Date, endTime: Date): Promise<TagResponse>;
+  exportCostReports(
+    format: 'csv' | 'xlsx',
+    filters: string,
+    tags: Tag[],
+    groups: string,
+    granularity: string,
+    startTime: Date,
+    endTime: Date,
+    aggregatedBy?: string,
+    walletName?: string,
+    costMetric?: string,
+  ): Promise<Blob>;
+  getTagKeys(provider: string, startTime: Date, endTime: Date, walletName?: string): Promise<TagResponse>;
+  getTagValues(tag: Tag, startTime: Date, endTime: Date, walletName?: string): Promise<TagResponse>;
   getBudgets(walletName: string): Promise<BudgetsResponse>;
   getBudget(walletName: string, provider: string): Promise<BudgetsResponse>;
   updateBudget(walletName: string, budget: Budget): Promise<{ updated: boolean; status: number }>;
   getMetrics(walletName: string, granularity: string, startTime: Date, endTime: Date): Promise<MetricsResponse>;
+  getCostAnomalies(walletName: string, startTime: Date, endTime: Date): Promise<CostAnomaliesResponse>;
   getMetricConfigs(): Promise<MetricConfigsResponse>;
   getWalletMetricsSetting(walletName: string): Promise<MetricsSettingResponse>;
   updateWalletMetricSetting(
@@ -46,9 +75,36 @@ export interface InfraWalletApi {
     walletName: string,
     metricSetting: MetricSetting,
   ): Promise<{ deleted: boolean; status: number }>;
+  getTeamCosts(walletName: string, granularity: string, startTime: Date, endTime: Date): Promise<TeamCostsResponse>;
+  getEntityCostRollup(
+    entityRef: string,
+    granularity: string,
+    startTime: Date,
+    endTime: Date,
+    walletName?: string,
+  ): Promise<EntityCostRollupResponse>;
+  getEntityCosts(
+    entityRefs: string[],
+    granularity: string,
+    startTime: Date,
+    endTime: Date,
+    walletName?: string,
+  ): Promise<EntityCostsResponse>;
+  getAllocationRules(walletName: string): Promise<AllocationRulesResponse>;
+  updateAllocationRule(walletName: string, rule: AllocationRule): Promise<{ updated: boolean; status: number }>;
+  deleteAllocationRule(walletName: string, rule: AllocationRule): Promise<{ deleted: boolean; status: number }>;
   getWalletByName(walletName: string): Promise<GetWalletResponse>;
+  getWallets(): Promise<WalletsResponse>;
+  createWallet(wallet: Omit<Wallet, 'id'>): Promise<GetWalletResponse>;
+  updateWallet(walletName: string, wallet: Partial<Wallet>): Promise<{ updated: boolean; status: number }>;
+  deleteWallet(walletName: string): Promise<{ deleted: boolean; status: number }>;
   getCustomCosts(): Promise<CustomCostsResponse>;
   createCustomCosts(customCosts: CustomCost[]): Promise<{ created: number; status: number }>;
   updateCustomCost(customCost: CustomCost): Promise<{ updated: boolean; status: number }>;
   deleteCustomCost(customCost: CustomCost): Promise<{ deleted: boolean; status: number }>;
+  getAuditEvents(page: number, pageSize: number, entityType?: string): Promise<AuditEventsResponse>;
+  getIngestionRuns(walletName: string, page: number, pageSize: number): Promise<IngestionRunsResponse>;
+  getIngestionStatus(walletName: string): Promise<IngestionStatusResponse>;
+  backfillCosts(walletName: string, backfillRequest: BackfillRequest): Promise<BackfillJobResponse>;
+  getBackfillJobs(walletName: string): Promise<BackfillJobsResponse>;
 }
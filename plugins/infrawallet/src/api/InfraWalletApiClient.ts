@@ -2,18 +2,32 @@ import { ConfigApi, IdentityApi, FetchApi } from '@backstage/core-plugin-api';
 import { InfraWalletApi } from './InfraWalletApi';
 import { tagsToString } from './functions';
 import {
+  AllocationRule,
+  AllocationRulesResponse,
+  AuditEventsResponse,
+  BackfillJobResponse,
+  BackfillJobsResponse,
+  BackfillRequest,
   Budget,
   BudgetsResponse,
+  CostAnomaliesResponse,
   CostReportsResponse,
   CustomCost,
   CustomCostsResponse,
+  EntityCostRollupResponse,
+  EntityCostsResponse,
   GetWalletResponse,
+  IngestionRunsResponse,
+  IngestionStatusResponse,
   MetricConfigsResponse,
   MetricSetting,
   MetricsResponse,
   MetricsSettingResponse,
   Tag,
   TagResponse,
+  TeamCostsResponse,
+  Wallet,
+  WalletsResponse,
 } from './types';
 
 /** @public */
@@ -28,10 +42,14 @@ export class InfraWalletApiClient implements InfraWalletApi {
     this.fetchApi = options.fetchApi;
   }
 
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const { token: idToken } = await this.identityApi.getCredentials();
+    return idToken ? { Authorization: `Bearer ${idToken}` } : {};
+  }
+
   async request(path: string, method?: string, payload?: Record<string, any>) {
     const url = `${this.backendUrl}/${path}`;
-    const { token: idToken } = await this.identityApi.getCredentials();
-    const headers: Record<string, string> = idToken ? { Authorization: `Bearer ${idToken}` } : {};
+    const headers = await this.getAuthHeaders();
 
     if (method !== undefined && method !== 'GET') {
       headers['Content-Type'] = 'application/json';
@@ -65,23 +83,70 @@ export class InfraWalletApiClient implements InfraWalletApi {
     startTime: Date,
     endTime: Date,
     entityName?: string,
+    walletName?: string,
+    costMetric?: string,
   ): Promise<CostReportsResponse> {
     const tagsString = tagsToString(tags);
     const entityNameParam = entityName ? `&entityName=${entityName}` : '';
-    const url = `api/infrawallet/reports?granularity=${granularity}&groups=${groups}&filters=${filters}&tags=${tagsString}&startTime=${startTime.getTime()}&endTime=${endTime.getTime()}${entityNameParam}`;
+    const costMetricParam = costMetric ? `&costMetric=${costMetric}` : '';
+    const reportsPath = walletName ? `${walletName}/reports` : 'reports';
+    const url = `api/infrawallet/${reportsPath}?granularity=${granularity}&groups=${encodeURIComponent(
+      groups,
+    )}&filters=${filters}&tags=${tagsString}&startTime=${startTime.getTime()}&endTime=${endTime.getTime()}${entityNameParam}${costMetricParam}`;
 
     return await this.request(url);
   }
 
-  async getTagKeys(provider: string, startTime: Date, endTime: Date): Promise<TagResponse> {
-    const url = `api/infrawallet/tag-keys?provider=${provider}&startTime=${startTime.getTime()}&endTime=${endTime.getTime()}`;
+  async exportCostReports(
+    format: 'csv' | 'xlsx',
+    filters: string,
+    tags: Tag[],
+    groups: string,
+    granularity: string,
+    startTime: Date,
+    endTime: Date,
+    aggregatedBy?: string,
+    walletName?: string,
+    costMetric?: string,
+  ): Promise<Blob> {
+    const params = new URLSearchParams({
+      format: format,
+      granularity: granularity,
+      groups: groups,
+      filters: filters,
+      tags: tagsToString(tags),
+      startTime: startTime.getTime().toString(),
+      endTime: endTime.getTime().toString(),
+    });
+    if (aggregatedBy) {
+      params.set('aggregatedBy', aggregatedBy);
+    }
+    if (costMetric) {
+      params.set('costMetric', costMetric);
+    }
+    const exportPath = walletName ? `${walletName}/reports/export` : 'reports/export';
+    const url = `${this.backendUrl}/api/infrawallet/${exportPath}?${params.toString()}`;
+
+    const response = await this.fetchApi.fetch(url, { headers: await this.getAuthHeaders() });
+    if (!response.ok) {
+      const res = await response.text();
+      throw new Error(`Request failed with ${response.status} ${response.statusText}, ${res}`);
+    }
+
+    return await response.blob();
+  }
+
+  async getTagKeys(provider: string, startTime: Date, endTime: Date, walletName?: string): Promise<TagResponse> {
+    const tagKeysPath = walletName ? `${walletName}/tag-keys` : 'tag-keys';
+    const url = `api/infrawallet/${tagKeysPath}?provider=${provider}&startTime=${startTime.getTime()}&endTime=${endTime.getTime()}`;
     return await this.request(url);
   }
 
-  async getTagValues(tag: Tag, startTime: Date, endTime: Date): Promise<TagResponse> {
+  async getTagValues(tag: Tag, startTime: Date, endTime: Date, walletName?: string): Promise<TagResponse> {
     const provider = tag.provider;
     const tagKey = tag.key;
-    const url = `api/infrawallet/tag-values?provider=${provider}&tag=${tagKey}&startTime=${startTime.getTime()}&endTime=${endTime.getTime()}`;
+    const tagValuesPath = walletName ? `${walletName}/tag-values` : 'tag-values';
+    const url = `api/infrawallet/${tagValuesPath}?provider=${provider}&tag=${tagKey}&startTime=${startTime.getTime()}&endTime=${endTime.getTime()}`;
     return await this.request(url);
   }
 
@@ -105,11 +170,36 @@ export class InfraWalletApiClient implements InfraWalletApi {
     return await this.request(url);
   }
 
+  async getWallets(): Promise<WalletsResponse> {
+    const url = 'api/infrawallet/wallets';
+    return await this.request(url);
+  }
+
+  async createWallet(wallet: Omit<Wallet, 'id'>): Promise<GetWalletResponse> {
+    const url = 'api/infrawallet/wallets';
+    return await this.request(url, 'POST', wallet);
+  }
+
+  async updateWallet(walletName: string, wallet: Partial<Wallet>): Promise<{ updated: boolean; status: number }> {
+    const url = `api/infrawallet/wallets/${walletName}`;
+    return await this.request(url, 'PUT', wallet);
+  }
+
+  async deleteWallet(walletName: string): Promise<{ deleted: boolean; status: number }> {
+    const url = `api/infrawallet/wallets/${walletName}`;
+    return await this.request(url, 'DELETE');
+  }
+
   async getMetrics(walletName: string, granularity: string, startTime: Date, endTime: Date): Promise<MetricsResponse> {
     const url = `api/infrawallet/${walletName}/metrics?&granularity=${granularity}&startTime=${startTime.getTime()}&endTime=${endTime.getTime()}`;
     return await this.request(url);
   }
 
+  async getCostAnomalies(walletName: string, startTime: Date, endTime: Date): Promise<CostAnomaliesResponse> {
+    const url = `api/infrawallet/${walletName}/anomalies?startTime=${startTime.getTime()}&endTime=${endTime.getTime()}`;
+    return await this.request(url);
+  }
+
   async getMetricConfigs(): Promise<MetricConfigsResponse> {
     const url = 'api/infrawallet/metric/metric-configs';
     return await this.request(url);
@@ -136,6 +226,61 @@ export class InfraWalletApiClient implements InfraWalletApi {
     return await this.request(url, 'DELETE', metricSetting);
   }
 
+  async getTeamCosts(
+    walletName: string,
+    granularity: string,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<TeamCostsResponse> {
+    const url = `api/infrawallet/${walletName}/teams/costs?granularity=${granularity}&startTime=${startTime.getTime()}&endTime=${endTime.getTime()}`;
+    return await this.request(url);
+  }
+
+  async getEntityCostRollup(
+    entityRef: string,
+    granularity: string,
+    startTime: Date,
+    endTime: Date,
+    walletName?: string,
+  ): Promise<EntityCostRollupResponse> {
+    const rollupPath = walletName ? `${walletName}/entities/rollup` : 'entities/rollup';
+    const url = `api/infrawallet/${rollupPath}?entityRef=${encodeURIComponent(
+      entityRef,
+    )}&granularity=${granularity}&startTime=${startTime.getTime()}&endTime=${endTime.getTime()}`;
+    return await this.request(url);
+  }
+
+  async getEntityCosts(
+    entityRefs: string[],
+    granularity: string,
+    startTime: Date,
+    endTime: Date,
+    walletName?: string,
+  ): Promise<EntityCostsResponse> {
+    const costsPath = walletName ? `${walletName}/entities/costs` : 'entities/costs';
+    return await this.request(`api/infrawallet/${costsPath}`, 'POST', {
+      entityRefs: entityRefs,
+      granularity: granularity,
+      startTime: startTime.getTime(),
+      endTime: endTime.getTime(),
+    });
+  }
+
+  async getAllocationRules(walletName: string): Promise<AllocationRulesResponse> {
+    const url = `api/infrawallet/${walletName}/allocation-rules`;
+    return await this.request(url);
+  }
+
+  async updateAllocationRule(walletName: string, rule: AllocationRule): Promise<{ updated: boolean; status: number }> {
+    const url = `api/infrawallet/${walletName}/allocation-rules`;
+    return await this.request(url, 'PUT', rule);
+  }
+
+  async deleteAllocationRule(walletName: string, rule: AllocationRule): Promise<{ deleted: boolean; status: number }> {
+    const url = `api/infrawallet/${walletName}/allocation-rules`;
+    return await this.request(url, 'DELETE', rule);
+  }
+
   async getCustomCosts(): Promise<CustomCostsResponse> {
     const url = `api/infrawallet/custom-costs`;
     return await this.request(url);
@@ -155,4 +300,30 @@ export class InfraWalletApiClient implements InfraWalletApi {
     const url = `api/infrawallet/custom-cost`;
     return await this.request(url, 'DELETE', customCost);
   }
+
+  async getAuditEvents(page: number, pageSize: number, entityType?: string): Promise<AuditEventsResponse> {
+    const entityTypeParam = entityType ? `&entityType=${encodeURIComponent(entityType)}` : '';
+    const url = `api/infrawallet/audit?page=${page}&pageSize=${pageSize}${entityTypeParam}`;
+    return await this.request(url);
+  }
+
+  async getIngestionRuns(walletName: string, page: number, pageSize: number): Promise<IngestionRunsResponse> {
+    const url = `api/infrawallet/${walletName}/ingestion-runs?page=${page}&pageSize=${pageSize}`;
+    return await this.request(url);
+  }
+
+  async getIngestionStatus(walletName: string): Promise<IngestionStatusResponse> {
+    const url = `api/infrawallet/${walletName}/ingestion-status`;
+    return await this.request(url);
+  }
+
+  async backfillCosts(walletName: string, backfillRequest: BackfillRequest): Promise<BackfillJobResponse> {
+    const url = `api/infrawallet/${walletName}/backfill`;
+    return await this.request(url, 'POST', backfillRequest);
+  }
+
+  async getBackfillJobs(walletName: string): Promise<BackfillJobsResponse> {
+    const url = `api/infrawallet/${walletName}/backfill`;
+    return await this.request(url);
+  }
 }
@@ -16,21 +16,24 @@ const aggregateReportsAndForecasts = (
     }
   });
 
-  // Aggregate forecast values
-  if (report.forecast) {
-    if (!accumulator[keyName].forecast) {
-      accumulator[keyName].forecast = {};
+  // Aggregate forecast values and their bounds
+  (['forecast', 'forecastLow', 'forecastHigh'] as const).forEach(forecastKey => {
+    const repForecast = report[forecastKey];
+    if (!repForecast) {
+      return;
     }
-    Object.keys(report.forecast).forEach(key => {
-      const accForecast = accumulator[keyName].forecast as { [key: string]: number };
-      const repForecast = report.forecast as { [key: string]: number };
+    if (!accumulator[keyName][forecastKey]) {
+      accumulator[keyName][forecastKey] = {};
+    }
+    const accForecast = accumulator[keyName][forecastKey] as { [key: string]: number };
+    Object.keys(repForecast).forEach(key => {
       if (accForecast[key]) {
         accForecast[key] += repForecast[key];
       } else {
         accForecast[key] = repForecast[key];
       }
     });
-  }
+  });
 };
 
 export const mergeCostReports = (reports: Report[], threshold?: number): Report[] => {
@@ -160,7 +163,7 @@ export const aggregateCostReports = (reports: Report[], aggregatedBy?: string):
 };
 
 export const getReportKeyAndValues = (reports: Report[] | undefined): { [key: string]: string[] } => {
-  const excludedKeys = new Set(['id', 'reports', 'forecast']);
+  const excludedKeys = new Set(['id', 'reports', 'forecast', 'forecastLow', 'forecastHigh']);
   const keyValueSets: { [key: string]: Set<string> } = {};
   reports?.forEach(report => {
     Object.keys(report).forEach(key => {
@@ -222,9 +225,28 @@ export const tagsToString = (tags: Tag[]): string => {
   return `(${keyValuePairs.join(' OR ')})`;
 };
 
+// Filters are sent to the backend in this format: (key1:value1,key2:(value2|value3))
+export const filtersToString = (filters: Filters): string => {
+  const keyValuePairs = Object.keys(filters)
+    .filter(key => filters[key].length > 0)
+    .map(key => (filters[key].length === 1 ? `${key}:${filters[key][0]}` : `${key}:(${filters[key].join('|')})`));
+  return keyValuePairs.length > 0 ? `(${keyValuePairs.join(',')})` : '';
+};
+
 export const getAllReportTags = (reports: Report[]): string[] => {
   const tags = new Set<string>();
-  const reservedKeys = new Set(['id', 'account', 'service', 'category', 'provider', 'reports', 'forecast']);
+  const reservedKeys = new Set([
+    'id',
+    'account',
+    'service',
+    'category',
+    'provider',
+    'reports',
+    'forecast',
+    'forecastLow',
+    'forecastHigh',
+    'currency',
+  ]);
   reports.forEach(report => {
     Object.keys(report).forEach(key => {
       if (!reservedKeys.has(key)) {
@@ -289,10 +311,34 @@ export interface BudgetAnalytics {
   };
 }
 
+export type MonthlyForecasts = {
+  value: Record<string, number>;
+  low?: Record<string, number>;
+  high?: Record<string, number>;
+};
+
+// Sum the forecasts of the months from the current month to the end of the year,
+// undefined if a month has no forecast
+const sumForecastsToEndOfYear = (forecasts: Record<string, number> | undefined): number | undefined => {
+  if (!forecasts) {
+    return undefined;
+  }
+  let sum = 0;
+  for (let month = moment().month() + 1; month <= 12; month++) {
+    const monthKey = `${moment().year()}-${month.toString().padStart(2, '0')}`;
+    if (forecasts[monthKey] === undefined) {
+      return undefined;
+    }
+    sum += forecasts[monthKey];
+  }
+  return sum;
+};
+
 export const calculateBudgetAnalytics = (
   monthlyCosts: Record<string, number>,
   annualBudget: number,
   forecast?: number,
+  monthlyForecasts?: MonthlyForecasts,
 ): BudgetAnalytics => {
   const currentMonth = moment().month() + 1;
   const currentYear = moment().year();
@@ -309,7 +355,8 @@ export const calculateBudgetAnalytics = (
       yearToDateSpent += monthCost;
       monthlySpending.push(monthCost);
     } else if (month === currentMonth) {
-      projectedCurrentMonthCost = forecast ?? (monthCost / daysIntoCurrentMonth) * daysInCurrentMonth;
+      projectedCurrentMonthCost =
+        forecast ?? monthlyForecasts?.value[monthKey] ?? (monthCost / daysIntoCurrentMonth) * daysInCurrentMonth;
       yearToDateSpent += monthCost;
       monthlySpending.push(projectedCurrentMonthCost);
     }
@@ -321,7 +368,13 @@ export const calculateBudgetAnalytics = (
 
   const monthlyRunRate = monthlySpending.length > 0 ? monthlySpending[monthlySpending.length - 1] || 0 : 0;
 
-  const projectedAnnualSpending = yearToDateSpent + averageMonthlySpending * monthsRemaining;
+  // the months before the current month are complete, the rest of the year is projected
+  const spentBeforeCurrentMonth = yearToDateSpent - (monthlyCosts[moment().format('YYYY-MM')] || 0);
+  const forecastToEndOfYear = sumForecastsToEndOfYear(monthlyForecasts?.value);
+  const projectedAnnualSpending =
+    forecastToEndOfYear === undefined
+      ? yearToDateSpent + averageMonthlySpending * monthsRemaining
+      : spentBeforeCurrentMonth + forecastToEndOfYear;
 
   const budgetUtilizationPercent = annualBudget > 0 ? (yearToDateSpent / annualBudget) * 100 : 0;
   const expectedUtilizationPercent = ((currentMonth - 1 + daysIntoCurrentMonth / daysInCurrentMonth) / 12) * 100;
@@ -354,6 +407,15 @@ export const calculateBudgetAnalytics = (
     low: Math.max(0, projectedAnnualSpending - spendingVariance * 2 * Math.sqrt(monthsRemaining)),
     high: projectedAnnualSpending + spendingVariance * 2 * Math.sqrt(monthsRemaining),
   };
+  // use the bounds of the forecasts when they cover the rest of the year
+  const lowForecastToEndOfYear = sumForecastsToEndOfYear(monthlyForecasts?.low);
+  const highForecastToEndOfYear = sumForecastsToEndOfYear(monthlyForecasts?.high);
+  if (forecastToEndOfYear !== undefined && lowForecastToEndOfYear !== undefined) {
+    confidenceRange.low = spentBeforeCurrentMonth + lowForecastToEndOfYear;
+  }
+  if (forecastToEndOfYear !== undefined && highForecastToEndOfYear !== undefined) {
+    confidenceRange.high = spentBeforeCurrentMonth + highForecastToEndOfYear;
+  }
 
   return {
     yearToDateSpent,
@@ -5,9 +5,20 @@ export type Report = {
   category?: string;
   provider?: string;
   project?: string; // optional, can be null
+  currency?: string; // ISO 4217 code, the wallet currency unless the costs could not be converted
   reports: {
     [period: string]: number;
   };
+  forecast?: {
+    [period: string]: number;
+  };
+  // bounds of the forecasts made from the saved costs, not set for the forecasts given by the providers
+  forecastLow?: {
+    [period: string]: number;
+  };
+  forecastHigh?: {
+    [period: string]: number;
+  };
   [key: string]: string | number | { [period: string]: number } | undefined;
 };
 
@@ -78,6 +89,25 @@ export type MetricsResponse = {
   status: number;
 };
 
+export type CostAnomaly = {
+  id: string;
+  provider: string;
+  account: string;
+  service: string;
+  period: string; // format YYYY-MM-DD
+  cost: number;
+  expectedCost: number;
+  score: number;
+  method: 'zscore' | 'mad';
+  currency: string;
+};
+
+export type CostAnomaliesResponse = {
+  data?: CostAnomaly[];
+  errors?: CloudProviderError[];
+  status: number;
+};
+
 export type MetricSetting = {
   id: string;
   wallet_id: string;
@@ -94,6 +124,76 @@ export type MetricsSettingResponse = {
   status: number;
 };
 
+export type AllocationMethod = 'fixed' | 'proportional_cost' | 'proportional_metric';
+
+export type AllocationTarget = {
+  name: string;
+  percentage?: number;
+  filters?: string;
+  metric?: string;
+};
+
+export type AllocationRule = {
+  id: string;
+  wallet_id: string;
+  name: string;
+  source_filters: string;
+  method: AllocationMethod;
+  targets: AllocationTarget[];
+};
+
+export type AllocationRulesResponse = {
+  data?: AllocationRule[];
+  status: number;
+};
+
+export type TeamCost = {
+  team: string; // the entity ref of the owning group
+  entities: string[];
+  currency: string;
+  reports: {
+    [period: string]: number;
+  };
+};
+
+export type TeamCostsResponse = {
+  data?: TeamCost[];
+  errors?: CloudProviderError[];
+  status: number;
+};
+
+export type EntityCost = {
+  entityRef: string;
+  currency: string;
+  reports: Report[];
+};
+
+export type EntityCostsResponse = {
+  data?: EntityCost[];
+  errors?: CloudProviderError[];
+  status: number;
+};
+
+export type EntityCostRollup = {
+  entityRef: string; // the group, system or domain
+  currency: string;
+  reports: {
+    [period: string]: number;
+  };
+  entities: {
+    entityRef: string;
+    reports: {
+      [period: string]: number;
+    };
+  }[];
+};
+
+export type EntityCostRollupResponse = {
+  data?: EntityCostRollup;
+  errors?: CloudProviderError[];
+  status: number;
+};
+
 export type Wallet = {
   id: string;
   name: string;
@@ -106,6 +206,11 @@ export type GetWalletResponse = {
   status: number;
 };
 
+export type WalletsResponse = {
+  data?: Wallet[];
+  status: number;
+};
+
 export type CustomCost = {
   id?: string; // UUID
   provider: string;
@@ -123,3 +228,85 @@ export type CustomCostsResponse = {
   data?: CustomCost[];
   status: number;
 };
+
+export type AuditEvent = {
+  id: string;
+  actor: string; // entity ref of the user or subject of the service
+  action: string; // create, update, delete or fetch
+  entity_type: string;
+  entity_id?: string;
+  wallet_name?: string;
+  before?: unknown;
+  after?: unknown;
+  created_at: string;
+};
+
+export type AuditEventsResponse = {
+  data?: AuditEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+  status: number;
+};
+
+export type IngestionRun = {
+  id: string;
+  provider: string;
+  integration: string;
+  granularity: string; // daily or monthly
+  started_at: string;
+  finished_at: string;
+  status: string; // succeeded, failed or skipped when the saved costs were kept
+  rows_written: number;
+  summary?: Record<string, number>; // counters of the transformation of the provider data
+  error?: string;
+};
+
+export type IngestionRunsResponse = {
+  data?: IngestionRun[];
+  total: number;
+  page: number;
+  pageSize: number;
+  status: number;
+};
+
+export type IngestionStatus = IngestionRun & {
+  last_succeeded_at?: string;
+};
+
+export type IngestionStatusResponse = {
+  data?: IngestionStatus[];
+  status: number;
+};
+
+export type BackfillRequest = {
+  provider: string; // the key of the integrations in the configuration, such as aws
+  integration?: string; // all the integrations of the provider are re-fetched if not given
+  granularity: string; // daily or monthly
+  startTime: number; // timestamp in milliseconds
+  endTime: number; // timestamp in milliseconds
+};
+
+export type BackfillJob = {
+  id: string;
+  provider: string;
+  integration?: string;
+  granularity: string;
+  start_time: string;
+  end_time: string;
+  status: string; // running, succeeded or failed
+  requested_by?: string;
+  error?: string;
+  created_at: string;
+  finished_at?: string;
+};
+
+export type BackfillJobResponse = {
+  data?: BackfillJob;
+  status: number;
+};
+
+export type BackfillJobsResponse = {
+  data?: BackfillJob[];
+  status: number;
+};
@@ -0,0 +1,305 @@
+import { alertApiRef, configApiRef, useApi } from '@backstage/core-plugin-api';
+import { usePermission } from '@backstage/plugin-permission-react';
+import { infraWalletAllocationRulesUpdatePermission } from '@electrolux-oss/plugin-infrawallet-common';
+import AddIcon from '@mui/icons-material/Add';
+import CancelIcon from '@mui/icons-material/Cancel';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import SaveIcon from '@mui/icons-material/Save';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import {
+  DataGrid,
+  GridActionsCellItem,
+  GridColDef,
+  GridEventListener,
+  GridRowEditStopReasons,
+  GridRowId,
+  GridRowModel,
+  GridRowModes,
+  GridRowModesModel,
+  GridRowsProp,
+  GridSlots,
+  Toolbar,
+} from '@mui/x-data-grid';
+import { FC, useCallback, useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { infraWalletApiRef } from '../../api/InfraWalletApi';
+import { AllocationMethod, AllocationRule, AllocationTarget, Wallet } from '../../api/types';
+
+const methodOptions: { value: AllocationMethod; label: string }[] = [
+  { value: 'fixed', label: 'Fixed percentages' },
+  { value: 'proportional_cost', label: 'Proportional to costs' },
+  { value: 'proportional_metric', label: 'Proportional to a metric' },
+];
+
+// the targets are edited as text, such as team-a=60; team-b=40 for the fixed percentages,
+// team-a=(account:123); team-b=(account:456) for the costs or team-a=requests_a for the business metrics
+const targetsToString = (rule: AllocationRule): string =>
+  rule.targets
+    .map(target => {
+      if (rule.method === 'proportional_cost') {
+        return `${target.name}=${target.filters ?? ''}`;
+      }
+      if (rule.method === 'proportional_metric') {
+        return `${target.name}=${target.metric ?? ''}`;
+      }
+      return `${target.name}=${target.percentage ?? ''}`;
+    })
+    .join('; ');
+
+const parseTargets = (text: string, method: AllocationMethod): AllocationTarget[] =>
+  text
+    .split(';')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const separatorIndex = entry.indexOf('=');
+      const name = (separatorIndex < 0 ? entry : entry.slice(0, separatorIndex)).trim();
+      const value = separatorIndex < 0 ? '' : entry.slice(separatorIndex + 1).trim();
+      if (method === 'proportional_cost') {
+        return { name, filters: value };
+      }
+      if (method === 'proportional_metric') {
+        return { name, metric: value };
+      }
+      return { name, percentage: parseFloat(value) };
+    });
+
+export const AllocationRulesComponent: FC<{ wallet?: Wallet }> = ({ wallet }) => {
+  const configApi = useApi(configApiRef);
+  const alertApi = useApi(alertApiRef);
+  const infraWalletApi = useApi(infraWalletApiRef);
+  const [rows, setRows] = useState<GridRowsProp>([]);
+  const [rowModesModel, setRowModesModel] = useState<GridRowModesModel>({});
+
+  const { allowed: updateAllowed } = usePermission({
+    permission: infraWalletAllocationRulesUpdatePermission,
+    resourceRef: wallet?.name,
+  });
+
+  const readOnly = (configApi.getOptionalBoolean('infraWallet.settings.readOnly') ?? false) || !updateAllowed;
+
+  const rowToRule = (row: GridRowModel): AllocationRule => ({
+    id: row.id,
+    wallet_id: row.wallet_id,
+    name: row.name,
+    source_filters: row.source_filters,
+    method: row.method,
+    targets: parseTargets(row.targets, row.method),
+  });
+
+  function EditToolbar() {
+    const handleClick = () => {
+      const id = uuidv4();
+      setRows(oldRows => [
+        ...oldRows,
+        {
+          id,
+          wallet_id: wallet ? wallet.id : '',
+          name: '',
+          source_filters: '',
+          method: 'fixed',
+          targets: '',
+          isNew: true,
+        },
+      ]);
+      setRowModesModel(oldModel => ({
+        ...oldModel,
+        [id]: { mode: GridRowModes.Edit, fieldToFocus: 'name' },
+      }));
+    };
+
+    return (
+      <Toolbar>
+        <Button color="primary" startIcon={<AddIcon />} onClick={handleClick}>
+          Add allocation rule
+        </Button>
+      </Toolbar>
+    );
+  }
+
+  const handleRowEditStop: GridEventListener<'rowEditStop'> = (params, event) => {
+    if (params.reason === GridRowEditStopReasons.rowFocusOut) {
+      event.defaultMuiPrevented = true;
+    }
+  };
+
+  const handleEditClick = (id: GridRowId) => () => {
+    setRowModesModel({ ...rowModesModel, [id]: { mode: GridRowModes.Edit } });
+  };
+
+  const handleSaveClick = (id: GridRowId) => () => {
+    setRowModesModel({ ...rowModesModel, [id]: { mode: GridRowModes.View } });
+  };
+
+  const handleDeleteClick = (row: GridRowModel) => () => {
+    if (wallet) {
+      infraWalletApi
+        .deleteAllocationRule(wallet.name, rowToRule(row))
+        .then(response => {
+          if (response.status === 200) {
+            setRows(rows.filter(r => r.id !== row.id));
+          } else {
+            alertApi.post({ message: 'Failed to delete the allocation rule', severity: 'error' });
+          }
+        })
+        .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
+    }
+  };
+
+  const handleCancelClick = (id: GridRowId) => () => {
+    setRowModesModel({
+      ...rowModesModel,
+      [id]: { mode: GridRowModes.View, ignoreModifications: true },
+    });
+
+    const editedRow = rows.find(row => row.id === id);
+    if (editedRow!.isNew) {
+      setRows(rows.filter(row => row.id !== id));
+    }
+  };
+
+  const processRowUpdate = (newRow: GridRowModel) => {
+    const updatedRow = { ...newRow, isNew: false };
+    if (wallet) {
+      infraWalletApi
+        .updateAllocationRule(wallet.name, rowToRule(updatedRow))
+        .then(response => {
+          if (response.status === 200) {
+            setRows(rows.map(row => (row.id === newRow.id ? updatedRow : row)));
+          } else {
+            alertApi.post({ message: 'Failed to update the allocation rule', severity: 'error' });
+          }
+        })
+        .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
+    }
+
+    return updatedRow;
+  };
+
+  const handleRowModesModelChange = (newRowModesModel: GridRowModesModel) => {
+    setRowModesModel(newRowModesModel);
+  };
+
+  const columns: GridColDef[] = [
+    {
+      field: 'name',
+      headerName: 'Rule Name',
+      width: 200,
+      editable: !readOnly,
+    },
+    {
+      field: 'source_filters',
+      headerName: 'Shared Costs',
+      width: 260,
+      editable: !readOnly,
+      sortable: false,
+      renderCell: params => {
+        return <div style={{ fontFamily: 'monospace', fontSize: '0.9em' }}>{params.row.source_filters}</div>;
+      },
+    },
+    {
+      field: 'method',
+      headerName: 'Split',
+      width: 220,
+      editable: !readOnly,
+      type: 'singleSelect',
+      valueOptions: methodOptions,
+    },
+    {
+      field: 'targets',
+      headerName: 'Targets',
+      flex: 1,
+      editable: !readOnly,
+      sortable: false,
+      renderCell: params => {
+        return <div style={{ fontFamily: 'monospace', fontSize: '0.9em' }}>{params.row.targets}</div>;
+      },
+    },
+  ];
+
+  if (!readOnly) {
+    columns.push({
+      field: 'actions',
+      type: 'actions',
+      headerName: 'Actions',
+      width: 100,
+      cellClassName: 'actions',
+      getActions: ({ id, row }) => {
+        const isInEditMode = rowModesModel[id]?.mode === GridRowModes.Edit;
+
+        if (isInEditMode) {
+          return [
+            <GridActionsCellItem icon={<SaveIcon />} label="Save" color="primary" onClick={handleSaveClick(id)} />,
+            <GridActionsCellItem
+              icon={<CancelIcon />}
+              label="Cancel"
+              className="textPrimary"
+              onClick={handleCancelClick(id)}
+              color="inherit"
+            />,
+          ];
+        }
+
+        return [
+          <GridActionsCellItem
+            icon={<EditIcon />}
+            label="Edit"
+            className="textPrimary"
+            onClick={handleEditClick(id)}
+            color="inherit"
+          />,
+          <GridActionsCellItem icon={<DeleteIcon />} label="Delete" onClick={handleDeleteClick(row)} color="inherit" />,
+        ];
+      },
+    });
+  }
+
+  const getAllocationRules = useCallback(async () => {
+    if (wallet) {
+      await infraWalletApi
+        .getAllocationRules(wallet.name)
+        .then(rulesResponse => {
+          if (rulesResponse.data && rulesResponse.status === 200) {
+            setRows(rulesResponse.data.map(rule => ({ ...rule, targets: targetsToString(rule) })));
+          }
+        })
+        .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
+    }
+  }, [wallet, infraWalletApi, alertApi]);
+
+  useEffect(() => {
+    getAllocationRules();
+  }, [getAllocationRules]);
+
+  return (
+    <Box
+      sx={{
+        height: 400,
+        width: '100%',
+        '& .actions': {
+          color: 'text.secondary',
+        },
+        '& .textPrimary': {
+          color: 'text.primary',
+        },
+      }}
+    >
+      <DataGrid
+        rows={rows}
+        columns={columns}
+        editMode="row"
+        rowModesModel={rowModesModel}
+        onRowModesModelChange={handleRowModesModelChange}
+        onRowEditStop={handleRowEditStop}
+        processRowUpdate={processRowUpdate}
+        slots={{
+          toolbar: EditToolbar as GridSlots['toolbar'],
+        }}
+        disableColumnMenu
+        showToolbar={!readOnly}
+      />
+    </Box>
+  );
+};
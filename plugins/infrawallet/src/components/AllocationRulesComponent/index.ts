@@ -0,0 +1 @@
+export { AllocationRulesComponent } from './AllocationRulesComponent';
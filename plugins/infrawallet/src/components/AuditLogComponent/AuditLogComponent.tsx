@@ -0,0 +1,116 @@
+import { alertApiRef, useApi } from '@backstage/core-plugin-api';
+import Box from '@mui/material/Box';
+import FormControl from '@mui/material/FormControl';
+import InputLabel from '@mui/material/InputLabel';
+import MenuItem from '@mui/material/MenuItem';
+import Select from '@mui/material/Select';
+import Tooltip from '@mui/material/Tooltip';
+import { DataGrid, GridColDef, GridPaginationModel, GridRenderCellParams } from '@mui/x-data-grid';
+import moment from 'moment';
+import { FC, useCallback, useEffect, useState } from 'react';
+import { infraWalletApiRef } from '../../api/InfraWalletApi';
+import { AuditEvent } from '../../api/types';
+
+const entityTypes = [
+  'allocation_rule',
+  'budget',
+  'cost_items',
+  'currency_rates',
+  'custom_cost',
+  'metric_setting',
+  'wallet',
+];
+
+const renderJsonCell = (params: GridRenderCellParams<AuditEvent>) => {
+  if (params.value === undefined || params.value === null) {
+    return '';
+  }
+
+  const json = JSON.stringify(params.value);
+  return (
+    <Tooltip title={<pre style={{ margin: 0 }}>{JSON.stringify(params.value, null, 2)}</pre>}>
+      <span>{json}</span>
+    </Tooltip>
+  );
+};
+
+export const AuditLogComponent: FC = () => {
+  const alertApi = useApi(alertApiRef);
+  const infraWalletApi = useApi(infraWalletApiRef);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [entityType, setEntityType] = useState<string>('');
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({ page: 0, pageSize: 20 });
+
+  const fetchAuditEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await infraWalletApi.getAuditEvents(
+        paginationModel.page,
+        paginationModel.pageSize,
+        entityType || undefined,
+      );
+      setEvents(response.data ?? []);
+      setTotal(response.total ?? 0);
+    } catch (e) {
+      alertApi.post({ message: `${(e as Error).message}`, severity: 'error' });
+    }
+    setLoading(false);
+  }, [alertApi, infraWalletApi, paginationModel, entityType]);
+
+  useEffect(() => {
+    fetchAuditEvents();
+  }, [fetchAuditEvents]);
+
+  const columns: GridColDef[] = [
+    {
+      field: 'created_at',
+      headerName: 'Time',
+      width: 180,
+      valueFormatter: (value: string) => moment(value).format('YYYY-MM-DD HH:mm:ss'),
+    },
+    { field: 'actor', headerName: 'Actor', flex: 1 },
+    { field: 'action', headerName: 'Action', width: 100 },
+    { field: 'entity_type', headerName: 'Entity Type', width: 140 },
+    { field: 'entity_id', headerName: 'Entity', flex: 1 },
+    { field: 'wallet_name', headerName: 'Wallet', width: 120 },
+    { field: 'before', headerName: 'Before', flex: 1, sortable: false, renderCell: renderJsonCell },
+    { field: 'after', headerName: 'After', flex: 1, sortable: false, renderCell: renderJsonCell },
+  ];
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      <FormControl size="small" sx={{ minWidth: 200, mb: 2 }}>
+        <InputLabel id="audit-entity-type-label">Entity Type</InputLabel>
+        <Select
+          labelId="audit-entity-type-label"
+          label="Entity Type"
+          value={entityType}
+          onChange={event => {
+            setEntityType(event.target.value);
+            setPaginationModel(model => ({ ...model, page: 0 }));
+          }}
+        >
+          <MenuItem value="">All</MenuItem>
+          {entityTypes.map(type => (
+            <MenuItem key={type} value={type}>
+              {type}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      <DataGrid
+        rows={events}
+        columns={columns}
+        loading={loading}
+        rowCount={total}
+        paginationMode="server"
+        paginationModel={paginationModel}
+        onPaginationModelChange={setPaginationModel}
+        pageSizeOptions={[20, 50, 100]}
+        disableColumnSorting
+      />
+    </Box>
+  );
+};
@@ -0,0 +1 @@
+export { AuditLogComponent } from './AuditLogComponent';
@@ -0,0 +1,242 @@
+import { alertApiRef, useApi } from '@backstage/core-plugin-api';
+import { usePermission } from '@backstage/plugin-permission-react';
+import { infraWalletCostsBackfillPermission } from '@electrolux-oss/plugin-infrawallet-common';
+import HistoryIcon from '@mui/icons-material/History';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import Autocomplete from '@mui/material/Autocomplete';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogContentText from '@mui/material/DialogContentText';
+import DialogTitle from '@mui/material/DialogTitle';
+import FormControl from '@mui/material/FormControl';
+import InputLabel from '@mui/material/InputLabel';
+import MenuItem from '@mui/material/MenuItem';
+import Select from '@mui/material/Select';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import { DataGrid, GridColDef, GridRenderCellParams } from '@mui/x-data-grid';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import moment from 'moment';
+import { FC, FormEvent, useCallback, useEffect, useState } from 'react';
+import { infraWalletApiRef } from '../../api/InfraWalletApi';
+import { BackfillJob, IngestionStatus, Wallet } from '../../api/types';
+
+const statusColors: Record<string, 'info' | 'success' | 'error'> = {
+  running: 'info',
+  succeeded: 'success',
+  failed: 'error',
+};
+
+const formatTime = (value?: string) => (value ? moment(value).format('YYYY-MM-DD HH:mm:ss') : '');
+
+export const BackfillComponent: FC<{ wallet?: Wallet }> = ({ wallet }) => {
+  const alertApi = useApi(alertApiRef);
+  const infraWalletApi = useApi(infraWalletApiRef);
+  const [jobs, setJobs] = useState<BackfillJob[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [integrations, setIntegrations] = useState<IngestionStatus[]>([]);
+  const [open, setOpen] = useState(false);
+  const [submittingForm, setSubmittingForm] = useState(false);
+  const [provider, setProvider] = useState<string>('');
+  const [integration, setIntegration] = useState<string>('');
+  const [granularity, setGranularity] = useState<string>('monthly');
+  const [from, setFrom] = useState<Date>(moment().subtract(1, 'month').startOf('month').toDate());
+  const [to, setTo] = useState<Date>(moment().subtract(1, 'month').endOf('month').toDate());
+
+  const { allowed: backfillAllowed } = usePermission({
+    permission: infraWalletCostsBackfillPermission,
+    resourceRef: wallet?.name,
+  });
+
+  const fetchBackfillJobs = useCallback(async () => {
+    if (!wallet) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await infraWalletApi.getBackfillJobs(wallet.name);
+      setJobs(response.data ?? []);
+    } catch (e) {
+      alertApi.post({ message: `${(e as Error).message}`, severity: 'error' });
+    }
+    setLoading(false);
+  }, [alertApi, infraWalletApi, wallet]);
+
+  useEffect(() => {
+    fetchBackfillJobs();
+  }, [fetchBackfillJobs]);
+
+  useEffect(() => {
+    // the integrations synced by the autoload task are suggested in the form
+    if (wallet) {
+      infraWalletApi
+        .getIngestionStatus(wallet.name)
+        .then(response => setIntegrations(response.data ?? []))
+        .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
+    }
+  }, [alertApi, infraWalletApi, wallet]);
+
+  const providerOptions = Array.from(new Set(integrations.map(status => status.provider)));
+  const integrationOptions = Array.from(
+    new Set(
+      integrations
+        .filter(status => status.provider.toLowerCase() === provider.toLowerCase())
+        .map(status => status.integration),
+    ),
+  );
+
+  const handleSubmit = (event: FormEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (!wallet) {
+      return;
+    }
+
+    setSubmittingForm(true);
+    infraWalletApi
+      .backfillCosts(wallet.name, {
+        provider: provider,
+        integration: integration || undefined,
+        granularity: granularity,
+        startTime: from.getTime(),
+        endTime: to.getTime(),
+      })
+      .then(() => {
+        alertApi.post({ message: `Backfill of ${provider} costs started`, severity: 'info' });
+        setOpen(false);
+        fetchBackfillJobs();
+      })
+      .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }))
+      .finally(() => setSubmittingForm(false));
+  };
+
+  const columns: GridColDef[] = [
+    { field: 'created_at', headerName: 'Requested', width: 180, valueFormatter: formatTime },
+    { field: 'requested_by', headerName: 'Requested By', flex: 1 },
+    { field: 'provider', headerName: 'Provider', width: 120 },
+    { field: 'integration', headerName: 'Integration', flex: 1, valueFormatter: (value?: string) => value ?? 'All' },
+    { field: 'granularity', headerName: 'Granularity', width: 110 },
+    {
+      field: 'start_time',
+      headerName: 'Period',
+      width: 220,
+      valueGetter: (_, row) =>
+        `${moment(row.start_time).format('YYYY-MM-DD')} - ${moment(row.end_time).format('YYYY-MM-DD')}`,
+    },
+    {
+      field: 'status',
+      headerName: 'Status',
+      width: 120,
+      renderCell: (params: GridRenderCellParams<BackfillJob>) => (
+        <Chip size="small" label={params.value} color={statusColors[params.value] ?? 'default'} variant="outlined" />
+      ),
+    },
+    { field: 'error', headerName: 'Error', flex: 2 },
+  ];
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h6" sx={{ flexGrow: 1 }}>
+          Cost Backfills
+        </Typography>
+        <Button startIcon={<RefreshIcon />} onClick={fetchBackfillJobs}>
+          Refresh
+        </Button>
+        <Button startIcon={<HistoryIcon />} onClick={() => setOpen(true)} disabled={!backfillAllowed || !wallet}>
+          Backfill
+        </Button>
+      </Box>
+      <DataGrid rows={jobs} columns={columns} loading={loading} hideFooter disableColumnSorting />
+      <Dialog
+        component="form"
+        fullWidth
+        maxWidth="sm"
+        open={open}
+        onClose={() => setOpen(false)}
+        onSubmit={handleSubmit}
+      >
+        <DialogTitle>Backfill Costs</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Re-fetch the costs of a provider in a period and replace the saved ones. The job runs in the background.
+          </DialogContentText>
+          <FormControl fullWidth sx={{ m: 1 }}>
+            <Autocomplete
+              freeSolo
+              options={providerOptions}
+              inputValue={provider}
+              onInputChange={(_, value) => {
+                setProvider(value);
+                setIntegration('');
+              }}
+              renderInput={params => <TextField {...params} variant="standard" label="Provider" required />}
+            />
+          </FormControl>
+          <FormControl fullWidth sx={{ m: 1 }}>
+            <Autocomplete
+              freeSolo
+              options={integrationOptions}
+              inputValue={integration}
+              onInputChange={(_, value) => setIntegration(value)}
+              renderInput={params => (
+                <TextField {...params} variant="standard" label="Integration" helperText="Leave blank for all" />
+              )}
+            />
+          </FormControl>
+          <FormControl fullWidth variant="standard" sx={{ m: 1 }}>
+            <InputLabel id="backfill-granularity-label">Granularity</InputLabel>
+            <Select
+              labelId="backfill-granularity-label"
+              value={granularity}
+              onChange={event => setGranularity(event.target.value)}
+            >
+              <MenuItem value="monthly">Monthly</MenuItem>
+              <MenuItem value="daily">Daily</MenuItem>
+            </Select>
+          </FormControl>
+          <LocalizationProvider dateAdapter={AdapterDateFns}>
+            <FormControl fullWidth sx={{ m: 1 }}>
+              <DatePicker
+                value={from}
+                label="From"
+                views={granularity === 'daily' ? ['year', 'month', 'day'] : ['year', 'month']}
+                slotProps={{ textField: { variant: 'standard' } }}
+                onAccept={value => {
+                  if (value) {
+                    setFrom(value);
+                  }
+                }}
+              />
+            </FormControl>
+            <FormControl fullWidth sx={{ m: 1 }}>
+              <DatePicker
+                value={to}
+                label="To"
+                views={granularity === 'daily' ? ['year', 'month', 'day'] : ['year', 'month']}
+                slotProps={{ textField: { variant: 'standard' } }}
+                onAccept={value => {
+                  if (value) {
+                    setTo(value);
+                  }
+                }}
+              />
+            </FormControl>
+          </LocalizationProvider>
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" type="submit" disabled={submittingForm || !provider}>
+            Submit
+          </Button>
+          <Button onClick={() => setOpen(false)}>Cancel</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -0,0 +1 @@
+export { BackfillComponent } from './BackfillComponent';
@@ -1,4 +1,6 @@
-import { alertApiRef, useApi } from '@backstage/core-plugin-api';
+import { alertApiRef, configApiRef, useApi } from '@backstage/core-plugin-api';
+import { usePermission } from '@backstage/plugin-permission-react';
+import { infraWalletBudgetsUpdatePermission } from '@electrolux-oss/plugin-infrawallet-common';
 import Box from '@mui/material/Box';
 import Button from '@mui/material/Button';
 import Card from '@mui/material/Card';
@@ -42,9 +44,11 @@ import {
   mergeCostReports,
   calculateBudgetAnalytics,
   BudgetAnalytics,
+  MonthlyForecasts,
 } from '../../api/functions';
 import { infraWalletApiRef } from '../../api/InfraWalletApi';
 import { Budget, Report } from '../../api/types';
+import { useSelectedWallet } from '../../hooks/useSelectedWallet';
 import { colorList } from '../constants';
 import { ProviderIcon } from '../ProviderIcon';
 import { BudgetsProps } from '../types';
@@ -116,12 +120,18 @@ function BudgetHealthIndicator({ status, utilizationPercent }: BudgetHealthIndic
   );
 }
 
+function getMonthlyForecasts(report: Report): MonthlyForecasts | undefined {
+  if (!report.forecast) return undefined;
+  return { value: report.forecast, low: report.forecastLow, high: report.forecastHigh };
+}
+
 interface BudgetChartProps {
   provider: string;
   monthlyCosts: Record<string, number>;
   view: string;
   budgets: Budget[];
   forecast?: number;
+  monthlyForecasts?: MonthlyForecasts;
   setBudgets: Dispatch<SetStateAction<Budget[]>>;
 }
 
@@ -146,8 +156,16 @@ function getRecommendationColor(type: string) {
 function BudgetChart(props: Readonly<BudgetChartProps>) {
   const { height } = useDrawingArea();
   const theme = useTheme();
-  const { provider, monthlyCosts, view, budgets, setBudgets, forecast } = props;
+  const { provider, monthlyCosts, view, budgets, setBudgets, forecast, monthlyForecasts } = props;
+  const configApi = useApi(configApiRef);
   const infraWalletApi = useApi(infraWalletApiRef);
+  const { walletName, currency } = useSelectedWallet();
+  const { allowed: updateAllowed } = usePermission({
+    permission: infraWalletBudgetsUpdatePermission,
+    resourceRef: walletName,
+  });
+
+  const readOnly = (configApi.getOptionalBoolean('infraWallet.settings.readOnly') ?? false) || !updateAllowed;
 
   const colorIndex = getProviderColorIndex(provider);
   const providerColor = colorList[colorIndex];
@@ -157,7 +175,12 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
 
   const [openManageBudget, setOpenManageBudget] = useState(false);
 
-  const budgetAnalytics: BudgetAnalytics = calculateBudgetAnalytics(monthlyCosts, annualBudgetAmount, forecast);
+  const budgetAnalytics: BudgetAnalytics = calculateBudgetAnalytics(
+    monthlyCosts,
+    annualBudgetAmount,
+    forecast,
+    monthlyForecasts,
+  );
 
   const updateBudget = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -169,7 +192,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
       name: annualBudget?.name || `${provider} annual budget`,
       amount: amount,
     };
-    await infraWalletApi.updateBudget('default', updated);
+    await infraWalletApi.updateBudget(walletName, updated);
     setBudgets(prev => {
       const index = prev.findIndex(b => b.provider.toLowerCase() === provider.toLowerCase());
       if (index >= 0) {
@@ -227,7 +250,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
         stack: 'combined',
         label: 'Actual Spend',
         color: providerColor,
-        valueFormatter: (value: number | null) => formatCurrency(value || 0),
+        valueFormatter: (value: number | null) => formatCurrency(value || 0, currency),
       },
     ];
 
@@ -244,7 +267,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
         color: `${providerColor}70`,
         valueFormatter: (value: number | null) => {
           if (value === 0) return null;
-          return formatCurrency(value || 0);
+          return formatCurrency(value || 0, currency);
         },
       });
     }
@@ -254,7 +277,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
         id: 'spendAxis',
         min: 0,
         max: monthlyMax,
-        valueFormatter: (value: number | null) => formatCurrency(value || 0),
+        valueFormatter: (value: number | null) => formatCurrency(value || 0, currency),
         colorMap: {
           type: 'piecewise',
           thresholds: [budgetAmount > 0 ? budgetAmount : Number.MAX_SAFE_INTEGER],
@@ -275,7 +298,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
         data: accumulatedCosts,
         type: 'line',
         showMark: false,
-        valueFormatter: (value: number | null) => formatCurrency(value || 0),
+        valueFormatter: (value: number | null) => formatCurrency(value || 0, currency),
       },
     ];
 
@@ -284,7 +307,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
         id: 'spendAxis',
         min: 0,
         max: max([...accumulatedCosts, budgetAmount, budgetAnalytics.confidenceRange.high]),
-        valueFormatter: (value: number | null) => formatCurrency(value || 0),
+        valueFormatter: (value: number | null) => formatCurrency(value || 0, currency),
         colorMap: {
           type: 'piecewise',
           thresholds: [budgetAmount > 0 ? budgetAmount : Number.MAX_SAFE_INTEGER],
@@ -322,10 +345,10 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
                   YTD Spent
                 </Typography>
                 <Typography variant="body2" fontWeight="bold">
-                  {formatCurrency(budgetAnalytics.yearToDateSpent)}
+                  {formatCurrency(budgetAnalytics.yearToDateSpent, currency)}
                 </Typography>
                 <Typography variant="caption" color="textSecondary">
-                  of {formatCurrency(annualBudgetAmount)}
+                  of {formatCurrency(annualBudgetAmount, currency)}
                 </Typography>
               </CardContent>
             </Card>
@@ -341,12 +364,12 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
                   fontWeight="bold"
                   color={budgetAnalytics.projectedAnnualSpending > annualBudgetAmount ? 'error' : 'inherit'}
                 >
-                  {formatCurrency(budgetAnalytics.projectedAnnualSpending)}
+                  {formatCurrency(budgetAnalytics.projectedAnnualSpending, currency)}
                 </Typography>
                 <Typography variant="caption" color="textSecondary">
                   {budgetAnalytics.projectedAnnualSpending > annualBudgetAmount
-                    ? `+${formatCurrency(budgetAnalytics.projectedAnnualSpending - annualBudgetAmount)} over`
-                    : `${formatCurrency(annualBudgetAmount - budgetAnalytics.projectedAnnualSpending)} under`}
+                    ? `+${formatCurrency(budgetAnalytics.projectedAnnualSpending - annualBudgetAmount, currency)} over`
+                    : `${formatCurrency(annualBudgetAmount - budgetAnalytics.projectedAnnualSpending, currency)} under`}
                 </Typography>
               </CardContent>
             </Card>
@@ -358,7 +381,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
                   Monthly Run Rate
                 </Typography>
                 <Typography variant="body2" fontWeight="bold">
-                  {formatCurrency(budgetAnalytics.monthlyRunRate)}
+                  {formatCurrency(budgetAnalytics.monthlyRunRate, currency)}
                 </Typography>
                 <Typography variant="caption" color={getSpendingVelocityColor(budgetAnalytics.spendingVelocity)}>
                   {getSpendingVelocityIcon(budgetAnalytics.spendingVelocity)}
@@ -380,7 +403,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
                     budgetAnalytics.targetMonthlySpending < budgetAnalytics.monthlyRunRate ? 'error' : 'success.main'
                   }
                 >
-                  {formatCurrency(budgetAnalytics.targetMonthlySpending)}
+                  {formatCurrency(budgetAnalytics.targetMonthlySpending, currency)}
                 </Typography>
                 <Typography variant="caption" color="textSecondary">
                   {budgetAnalytics.monthsRemaining.toFixed(1)} months left
@@ -412,7 +435,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
         <LineHighlightPlot />
         <ChartsReferenceLine
           y={budgetAmount}
-          label={budgetAmount ? formatCurrency(budgetAmount) : undefined}
+          label={budgetAmount ? formatCurrency(budgetAmount, currency) : undefined}
           labelAlign="end"
           lineStyle={{
             stroke: budgetAmount ? theme.palette.error.main : 'transparent',
@@ -427,7 +450,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
           <>
             <ChartsReferenceLine
               y={budgetAnalytics.projectedAnnualSpending}
-              label={`Projected: ${formatCurrency(budgetAnalytics.projectedAnnualSpending)}`}
+              label={`Projected: ${formatCurrency(budgetAnalytics.projectedAnnualSpending, currency)}`}
               labelAlign="start"
               lineStyle={{
                 stroke: theme.palette.warning.main,
@@ -440,7 +463,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
             {/* Confidence Range - High */}
             <ChartsReferenceLine
               y={budgetAnalytics.confidenceRange.high}
-              label={`High: ${formatCurrency(budgetAnalytics.confidenceRange.high)}`}
+              label={`High: ${formatCurrency(budgetAnalytics.confidenceRange.high, currency)}`}
               labelAlign="start"
               lineStyle={{
                 stroke: theme.palette.grey[400],
@@ -453,7 +476,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
             {/* Confidence Range - Low */}
             <ChartsReferenceLine
               y={budgetAnalytics.confidenceRange.low}
-              label={`Low: ${formatCurrency(budgetAnalytics.confidenceRange.low)}`}
+              label={`Low: ${formatCurrency(budgetAnalytics.confidenceRange.low, currency)}`}
               labelAlign="start"
               lineStyle={{
                 stroke: theme.palette.grey[400],
@@ -471,7 +494,7 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
       </ResponsiveChartContainer>
 
       <Box sx={{ textAlign: 'center' }}>
-        <Button onClick={() => setOpenManageBudget(true)}>Manage budget</Button>
+        {!readOnly && <Button onClick={() => setOpenManageBudget(true)}>Manage budget</Button>}
         <Dialog fullWidth maxWidth="sm" open={openManageBudget} onClose={() => setOpenManageBudget(false)}>
           <form onSubmit={updateBudget}>
             <DialogTitle>Manage Budget</DialogTitle>
@@ -486,7 +509,9 @@ function BudgetChart(props: Readonly<BudgetChartProps>) {
                     id="amount"
                     name="amount"
                     type="number"
-                    startAdornment={<InputAdornment position="start">$</InputAdornment>}
+                    startAdornment={
+                      <InputAdornment position="start">{(currency ?? 'USD').toUpperCase()}</InputAdornment>
+                    }
                     defaultValue={annualBudgetAmount}
                   />
                 </FormControl>
@@ -511,12 +536,18 @@ interface BudgetInsightsProps {
 }
 
 function BudgetInsights({ reports, budgets }: BudgetInsightsProps) {
+  const { currency } = useSelectedWallet();
   const insights = reports
     .map(report => {
       const budget = budgets.find(b => b.provider.toLowerCase() === report.id.toLowerCase());
       if (!budget?.amount) return null;
 
-      const analytics = calculateBudgetAnalytics(report.reports, budget.amount);
+      const analytics = calculateBudgetAnalytics(
+        report.reports,
+        budget.amount,
+        report.forecast?.[moment().format('YYYY-MM')],
+        getMonthlyForecasts(report),
+      );
       return { provider: report.id, budget, analytics };
     })
     .filter(Boolean);
@@ -548,9 +579,13 @@ function BudgetInsights({ reports, budgets }: BudgetInsightsProps) {
     if (totalProjected > totalBudget) {
       recommendations.push({
         type: 'info',
-        message: `Total projected spending (${formatCurrency(totalProjected)}) exceeds total budget (${formatCurrency(
-          totalBudget,
-        )}) by ${formatCurrency(totalProjected - totalBudget)}`,
+        message: `Total projected spending (${formatCurrency(
+          totalProjected,
+          currency,
+        )}) exceeds total budget (${formatCurrency(totalBudget, currency)}) by ${formatCurrency(
+          totalProjected - totalBudget,
+          currency,
+        )}`,
       });
     }
 
@@ -641,10 +676,20 @@ export const Budgets: FC<BudgetsProps> = ({ providerErrorsSetter }) => {
   const [budgets, setBudgets] = useState<Budget[]>([]);
   const infraWalletApi = useApi(infraWalletApiRef);
   const alertApi = useApi(alertApiRef);
+  const { walletName } = useSelectedWallet();
 
   const fetchCosts = useCallback(async () => {
     await infraWalletApi
-      .getCostReports('', [], '', 'monthly', moment().startOf('y').toDate(), moment().endOf('d').toDate())
+      .getCostReports(
+        '',
+        [],
+        '',
+        'monthly',
+        moment().startOf('y').toDate(),
+        moment().endOf('d').toDate(),
+        undefined,
+        walletName,
+      )
       .then(reportsResponse => {
         if (reportsResponse.data) {
           const aggregatedReports = aggregateCostReports(reportsResponse.data, 'provider');
@@ -656,7 +701,7 @@ export const Budgets: FC<BudgetsProps> = ({ providerErrorsSetter }) => {
         }
       })
       .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
-  }, [alertApi, infraWalletApi, providerErrorsSetter]);
+  }, [alertApi, infraWalletApi, providerErrorsSetter, walletName]);
 
   useEffect(() => {
     fetchCosts();
@@ -665,14 +710,14 @@ export const Budgets: FC<BudgetsProps> = ({ providerErrorsSetter }) => {
   useEffect(() => {
     const fetchBudgets = async () => {
       try {
-        const response = await infraWalletApi.getBudgets('default');
+        const response = await infraWalletApi.getBudgets(walletName);
         setBudgets(response.data || []);
       } catch (error) {
         // Failed to fetch budgets - silent error handling
       }
     };
     fetchBudgets();
-  }, [infraWalletApi]);
+  }, [infraWalletApi, walletName]);
 
   return (
     <Grid container spacing={3}>
@@ -700,11 +745,8 @@ export const Budgets: FC<BudgetsProps> = ({ providerErrorsSetter }) => {
       )}
       {reportsAggregatedAndMerged !== undefined ? (
         reportsAggregatedAndMerged.map(report => {
-          // Extract forecast value from report.forecast object (e.g., {"2026-01": 15000})
-          const forecastValue =
-            report.forecast && Object.keys(report.forecast).length > 0
-              ? (Object.values(report.forecast)[0] as number)
-              : undefined;
+          // Extract the forecast of the current month from report.forecast object (e.g., {"2026-01": 15000})
+          const forecastValue = report.forecast?.[moment().format('YYYY-MM')];
 
           return (
             <Grid item key={`${report.id}-grid`} xs={4}>
@@ -715,6 +757,7 @@ export const Budgets: FC<BudgetsProps> = ({ providerErrorsSetter }) => {
                 budgets={budgets}
                 setBudgets={setBudgets}
                 forecast={forecastValue}
+                monthlyForecasts={getMonthlyForecasts(report)}
               />
             </Grid>
           );
@@ -21,6 +21,9 @@ import { colorList } from '../constants';
 import { ColumnsChartComponentProps } from '../types';
 import { getProviderColorIndex } from '../utils';
 
+const ANOMALIES_SERIES_ID = 'anomalies';
+const ANOMALIES_COLOR = '#d32f2f';
+
 export const ColumnsChartComponent: FC<ColumnsChartComponentProps> = ({
   granularity,
   granularitySetter,
@@ -28,7 +31,9 @@ export const ColumnsChartComponent: FC<ColumnsChartComponentProps> = ({
   costs,
   metrics,
   budgets,
+  anomalies,
   height,
+  currency,
   highlightedItem,
   highlightedItemSetter,
 }) => {
@@ -52,23 +57,26 @@ export const ColumnsChartComponent: FC<ColumnsChartComponentProps> = ({
   }, []);
 
   // Helper: Create base costs series
-  const createBaseCostsSeries = useCallback((costsData: any[]) => {
-    return costsData.map(s => {
-      const colorIndex = getProviderColorIndex(s.name);
-      return {
-        id: s.name,
-        data: s.data,
-        type: 'bar' as const,
-        label: `${s.name} Actual Spend`,
-        yAxisId: 'costsAxis',
-        valueFormatter: (value: number) => formatCurrency(value || 0),
-        highlightScope: { highlight: 'series', fade: 'global' } as const,
-        stack: 'stack1',
-        stackOrder: 'descending' as const,
-        color: colorList[colorIndex],
-      };
-    });
-  }, []);
+  const createBaseCostsSeries = useCallback(
+    (costsData: any[]) => {
+      return costsData.map(s => {
+        const colorIndex = getProviderColorIndex(s.name);
+        return {
+          id: s.name,
+          data: s.data,
+          type: 'bar' as const,
+          label: `${s.name} Actual Spend`,
+          yAxisId: 'costsAxis',
+          valueFormatter: (value: number) => formatCurrency(value || 0, currency),
+          highlightScope: { highlight: 'series', fade: 'global' } as const,
+          stack: 'stack1',
+          stackOrder: 'descending' as const,
+          color: colorList[colorIndex],
+        };
+      });
+    },
+    [currency],
+  );
 
   // Helper: Build monthly costs lookup
   const buildMonthlyCosts = useCallback(
@@ -132,14 +140,14 @@ export const ColumnsChartComponent: FC<ColumnsChartComponentProps> = ({
         color: `${providerColor}70`,
         valueFormatter: (value: number) => {
           if (value === 0) return null;
-          return `Forecast: ${formatCurrency(projectedDelta)}`;
+          return `Forecast: ${formatCurrency(projectedDelta, currency)}`;
         },
         highlightScope: { highlight: 'series', fade: 'global' } as const,
         stack: 'stack1',
         stackOrder: 'descending' as const,
       };
     },
-    [buildMonthlyCosts],
+    [buildMonthlyCosts, currency],
   );
 
   // Helper: Create all projected delta series
@@ -189,6 +197,46 @@ export const ColumnsChartComponent: FC<ColumnsChartComponentProps> = ({
     }));
   }, [metrics, showMetrics, granularity]);
 
+  // Helper: Create anomaly markers, drawn on top of the stacked bars of the periods with anomalies
+  const createAnomaliesSeries = useCallback(
+    (sums: number[]) => {
+      if (!anomalies || anomalies.length === 0) return [];
+
+      // daily anomalies are grouped by month when the monthly granularity is selected
+      const anomaliesByPeriod = periods.map(period =>
+        anomalies.filter(a => (granularity === 'monthly' ? a.period.slice(0, 7) : a.period) === period),
+      );
+      if (anomaliesByPeriod.every(a => a.length === 0)) return [];
+
+      return [
+        {
+          id: ANOMALIES_SERIES_ID,
+          data: anomaliesByPeriod.map((a, i) => (a.length > 0 ? sums[i] || 0 : null)),
+          type: 'line' as const,
+          label: 'Anomalies',
+          yAxisId: 'costsAxis',
+          color: ANOMALIES_COLOR,
+          shape: 'triangle' as const,
+          showMark: true,
+          valueFormatter: (_value: number | null, context: { dataIndex: number }) => {
+            const periodAnomalies = anomaliesByPeriod[context.dataIndex];
+            if (!periodAnomalies || periodAnomalies.length === 0) return null;
+            return periodAnomalies
+              .map(
+                a =>
+                  `${a.provider}/${a.service}: ${formatCurrency(a.cost, a.currency)} (expected ${formatCurrency(
+                    a.expectedCost,
+                    a.currency,
+                  )})`,
+              )
+              .join(', ');
+          },
+        },
+      ];
+    },
+    [anomalies, periods, granularity],
+  );
+
   const initChartCallback = useCallback(async () => {
     setCostsSeries(undefined);
     setMetricsSeries(undefined);
@@ -199,8 +247,10 @@ export const ColumnsChartComponent: FC<ColumnsChartComponentProps> = ({
       const projectedDeltaSeries = createProjectedDeltaSeries(costs);
       const maxYValue = calculateMaxYAxis(sums, projectedDeltaSeries);
 
+      const anomaliesSeries = createAnomaliesSeries(sums);
+
       setMaxCostsYaxis(maxYValue);
-      setCostsSeries([...baseCostsSeries, ...projectedDeltaSeries]);
+      setCostsSeries([...baseCostsSeries, ...projectedDeltaSeries, ...anomaliesSeries]);
     }
 
     const metricsData = createMetricsSeriesData();
@@ -213,6 +263,7 @@ export const ColumnsChartComponent: FC<ColumnsChartComponentProps> = ({
     createBaseCostsSeries,
     createProjectedDeltaSeries,
     calculateMaxYAxis,
+    createAnomaliesSeries,
     createMetricsSeriesData,
   ]);
 
@@ -257,12 +308,16 @@ export const ColumnsChartComponent: FC<ColumnsChartComponentProps> = ({
             {
               id: 'costsAxis',
               max: maxCostsYaxis,
-              valueFormatter: value => formatCurrency(value),
+              valueFormatter: value => formatCurrency(value, currency),
             },
             {
               id: 'metricsAxis',
             },
           ]}
+          sx={{
+            // only the marks of the anomalies are displayed, not the line between them
+            [`& .MuiLineElement-series-${ANOMALIES_SERIES_ID}`]: { display: 'none' },
+          }}
           highlightedItem={highlightedItem ? { seriesId: highlightedItem } : null}
           onHighlightChange={highlighted => {
             highlightedItemSetter(highlighted?.seriesId);
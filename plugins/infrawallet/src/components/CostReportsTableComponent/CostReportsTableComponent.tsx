@@ -7,7 +7,12 @@ import { extractAccountInfo, formatCurrency, getPreviousDay, getPreviousMonth }
 import { ProviderIcon } from '../ProviderIcon';
 import { CostReportsTableComponentProps } from '../types';
 
-export const CostReportsTableComponent: FC<CostReportsTableComponentProps> = ({ reports, aggregatedBy, periods }) => {
+export const CostReportsTableComponent: FC<CostReportsTableComponentProps> = ({
+  reports,
+  aggregatedBy,
+  periods,
+  currency,
+}) => {
   let rows: any[] | undefined = reports;
   const columns: GridColDef[] = [];
   const columnTotals: { [key: string]: number } = {};
@@ -125,7 +130,7 @@ export const CostReportsTableComponent: FC<CostReportsTableComponentProps> = ({
       renderCell: (params: GridRenderCellParams): React.ReactNode => {
         let formattedValue = '-';
         if (typeof params.value === 'number') {
-          formattedValue = formatCurrency(params.value);
+          formattedValue = formatCurrency(params.value, currency);
         }
         return <div style={{ fontWeight: 'bold' }}>{formattedValue}</div>;
       },
@@ -153,7 +158,7 @@ export const CostReportsTableComponent: FC<CostReportsTableComponentProps> = ({
           let cost = '-';
 
           if (typeof value === 'number') {
-            cost = formatCurrency(value);
+            cost = formatCurrency(value, currency);
           }
 
           return (
@@ -1,4 +1,6 @@
 import { alertApiRef, configApiRef, useApi } from '@backstage/core-plugin-api';
+import { usePermission } from '@backstage/plugin-permission-react';
+import { infraWalletCustomCostsUpdatePermission } from '@electrolux-oss/plugin-infrawallet-common';
 import AddIcon from '@mui/icons-material/Add';
 import CancelIcon from '@mui/icons-material/Cancel';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
@@ -56,7 +58,9 @@ export const CustomCostsComponent: FC = () => {
   const [rows, setRows] = useState<GridRowsProp>([]);
   const [rowModesModel, setRowModesModel] = useState<GridRowModesModel>({});
 
-  const readOnly = configApi.getOptionalBoolean('infraWallet.settings.readOnly') ?? false;
+  const { allowed: updateAllowed } = usePermission({ permission: infraWalletCustomCostsUpdatePermission });
+
+  const readOnly = (configApi.getOptionalBoolean('infraWallet.settings.readOnly') ?? false) || !updateAllowed;
 
   const handleRowEditStop: GridEventListener<'rowEditStop'> = (params, event) => {
     if (params.reason === GridRowEditStopReasons.rowFocusOut) {
@@ -1,4 +1,4 @@
-import { Entity } from '@backstage/catalog-model';
+import { Entity, stringifyEntityRef } from '@backstage/catalog-model';
 import { InfoCard, Progress } from '@backstage/core-components';
 import { useApi } from '@backstage/core-plugin-api';
 import { useEntity } from '@backstage/plugin-catalog-react';
@@ -15,7 +15,7 @@ import Typography from '@mui/material/Typography';
 import { default as React, useEffect, useState } from 'react';
 import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 import { InfraWalletApi, infraWalletApiRef } from '../../api/InfraWalletApi';
-import { CostReportsResponse, Report, Tag } from '../../api/types';
+import { EntityCostsResponse, Report } from '../../api/types';
 
 const COLORS = [
   '#8884d8',
@@ -33,103 +33,24 @@ const COLORS = [
 const MONTHS_TO_INCLUDE = 2;
 const NUM_DIGITS_AFTER_DECIMALPOINT = 2;
 
-async function getFilteredCostReports(
-  infrawalletApi: InfraWalletApi,
-  entity: Entity,
-  filters: string,
-  tags: Tag[],
-): Promise<Report[] | null> {
-  const groups = '';
+// the annotations of the entity are resolved by the backend, which serves the costs of the entities from a cache
+async function getEntityCostReports(infrawalletApi: InfraWalletApi, entity: Entity): Promise<Report[] | null> {
   const granularity = 'monthly';
 
   const endTime = new Date();
-  const startTime = new Date();
-  startTime.setMonth(endTime.getMonth() - MONTHS_TO_INCLUDE);
+  const startTime = new Date(endTime.getFullYear(), endTime.getMonth() - MONTHS_TO_INCLUDE, 1);
 
-  const costReportsResponse: CostReportsResponse = await infrawalletApi.getCostReports(
-    filters,
-    tags,
-    groups,
+  const entityCostsResponse: EntityCostsResponse = await infrawalletApi.getEntityCosts(
+    [stringifyEntityRef(entity)],
     granularity,
     startTime,
     endTime,
-    encodeURI(`${entity.metadata.namespace}/${entity.metadata.name}`),
   );
 
-  if (costReportsResponse.status !== 200) {
+  if (entityCostsResponse.status !== 200) {
     throw new Error('Failed to fetch cost reports');
   }
-  return costReportsResponse.data ?? null;
-}
-
-function getTags(annotations: Record<string, string>): Tag[] {
-  const tags: Tag[] = [];
-  if (annotations['infrawallet.io/tags'] && annotations['infrawallet.io/provider']) {
-    const tagsString = annotations['infrawallet.io/tags'];
-    const provider = annotations['infrawallet.io/provider'];
-    tagsString.split(',').forEach(pair => {
-      const [key, value]: string[] = pair.split(':').map((s: string) => s.trim());
-      if (key && value) {
-        tags.push({
-          key,
-          value,
-          provider,
-        });
-      }
-    });
-  }
-  return tags;
-}
-
-function getFilters(annotations: Record<string, string>): string {
-  if (!annotations || Object.keys(annotations).length === 0) {
-    return '';
-  }
-  const annotationKeys = [
-    'infrawallet.io/project',
-    'infrawallet.io/account',
-    'infrawallet.io/service',
-    'infrawallet.io/category',
-    'infrawallet.io/provider',
-  ];
-
-  const filtersObj: Record<string, string[]> = {};
-
-  annotationKeys.forEach(key => {
-    if (annotations[key]) {
-      const shortKey = key.replace('infrawallet.io/', '');
-      const values = annotations[key]
-        .split(',')
-        .map((v: string) => v.trim())
-        .filter((v: string) => v.length > 0);
-      filtersObj[shortKey] = values;
-    }
-  });
-
-  if (annotations['infrawallet.io/extra-filters']) {
-    const extraFilters = annotations['infrawallet.io/extra-filters'];
-    // assuming extra-filters are in the format "key1: value1, key2: value2"
-    extraFilters.split(',').forEach(pair => {
-      const [key, value] = pair.split(':').map(s => s.trim());
-      if (key && value) {
-        const values = value
-          .split('|')
-          .map((v: string) => v.trim())
-          .filter((v: string) => v.length > 0);
-        filtersObj[key] = values;
-      }
-    });
-  }
-
-  // build filters string for API call (include all filters)
-  const filtersArray = Object.entries(filtersObj).map(([key, values]) => {
-    if (values.length === 1) {
-      return `${key}:${values[0]}`;
-    }
-    const valuesString = values.join('|');
-    return `${key}:(${valuesString})`;
-  });
-  return `(${filtersArray.join(',')})`;
+  return entityCostsResponse.data?.[0]?.reports ?? null;
 }
 
 function getPeriodsFromReports(costData: Report[] | null): string[] {
@@ -401,14 +322,10 @@ export const EntityInfraWalletCard = () => {
     const fetchData = async () => {
       setLoading(true);
       setError(null);
-      const annotations = entity.metadata.annotations ?? {};
-
-      const tags: Tag[] = getTags(annotations);
-      const filters = getFilters(annotations);
 
       let costReports: Report[] | null = [];
       try {
-        costReports = await getFilteredCostReports(infrawalletApi, entity, filters, tags);
+        costReports = await getEntityCostReports(infrawalletApi, entity);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to fetch cost reports');
         setErrorSeverity('error');
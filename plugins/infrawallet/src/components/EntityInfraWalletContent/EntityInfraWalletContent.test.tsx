@@ -0,0 +1,40 @@
+import { Entity } from '@backstage/catalog-model';
+import { getEntityFiltersAndTags } from './EntityInfraWalletContent';
+
+describe('getEntityFiltersAndTags', () => {
+  const createEntity = (annotations: Record<string, string>): Entity => ({
+    apiVersion: 'backstage.io/v1alpha1',
+    kind: 'Component',
+    metadata: { name: 'payments-api', annotations },
+  });
+
+  it('should return the filters of the annotations', () => {
+    const result = getEntityFiltersAndTags(
+      createEntity({
+        'infrawallet.io/provider': 'AWS',
+        'infrawallet.io/account': 'payments-prod, payments-staging',
+        'infrawallet.io/extra-filters': 'service: AWS/EC2|AWS/RDS',
+      }),
+    );
+    expect(result).toEqual({
+      filters: {
+        provider: ['AWS'],
+        account: ['payments-prod', 'payments-staging'],
+        service: ['AWS/EC2', 'AWS/RDS'],
+      },
+      tags: [],
+    });
+  });
+
+  it('should return the tags of the provider', () => {
+    const result = getEntityFiltersAndTags(
+      createEntity({ 'infrawallet.io/provider': 'AWS', 'infrawallet.io/tags': 'team: payments' }),
+    );
+    expect(result.tags).toEqual([{ key: 'team', value: 'payments', provider: 'AWS' }]);
+  });
+
+  it('should ignore the tags without a provider', () => {
+    const result = getEntityFiltersAndTags(createEntity({ 'infrawallet.io/tags': 'team: payments' }));
+    expect(result).toEqual({ filters: {}, tags: [] });
+  });
+});
@@ -0,0 +1,76 @@
+import { Entity } from '@backstage/catalog-model';
+import { useEntity } from '@backstage/plugin-catalog-react';
+import { useMemo } from 'react';
+import { Filters, Tag } from '../../api/types';
+import {
+  getInfraWalletAccountAnnotation,
+  getInfraWalletCategoryAnnotation,
+  getInfraWalletExtrasAnnotation,
+  getInfraWalletProjectAnnotation,
+  getInfraWalletProviderAnnotation,
+  getInfraWalletServiceAnnotation,
+  getInfraWalletTagsAnnotation,
+} from '../InfraWalletAppData';
+import { Overview } from '../Overview';
+
+const splitValues = (value: string, separator: string): string[] =>
+  value
+    .split(separator)
+    .map(v => v.trim())
+    .filter(v => v.length > 0);
+
+// the filters of the Overview page selected by the annotations of the entity, same as the entity card
+export function getEntityFiltersAndTags(entity: Entity): { filters: Filters; tags: Tag[] } {
+  const filters: Filters = {};
+  const annotations: Record<string, string> = {
+    project: getInfraWalletProjectAnnotation(entity),
+    account: getInfraWalletAccountAnnotation(entity),
+    service: getInfraWalletServiceAnnotation(entity),
+    category: getInfraWalletCategoryAnnotation(entity),
+    provider: getInfraWalletProviderAnnotation(entity),
+  };
+  Object.entries(annotations).forEach(([key, value]) => {
+    const values = splitValues(value, ',');
+    if (values.length > 0) {
+      filters[key] = values;
+    }
+  });
+
+  // extra filters are in the format "key1: value1|value2, key2: value3"
+  getInfraWalletExtrasAnnotation(entity)
+    .split(',')
+    .forEach(pair => {
+      const [key, value] = pair.split(':').map(s => s.trim());
+      if (key && value) {
+        filters[key] = splitValues(value, '|');
+      }
+    });
+
+  const tags: Tag[] = [];
+  const provider = getInfraWalletProviderAnnotation(entity);
+  if (provider) {
+    getInfraWalletTagsAnnotation(entity)
+      .split(',')
+      .forEach(pair => {
+        const [key, value] = pair.split(':').map(s => s.trim());
+        if (key && value) {
+          tags.push({ key, value, provider });
+        }
+      });
+  }
+
+  return { filters, tags };
+}
+
+export const EntityInfraWalletContent = () => {
+  const { entity } = useEntity();
+  const { filters, tags } = useMemo(() => getEntityFiltersAndTags(entity), [entity]);
+
+  return (
+    <Overview
+      defaultFilters={filters}
+      defaultTags={tags}
+      entityName={encodeURI(`${entity.metadata.namespace ?? 'default'}/${entity.metadata.name}`)}
+    />
+  );
+};
@@ -0,0 +1 @@
+export { EntityInfraWalletContent } from './EntityInfraWalletContent';
@@ -0,0 +1,27 @@
+import { EntityCostRollup } from '../../api/types';
+import { getRollupRows } from './EntityInfraWalletRollupCard';
+
+describe('getRollupRows', () => {
+  const rollup: EntityCostRollup = {
+    entityRef: 'system:default/shop',
+    currency: 'EUR',
+    reports: { '2026-08': 60, '2026-09': 75 },
+    entities: [
+      { entityRef: 'component:default/cart', reports: { '2026-08': 50, '2026-09': 25 } },
+      { entityRef: 'component:default/checkout', reports: { '2026-09': 50 } },
+    ],
+  };
+
+  it('should sort the entities by the cost of the last month', () => {
+    const rows = getRollupRows(rollup, '2026-09', '2026-08');
+    expect(rows.map(row => row.entityRef)).toEqual(['component:default/checkout', 'component:default/cart']);
+  });
+
+  it('should compare the last month with the month before', () => {
+    const rows = getRollupRows(rollup, '2026-09', '2026-08');
+    expect(rows).toEqual([
+      { entityRef: 'component:default/checkout', lastMonth: 50, change: null },
+      { entityRef: 'component:default/cart', lastMonth: 25, change: -50 },
+    ]);
+  });
+});
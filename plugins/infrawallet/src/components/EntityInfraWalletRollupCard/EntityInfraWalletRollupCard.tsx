@@ -0,0 +1,158 @@
+import { stringifyEntityRef } from '@backstage/catalog-model';
+import { InfoCard, Progress } from '@backstage/core-components';
+import { useApi } from '@backstage/core-plugin-api';
+import { EntityRefLink, useEntity } from '@backstage/plugin-catalog-react';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Typography from '@mui/material/Typography';
+import { SparkLineChart } from '@mui/x-charts/SparkLineChart';
+import moment from 'moment';
+import { useEffect, useMemo, useState } from 'react';
+import { formatCurrency, getPeriodStrings } from '../../api/functions';
+import { infraWalletApiRef } from '../../api/InfraWalletApi';
+import { CloudProviderError, EntityCostRollup } from '../../api/types';
+import { ErrorsAlertComponent } from '../ErrorsAlertComponent';
+
+const MONTHS_TO_INCLUDE = 6;
+
+export type RollupRow = {
+  entityRef: string;
+  lastMonth: number;
+  change: number | null; // change of the last complete month compared to the month before, in percent
+};
+
+function getChange(current: number, previous: number): number | null {
+  return previous > 0 ? ((current - previous) / previous) * 100 : null;
+}
+
+// the current month is not complete, the change compares the two months before it
+export function getRollupRows(rollup: EntityCostRollup, lastMonth: string, monthBefore: string): RollupRow[] {
+  return rollup.entities
+    .map(entity => ({
+      entityRef: entity.entityRef,
+      lastMonth: entity.reports[lastMonth] ?? 0,
+      change: getChange(entity.reports[lastMonth] ?? 0, entity.reports[monthBefore] ?? 0),
+    }))
+    .sort((a, b) => b.lastMonth - a.lastMonth);
+}
+
+const ChangeChip = ({ change }: { change: number | null }) => {
+  if (change === null) {
+    return <>-</>;
+  }
+  return (
+    <Chip
+      size="small"
+      variant="outlined"
+      label={`${change > 0 ? '+' : ''}${change.toFixed(1)}%`}
+      color={change > 0 ? 'error' : 'success'}
+    />
+  );
+};
+
+export const EntityInfraWalletRollupCard = () => {
+  const { entity } = useEntity();
+  const infraWalletApi = useApi(infraWalletApiRef);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<CloudProviderError[]>([]);
+  const [rollup, setRollup] = useState<EntityCostRollup | null>(null);
+
+  const [startTime, endTime] = useMemo(
+    () => [
+      moment()
+        .subtract(MONTHS_TO_INCLUDE - 1, 'months')
+        .startOf('month')
+        .toDate(),
+      moment().endOf('month').toDate(),
+    ],
+    [],
+  );
+  const periods = useMemo(() => getPeriodStrings('monthly', startTime, endTime), [startTime, endTime]);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await infraWalletApi.getEntityCostRollup(
+          stringifyEntityRef(entity),
+          'monthly',
+          startTime,
+          endTime,
+        );
+        setRollup(response.data ?? null);
+        setErrors(response.errors ?? []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch cost reports');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchData();
+  }, [entity, infraWalletApi, startTime, endTime]);
+
+  const lastMonth = periods[periods.length - 2];
+  const monthBefore = periods[periods.length - 3];
+  const lastMonthTotal = rollup?.reports[lastMonth] ?? 0;
+  const rows = rollup ? getRollupRows(rollup, lastMonth, monthBefore) : [];
+
+  return (
+    <InfoCard title="InfraWallet">
+      {loading && <Progress />}
+      {error && <Alert severity="error">{error}</Alert>}
+      {!loading && !error && rows.length === 0 && (
+        <Alert severity="warning">No entities with InfraWallet annotations were found under this entity.</Alert>
+      )}
+      {!loading && !error && rollup && rows.length > 0 && (
+        <Box p={2}>
+          {errors.length > 0 && <ErrorsAlertComponent errors={errors} />}
+          <Box display="flex" alignItems="center">
+            <Typography variant="h6" sx={{ fontWeight: 'bold', mr: 1 }}>
+              {lastMonth}: {formatCurrency(lastMonthTotal, rollup.currency)}
+            </Typography>
+            <ChangeChip change={getChange(lastMonthTotal, rollup.reports[monthBefore] ?? 0)} />
+          </Box>
+          <Box height={80}>
+            <SparkLineChart data={periods.map(period => rollup.reports[period] ?? 0)} plotType="bar" />
+          </Box>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 'bold' }}>Entity</TableCell>
+                <TableCell align="right" sx={{ fontWeight: 'bold' }}>
+                  {lastMonth}
+                </TableCell>
+                <TableCell align="right" sx={{ fontWeight: 'bold' }}>
+                  Monthly Change
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.entityRef}>
+                  <TableCell component="th" scope="row">
+                    <EntityRefLink entityRef={row.entityRef} />
+                  </TableCell>
+                  <TableCell align="right">{formatCurrency(row.lastMonth, rollup.currency)}</TableCell>
+                  <TableCell align="right">
+                    <ChangeChip change={row.change} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Typography variant="caption" color="textSecondary">
+            The total counts the costs shared by several entities once, so it can be lower than the sum of the entities.
+          </Typography>
+        </Box>
+      )}
+    </InfoCard>
+  );
+};
@@ -0,0 +1 @@
+export { EntityInfraWalletRollupCard } from './EntityInfraWalletRollupCard';
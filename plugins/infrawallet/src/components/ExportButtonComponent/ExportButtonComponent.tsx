@@ -0,0 +1,39 @@
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import Button from '@mui/material/Button';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import { FC, MouseEvent, useState } from 'react';
+import { ExportButtonComponentProps } from '../types';
+
+export const ExportButtonComponent: FC<ExportButtonComponentProps> = ({ onExport }) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [exporting, setExporting] = useState<boolean>(false);
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setAnchorEl(null);
+    setExporting(true);
+    try {
+      await onExport(format);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        size="small"
+        startIcon={<FileDownloadIcon />}
+        disabled={exporting}
+        onClick={(event: MouseEvent<HTMLElement>) => setAnchorEl(event.currentTarget)}
+      >
+        {exporting ? 'Exporting...' : 'Export'}
+      </Button>
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={() => handleExport('csv')}>CSV</MenuItem>
+        <MenuItem onClick={() => handleExport('xlsx')}>Excel (XLSX)</MenuItem>
+      </Menu>
+    </>
+  );
+};
@@ -0,0 +1 @@
+export { ExportButtonComponent } from './ExportButtonComponent';
@@ -43,6 +43,7 @@ export const FiltersComponent: FC<FiltersComponentProps> = ({
   selectedTags: selectedTagsProp,
   selectedTagsSetter,
   providerErrorsSetter,
+  walletName,
 }) => {
   const theme = useTheme();
   const keyValues: { [key: string]: string[] } = getReportKeyAndValues(reports);
@@ -139,7 +140,7 @@ export const FiltersComponent: FC<FiltersComponentProps> = ({
     (async () => {
       if (tagProvider) {
         await infraWalletApi
-          .getTagKeys(tagProvider, monthRange.startMonth, monthRange.endMonth)
+          .getTagKeys(tagProvider, monthRange.startMonth, monthRange.endMonth, walletName)
           .then(response => {
             if (response.data) {
               setTagKeys(response.data);
@@ -151,7 +152,7 @@ export const FiltersComponent: FC<FiltersComponentProps> = ({
           .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
       }
     })();
-  }, [loadingTagKeys, tagProvider, monthRange, infraWalletApi, alertApi, providerErrorsSetter]);
+  }, [loadingTagKeys, tagProvider, monthRange, walletName, infraWalletApi, alertApi, providerErrorsSetter]);
 
   useEffect(() => {
     if (!loadingTagValues) {
@@ -161,7 +162,7 @@ export const FiltersComponent: FC<FiltersComponentProps> = ({
     (async () => {
       if (selectedTagKey) {
         await infraWalletApi
-          .getTagValues(selectedTagKey, monthRange.startMonth, monthRange.endMonth)
+          .getTagValues(selectedTagKey, monthRange.startMonth, monthRange.endMonth, walletName)
           .then(response => {
             if (response.data) {
               setTagValues(response.data);
@@ -173,7 +174,7 @@ export const FiltersComponent: FC<FiltersComponentProps> = ({
           .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
       }
     })();
-  }, [loadingTagValues, selectedTagKey, monthRange, infraWalletApi, alertApi, providerErrorsSetter]);
+  }, [loadingTagValues, selectedTagKey, monthRange, walletName, infraWalletApi, alertApi, providerErrorsSetter]);
 
   return (
     <Grid container>
@@ -1,25 +1,42 @@
-import { configApiRef, useApi } from '@backstage/core-plugin-api';
-import { useEffect, useMemo } from 'react';
+import { alertApiRef, configApiRef, useApi } from '@backstage/core-plugin-api';
+import { usePermission } from '@backstage/plugin-permission-react';
+import { infraWalletAuditReadPermission } from '@electrolux-oss/plugin-infrawallet-common';
+import { useEffect, useMemo, useState } from 'react';
 import { useLocation, useNavigate, Outlet } from 'react-router-dom';
+import { infraWalletApiRef } from '../../api/InfraWalletApi';
+import { Wallet } from '../../api/types';
+import { DEFAULT_WALLET_NAME, SelectedWalletContext } from '../../hooks/useSelectedWallet';
 import { HomePageProps } from '../types';
 import { Header, Container } from '@backstage/ui';
 
 export const HomePage = (props: HomePageProps) => {
   const { title } = props;
   const configApi = useApi(configApiRef);
+  const alertApi = useApi(alertApiRef);
+  const infraWalletApi = useApi(infraWalletApiRef);
   const location = useLocation();
   const navigate = useNavigate();
+  const [wallets, setWallets] = useState<Wallet[]>([]);
+  const [walletName, setWalletName] = useState<string>(sessionStorage.getItem('walletName') ?? DEFAULT_WALLET_NAME);
 
   const budgetsEnabled = configApi.getOptionalBoolean('infraWallet.settings.budgets.enabled') ?? true;
+  const teamsEnabled = configApi.getOptionalBoolean('infraWallet.settings.teams.enabled') ?? true;
   const customCostsEnabled = configApi.getOptionalBoolean('infraWallet.settings.customCosts.enabled') ?? true;
   const businessMetricsEnabled = configApi.getOptionalBoolean('infraWallet.settings.businessMetrics.enabled') ?? true;
+  const syncStatusEnabled = configApi.getOptionalBoolean('infraWallet.settings.syncStatus.enabled') ?? true;
+  const auditEnabled = configApi.getOptionalBoolean('infraWallet.settings.audit.enabled') ?? true;
+  // the tab is kept while the permission is loading, otherwise the page would be redirected to the overview
+  const auditPermission = usePermission({ permission: infraWalletAuditReadPermission });
   const overviewTab = 'overview';
   const basePath = '/infrawallet';
   const tabConfig = [
     { id: overviewTab, label: 'Overview', enabled: true },
     { id: 'budgets', label: 'Budgets', enabled: budgetsEnabled },
+    { id: 'teams', label: 'Teams', enabled: teamsEnabled },
     { id: 'custom-costs', label: 'Custom Costs', enabled: customCostsEnabled },
     { id: 'business-metrics', label: 'Business Metrics', enabled: businessMetricsEnabled },
+    { id: 'sync-status', label: 'Sync Status', enabled: syncStatusEnabled },
+    { id: 'audit', label: 'Audit', enabled: auditEnabled && (auditPermission.loading || auditPermission.allowed) },
   ];
   const activeTabs = tabConfig.filter(tab => tab.enabled);
   const pathSegments = location.pathname.split('/').filter(Boolean);
@@ -53,11 +70,39 @@ export const HomePage = (props: HomePageProps) => {
     }
   }, [activeTabIndex, overviewTab, navigate]);
 
+  useEffect(() => {
+    infraWalletApi
+      .getWallets()
+      .then(walletsResponse => setWallets(walletsResponse.data ?? []))
+      .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
+  }, [infraWalletApi, alertApi]);
+
+  useEffect(() => {
+    // fall back to the default wallet if the selected one does not exist anymore
+    if (wallets.length > 0 && !wallets.some(wallet => wallet.name === walletName)) {
+      setWalletName(DEFAULT_WALLET_NAME);
+    }
+  }, [wallets, walletName]);
+
+  useEffect(() => {
+    sessionStorage.setItem('walletName', walletName);
+  }, [walletName]);
+
+  const selectedWalletContext: SelectedWalletContext = useMemo(
+    () => ({
+      walletName,
+      walletNameSetter: setWalletName,
+      wallets,
+      currency: wallets.find(wallet => wallet.name === walletName)?.currency,
+    }),
+    [walletName, wallets],
+  );
+
   return (
     <>
       <Header title={title ?? ''} tabs={headerTabs} />
       <Container>
-        <Outlet />
+        <Outlet context={selectedWalletContext} />
       </Container>
     </>
   );
@@ -0,0 +1,26 @@
+import { Report } from '../../api/types';
+import { getTopServiceRows, getTotalCosts } from './HomePageInfraWalletCard';
+
+describe('HomePageInfraWalletCard', () => {
+  const reports: Report[] = [
+    { id: 'a', service: 'AWS/EC2', reports: { '2026-08': 100, '2026-09': 50 } },
+    { id: 'b', service: 'AWS/EC2', reports: { '2026-08': 20, '2026-09': 10 } },
+    { id: 'c', service: 'AWS/S3', reports: { '2026-09': 80 } },
+    { id: 'd', service: 'AWS/RDS', reports: { '2026-08': 30 } },
+  ];
+
+  it('should sum the costs of each period', () => {
+    expect(getTotalCosts(reports, ['2026-08', '2026-09', '2026-10'])).toEqual([150, 140, 0]);
+  });
+
+  it('should sort the services by the cost of the last month and skip the services without costs', () => {
+    expect(getTopServiceRows(reports, '2026-09', '2026-08')).toEqual([
+      { service: 'AWS/S3', lastMonth: 80, change: null },
+      { service: 'AWS/EC2', lastMonth: 60, change: -50 },
+    ]);
+  });
+
+  it('should keep the services with the highest costs', () => {
+    expect(getTopServiceRows(reports, '2026-09', '2026-08', 1).map(row => row.service)).toEqual(['AWS/S3']);
+  });
+});
@@ -0,0 +1,184 @@
+import { Progress } from '@backstage/core-components';
+import { useApi } from '@backstage/core-plugin-api';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Typography from '@mui/material/Typography';
+import { SparkLineChart } from '@mui/x-charts/SparkLineChart';
+import moment from 'moment';
+import { useEffect, useMemo, useState } from 'react';
+import { formatCurrency, getPeriodStrings } from '../../api/functions';
+import { infraWalletApiRef } from '../../api/InfraWalletApi';
+import { CloudProviderError, Report } from '../../api/types';
+import { ErrorsAlertComponent } from '../ErrorsAlertComponent';
+
+const MONTHS_TO_INCLUDE = 6;
+const SERVICES_TO_INCLUDE = 5;
+
+export type ServiceRow = {
+  service: string;
+  lastMonth: number;
+  change: number | null; // change of the last complete month compared to the month before, in percent
+};
+
+function getChange(current: number, previous: number): number | null {
+  return previous > 0 ? ((current - previous) / previous) * 100 : null;
+}
+
+export function getTotalCosts(reports: Report[], periods: string[]): number[] {
+  return periods.map(period => reports.reduce((sum, report) => sum + (report.reports[period] ?? 0), 0));
+}
+
+// the services with the highest costs of the last complete month, the change compares it with the month before
+export function getTopServiceRows(
+  reports: Report[],
+  lastMonth: string,
+  monthBefore: string,
+  limit: number = SERVICES_TO_INCLUDE,
+): ServiceRow[] {
+  const costs: Record<string, { lastMonth: number; monthBefore: number }> = {};
+  reports.forEach(report => {
+    const service = report.service ?? 'Unknown';
+    costs[service] = costs[service] ?? { lastMonth: 0, monthBefore: 0 };
+    costs[service].lastMonth += report.reports[lastMonth] ?? 0;
+    costs[service].monthBefore += report.reports[monthBefore] ?? 0;
+  });
+
+  return Object.entries(costs)
+    .filter(([_service, cost]) => cost.lastMonth > 0)
+    .map(([service, cost]) => ({
+      service: service,
+      lastMonth: cost.lastMonth,
+      change: getChange(cost.lastMonth, cost.monthBefore),
+    }))
+    .sort((a, b) => b.lastMonth - a.lastMonth)
+    .slice(0, limit);
+}
+
+const ChangeChip = ({ change }: { change: number | null }) => {
+  if (change === null) {
+    return <>-</>;
+  }
+  return (
+    <Chip
+      size="small"
+      variant="outlined"
+      label={`${change > 0 ? '+' : ''}${change.toFixed(1)}%`}
+      color={change > 0 ? 'error' : 'success'}
+    />
+  );
+};
+
+export const HomePageInfraWalletCard = ({ walletName = 'default' }: { walletName?: string }) => {
+  const infraWalletApi = useApi(infraWalletApiRef);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [errors, setErrors] = useState<CloudProviderError[]>([]);
+  const [reports, setReports] = useState<Report[]>([]);
+
+  const [startTime, endTime] = useMemo(
+    () => [
+      moment()
+        .subtract(MONTHS_TO_INCLUDE - 1, 'months')
+        .startOf('month')
+        .toDate(),
+      moment().endOf('month').toDate(),
+    ],
+    [],
+  );
+  const periods = useMemo(() => getPeriodStrings('monthly', startTime, endTime), [startTime, endTime]);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await infraWalletApi.getCostReports(
+          '',
+          [],
+          '',
+          'monthly',
+          startTime,
+          endTime,
+          undefined,
+          walletName,
+        );
+        setReports(response.data ?? []);
+        setErrors(response.errors ?? []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch cost reports');
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchData();
+  }, [walletName, infraWalletApi, startTime, endTime]);
+
+  // the current month is not complete, the change compares the two months before it
+  const lastMonth = periods[periods.length - 2];
+  const monthBefore = periods[periods.length - 3];
+  const totalCosts = getTotalCosts(reports, periods);
+  const rows = getTopServiceRows(reports, lastMonth, monthBefore);
+  // the costs are converted into the wallet currency by the backend
+  const currency = reports.find(report => report.currency)?.currency;
+
+  if (loading) {
+    return <Progress />;
+  }
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+  if (rows.length === 0) {
+    return (
+      <Alert severity="info">
+        No costs were found in the wallet {walletName} for {lastMonth}.
+      </Alert>
+    );
+  }
+
+  return (
+    <Box>
+      {errors.length > 0 && <ErrorsAlertComponent errors={errors} />}
+      <Box display="flex" alignItems="center">
+        <Typography variant="h6" sx={{ fontWeight: 'bold', mr: 1 }}>
+          {lastMonth}: {formatCurrency(totalCosts[periods.length - 2], currency)}
+        </Typography>
+        <ChangeChip change={getChange(totalCosts[periods.length - 2], totalCosts[periods.length - 3])} />
+      </Box>
+      <Box height={80}>
+        <SparkLineChart data={totalCosts} plotType="bar" />
+      </Box>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 'bold' }}>Service</TableCell>
+            <TableCell align="right" sx={{ fontWeight: 'bold' }}>
+              {lastMonth}
+            </TableCell>
+            <TableCell align="right" sx={{ fontWeight: 'bold' }}>
+              Monthly Change
+            </TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.service}>
+              <TableCell component="th" scope="row">
+                {row.service}
+              </TableCell>
+              <TableCell align="right">{formatCurrency(row.lastMonth, currency)}</TableCell>
+              <TableCell align="right">
+                <ChangeChip change={row.change} />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
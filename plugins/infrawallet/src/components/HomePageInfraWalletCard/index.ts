@@ -0,0 +1 @@
+export { HomePageInfraWalletCard } from './HomePageInfraWalletCard';
@@ -6,6 +6,7 @@ export const INFRAWALLET_ANNOTATION_SERVICE = 'infrawallet.io/service';
 export const INFRAWALLET_ANNOTATION_CATEGORY = 'infrawallet.io/category';
 export const INFRAWALLET_ANNOTATION_PROVIDER = 'infrawallet.io/provider';
 export const INFRAWALLET_ANNOTATION_EXTRAS = 'infrawallet.io/extra-filters';
+export const INFRAWALLET_ANNOTATION_TAGS = 'infrawallet.io/tags';
 
 export const getInfraWalletProjectAnnotation = (entity: Entity) => {
   const project = entity.metadata.annotations?.[INFRAWALLET_ANNOTATION_PROJECT] ?? '';
@@ -41,3 +42,9 @@ export const getInfraWalletExtrasAnnotation = (entity: Entity) => {
 
   return extras;
 };
+
+export const getInfraWalletTagsAnnotation = (entity: Entity) => {
+  const tags = entity.metadata.annotations?.[INFRAWALLET_ANNOTATION_TAGS] ?? '';
+
+  return tags;
+};
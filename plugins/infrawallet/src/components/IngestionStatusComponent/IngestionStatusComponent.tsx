@@ -0,0 +1,140 @@
+import { alertApiRef, useApi } from '@backstage/core-plugin-api';
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import { DataGrid, GridColDef, GridPaginationModel, GridRenderCellParams } from '@mui/x-data-grid';
+import moment from 'moment';
+import { FC, useCallback, useEffect, useState } from 'react';
+import { infraWalletApiRef } from '../../api/InfraWalletApi';
+import { IngestionRun, IngestionStatus } from '../../api/types';
+import { useSelectedWallet } from '../../hooks/useSelectedWallet';
+
+const formatTime = (value?: string) => (value ? moment(value).format('YYYY-MM-DD HH:mm:ss') : '');
+
+const statusColors: Record<string, 'success' | 'warning' | 'error'> = {
+  succeeded: 'success',
+  skipped: 'warning',
+  failed: 'error',
+};
+
+const renderStatusCell = (params: GridRenderCellParams<IngestionRun>) => (
+  <Chip size="small" label={params.value} color={statusColors[params.value] ?? 'default'} variant="outlined" />
+);
+
+const renderTextCell = (params: GridRenderCellParams<IngestionRun>) => {
+  if (params.value === undefined || params.value === null) {
+    return '';
+  }
+
+  const text = typeof params.value === 'string' ? params.value : JSON.stringify(params.value);
+  return (
+    <Tooltip title={<pre style={{ margin: 0, whiteSpace: 'pre-wrap' }}>{text}</pre>}>
+      <span>{text}</span>
+    </Tooltip>
+  );
+};
+
+export const IngestionStatusComponent: FC = () => {
+  const alertApi = useApi(alertApiRef);
+  const infraWalletApi = useApi(infraWalletApiRef);
+  const { walletName } = useSelectedWallet();
+  const [statuses, setStatuses] = useState<IngestionStatus[]>([]);
+  const [statusesLoading, setStatusesLoading] = useState<boolean>(true);
+  const [runs, setRuns] = useState<IngestionRun[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [runsLoading, setRunsLoading] = useState<boolean>(true);
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>({ page: 0, pageSize: 20 });
+
+  const fetchIngestionStatus = useCallback(async () => {
+    setStatusesLoading(true);
+    try {
+      const response = await infraWalletApi.getIngestionStatus(walletName);
+      setStatuses(response.data ?? []);
+    } catch (e) {
+      alertApi.post({ message: `${(e as Error).message}`, severity: 'error' });
+    }
+    setStatusesLoading(false);
+  }, [alertApi, infraWalletApi, walletName]);
+
+  const fetchIngestionRuns = useCallback(async () => {
+    setRunsLoading(true);
+    try {
+      const response = await infraWalletApi.getIngestionRuns(
+        walletName,
+        paginationModel.page,
+        paginationModel.pageSize,
+      );
+      setRuns(response.data ?? []);
+      setTotal(response.total ?? 0);
+    } catch (e) {
+      alertApi.post({ message: `${(e as Error).message}`, severity: 'error' });
+    }
+    setRunsLoading(false);
+  }, [alertApi, infraWalletApi, walletName, paginationModel]);
+
+  useEffect(() => {
+    fetchIngestionStatus();
+  }, [fetchIngestionStatus]);
+
+  useEffect(() => {
+    fetchIngestionRuns();
+  }, [fetchIngestionRuns]);
+
+  const statusColumns: GridColDef[] = [
+    { field: 'provider', headerName: 'Provider', width: 140 },
+    { field: 'integration', headerName: 'Integration', flex: 1 },
+    { field: 'granularity', headerName: 'Granularity', width: 110 },
+    {
+      field: 'last_succeeded_at',
+      headerName: 'Last Successful Sync',
+      width: 180,
+      valueFormatter: (value?: string) => (value ? formatTime(value) : 'Never'),
+    },
+    { field: 'finished_at', headerName: 'Last Run', width: 180, valueFormatter: formatTime },
+    { field: 'status', headerName: 'Last Status', width: 120, renderCell: renderStatusCell },
+    { field: 'error', headerName: 'Error', flex: 2, sortable: false, renderCell: renderTextCell },
+  ];
+
+  const runColumns: GridColDef[] = [
+    { field: 'started_at', headerName: 'Started', width: 180, valueFormatter: formatTime },
+    { field: 'finished_at', headerName: 'Finished', width: 180, valueFormatter: formatTime },
+    { field: 'provider', headerName: 'Provider', width: 140 },
+    { field: 'integration', headerName: 'Integration', flex: 1 },
+    { field: 'granularity', headerName: 'Granularity', width: 110 },
+    { field: 'status', headerName: 'Status', width: 120, renderCell: renderStatusCell },
+    { field: 'rows_written', headerName: 'Rows Written', width: 120, type: 'number' },
+    { field: 'summary', headerName: 'Summary', flex: 1, sortable: false, renderCell: renderTextCell },
+    { field: 'error', headerName: 'Error', flex: 2, sortable: false, renderCell: renderTextCell },
+  ];
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      <Typography variant="h6" sx={{ mb: 1 }}>
+        Integrations
+      </Typography>
+      <DataGrid
+        rows={statuses}
+        columns={statusColumns}
+        loading={statusesLoading}
+        getRowId={row => `${row.provider}/${row.integration}/${row.granularity}`}
+        hideFooter
+        sx={{ mb: 4 }}
+      />
+      <Typography variant="h6" sx={{ mb: 1 }}>
+        Sync History
+      </Typography>
+      <DataGrid
+        rows={runs}
+        columns={runColumns}
+        loading={runsLoading}
+        rowCount={total}
+        paginationMode="server"
+        paginationModel={paginationModel}
+        onPaginationModelChange={setPaginationModel}
+        pageSizeOptions={[20, 50, 100]}
+        disableColumnSorting
+      />
+    </Box>
+  );
+};
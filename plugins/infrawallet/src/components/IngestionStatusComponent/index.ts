@@ -0,0 +1 @@
+export { IngestionStatusComponent } from './IngestionStatusComponent';
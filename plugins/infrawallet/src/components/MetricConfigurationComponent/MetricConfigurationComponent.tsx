@@ -1,4 +1,6 @@
 import { alertApiRef, configApiRef, useApi } from '@backstage/core-plugin-api';
+import { usePermission } from '@backstage/plugin-permission-react';
+import { infraWalletMetricsUpdatePermission } from '@electrolux-oss/plugin-infrawallet-common';
 import AddIcon from '@mui/icons-material/Add';
 import CancelIcon from '@mui/icons-material/Cancel';
 import DeleteIcon from '@mui/icons-material/Delete';
@@ -35,7 +37,12 @@ export const MetricConfigurationComponent: FC<{ wallet?: Wallet }> = ({ wallet }
   const [metricConfigs, setMetricConfigs] = useState<MetricConfig[]>();
   const [rowModesModel, setRowModesModel] = useState<GridRowModesModel>({});
 
-  const readOnly = configApi.getOptionalBoolean('infraWallet.settings.readOnly') ?? false;
+  const { allowed: updateAllowed } = usePermission({
+    permission: infraWalletMetricsUpdatePermission,
+    resourceRef: wallet?.name,
+  });
+
+  const readOnly = (configApi.getOptionalBoolean('infraWallet.settings.readOnly') ?? false) || !updateAllowed;
 
   function EditToolbar() {
     const handleClick = () => {
@@ -7,25 +7,27 @@ import Chip from '@mui/material/Chip';
 import Grid from '@mui/material/Grid';
 import Typography from '@mui/material/Typography';
 import { addMonths, endOfMonth, startOfMonth } from 'date-fns';
-import { useCallback, useEffect, useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { FC, useCallback, useEffect, useState } from 'react';
 import { infraWalletApiRef } from '../../api/InfraWalletApi';
 import {
   aggregateCostReports,
   filterCostReports,
+  filtersToString,
   getAllReportTags,
   getPeriodStrings,
   mergeCostReports,
 } from '../../api/functions';
-import { CloudProviderError, Filters, Metric, Report, Tag, Budget } from '../../api/types';
+import { CloudProviderError, CostAnomaly, Filters, Metric, Report, Tag, Budget } from '../../api/types';
 import { useInfraWalletLuceneParams } from '../../hooks/useInfraWalletLuceneParams';
+import { useSelectedWallet } from '../../hooks/useSelectedWallet';
 import { ColumnsChartComponent } from '../ColumnsChartComponent';
 import { CostReportsTableComponent } from '../CostReportsTableComponent';
 import { ErrorsAlertComponent } from '../ErrorsAlertComponent';
+import { ExportButtonComponent } from '../ExportButtonComponent';
 import { FiltersComponent } from '../FiltersComponent';
 import { PieChartComponent } from '../PieChartComponent';
 import { TopbarComponent } from '../TopbarComponent';
-import { MonthRange } from '../types';
+import { MonthRange, OverviewProps } from '../types';
 
 const getTotalCost = (report: Report): number => {
   let total = 0;
@@ -69,9 +71,9 @@ const checkIfFiltersActivated = (filters: Filters): boolean => {
   return activated;
 };
 
-export const Overview = () => {
+export const Overview: FC<OverviewProps> = ({ defaultFilters, defaultTags, entityName }) => {
   const configApi = useApi(configApiRef);
-  const params = useParams();
+  const { walletName, walletNameSetter, wallets, currency } = useSelectedWallet();
 
   let defaultGroupBy = configApi.getOptionalString('infraWallet.settings.defaultGroupBy') ?? 'none';
 
@@ -90,11 +92,13 @@ export const Overview = () => {
   };
 
   const { getInitialState, updateUrlState, isInitialMount } = useInfraWalletLuceneParams({
-    defaultFilters: {},
-    defaultTags: [],
+    defaultFilters: defaultFilters ?? {},
+    defaultTags: defaultTags ?? [],
     defaultMonthRange,
     defaultGranularity: 'monthly',
     defaultAggregatedBy: defaultGroupBy,
+    defaultGroups: '',
+    defaultCostMetric: '',
   });
 
   // Get initial state from URL or defaults
@@ -104,6 +108,7 @@ export const Overview = () => {
   const [reports, setReports] = useState<Report[] | undefined>(undefined);
   const [metrics, setMetrics] = useState<Metric[]>([]);
   const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [anomalies, setAnomalies] = useState<CostAnomaly[]>([]);
   const [filters, setFilters] = useState<Filters>(initialState.filters);
   const [cloudProviderErrors, setCloudProviderErrors] = useState<CloudProviderError[]>([]);
   const [reportsAggregated, setReportsAggregated] = useState<Report[] | undefined>(undefined);
@@ -111,7 +116,9 @@ export const Overview = () => {
   const [reportTags, setReportTags] = useState<string[]>([]);
   const [granularity, setGranularity] = useState<string>(initialState.granularity);
   const [aggregatedBy, setAggregatedBy] = useState<string>(initialState.aggregatedBy);
-  const [groups] = useState<string>('');
+  const [groups, setGroups] = useState<string>(initialState.groups);
+  const [costMetric, setCostMetric] = useState<string>(initialState.costMetric);
+  const [groupTagKeys, setGroupTagKeys] = useState<string[]>([]);
   const [monthRange, setMonthRange] = useState<MonthRange>(initialState.monthRange);
   const [periods, setPeriods] = useState<string[]>([]);
   const [highlightedItem, setHighlightedItem] = useState<string | undefined>(undefined);
@@ -123,7 +130,17 @@ export const Overview = () => {
     setReportsAggregated(undefined);
     setReportsAggregatedAndMerged(undefined);
     await infraWalletApi
-      .getCostReports('', selectedTags, groups, granularity, monthRange.startMonth, monthRange.endMonth)
+      .getCostReports(
+        '',
+        selectedTags,
+        groups,
+        granularity,
+        monthRange.startMonth,
+        monthRange.endMonth,
+        entityName,
+        walletName,
+        costMetric,
+      )
       .then(reportsResponse => {
         if (reportsResponse.data) {
           setReports(reportsResponse.data);
@@ -134,11 +151,11 @@ export const Overview = () => {
         }
       })
       .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
-  }, [groups, monthRange, granularity, selectedTags, infraWalletApi, alertApi]);
+  }, [walletName, groups, monthRange, granularity, selectedTags, costMetric, entityName, infraWalletApi, alertApi]);
 
   const fetchMetricsCallback = useCallback(async () => {
     await infraWalletApi
-      .getMetrics(params.name ?? 'default', granularity, monthRange.startMonth, monthRange.endMonth)
+      .getMetrics(walletName, granularity, monthRange.startMonth, monthRange.endMonth)
       .then(metricsResponse => {
         if (metricsResponse.data && metricsResponse.data.length > 0) {
           setMetrics(metricsResponse.data);
@@ -148,7 +165,87 @@ export const Overview = () => {
         }
       })
       .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
-  }, [params.name, monthRange, granularity, infraWalletApi, alertApi]);
+  }, [walletName, monthRange, granularity, infraWalletApi, alertApi]);
+
+  const fetchAnomaliesCallback = useCallback(async () => {
+    setAnomalies([]);
+    await infraWalletApi
+      .getCostAnomalies(walletName, monthRange.startMonth, monthRange.endMonth)
+      .then(anomaliesResponse => {
+        if (anomaliesResponse.data) {
+          setAnomalies(anomaliesResponse.data);
+        }
+      })
+      .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
+  }, [walletName, monthRange, infraWalletApi, alertApi]);
+
+  // the export follows the state of the page, which is also the one kept in the URL
+  const exportCostReportsCallback = useCallback(
+    async (format: 'csv' | 'xlsx') => {
+      await infraWalletApi
+        .exportCostReports(
+          format,
+          filtersToString(filters),
+          selectedTags,
+          groups,
+          granularity,
+          monthRange.startMonth,
+          monthRange.endMonth,
+          aggregatedBy,
+          walletName,
+          costMetric,
+        )
+        .then(blob => {
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = `infrawallet-${walletName}-${granularity}.${format}`;
+          link.click();
+          URL.revokeObjectURL(url);
+        })
+        .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
+    },
+    [
+      walletName,
+      filters,
+      selectedTags,
+      groups,
+      granularity,
+      monthRange,
+      aggregatedBy,
+      costMetric,
+      infraWalletApi,
+      alertApi,
+    ],
+  );
+
+  const fetchGroupTagKeysCallback = useCallback(async () => {
+    // same providers as the tag filters
+    const responses = await Promise.all(
+      ['AWS', 'Azure'].map(provider =>
+        infraWalletApi
+          .getTagKeys(provider, monthRange.startMonth, monthRange.endMonth, walletName)
+          .catch(() => undefined),
+      ),
+    );
+    const keys = new Set<string>();
+    responses.forEach(response => response?.data?.forEach(tag => keys.add(tag.key)));
+    setGroupTagKeys(Array.from(keys).sort((a, b) => a.localeCompare(b)));
+  }, [walletName, monthRange, infraWalletApi]);
+
+  // the split dimension comes back as a report column, the costs are also grouped by it
+  const changeGroups = useCallback(
+    (newGroups: string) => {
+      const getColumn = (value: string) => (value.startsWith('tag:') ? value.slice('tag:'.length) : value);
+      if (newGroups) {
+        setAggregatedBy(getColumn(newGroups));
+      } else if (groups && aggregatedBy === getColumn(groups)) {
+        setAggregatedBy('none');
+      }
+      setGroups(newGroups);
+    },
+    [groups, aggregatedBy],
+  );
 
   useEffect(() => {
     if (reports !== undefined) {
@@ -165,19 +262,24 @@ export const Overview = () => {
   useEffect(() => {
     fetchCostReportsCallback();
     fetchMetricsCallback();
-  }, [fetchCostReportsCallback, fetchMetricsCallback]);
+    fetchAnomaliesCallback();
+  }, [fetchCostReportsCallback, fetchMetricsCallback, fetchAnomaliesCallback]);
+
+  useEffect(() => {
+    fetchGroupTagKeysCallback();
+  }, [fetchGroupTagKeysCallback]);
 
   useEffect(() => {
     const fetchBudgets = async () => {
       try {
-        const response = await infraWalletApi.getBudgets(params.name ?? 'default');
+        const response = await infraWalletApi.getBudgets(walletName);
         setBudgets(response.data || []);
       } catch (error) {
         alertApi.post({ message: `Error fetching budgets: ${error}`, severity: 'error' });
       }
     };
     fetchBudgets();
-  }, [infraWalletApi, params.name, alertApi]);
+  }, [infraWalletApi, walletName, alertApi]);
 
   // Sync state changes to URL (skip initial mount to avoid overwriting URL params)
   useEffect(() => {
@@ -210,6 +312,18 @@ export const Overview = () => {
     }
   }, [aggregatedBy, updateUrlState, isInitialMount]);
 
+  useEffect(() => {
+    if (!isInitialMount) {
+      updateUrlState({ groups });
+    }
+  }, [groups, updateUrlState, isInitialMount]);
+
+  useEffect(() => {
+    if (!isInitialMount) {
+      updateUrlState({ costMetric });
+    }
+  }, [costMetric, updateUrlState, isInitialMount]);
+
   return (
     <Grid container spacing={3}>
       {cloudProviderErrors.length > 0 && (
@@ -222,8 +336,16 @@ export const Overview = () => {
           aggregatedBy={aggregatedBy}
           aggregatedBySetter={setAggregatedBy}
           tags={reportTags}
+          groups={groups}
+          groupsSetter={changeGroups}
+          groupTagKeys={groupTagKeys}
+          costMetric={costMetric}
+          costMetricSetter={setCostMetric}
           monthRange={monthRange}
           monthRangeSetter={setMonthRange}
+          wallets={wallets}
+          walletName={walletName}
+          walletNameSetter={walletNameSetter}
         />
       </Grid>
       <Grid item xs={12}>
@@ -242,6 +364,7 @@ export const Overview = () => {
               selectedTags={selectedTags}
               selectedTagsSetter={setSelectedTags}
               providerErrorsSetter={setCloudProviderErrors}
+              walletName={walletName}
             />
           </AccordionDetails>
         </Accordion>
@@ -253,6 +376,7 @@ export const Overview = () => {
             reportsAggregatedAndMerged ? reportsAggregatedAndMerged.map((item: any) => getTotalCost(item)) : undefined
           }
           height={450}
+          currency={currency}
           highlightedItem={highlightedItem}
           highlightedItemSetter={setHighlightedItem}
         />
@@ -277,14 +401,24 @@ export const Overview = () => {
             data: rearrangeData(item, periods),
           }))}
           budgets={budgets}
+          anomalies={anomalies}
           monthRange={monthRange}
           height={450}
+          currency={currency}
           highlightedItem={highlightedItem}
           highlightedItemSetter={setHighlightedItem}
         />
       </Grid>
+      <Grid item xs={12} display="flex" justifyContent="flex-end">
+        <ExportButtonComponent onExport={exportCostReportsCallback} />
+      </Grid>
       <Grid item xs={12}>
-        <CostReportsTableComponent reports={reportsAggregated} aggregatedBy={aggregatedBy} periods={periods} />
+        <CostReportsTableComponent
+          reports={reportsAggregated}
+          aggregatedBy={aggregatedBy}
+          periods={periods}
+          currency={currency}
+        />
       </Grid>
     </Grid>
   );
@@ -28,6 +28,7 @@ export const PieChartComponent: FC<PieChartComponentProps> = ({
   categories,
   series,
   height,
+  currency,
   highlightedItem,
   highlightedItemSetter,
 }) => {
@@ -77,7 +78,7 @@ export const PieChartComponent: FC<PieChartComponentProps> = ({
               id: 'cost-summary',
               data: data,
               valueFormatter: value => {
-                return formatCurrency(value.value);
+                return formatCurrency(value.value, currency);
               },
               highlightScope: { highlight: 'item', fade: 'global' },
               innerRadius: 70,
@@ -95,7 +96,7 @@ export const PieChartComponent: FC<PieChartComponentProps> = ({
           }
           onHighlightChange={onHighlightChange}
         >
-          {data.length ? <PieCenterLabel>Total: {formatCurrency(total)}</PieCenterLabel> : <></>}
+          {data.length ? <PieCenterLabel>Total: {formatCurrency(total, currency)}</PieCenterLabel> : <></>}
         </PieChart>
       )}
     </Paper>
@@ -100,6 +100,11 @@ const iconConfigs: Record<string, IconConfig> = {
     library: IconLibrary.SimpleIcons,
     color: '#F46800',
   },
+  prometheus: {
+    icon: 'SiPrometheus',
+    library: IconLibrary.SimpleIcons,
+    color: '#E6522C',
+  },
   elasticcloud: {
     icon: 'SiElasticcloud',
     library: IconLibrary.SimpleIcons,
@@ -110,6 +115,16 @@ const iconConfigs: Record<string, IconConfig> = {
     library: IconLibrary.SimpleIcons,
     color: '#4B9CD3',
   },
+  file: {
+    icon: 'VscFile',
+    library: IconLibrary.VSCodeCodicons,
+    color: '#607D8B',
+  },
+  allocated: {
+    icon: 'VscTypeHierarchySub',
+    library: IconLibrary.VSCodeCodicons,
+    color: '#795548',
+  },
 };
 
 export const ProviderIcon = memo(({ provider, size = 24 }: ProviderIconProps) => {
@@ -1,9 +1,12 @@
 import { Route, Routes } from 'react-router-dom';
+import { AuditLogComponent } from './AuditLogComponent';
 import { HomePage } from './HomePage';
+import { IngestionStatusComponent } from './IngestionStatusComponent';
 import { Overview } from './Overview';
 import { Budgets } from './Budgets';
 import { CustomCostsComponent } from './CustomCostsComponent';
 import { SettingsComponent } from './SettingsComponent';
+import { TeamsComponent } from './TeamsComponent';
 
 export const Router = () => {
   return (
@@ -12,8 +15,11 @@ export const Router = () => {
         <Route index element={<Overview />} />
         <Route path="overview/*" element={<Overview />} />
         <Route path="budgets/*" element={<Budgets providerErrorsSetter={() => {}} />} />
+        <Route path="teams/*" element={<TeamsComponent />} />
         <Route path="custom-costs/*" element={<CustomCostsComponent />} />
         <Route path="business-metrics/*" element={<SettingsComponent />} />
+        <Route path="sync-status/*" element={<IngestionStatusComponent />} />
+        <Route path="audit/*" element={<AuditLogComponent />} />
       </Route>
     </Routes>
   );
@@ -1,27 +1,29 @@
 import { alertApiRef, useApi } from '@backstage/core-plugin-api';
 import Grid from '@mui/material/Grid';
 import { useCallback, useEffect, useState } from 'react';
-import { useParams } from 'react-router-dom';
 import { infraWalletApiRef } from '../../api/InfraWalletApi';
 import { Wallet } from '../../api/types';
+import { useSelectedWallet } from '../../hooks/useSelectedWallet';
+import { AllocationRulesComponent } from '../AllocationRulesComponent';
+import { BackfillComponent } from '../BackfillComponent';
 import { MetricConfigurationComponent } from '../MetricConfigurationComponent';
 
 export const SettingsComponent = () => {
-  const params = useParams();
+  const { walletName } = useSelectedWallet();
   const alertApi = useApi(alertApiRef);
   const infraWalletApi = useApi(infraWalletApiRef);
   const [wallet, setWallet] = useState<Wallet>();
 
   const getWalletInfo = useCallback(async () => {
     await infraWalletApi
-      .getWalletByName(params.name ?? 'default')
+      .getWalletByName(walletName)
       .then(getWalletResponse => {
         if (getWalletResponse.data && getWalletResponse.status === 200) {
           setWallet(getWalletResponse.data);
         }
       })
       .catch(e => alertApi.post({ message: `${e.message}`, severity: 'error' }));
-  }, [params.name, infraWalletApi, alertApi]);
+  }, [walletName, infraWalletApi, alertApi]);
 
   useEffect(() => {
     getWalletInfo();
@@ -32,6 +34,12 @@ export const SettingsComponent = () => {
       <Grid item xs={12}>
         <MetricConfigurationComponent wallet={wallet} />
       </Grid>
+      <Grid item xs={12}>
+        <AllocationRulesComponent wallet={wallet} />
+      </Grid>
+      <Grid item xs={12}>
+        <BackfillComponent wallet={wallet} />
+      </Grid>
     </Grid>
   );
 };
@@ -0,0 +1,142 @@
+import { alertApiRef, useApi } from '@backstage/core-plugin-api';
+import { EntityRefLink } from '@backstage/plugin-catalog-react';
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import Typography from '@mui/material/Typography';
+import { SparkLineChart } from '@mui/x-charts/SparkLineChart';
+import { DataGrid, GridColDef, GridRenderCellParams } from '@mui/x-data-grid';
+import moment from 'moment';
+import { FC, useCallback, useEffect, useMemo, useState } from 'react';
+import { formatCurrency, getPeriodStrings } from '../../api/functions';
+import { infraWalletApiRef } from '../../api/InfraWalletApi';
+import { CloudProviderError, TeamCost } from '../../api/types';
+import { useSelectedWallet } from '../../hooks/useSelectedWallet';
+import { ErrorsAlertComponent } from '../ErrorsAlertComponent';
+
+const MONTHS_TO_INCLUDE = 6;
+
+type TeamRow = TeamCost & {
+  rank: number;
+  total: number;
+  lastMonth: number;
+  trend: number | null; // change of the last complete month compared to the month before, in percent
+};
+
+const renderTrendCell = (params: GridRenderCellParams<TeamRow>) => {
+  if (params.value === null || params.value === undefined) {
+    return '-';
+  }
+
+  const trend = params.value as number;
+  return (
+    <Chip
+      size="small"
+      variant="outlined"
+      label={`${trend > 0 ? '+' : ''}${trend.toFixed(1)}%`}
+      color={trend > 0 ? 'error' : 'success'}
+    />
+  );
+};
+
+export const TeamsComponent: FC = () => {
+  const alertApi = useApi(alertApiRef);
+  const infraWalletApi = useApi(infraWalletApiRef);
+  const { walletName, currency } = useSelectedWallet();
+  const [teamCosts, setTeamCosts] = useState<TeamCost[]>([]);
+  const [errors, setErrors] = useState<CloudProviderError[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const [startTime, endTime] = useMemo(
+    () => [
+      moment()
+        .subtract(MONTHS_TO_INCLUDE - 1, 'months')
+        .startOf('month')
+        .toDate(),
+      moment().endOf('month').toDate(),
+    ],
+    [],
+  );
+  const periods = useMemo(() => getPeriodStrings('monthly', startTime, endTime), [startTime, endTime]);
+
+  const getTeamCosts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await infraWalletApi.getTeamCosts(walletName, 'monthly', startTime, endTime);
+      setTeamCosts(response.data ?? []);
+      setErrors(response.errors ?? []);
+    } catch (e) {
+      alertApi.post({ message: `${(e as Error).message}`, severity: 'error' });
+    }
+    setLoading(false);
+  }, [alertApi, infraWalletApi, walletName, startTime, endTime]);
+
+  useEffect(() => {
+    getTeamCosts();
+  }, [getTeamCosts]);
+
+  // the current month is not complete, the trend compares the two months before it
+  const lastMonth = periods[periods.length - 2];
+  const monthBefore = periods[periods.length - 3];
+  const rows: TeamRow[] = teamCosts.map((teamCost, index) => {
+    const lastMonthCost = teamCost.reports[lastMonth] ?? 0;
+    const monthBeforeCost = teamCost.reports[monthBefore] ?? 0;
+    return {
+      ...teamCost,
+      rank: index + 1,
+      total: periods.reduce((sum, period) => sum + (teamCost.reports[period] ?? 0), 0),
+      lastMonth: lastMonthCost,
+      trend: monthBeforeCost > 0 ? ((lastMonthCost - monthBeforeCost) / monthBeforeCost) * 100 : null,
+    };
+  });
+
+  const columns: GridColDef<TeamRow>[] = [
+    { field: 'rank', headerName: '#', width: 60, type: 'number' },
+    {
+      field: 'team',
+      headerName: 'Team',
+      flex: 1,
+      renderCell: params => <EntityRefLink entityRef={params.row.team} />,
+    },
+    {
+      field: 'entities',
+      headerName: 'Entities',
+      width: 100,
+      type: 'number',
+      valueGetter: (_, row) => row.entities.length,
+    },
+    {
+      field: 'chart',
+      headerName: 'Trend',
+      width: 160,
+      sortable: false,
+      renderCell: params => (
+        <SparkLineChart data={periods.map(period => params.row.reports[period] ?? 0)} plotType="bar" />
+      ),
+    },
+    {
+      field: 'lastMonth',
+      headerName: lastMonth ?? 'Last Month',
+      width: 140,
+      type: 'number',
+      valueFormatter: (value: number) => formatCurrency(value, currency),
+    },
+    { field: 'trend', headerName: 'Change', width: 110, type: 'number', renderCell: renderTrendCell },
+    {
+      field: 'total',
+      headerName: `Total (${MONTHS_TO_INCLUDE} months)`,
+      width: 160,
+      type: 'number',
+      valueFormatter: (value: number) => formatCurrency(value, currency),
+    },
+  ];
+
+  return (
+    <Box sx={{ width: '100%' }}>
+      {errors.length > 0 && <ErrorsAlertComponent errors={errors} />}
+      <Typography variant="h6" sx={{ mb: 1 }}>
+        Costs by Team
+      </Typography>
+      <DataGrid rows={rows} columns={columns} loading={loading} getRowId={row => row.team} disableColumnMenu />
+    </Box>
+  );
+};
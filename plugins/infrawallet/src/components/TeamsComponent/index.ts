@@ -0,0 +1 @@
+export { TeamsComponent } from './TeamsComponent';
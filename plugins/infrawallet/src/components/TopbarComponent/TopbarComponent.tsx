@@ -13,16 +13,29 @@ import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { addMonths, endOfMonth, startOfMonth, subWeeks, startOfDay, endOfDay } from 'date-fns';
 import { FC } from 'react';
+import { costMetricOptions } from '../constants';
 import { TopbarComponentProps } from '../types';
 
 export const TopbarComponent: FC<TopbarComponentProps> = ({
   aggregatedBy,
   aggregatedBySetter,
   tags,
+  groups,
+  groupsSetter,
+  groupTagKeys,
+  costMetric,
+  costMetricSetter,
   monthRange,
   monthRangeSetter,
+  wallets,
+  walletName,
+  walletNameSetter,
 }) => {
   const theme = useTheme();
+  // the selected tag key is kept in the options even if the provider does not return it anymore
+  const splitTagKeys = Array.from(
+    new Set([...(groupTagKeys ?? []), ...(groups?.startsWith('tag:') ? [groups.slice('tag:'.length)] : [])]),
+  );
   const setPreDefinedMonthRange = (lastXMonth: number) => {
     monthRangeSetter({
       startMonth: startOfMonth(addMonths(new Date(), lastXMonth * -1)),
@@ -39,6 +52,19 @@ export const TopbarComponent: FC<TopbarComponentProps> = ({
 
   return (
     <Box>
+      {wallets && wallets.length > 1 && walletNameSetter && (
+        <FormControl sx={{ marginLeft: theme.spacing(1), marginRight: theme.spacing(3), minWidth: 120 }}>
+          <InputLabel variant="standard">Wallet</InputLabel>
+          <Select variant="standard" value={walletName} onChange={event => walletNameSetter(event.target.value)}>
+            {wallets.map(wallet => (
+              <MenuItem key={wallet.id} value={wallet.name}>
+                {wallet.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
       <FormControl sx={{ marginLeft: theme.spacing(1), marginRight: theme.spacing(3), minWidth: 120 }}>
         <InputLabel variant="standard">Group by</InputLabel>
         <Select variant="standard" value={aggregatedBy} onChange={event => aggregatedBySetter(event.target.value)}>
@@ -59,6 +85,42 @@ export const TopbarComponent: FC<TopbarComponentProps> = ({
         </Select>
       </FormControl>
 
+      {groupsSetter && (
+        <FormControl sx={{ marginLeft: theme.spacing(1), marginRight: theme.spacing(3), minWidth: 120 }}>
+          <InputLabel variant="standard">Split by</InputLabel>
+          <Select variant="standard" value={groups ?? ''} onChange={event => groupsSetter(event.target.value)}>
+            <MenuItem value="">
+              <em>None</em>
+            </MenuItem>
+            <MenuItem value="region">Region</MenuItem>
+            <MenuItem value="usage_type">Usage type</MenuItem>
+            <Divider />
+            <ListSubheader onClickCapture={e => e.stopPropagation()}>Tags</ListSubheader>
+            {splitTagKeys.map(tagKey => (
+              <MenuItem key={tagKey} value={`tag:${tagKey}`}>
+                {`tag:${tagKey}`}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      {costMetricSetter && (
+        <FormControl sx={{ marginLeft: theme.spacing(1), marginRight: theme.spacing(3), minWidth: 120 }}>
+          <InputLabel variant="standard">Cost metric</InputLabel>
+          <Select variant="standard" value={costMetric ?? ''} onChange={event => costMetricSetter(event.target.value)}>
+            <MenuItem value="">
+              <em>Default</em>
+            </MenuItem>
+            {costMetricOptions.map(option => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
       <FormControl sx={{ marginLeft: theme.spacing(1), marginRight: theme.spacing(3), minWidth: 120 }}>
         <LocalizationProvider dateAdapter={AdapterDateFns}>
           <DatePicker
@@ -51,3 +51,14 @@ export const colorList = [
   '#2983FF',
   '#00B1F2',
 ];
+
+// cost metrics of the Overview, each provider applies the ones it supports and the metric of its integrations otherwise
+export const costMetricOptions = [
+  { value: 'unblended', label: 'Unblended (AWS)' },
+  { value: 'blended', label: 'Blended (AWS)' },
+  { value: 'amortized', label: 'Amortized (AWS, Azure)' },
+  { value: 'net_amortized', label: 'Net amortized (AWS)' },
+  { value: 'actual', label: 'Actual (Azure)' },
+  { value: 'net', label: 'Net of credits (GCP)' },
+  { value: 'gross', label: 'Without credits (GCP)' },
+];
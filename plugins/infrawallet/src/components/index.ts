@@ -1,5 +1,7 @@
 export { InfraWalletIcon } from './InfraWalletIcon';
 export { EntityInfraWalletCard } from './EntityInfraWalletCard';
+export { EntityInfraWalletRollupCard } from './EntityInfraWalletRollupCard';
+export { EntityInfraWalletContent } from './EntityInfraWalletContent';
 import { Entity } from '@backstage/catalog-model';
 import {
   INFRAWALLET_ANNOTATION_PROJECT,
@@ -38,3 +40,7 @@ export const isInfraWalletAvailable = (entity: Entity) => {
     isInfraWalletExtrasAnnotationAvailable(entity);
   return available;
 };
+
+// the costs of these kinds are rolled up from the annotated entities they own or contain
+export const isInfraWalletRollupAvailable = (entity: Entity) =>
+  ['group', 'system', 'domain'].includes(entity.kind.toLowerCase());
@@ -1,4 +1,4 @@
-import { Report, Filters, Tag } from '../api/types';
+import { CostAnomaly, Report, Filters, Tag, Wallet } from '../api/types';
 
 export type TrendBarComponentProps = {
   categories: any[];
@@ -16,8 +16,16 @@ export type TopbarComponentProps = {
   aggregatedBy: string;
   aggregatedBySetter: any;
   tags: string[];
+  groups?: string;
+  groupsSetter?: (groups: string) => void;
+  groupTagKeys?: string[];
+  costMetric?: string;
+  costMetricSetter?: (costMetric: string) => void;
   monthRange: MonthRange;
   monthRangeSetter: any;
+  wallets?: Wallet[];
+  walletName?: string;
+  walletNameSetter?: (walletName: string) => void;
 };
 
 export type FiltersComponentProps = {
@@ -28,6 +36,7 @@ export type FiltersComponentProps = {
   selectedTags?: Tag[];
   selectedTagsSetter: any;
   providerErrorsSetter: any;
+  walletName?: string;
 };
 
 export type QueryComponentProps = {
@@ -44,9 +53,11 @@ export type ColumnsChartComponentProps = {
   costs: Array<{ name: string; data: any[]; forecast?: any[] }> | undefined;
   metrics?: Array<{ name: string; group?: string; data: any[] }>;
   budgets?: any[];
+  anomalies?: CostAnomaly[];
   forecasts?: Record<string, number>;
   monthRange?: MonthRange;
   height?: number;
+  currency?: string;
   highlightedItem: string | undefined;
   highlightedItemSetter: any;
 };
@@ -55,6 +66,7 @@ export type PieChartComponentProps = {
   categories: string[] | undefined;
   series: number[] | undefined;
   height?: number;
+  currency?: string;
   highlightedItem: string | undefined;
   highlightedItemSetter: any;
 };
@@ -63,10 +75,15 @@ export type CostReportsTableComponentProps = {
   reports: Report[] | undefined;
   aggregatedBy: string;
   periods: string[];
+  currency?: string;
+};
+
+export type ExportButtonComponentProps = {
+  onExport: (format: 'csv' | 'xlsx') => Promise<void>;
 };
 
 export type Metric = {
-  metricProvider: 'datadog' | 'grafanacloud';
+  metricProvider: string; // the key of a built-in or registered metric provider
   metricName: string;
   description?: string;
   query: string;
@@ -81,6 +98,12 @@ export type BudgetsProps = {
   providerErrorsSetter: any;
 };
 
+export type OverviewProps = {
+  defaultFilters?: Filters; // used when the URL has no query, such as to scope the page to a catalog entity
+  defaultTags?: Tag[];
+  entityName?: string; // namespace/name of the catalog entity, passed to the report filters of the backend
+};
+
 export type HomePageProps = {
   title?: string;
 };
@@ -168,6 +168,22 @@ describe('useInfraWalletLuceneParams', () => {
       expect(state.aggregatedBy).toBe('service');
     });
 
+    it('should parse groups from splitBy URL parameter', () => {
+      mockSearchParams.set('splitBy', 'tag:team');
+
+      const state = getInitialState();
+
+      expect(state.groups).toBe('tag:team');
+    });
+
+    it('should parse the cost metric from costMetric URL parameter', () => {
+      mockSearchParams.set('costMetric', 'amortized');
+
+      const state = getInitialState();
+
+      expect(state.costMetric).toBe('amortized');
+    });
+
     it('should handle invalid Lucene query gracefully', () => {
       mockSearchParams.set('q', 'invalid:::query::');
 
@@ -312,6 +328,31 @@ describe('useInfraWalletLuceneParams', () => {
       expect(newParams.get('groupBy')).toBe('service');
     });
 
+    it('should update groups as splitBy in URL and remove it when empty', () => {
+      const { result } = renderHookAndGetResult();
+
+      const newParams = getUpdatedSearchParams(result, { groups: 'usage_type' });
+      expect(newParams.get('splitBy')).toBe('usage_type');
+
+      const clearedParams = getUpdatedSearchParams(result, { groups: '' }, new URLSearchParams('splitBy=region'), 1);
+      expect(clearedParams.has('splitBy')).toBe(false);
+    });
+
+    it('should update the cost metric in URL and remove it when empty', () => {
+      const { result } = renderHookAndGetResult();
+
+      const newParams = getUpdatedSearchParams(result, { costMetric: 'net_amortized' });
+      expect(newParams.get('costMetric')).toBe('net_amortized');
+
+      const clearedParams = getUpdatedSearchParams(
+        result,
+        { costMetric: '' },
+        new URLSearchParams('costMetric=amortized'),
+        1,
+      );
+      expect(clearedParams.has('costMetric')).toBe(false);
+    });
+
     it('should merge filters with existing URL state when updating only filters', () => {
       mockSearchParams.set('q', encodeURIComponent('provider:aws'));
       mockSearchParams.set('from', '2024-01');
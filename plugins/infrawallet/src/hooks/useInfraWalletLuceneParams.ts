@@ -189,6 +189,8 @@ export interface InfraWalletLuceneUrlState {
   monthRange: MonthRange;
   granularity: string;
   aggregatedBy: string;
+  groups: string;
+  costMetric: string;
 }
 
 interface UseInfraWalletLuceneParamsOptions {
@@ -197,6 +199,8 @@ interface UseInfraWalletLuceneParamsOptions {
   defaultMonthRange?: MonthRange;
   defaultGranularity?: string;
   defaultAggregatedBy?: string;
+  defaultGroups?: string;
+  defaultCostMetric?: string;
 }
 
 /**
@@ -245,12 +249,22 @@ export const useInfraWalletLuceneParams = (options: UseInfraWalletLuceneParamsOp
     const groupByParam = searchParams.get('groupBy');
     const aggregatedBy = groupByParam || options.defaultAggregatedBy || 'none';
 
+    // Dimension the costs are split by in the backend query
+    const splitByParam = searchParams.get('splitBy');
+    const groups = splitByParam || options.defaultGroups || '';
+
+    // Cost metric of the providers that support it, the one of each integration if empty
+    const costMetricParam = searchParams.get('costMetric');
+    const costMetric = costMetricParam || options.defaultCostMetric || '';
+
     return {
       filters: finalFilters,
       selectedTags,
       monthRange,
       granularity,
       aggregatedBy,
+      groups,
+      costMetric,
     };
   }, [searchParams, options]);
 
@@ -298,6 +312,24 @@ export const useInfraWalletLuceneParams = (options: UseInfraWalletLuceneParamsOp
             newParams.set('groupBy', state.aggregatedBy);
           }
 
+          // Update groups (splitBy)
+          if (state.groups !== undefined) {
+            if (state.groups) {
+              newParams.set('splitBy', state.groups);
+            } else {
+              newParams.delete('splitBy');
+            }
+          }
+
+          // Update cost metric
+          if (state.costMetric !== undefined) {
+            if (state.costMetric) {
+              newParams.set('costMetric', state.costMetric);
+            } else {
+              newParams.delete('costMetric');
+            }
+          }
+
           return newParams;
         },
         { replace: true },
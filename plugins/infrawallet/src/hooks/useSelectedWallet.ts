@@ -0,0 +1,21 @@
+import { useOutletContext } from 'react-router-dom';
+import { Wallet } from '../api/types';
+
+export const DEFAULT_WALLET_NAME = 'default';
+
+export type SelectedWalletContext = {
+  walletName: string;
+  walletNameSetter: (walletName: string) => void;
+  wallets: Wallet[];
+  currency?: string;
+};
+
+/**
+ * Get the wallet selected on the InfraWallet home page
+ * Falls back to the default wallet when the component is rendered outside of the home page
+ */
+export const useSelectedWallet = (): SelectedWalletContext => {
+  const context = useOutletContext<SelectedWalletContext | undefined>();
+
+  return context ?? { walletName: DEFAULT_WALLET_NAME, walletNameSetter: () => {}, wallets: [] };
+};
@@ -1,4 +1,4 @@
-export { isInfraWalletAvailable } from './components';
+export { isInfraWalletAvailable, isInfraWalletRollupAvailable } from './components';
 export { InfraWalletIcon } from './components';
-export { infraWalletPlugin, InfraWalletPage, EntityInfraWalletCard } from './plugin';
+export { infraWalletPlugin, InfraWalletPage, EntityInfraWalletCard, EntityInfraWalletRollupCard } from './plugin';
 export { infrawalletPlugin as default } from './plugin';
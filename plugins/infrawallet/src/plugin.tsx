@@ -14,12 +14,14 @@ import {
   createComponentExtension,
   createRouteRef,
 } from '@backstage/core-plugin-api';
+import { EntityCardBlueprint, EntityContentBlueprint } from '@backstage/plugin-catalog-react/alpha';
+import { HomePageWidgetBlueprint } from '@backstage/plugin-home-react/alpha';
 
-import { rootRouteRef } from './routes';
+import { budgetsRouteRef, businessMetricsRouteRef, customCostsRouteRef, rootRouteRef } from './routes';
 
 import { infraWalletApiRef } from './api/InfraWalletApi';
 import { InfraWalletApiClient } from './api/InfraWalletApiClient';
-import { InfraWalletIcon } from './components';
+import { InfraWalletIcon, isInfraWalletAvailable, isInfraWalletRollupAvailable } from './components';
 
 export const page = PageBlueprint.make({
   params: {
@@ -31,6 +33,83 @@ export const page = PageBlueprint.make({
   },
 });
 
+// the sub-pages are also reachable from the main page, they are disabled by default and can be enabled in app-config.yaml
+export const budgetsPage = PageBlueprint.make({
+  name: 'budgets',
+  disabled: true,
+  params: {
+    path: '/infrawallet-budgets',
+    title: 'Budgets',
+    routeRef: budgetsRouteRef,
+    loader: () => import('./components/Budgets').then(m => <m.Budgets providerErrorsSetter={() => {}} />),
+  },
+});
+
+export const customCostsPage = PageBlueprint.make({
+  name: 'custom-costs',
+  disabled: true,
+  params: {
+    path: '/infrawallet-custom-costs',
+    title: 'Custom Costs',
+    routeRef: customCostsRouteRef,
+    loader: () => import('./components/CustomCostsComponent').then(m => <m.CustomCostsComponent />),
+  },
+});
+
+export const businessMetricsPage = PageBlueprint.make({
+  name: 'business-metrics',
+  disabled: true,
+  params: {
+    path: '/infrawallet-business-metrics',
+    title: 'Business Metrics',
+    routeRef: businessMetricsRouteRef,
+    loader: () => import('./components/SettingsComponent').then(m => <m.SettingsComponent />),
+  },
+});
+
+export const entityCard = EntityCardBlueprint.make({
+  params: {
+    filter: isInfraWalletAvailable,
+    loader: () => import('./components/EntityInfraWalletCard').then(m => <m.EntityInfraWalletCard />),
+  },
+});
+
+export const entityRollupCard = EntityCardBlueprint.make({
+  name: 'rollup',
+  params: {
+    filter: isInfraWalletRollupAvailable,
+    loader: () => import('./components/EntityInfraWalletRollupCard').then(m => <m.EntityInfraWalletRollupCard />),
+  },
+});
+
+export const entityContent = EntityContentBlueprint.make({
+  params: {
+    path: '/infrawallet',
+    title: 'InfraWallet',
+    filter: isInfraWalletAvailable,
+    loader: () => import('./components/EntityInfraWalletContent').then(m => <m.EntityInfraWalletContent />),
+  },
+});
+
+// the costs of a wallet on the home page, the wallet can be chosen in the settings of a customizable home page
+export const homePageWidget = HomePageWidgetBlueprint.make({
+  params: {
+    title: 'InfraWallet',
+    description: 'The costs of the last month and the services with the highest costs',
+    components: () =>
+      import('./components/HomePageInfraWalletCard').then(m => ({ Content: m.HomePageInfraWalletCard })),
+    settings: {
+      schema: {
+        title: 'InfraWallet',
+        type: 'object',
+        properties: {
+          walletName: { title: 'Wallet', type: 'string', default: 'default' },
+        },
+      },
+    },
+  },
+});
+
 export const api = ApiBlueprint.make({
   params: defineParams =>
     defineParams(
@@ -49,9 +128,22 @@ export const api = ApiBlueprint.make({
 
 export const infrawalletPlugin = createFrontendPlugin({
   pluginId: 'infrawallet',
-  extensions: [page, api],
+  extensions: [
+    page,
+    budgetsPage,
+    customCostsPage,
+    businessMetricsPage,
+    entityCard,
+    entityRollupCard,
+    entityContent,
+    homePageWidget,
+    api,
+  ],
   routes: {
     root: rootRouteRef,
+    budgets: budgetsRouteRef,
+    customCosts: customCostsRouteRef,
+    businessMetrics: businessMetricsRouteRef,
   },
 });
 
@@ -105,3 +197,16 @@ export const EntityInfraWalletCard = infraWalletPlugin.provide(
     },
   }),
 );
+
+/**
+ * Legacy component extension for old frontend system compatibility
+ * @deprecated Use infrawalletPlugin for the new frontend system
+ */
+export const EntityInfraWalletRollupCard = infraWalletPlugin.provide(
+  createComponentExtension({
+    name: 'EntityInfraWalletRollupCard',
+    component: {
+      lazy: () => import('./components/EntityInfraWalletRollupCard').then(m => m.EntityInfraWalletRollupCard),
+    },
+  }),
+);
@@ -1,3 +1,8 @@
 import { createRouteRef } from '@backstage/frontend-plugin-api';
 
 export const rootRouteRef = createRouteRef();
+
+// the sub-pages that can be mounted separately from the main page
+export const budgetsRouteRef = createRouteRef();
+export const customCostsRouteRef = createRouteRef();
+export const businessMetricsRouteRef = createRouteRef();